@@ -23,6 +23,37 @@ export const CACHE_CONFIG = {
   TTL_DYNAMIC_MINUTES: parseInt(process.env.CACHE_TTL_DYNAMIC_MINUTES || '30'), // Time-to-live for dynamic data (minutes)
 } as const;
 
+// ===== STORAGE CONFIGURATION =====
+export const STORAGE_CONFIG = {
+  BACKEND: process.env.STORAGE_BACKEND || 'jsonl', // Storage backend: 'memory' (tests), 'jsonl' (append-only files) or 'sqlite' (single database file)
+  DATA_DIR: process.env.MD_MCP_DATA_DIR || './data', // Directory holding JSON-lines files
+  SQLITE_FILE: process.env.MD_MCP_SQLITE_FILE || `${process.env.MD_MCP_DATA_DIR || './data'}/md-mcp.sqlite`, // Database file for the sqlite backend
+} as const;
+
+// ===== AUDIT CONFIGURATION =====
+export const AUDIT_CONFIG = {
+  SIGNING_KEY: process.env.AUDIT_SIGNING_KEY || '', // HMAC key for signing audit checkpoints; checkpoints are skipped when empty
+  PSEUDONYM_KEY: process.env.AUDIT_PSEUDONYM_KEY || '', // HMAC key for patient pseudonyms in redacted audit exports; redaction is refused when empty
+  CHECKPOINT_INTERVAL: parseInt(process.env.AUDIT_CHECKPOINT_INTERVAL || '100'), // Number of audit events between signed checkpoints
+} as const;
+
+// ===== KNOWLEDGE BASE CONFIGURATION =====
+export const KNOWLEDGE_BASE_CONFIG = {
+  INTERACTIONS_DIR: process.env.MD_MCP_INTERACTION_KB_DIR || '', // Directory holding the interaction knowledge base manifest; defaults to the bundled knowledge/interactions
+  DRUG_TAXONOMY_FILE: process.env.MD_MCP_DRUG_TAXONOMY_FILE || '', // Drug class taxonomy file; defaults to the bundled knowledge/drug_classes/taxonomy.json
+  DRUG_NAME_DICTIONARY_FILE: process.env.MD_MCP_DRUG_NAME_DICTIONARY_FILE || '', // Drug name synonym dictionary; defaults to the bundled knowledge/drug_names/synonyms.json
+  PK_PROFILES_FILE: process.env.MD_MCP_PK_PROFILES_FILE || '', // CYP450 and P-gp profiles; defaults to the bundled knowledge/pharmacokinetics/profiles.json
+  DRUG_ATTRIBUTES_FILE: process.env.MD_MCP_DRUG_ATTRIBUTES_FILE || '', // Per-drug attributes for list-wide risk scores; defaults to the bundled knowledge/drug_attributes/attributes.json
+  ALLERGY_RULES_FILE: process.env.MD_MCP_ALLERGY_RULES_FILE || '', // Allergy groups and cross-sensitivity rules; defaults to the bundled knowledge/allergies/cross_sensitivity.json
+  PREGNANCY_LACTATION_FILE: process.env.MD_MCP_PREGNANCY_LACTATION_FILE || '', // Pregnancy and lactation safety data; defaults to the bundled knowledge/pregnancy_lactation/safety.json
+  GERIATRIC_CRITERIA_FILE: process.env.MD_MCP_GERIATRIC_CRITERIA_FILE || '', // Beers and STOPP/START criteria; defaults to the bundled knowledge/geriatrics/criteria.json
+  THERAPEUTIC_DUPLICATION_FILE: process.env.MD_MCP_THERAPEUTIC_DUPLICATION_FILE || '', // Therapeutic duplication groups; defaults to the bundled knowledge/therapeutic_duplication/groups.json
+  DRUG_LAB_RULES_FILE: process.env.MD_MCP_DRUG_LAB_RULES_FILE || '', // Drug-laboratory rules for lab-contingent safety checks; defaults to the bundled knowledge/drug_lab/rules.json
+  RENAL_DOSING_FILE: process.env.MD_MCP_RENAL_DOSING_FILE || '', // Drug-specific renal dosing tables; defaults to the bundled knowledge/renal_dosing/tables.json
+  HEPATIC_DOSING_FILE: process.env.MD_MCP_HEPATIC_DOSING_FILE || '', // Drug-specific hepatic dosing tables by Child-Pugh class; defaults to the bundled knowledge/hepatic_dosing/tables.json
+  ADMINISTRATION_SEPARATIONS_FILE: process.env.MD_MCP_ADMINISTRATION_SEPARATIONS_FILE || '', // Minimum times between oral doses of interacting drugs; defaults to the bundled knowledge/administration_timing/separations.json
+} as const;
+
 // ===== MCP SERVER CONFIGURATION =====
 export const MCP_SERVER_CONFIG = {
   SERVER_NAME: process.env.MCP_SERVER_NAME || 'md-mcp-server',
@@ -81,23 +112,24 @@ export const SERVER_DESCRIPTION = {
       "HIPAA-compliant data handling",
       "Clinical validation requirements",
       "Audit trail for all decisions",
+      "Hash-chained audit log with signed checkpoints",
       "Version control for protocol updates",
       "Evidence-based recommendations"
     ],
     tool_categories: {
       medication_reconciliation: {
         description: "WHO High 5s standardized medication reconciliation process",
-        tools: ["gather_bpmh", "compare_medications", "resolve_discrepancy"],
-        use_cases: ["Hospital admission", "Transfer between units", "Discharge planning"]
+        tools: ["gather_bpmh", "compare_medications", "resolve_discrepancy", "review_geriatric_medications"],
+        use_cases: ["Hospital admission", "Transfer between units", "Discharge planning", "Geriatric medication review"]
       },
       therapeutic_drug_monitoring: {
         description: "Clinical TDM workflow for optimizing drug dosing",
-        tools: ["assess_tdm_candidate", "calculate_steady_state", "plan_sample_collection", "interpret_tdm_result", "monitor_tdm_trends"],
-        use_cases: ["Vancomycin dosing", "Digoxin monitoring", "Antiepileptic optimization"]
+        tools: ["assess_tdm_candidate", "calculate_steady_state", "plan_sample_collection", "interpret_tdm_result", "monitor_tdm_trends", "calculate_hepatic_scores"],
+        use_cases: ["Vancomycin dosing", "Digoxin monitoring", "Antiepileptic optimization", "Dosing in liver disease"]
       },
       drug_interaction_screening: {
         description: "Comprehensive drug-drug, drug-condition, and drug-food interaction screening",
-        tools: ["screen_interactions", "assess_interaction_significance", "recommend_interaction_management", "document_interaction_decision"],
+        tools: ["screen_interactions", "assess_interaction_significance", "recommend_interaction_management", "document_interaction_decision", "get_interaction_case"],
         use_cases: ["New prescription review", "Medication list validation", "Polypharmacy management"]
       },
       soap_documentation: {
@@ -107,12 +139,12 @@ export const SERVER_DESCRIPTION = {
       },
       five_rights_administration: {
         description: "Implementation of the 5 (or 6) Rights for safe medication administration",
-        tools: ["verify_right_patient", "verify_right_medication", "verify_right_dose", "verify_right_route", "verify_right_time", "verify_right_documentation"],
-        use_cases: ["Medication administration", "Safety verification", "Nursing protocols"]
+        tools: ["verify_right_patient", "verify_right_medication", "verify_right_dose", "verify_right_route", "verify_right_time", "verify_right_documentation", "calculate_infusion_rate", "generate_mar"],
+        use_cases: ["Medication administration", "Safety verification", "Nursing protocols", "Continuous IV infusions", "Administration scheduling"]
       },
       integration_tools: {
         description: "Cross-protocol integration and comprehensive decision support",
-        tools: ["clinical_decision_support", "audit_trail"],
+        tools: ["clinical_decision_support", "audit_trail", "verify_audit_integrity"],
         use_cases: ["Multi-protocol workflows", "Quality assurance", "Clinical analytics"]
       }
     },
@@ -1,6 +1,7 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { MCP_SERVER_CONFIG, SERVER_DESCRIPTION } from "./config/appConfig.js";
+import { loadKnowledgeBases } from "./services/knowledgeBases.js";
 
 // Import generic tool and prompt registrations
 
@@ -8,6 +9,7 @@ import { MCP_SERVER_CONFIG, SERVER_DESCRIPTION } from "./config/appConfig.js";
 import { registerLabReferenceRanges } from "./resources/labReferenceRanges.js";
 import { registerVitalSignsNorms } from "./resources/vitalSignsNorms.js";
 import { registerClinicalDecisionRules } from "./resources/clinicalDecisionRules.js";
+import { registerAuditExport } from "./resources/auditExport.js";
 
 // Import MD MCP medical prompts
 import { registerMedicationReconciliationPrompt } from "./prompts/medicationReconciliationPrompt.js";
@@ -16,6 +18,8 @@ import { registerSoapDocumentationPrompt } from "./prompts/soapDocumentationProm
 import { registerDrugInteractionPrompt } from "./prompts/drugInteractionPrompt.js";
 import { registerClinicalDecisionPrompt } from "./prompts/clinicalDecisionPrompt.js";
 
+loadKnowledgeBases();
+
 // Create generic MCP Server
 const server = new McpServer({
   name: SERVER_DESCRIPTION.name,
@@ -30,6 +34,7 @@ const server = new McpServer({
 registerLabReferenceRanges(server);
 registerVitalSignsNorms(server);
 registerClinicalDecisionRules(server);
+registerAuditExport(server);
 
 // Register MD MCP medical prompts
 registerMedicationReconciliationPrompt(server);
@@ -43,6 +48,7 @@ registerClinicalDecisionPrompt(server);
 import { registerGatherBpmhTool } from "./tools/medrec/gatherBpmh.js";
 import { registerCompareMedicationsTool } from "./tools/medrec/compareMedications.js";
 import { registerResolveDiscrepancyTool } from "./tools/medrec/resolveDiscrepancy.js";
+import { registerReviewGeriatricMedicationsTool } from "./tools/medrec/reviewGeriatricMedications.js";
 
 // Therapeutic Drug Monitoring Tools
 import { registerAssessTdmCandidateTool } from "./tools/tdm/assessTdmCandidate.js";
@@ -50,12 +56,14 @@ import { registerCalculateSteadyStateTool } from "./tools/tdm/calculateSteadySta
 import { registerPlanSampleCollectionTool } from "./tools/tdm/planSampleCollection.js";
 import { registerInterpretTdmResultTool } from "./tools/tdm/interpretTdmResult.js";
 import { registerMonitorTdmTrendsTool } from "./tools/tdm/monitorTdmTrends.js";
+import { registerCalculateHepaticScoresTool } from "./tools/tdm/calculateHepaticScores.js";
 
 // Drug Interaction Screening Tools
 import { registerScreenInteractionsTool } from "./tools/interactions/screenInteractions.js";
 import { registerAssessInteractionSignificanceTool } from "./tools/interactions/assessInteractionSignificance.js";
 import { registerRecommendInteractionManagementTool } from "./tools/interactions/recommendInteractionManagement.js";
 import { registerDocumentInteractionDecisionTool } from "./tools/interactions/documentInteractionDecision.js";
+import { registerGetInteractionCaseTool } from "./tools/interactions/getInteractionCase.js";
 
 // SOAP Documentation Tools
 import { registerDocumentSubjectiveTool } from "./tools/soap/documentSubjective.js";
@@ -71,16 +79,20 @@ import { registerVerifyRightDoseTool } from "./tools/five_rights/verifyRightDose
 import { registerVerifyRightRouteTool } from "./tools/five_rights/verifyRightRoute.js";
 import { registerVerifyRightTimeTool } from "./tools/five_rights/verifyRightTime.js";
 import { registerVerifyRightDocumentationTool } from "./tools/five_rights/verifyRightDocumentation.js";
+import { registerCalculateInfusionRateTool } from "./tools/five_rights/calculateInfusionRate.js";
+import { registerGenerateMarTool } from "./tools/five_rights/generateMar.js";
 
 // Integration Tools
 import { registerClinicalDecisionSupportTool } from "./tools/integration/clinicalDecisionSupport.js";
 import { registerAuditTrailTool } from "./tools/integration/auditTrail.js";
+import { registerVerifyAuditIntegrityTool } from "./tools/integration/verifyAuditIntegrity.js";
 
 // Register all MD MCP tools
 // Medication Reconciliation
 registerGatherBpmhTool(server);
 registerCompareMedicationsTool(server);
 registerResolveDiscrepancyTool(server);
+registerReviewGeriatricMedicationsTool(server);
 
 // Therapeutic Drug Monitoring
 registerAssessTdmCandidateTool(server);
@@ -88,12 +100,14 @@ registerCalculateSteadyStateTool(server);
 registerPlanSampleCollectionTool(server);
 registerInterpretTdmResultTool(server);
 registerMonitorTdmTrendsTool(server);
+registerCalculateHepaticScoresTool(server);
 
 // Drug Interaction Screening
 registerScreenInteractionsTool(server);
 registerAssessInteractionSignificanceTool(server);
 registerRecommendInteractionManagementTool(server);
 registerDocumentInteractionDecisionTool(server);
+registerGetInteractionCaseTool(server);
 
 // SOAP Documentation
 registerDocumentSubjectiveTool(server);
@@ -109,10 +123,13 @@ registerVerifyRightDoseTool(server);
 registerVerifyRightRouteTool(server);
 registerVerifyRightTimeTool(server);
 registerVerifyRightDocumentationTool(server);
+registerCalculateInfusionRateTool(server);
+registerGenerateMarTool(server);
 
 // Integration Tools
 registerClinicalDecisionSupportTool(server);
 registerAuditTrailTool(server);
+registerVerifyAuditIntegrityTool(server);
 
 // TODO: Add your specific resource registrations here
 // import { registerYourCustomResource } from "./resources/yourCustomResource.js";
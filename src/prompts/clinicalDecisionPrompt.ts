@@ -82,6 +82,9 @@ Use the \`audit_trail\` tool to:
 - Monitor quality metrics
 - Ensure compliance
 - Generate reports
+- Export events as FHIR AuditEvent, CSV or NDJSON (with optional PHI redaction) for compliance review
+
+Use the \`verify_audit_integrity\` tool to confirm the audit records have not been altered before relying on them.
 
 **Integration Benefits:**
 - **Holistic View:** See patient across all protocols
@@ -38,6 +38,7 @@ This prompt guides you through comprehensive drug interaction screening.
 2. Use \`assess_interaction_significance\` for detailed risk assessment
 3. Use \`recommend_interaction_management\` for evidence-based strategies
 4. Use \`document_interaction_decision\` to record clinical decisions
+5. Use \`get_interaction_case\` to review the full history of an interaction
 
 **Perfect for:** New prescriptions, medication reviews, polypharmacy management`,
     argsSchema: drugInteractionArgsSchema.shape,
@@ -87,6 +88,8 @@ Use the \`document_interaction_decision\` tool to record:
 - Follow-up requirements
 - Quality metrics
 
+Use the \`get_interaction_case\` tool with an interaction_id to review everything recorded for that interaction.
+
 **Screening Categories:**
 - **Contraindicated:** Avoid combination
 - **Serious:** Monitor closely, consider alternatives
@@ -0,0 +1,136 @@
+/**
+ * Audit Export Resource
+ * Downloadable audit trail exports as FHIR R4 AuditEvent bundles, CSV or NDJSON
+ */
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { z } from "zod";
+import { ResourceMetadata } from "../types/mcp.js";
+import { GenericError, ErrorType, ErrorSeverity } from "../types/errors.js";
+import { AUDIT_PROTOCOLS, AuditProtocol, getAuditLog } from "../services/auditLog.js";
+import { AUDIT_EXPORT_FORMATS, AuditExportFormat, exportAuditEvents, findPatientByPseudonym } from "../services/auditExport.js";
+import { processAuditTrail } from "../tools/integration/auditTrail.js";
+
+// Schema for resource parameters
+const AuditExportParamsSchema = z.object({
+  format: z.enum(['fhir', 'csv', 'ndjson']).describe("Export format"),
+  patient_id: z.string().min(1).describe("Patient identifier, or the patient's pseudonym when redact is 'true'"),
+  start: z.string().describe("ISO8601 start datetime"),
+  end: z.string().describe("ISO8601 end datetime"),
+  protocols: z.string().describe("Comma-separated protocols to include"),
+  redact: z.string().describe("'true' to pseudonymize patient identifiers and withhold decision text")
+});
+
+export function registerAuditExport(server: McpServer): void {
+  const resourceName = "audit_export";
+  const resourceTemplate = new ResourceTemplate(
+    "mcp://md-mcp/audit-export/{format}{?patient_id,start,end,protocols,redact}",
+    { list: undefined }
+  );
+
+  const resourceConfig: ResourceMetadata = {
+    title: "Audit Trail Export",
+    description: `**Audit Trail Export for Compliance Review**
+
+Serves the events returned by the \`audit_trail\` tool as a downloadable file:
+- **fhir**: FHIR R4 Bundle of AuditEvent resources (application/fhir+json)
+- **csv**: One row per event with a header row (text/csv)
+- **ndjson**: One JSON event per line (application/x-ndjson)
+
+**Parameters (all required, in this order):**
+- **patient_id**: Patient identifier, or with \`redact=true\` the patient's pseudonym
+- **start** / **end**: ISO8601 time range
+- **protocols**: Comma-separated protocol filter
+- **redact**: \`true\` to pseudonymize patient identifiers and withhold decision text
+
+The \`audit_trail\` tool returns a ready-made URI in \`export.resource_uri\` when called with an export_format; for a redacted export it carries the pseudonym rather than the patient identifier.
+
+**Usage Examples:**
+- mcp://md-mcp/audit-export/csv?patient_id=12345&start=2024-01-01T00:00:00Z&end=2024-01-31T23:59:59Z&protocols=medrec,interactions&redact=true
+
+**Perfect for:** Compliance review, external audit tools, regulatory reporting`,
+    schema: AuditExportParamsSchema,
+  };
+
+  const resourceFetcher = async (uri: URL, variables: Variables) => {
+    const format = readVariable(variables, 'format') as AuditExportFormat;
+    const redact = uri.searchParams.get('redact') === 'true';
+    const requestedPatientId = uri.searchParams.get('patient_id') || '';
+    // Redacted export URIs name the patient by pseudonym so the identifier stays out of the link
+    const patientId = redact && requestedPatientId
+      ? findPatientByPseudonym(requestedPatientId, getAuditLog().patientIds()) ?? requestedPatientId
+      : requestedPatientId;
+    const protocols = (uri.searchParams.get('protocols') || '')
+      .split(',')
+      .map(protocol => protocol.trim())
+      .filter(protocol => protocol.length > 0) as AuditProtocol[];
+
+    if (!AUDIT_EXPORT_FORMATS.includes(format)) {
+      throw new GenericError(ErrorType.INVALID_INPUT, `Unsupported audit export format '${format}'`, {
+        severity: ErrorSeverity.MEDIUM,
+        suggestions: [`Use one of: ${AUDIT_EXPORT_FORMATS.join(', ')}`],
+        details: { format },
+      });
+    }
+
+    if (!patientId) {
+      throw new GenericError(ErrorType.MISSING_REQUIRED_FIELD, 'patient_id is required to export an audit trail', {
+        severity: ErrorSeverity.MEDIUM,
+        suggestions: ['Add ?patient_id=<id> to the resource URI'],
+      });
+    }
+
+    const unknownProtocols = protocols.filter(protocol => !AUDIT_PROTOCOLS.includes(protocol));
+    if (unknownProtocols.length > 0) {
+      throw new GenericError(ErrorType.INVALID_INPUT, `Unknown protocols: ${unknownProtocols.join(', ')}`, {
+        severity: ErrorSeverity.MEDIUM,
+        suggestions: [`Use protocols from: ${AUDIT_PROTOCOLS.join(', ')}`],
+        details: { protocols },
+      });
+    }
+
+    const input = {
+      patient_id: patientId,
+      time_range: {
+        start: uri.searchParams.get('start') || '',
+        end: uri.searchParams.get('end') || ''
+      },
+      protocol_filter: protocols,
+      redact_phi: redact
+    };
+
+    const { audit_trail } = processAuditTrail(input);
+    const auditExport = exportAuditEvents(audit_trail.events, format, input.redact_phi);
+
+    getAuditLog().recordToolEvent({
+      tool: resourceName,
+      patient_id: patientId,
+      actor: null,
+      input: { ...input, export_format: format },
+      output: auditExport,
+      decision: `${auditExport.record_count} audit events exported as ${format}${auditExport.redacted ? ' (redacted)' : ''}`
+    });
+
+    return {
+      contents: [{
+        uri: uri.href,
+        mimeType: auditExport.mime_type,
+        text: auditExport.content,
+        _meta: { record_count: auditExport.record_count, redacted: auditExport.redacted }
+      }]
+    };
+  };
+
+  server.registerResource(
+    resourceName,
+    resourceTemplate,
+    resourceConfig,
+    resourceFetcher
+  );
+}
+
+function readVariable(variables: Variables, name: string): string {
+  const value = variables[name];
+  return (Array.isArray(value) ? value[0] : value) ?? '';
+}
@@ -6,6 +6,7 @@ import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import { MCP_SERVER_CONFIG, SERVER_DESCRIPTION } from "./config/appConfig.js";
+import { loadKnowledgeBases } from "./services/knowledgeBases.js";
 
 // Import our generic tool and prompt registrations
 
@@ -13,6 +14,7 @@ import { MCP_SERVER_CONFIG, SERVER_DESCRIPTION } from "./config/appConfig.js";
 import { registerLabReferenceRanges } from "./resources/labReferenceRanges.js";
 import { registerVitalSignsNorms } from "./resources/vitalSignsNorms.js";
 import { registerClinicalDecisionRules } from "./resources/clinicalDecisionRules.js";
+import { registerAuditExport } from "./resources/auditExport.js";
 
 // Import MD MCP medical prompts
 import { registerMedicationReconciliationPrompt } from "./prompts/medicationReconciliationPrompt.js";
@@ -26,6 +28,7 @@ import { registerClinicalDecisionPrompt } from "./prompts/clinicalDecisionPrompt
 import { registerGatherBpmhTool } from "./tools/medrec/gatherBpmh.js";
 import { registerCompareMedicationsTool } from "./tools/medrec/compareMedications.js";
 import { registerResolveDiscrepancyTool } from "./tools/medrec/resolveDiscrepancy.js";
+import { registerReviewGeriatricMedicationsTool } from "./tools/medrec/reviewGeriatricMedications.js";
 
 // Therapeutic Drug Monitoring Tools
 import { registerAssessTdmCandidateTool } from "./tools/tdm/assessTdmCandidate.js";
@@ -33,12 +36,14 @@ import { registerCalculateSteadyStateTool } from "./tools/tdm/calculateSteadySta
 import { registerPlanSampleCollectionTool } from "./tools/tdm/planSampleCollection.js";
 import { registerInterpretTdmResultTool } from "./tools/tdm/interpretTdmResult.js";
 import { registerMonitorTdmTrendsTool } from "./tools/tdm/monitorTdmTrends.js";
+import { registerCalculateHepaticScoresTool } from "./tools/tdm/calculateHepaticScores.js";
 
 // Drug Interaction Screening Tools
 import { registerScreenInteractionsTool } from "./tools/interactions/screenInteractions.js";
 import { registerAssessInteractionSignificanceTool } from "./tools/interactions/assessInteractionSignificance.js";
 import { registerRecommendInteractionManagementTool } from "./tools/interactions/recommendInteractionManagement.js";
 import { registerDocumentInteractionDecisionTool } from "./tools/interactions/documentInteractionDecision.js";
+import { registerGetInteractionCaseTool } from "./tools/interactions/getInteractionCase.js";
 
 // SOAP Documentation Tools
 import { registerDocumentSubjectiveTool } from "./tools/soap/documentSubjective.js";
@@ -54,10 +59,13 @@ import { registerVerifyRightDoseTool } from "./tools/five_rights/verifyRightDose
 import { registerVerifyRightRouteTool } from "./tools/five_rights/verifyRightRoute.js";
 import { registerVerifyRightTimeTool } from "./tools/five_rights/verifyRightTime.js";
 import { registerVerifyRightDocumentationTool } from "./tools/five_rights/verifyRightDocumentation.js";
+import { registerCalculateInfusionRateTool } from "./tools/five_rights/calculateInfusionRate.js";
+import { registerGenerateMarTool } from "./tools/five_rights/generateMar.js";
 
 // Integration Tools
 import { registerClinicalDecisionSupportTool } from "./tools/integration/clinicalDecisionSupport.js";
 import { registerAuditTrailTool } from "./tools/integration/auditTrail.js";
+import { registerVerifyAuditIntegrityTool } from "./tools/integration/verifyAuditIntegrity.js";
 
 // Function to create and configure an MCP server instance
 function createServer() {
@@ -74,6 +82,7 @@ function createServer() {
     registerLabReferenceRanges(server);
     registerVitalSignsNorms(server);
     registerClinicalDecisionRules(server);
+    registerAuditExport(server);
 
     // Register MD MCP medical prompts
     registerMedicationReconciliationPrompt(server);
@@ -87,6 +96,7 @@ function createServer() {
     registerGatherBpmhTool(server);
     registerCompareMedicationsTool(server);
     registerResolveDiscrepancyTool(server);
+    registerReviewGeriatricMedicationsTool(server);
 
     // Therapeutic Drug Monitoring
     registerAssessTdmCandidateTool(server);
@@ -94,12 +104,14 @@ function createServer() {
     registerPlanSampleCollectionTool(server);
     registerInterpretTdmResultTool(server);
     registerMonitorTdmTrendsTool(server);
+    registerCalculateHepaticScoresTool(server);
 
     // Drug Interaction Screening
     registerScreenInteractionsTool(server);
     registerAssessInteractionSignificanceTool(server);
     registerRecommendInteractionManagementTool(server);
     registerDocumentInteractionDecisionTool(server);
+    registerGetInteractionCaseTool(server);
 
     // SOAP Documentation
     registerDocumentSubjectiveTool(server);
@@ -115,10 +127,13 @@ function createServer() {
     registerVerifyRightRouteTool(server);
     registerVerifyRightTimeTool(server);
     registerVerifyRightDocumentationTool(server);
+    registerCalculateInfusionRateTool(server);
+    registerGenerateMarTool(server);
 
     // Integration Tools
     registerClinicalDecisionSupportTool(server);
     registerAuditTrailTool(server);
+    registerVerifyAuditIntegrityTool(server);
 
     // TODO: Add your specific resource registrations here
     // import { registerYourCustomResource } from "./resources/yourCustomResource.js";
@@ -132,6 +147,8 @@ const transports: { [sessionId: string]: StreamableHTTPServerTransport } = {};
 
 // Express app setup for HTTP transport
 export function setupHttpServer(port: number = 3000) {
+    loadKnowledgeBases();
+
     const app = express();
     
     // Add CORS middleware
@@ -211,6 +228,8 @@ export function setupHttpServer(port: number = 3000) {
 
 // Setup for stdio transport
 export async function setupStdioServer() {
+    loadKnowledgeBases();
+
     const server = createServer();
     const transport = new StdioServerTransport();
     await server.connect(transport);
@@ -0,0 +1,243 @@
+/**
+ * Administration Separations Service
+ * Minimum times between oral doses of drugs that reduce each other's absorption, such as
+ * levothyroxine and calcium, loaded from knowledge/administration_timing/separations.json with
+ * the references they come from. Used to schedule the MAR and to check administration times.
+ */
+
+import { join } from 'node:path';
+import { z } from 'zod';
+import { KNOWLEDGE_BASE_CONFIG } from '../config/appConfig.js';
+import {
+  KNOWLEDGE_ROOT,
+  KnowledgeBaseVersion,
+  assertKnowledgeConsistent,
+  knowledgeVersionShape,
+  nonEmptyText,
+  readKnowledgeFile,
+} from './knowledgeFiles.js';
+import { DrugTaxonomy, getDrugTaxonomy } from './drugClassification.js';
+
+// ===== SEPARATION SCHEMA =====
+
+const ANY_OTHER_MEDICATION = 'any_other_medication';
+const ANY_TIME = 'any_time';
+
+// A drug that may not be given on one side of another must be taken after an overnight fast, so
+// a dose of the other drug at least this long before or after it falls on another day
+export const OVERNIGHT_FAST_HOURS = 8;
+
+const separationLimit = z.union([z.number().positive(), z.literal(ANY_TIME)]).nullable();
+
+const AdministrationSeparationsSchema = z.object({
+  ...knowledgeVersionShape,
+  separations: z.array(z.object({
+    id: nonEmptyText,
+    drug: z.array(nonEmptyText).min(1).describe('Ingredients or classes from the drug class taxonomy'),
+    separate_from: z.union([z.literal(ANY_OTHER_MEDICATION), z.array(nonEmptyText).min(1)]),
+    hours_before: separationLimit.describe('Minimum hours the drug is given before the other drug; any_time for no limit, null when it may not be given before it'),
+    hours_after: separationLimit.describe('Minimum hours the drug is given after the other drug; any_time for no limit, null when it may not be given after it'),
+    before_first_meal: z.boolean().optional().describe('Whether the drug is also given hours_before ahead of breakfast'),
+    reason: nonEmptyText,
+    references: z.array(nonEmptyText).min(1),
+  }).strict()),
+}).strict();
+
+type AdministrationSeparationsData = z.infer<typeof AdministrationSeparationsSchema>;
+type SeparationRule = AdministrationSeparationsData['separations'][number];
+
+export const DEFAULT_ADMINISTRATION_SEPARATIONS_FILE = join(KNOWLEDGE_ROOT, 'administration_timing', 'separations.json');
+
+const FORMAT_GUIDE = 'knowledge/administration_timing/README.md';
+
+// Routes whose doses are absorbed from the gut, where the separations apply
+const ORAL_ROUTES = new Set(['oral', 'po', 'by mouth', 'per os']);
+
+// ===== SEPARATION TYPES =====
+
+export interface SeparationMedication {
+  drug_name: string;
+  resolved_name: string;
+  route: string;
+}
+
+// Minimum hours on one side; 'any_time' when that side has no limit, null when it is not allowed
+export type SeparationLimit = number | typeof ANY_TIME | null;
+
+export interface SeparationRequirement {
+  rule_id: string;
+  drug_name: string; // The drug the rule times, e.g. levothyroxine
+  other_drug_name: string; // The drug it is kept apart from, e.g. calcium carbonate
+  hours_before: SeparationLimit;
+  hours_after: SeparationLimit;
+  before_first_meal: boolean; // The drug is also given hours_before ahead of breakfast
+  reason: string;
+  source: {
+    separations: KnowledgeBaseVersion;
+    references: string[];
+  };
+}
+
+export interface SeparationCheck {
+  requirement: SeparationRequirement;
+  gap_hours: number; // Hours from the drug's dose to the other drug's dose; negative when the drug is given after it
+  satisfied: boolean;
+  message: string;
+}
+
+// ===== ADMINISTRATION SEPARATIONS =====
+
+export class AdministrationSeparations {
+  readonly version: KnowledgeBaseVersion;
+  private readonly rules: SeparationRule[];
+  private readonly taxonomy: DrugTaxonomy;
+
+  constructor(data: AdministrationSeparationsData, taxonomy: DrugTaxonomy, source: string) {
+    this.version = { name: data.name, version: data.version, released: data.released };
+    this.rules = data.separations;
+    this.taxonomy = taxonomy;
+    const problems: string[] = [];
+    const seen = new Set<string>();
+
+    for (const rule of data.separations) {
+      if (seen.has(rule.id)) problems.push(`${rule.id}: identifier is used more than once`);
+      seen.add(rule.id);
+
+      const targets = [...rule.drug, ...(rule.separate_from === ANY_OTHER_MEDICATION ? [] : rule.separate_from)];
+      for (const target of targets) {
+        if (!taxonomy.isKnownTarget(target)) problems.push(`${rule.id}: '${target}' is not an ingredient or class in the drug class taxonomy`);
+      }
+      if (rule.hours_before === null && rule.hours_after === null) {
+        problems.push(`${rule.id}: allows the drug neither before nor after the other drug`);
+      }
+      if (rule.hours_before === ANY_TIME && rule.hours_after === ANY_TIME) {
+        problems.push(`${rule.id}: limits neither hours_before nor hours_after`);
+      }
+      if (rule.before_first_meal && typeof rule.hours_before !== 'number') {
+        problems.push(`${rule.id}: before_first_meal needs hours_before in hours`);
+      }
+    }
+
+    assertKnowledgeConsistent(
+      problems,
+      'Administration separations are inconsistent',
+      `Correct the listed entries; see ${FORMAT_GUIDE} for the format`,
+      source
+    );
+  }
+
+  /**
+   * Separations that apply between two medications, whichever of them the rule times.
+   * Only doses given by mouth are separated.
+   */
+  between(first: SeparationMedication, second: SeparationMedication): SeparationRequirement[] {
+    if (!isOralRoute(first.route) || !isOralRoute(second.route)) return [];
+    if (DrugTaxonomy.toKey(first.resolved_name) === DrugTaxonomy.toKey(second.resolved_name)) return [];
+
+    const requirements: SeparationRequirement[] = [];
+    for (const [drug, other] of [[first, second], [second, first]] as const) {
+      for (const rule of this.rules) {
+        if (this.applies(rule, drug.resolved_name, other.resolved_name)) {
+          requirements.push({
+            rule_id: rule.id,
+            drug_name: drug.drug_name,
+            other_drug_name: other.drug_name,
+            hours_before: rule.hours_before,
+            hours_after: rule.hours_after,
+            before_first_meal: rule.before_first_meal ?? false,
+            reason: rule.reason,
+            source: { separations: this.version, references: rule.references }
+          });
+        }
+      }
+    }
+    return requirements;
+  }
+
+  private applies(rule: SeparationRule, drugName: string, otherDrugName: string): boolean {
+    if (!rule.drug.some(target => this.taxonomy.matches(drugName, target))) return false;
+    if (rule.separate_from === ANY_OTHER_MEDICATION) {
+      return !rule.drug.some(target => this.taxonomy.matches(otherDrugName, target));
+    }
+    return rule.separate_from.some(target => this.taxonomy.matches(otherDrugName, target));
+  }
+}
+
+/**
+ * Checks two dose times against a separation: the drug's dose must come at least hours_before
+ * ahead of the other drug's dose, or at least hours_after behind it. On a side that is not
+ * allowed, the doses must be an overnight fast apart.
+ */
+export function checkSeparation(requirement: SeparationRequirement, drugTime: Date, otherDrugTime: Date): SeparationCheck {
+  const gapHours = (otherDrugTime.getTime() - drugTime.getTime()) / (60 * 60 * 1000);
+  const limit = gapHours >= 0 ? requirement.hours_before : requirement.hours_after;
+  const satisfied = limit === ANY_TIME || Math.abs(gapHours) >= (limit ?? OVERNIGHT_FAST_HOURS);
+
+  const apart = gapHours === 0
+    ? 'at the same time as'
+    : `${formatHours(Math.abs(gapHours))} ${gapHours > 0 ? 'before' : 'after'}`;
+  const message = satisfied
+    ? `${requirement.drug_name} is given ${apart} ${requirement.other_drug_name}`
+    : `${requirement.drug_name} is given ${apart} ${requirement.other_drug_name}; ${describeSeparation(requirement)}. ${requirement.reason}`;
+
+  return { requirement, gap_hours: Math.round(gapHours * 100) / 100, satisfied, message };
+}
+
+/**
+ * The separation as an instruction, e.g. "give levothyroxine at least 4 h before or 4 h after
+ * calcium carbonate" or "give alendronate at least 30 min before calcium carbonate, not after it".
+ * The other drug's name may be replaced, e.g. by "breakfast".
+ */
+export function describeSeparation(requirement: SeparationRequirement, otherName: string = requirement.other_drug_name): string {
+  const sides = [[requirement.hours_before, 'before'], [requirement.hours_after, 'after']] as const;
+  const limits = sides.flatMap(([limit, side]) => typeof limit === 'number' ? [`${formatHours(limit)} ${side}`] : []);
+  const anyTime = sides.flatMap(([limit, side]) => limit === ANY_TIME ? [`any time ${side}`] : []);
+  const notAllowed = sides.flatMap(([limit, side]) => limit === null ? [`, not ${side} it`] : []);
+  const allowed = [...(limits.length > 0 ? [`at least ${limits.join(' or ')}`] : []), ...anyTime].join(' or ');
+  return `give ${requirement.drug_name} ${allowed} ${otherName}${notAllowed.join('')}`;
+}
+
+/**
+ * Hours the drug must come before the other drug when it may not be given after it, so it is the
+ * first dose of the day; null for other separations.
+ */
+export function firstDoseLeadHours(requirement: SeparationRequirement): number | null {
+  return requirement.hours_after === null && typeof requirement.hours_before === 'number' ? requirement.hours_before : null;
+}
+
+export function isOralRoute(route: string): boolean {
+  return ORAL_ROUTES.has(route.trim().toLowerCase());
+}
+
+function formatHours(hours: number): string {
+  return hours < 1 ? `${Math.round(hours * 60)} min` : `${Math.round(hours * 10) / 10} h`;
+}
+
+/**
+ * Reads and validates an administration separations file.
+ * @throws GenericError if the file is invalid or names drugs missing from the taxonomy.
+ */
+export function loadAdministrationSeparations(filePath: string, taxonomy: DrugTaxonomy): AdministrationSeparations {
+  return new AdministrationSeparations(
+    readKnowledgeFile(filePath, AdministrationSeparationsSchema, FORMAT_GUIDE),
+    taxonomy,
+    filePath
+  );
+}
+
+// ===== SINGLETON INSTANCE =====
+
+let administrationSeparationsInstance: AdministrationSeparations | null = null;
+
+/**
+ * Gets the loaded administration separations, loading them on first use
+ */
+export function getAdministrationSeparations(): AdministrationSeparations {
+  if (!administrationSeparationsInstance) {
+    administrationSeparationsInstance = loadAdministrationSeparations(
+      KNOWLEDGE_BASE_CONFIG.ADMINISTRATION_SEPARATIONS_FILE || DEFAULT_ADMINISTRATION_SEPARATIONS_FILE,
+      getDrugTaxonomy()
+    );
+  }
+  return administrationSeparationsInstance;
+}
@@ -0,0 +1,254 @@
+/**
+ * Allergy Screening Service
+ * Screens a medication list against recorded drug allergies using the allergy groups and
+ * cross-sensitivity rules in knowledge/allergies/cross_sensitivity.json. An allergy can name an
+ * ingredient (amoxicillin), a brand (Bactrim), a taxonomy class or an allergy group ("sulfa").
+ */
+
+import { join } from 'node:path';
+import { z } from 'zod';
+import { KNOWLEDGE_BASE_CONFIG } from '../config/appConfig.js';
+import {
+  KNOWLEDGE_ROOT,
+  KnowledgeBaseVersion,
+  assertKnowledgeConsistent,
+  knowledgeVersionShape,
+  nonEmptyText,
+  readKnowledgeFile,
+} from './knowledgeFiles.js';
+import { DrugTaxonomy, getDrugTaxonomy } from './drugClassification.js';
+import { resolveDrugName } from './drugNameNormalizer.js';
+
+// ===== RULE SCHEMA =====
+
+const identifier = z.string().regex(/^[a-z0-9_]+$/, 'identifiers use lowercase letters, digits and underscores');
+const severity = z.enum(['contraindicated', 'serious', 'moderate', 'minor']);
+
+const AllergyRulesSchema = z.object({
+  ...knowledgeVersionShape,
+  allergy_groups: z.array(z.object({
+    id: identifier,
+    name: nonEmptyText,
+    terms: z.array(nonEmptyText).describe('Allergy descriptions that name the whole group, e.g. "sulfa"'),
+    members: z.array(nonEmptyText).min(1).describe('Ingredients or classes from the drug class taxonomy'),
+    exclude: z.array(nonEmptyText).describe('Ingredients or classes left out of the members'),
+  }).strict()),
+  cross_sensitivities: z.array(z.object({
+    id: nonEmptyText,
+    allergy_group: identifier,
+    cross_reactive_group: identifier,
+    cross_reactivity: nonEmptyText.describe('Documented cross-reactivity rate'),
+    severity,
+    management_level: z.enum(['use_alternative', 'monitor_closely', 'adjust_dose', 'no_action']),
+    recommendation: nonEmptyText,
+    references: z.array(nonEmptyText).min(1),
+  }).strict()),
+}).strict();
+
+type AllergyRulesData = z.infer<typeof AllergyRulesSchema>;
+type AllergyGroup = AllergyRulesData['allergy_groups'][number];
+export type CrossSensitivityRule = AllergyRulesData['cross_sensitivities'][number];
+
+export const DEFAULT_ALLERGY_RULES_FILE = join(KNOWLEDGE_ROOT, 'allergies', 'cross_sensitivity.json');
+
+const FORMAT_GUIDE = 'knowledge/allergies/README.md';
+
+const SEVERITY_RANK: Record<CrossSensitivityRule['severity'], number> = { contraindicated: 4, serious: 3, moderate: 2, minor: 1 };
+
+// ===== SCREENING TYPES =====
+
+export interface RecordedAllergy {
+  substance: string;
+  reaction_type: 'allergy' | 'intolerance' | 'unspecified'; // Unspecified when the record does not say
+  reaction: string | null;
+}
+
+export interface AllergyMatch {
+  allergy: RecordedAllergy;
+  allergy_resolved_as: string; // Ingredient, class or allergy group the recorded allergy was matched to
+  drug_name: string;
+  resolved_name: string;
+  match_type: 'ingredient' | 'class' | 'cross_sensitivity';
+  cross_sensitivity: CrossSensitivityRule | null; // Set for cross_sensitivity matches
+  cross_reactive_group: string | null; // Name of the group the drug cross-reacts through
+}
+
+export interface AllergyScreeningResult {
+  matches: AllergyMatch[];
+  unrecognized_allergies: string[]; // Not a known drug, class or allergy group; check manually
+}
+
+// Recorded allergy resolved to the ingredient or class it names and the allergy groups it belongs to
+interface ResolvedAllergy {
+  label: string;
+  ingredient: string | null;
+  drug_class: string | null;
+  groups: AllergyGroup[];
+}
+
+// ===== ALLERGY RULES =====
+
+export class AllergyRules {
+  readonly version: KnowledgeBaseVersion;
+  private readonly groups = new Map<string, AllergyGroup>();
+  private readonly rules: CrossSensitivityRule[];
+  private readonly taxonomy: DrugTaxonomy;
+
+  constructor(data: AllergyRulesData, taxonomy: DrugTaxonomy, source: string) {
+    this.version = { name: data.name, version: data.version, released: data.released };
+    this.taxonomy = taxonomy;
+    this.rules = data.cross_sensitivities;
+    const problems: string[] = [];
+
+    for (const group of data.allergy_groups) {
+      if (this.groups.has(group.id)) problems.push(`${group.id}: allergy group is listed more than once`);
+      for (const target of [...group.members, ...group.exclude]) {
+        if (!taxonomy.isKnownTarget(target)) problems.push(`${group.id}: '${target}' is not an ingredient or class in the drug class taxonomy`);
+      }
+      this.groups.set(group.id, group);
+    }
+
+    const ruleIds = new Set<string>();
+    for (const rule of data.cross_sensitivities) {
+      if (ruleIds.has(rule.id)) problems.push(`${rule.id}: rule id is used more than once`);
+      ruleIds.add(rule.id);
+      for (const groupId of [rule.allergy_group, rule.cross_reactive_group]) {
+        if (!this.groups.has(groupId)) problems.push(`${rule.id}: allergy group '${groupId}' is not defined`);
+      }
+    }
+
+    assertKnowledgeConsistent(
+      problems,
+      'Allergy cross-sensitivity rules are inconsistent',
+      `Correct the listed entries; see ${FORMAT_GUIDE} for the format`,
+      source
+    );
+  }
+
+  /**
+   * Matches each medication against each recorded allergy. Per allergy and medication only the
+   * strongest match is returned: the same ingredient, then a named class or group, then the most
+   * severe cross-sensitivity rule. Intolerances are not immune-mediated, so they are matched on
+   * ingredient and class only.
+   */
+  screen(allergies: RecordedAllergy[], medications: Array<{ drug_name: string; resolved_name: string }>): AllergyScreeningResult {
+    const matches: AllergyMatch[] = [];
+    const unrecognized: string[] = [];
+
+    for (const allergy of allergies) {
+      const resolved = this.resolveAllergy(allergy.substance);
+      if (!resolved) {
+        unrecognized.push(allergy.substance);
+        continue;
+      }
+
+      for (const medication of medications) {
+        const match = this.matchMedication(allergy, resolved, medication);
+        if (match) matches.push(match);
+      }
+    }
+
+    return { matches, unrecognized_allergies: unrecognized };
+  }
+
+  private matchMedication(
+    allergy: RecordedAllergy,
+    resolved: ResolvedAllergy,
+    medication: { drug_name: string; resolved_name: string }
+  ): AllergyMatch | null {
+    const base = { allergy, allergy_resolved_as: resolved.label, drug_name: medication.drug_name, resolved_name: medication.resolved_name };
+
+    if (resolved.ingredient !== null && DrugTaxonomy.toKey(medication.resolved_name) === resolved.ingredient) {
+      return { ...base, match_type: 'ingredient', cross_sensitivity: null, cross_reactive_group: null };
+    }
+
+    // An allergy recorded against a whole class or group covers every member
+    const namedClass = resolved.drug_class;
+    if (namedClass !== null && this.taxonomy.matches(medication.resolved_name, namedClass)) {
+      return { ...base, match_type: 'class', cross_sensitivity: null, cross_reactive_group: null };
+    }
+    if (resolved.ingredient === null && resolved.groups.some(group => this.isMember(medication.resolved_name, group))) {
+      return { ...base, match_type: 'class', cross_sensitivity: null, cross_reactive_group: null };
+    }
+
+    if (allergy.reaction_type === 'intolerance') return null;
+
+    const groupIds = resolved.groups.map(group => group.id);
+    const applicable = this.rules.filter(rule => {
+      const crossReactiveGroup = this.groups.get(rule.cross_reactive_group);
+      return groupIds.includes(rule.allergy_group) && crossReactiveGroup !== undefined && this.isMember(medication.resolved_name, crossReactiveGroup);
+    });
+    const strongest = applicable.reduce<CrossSensitivityRule | null>(
+      (best, rule) => best === null || SEVERITY_RANK[rule.severity] > SEVERITY_RANK[best.severity] ? rule : best,
+      null
+    );
+    if (!strongest) return null;
+    return {
+      ...base,
+      match_type: 'cross_sensitivity',
+      cross_sensitivity: strongest,
+      cross_reactive_group: this.groups.get(strongest.cross_reactive_group)?.name ?? strongest.cross_reactive_group
+    };
+  }
+
+  /**
+   * Resolves an allergy description to an allergy group, a taxonomy class or an ingredient,
+   * or null when it is none of these (e.g. latex, shellfish).
+   */
+  private resolveAllergy(substance: string): ResolvedAllergy | null {
+    const text = substance.trim().toLowerCase();
+    const namedGroups = [...this.groups.values()].filter(group => group.terms.some(term => term.toLowerCase() === text));
+    if (namedGroups.length > 0) {
+      return { label: namedGroups.map(group => group.name).join(', '), ingredient: null, drug_class: null, groups: namedGroups };
+    }
+
+    const key = DrugTaxonomy.toKey(text);
+    const classKey = [key, key.replace(/s$/, '')].find(candidate =>
+      this.taxonomy.isKnownTarget(candidate) && this.taxonomy.classify(candidate).ingredient === null
+    );
+    if (classKey) {
+      const groups = [...this.groups.values()].filter(group => group.members.includes(classKey));
+      return { label: classKey, ingredient: null, drug_class: classKey, groups };
+    }
+
+    const name = resolveDrugName(substance);
+    const ingredient = this.taxonomy.classify(name.resolved_name).ingredient;
+    if (name.match_type === 'unresolved' || ingredient === null) return null;
+    return {
+      label: ingredient,
+      ingredient,
+      drug_class: null,
+      groups: [...this.groups.values()].filter(group => this.isMember(ingredient, group))
+    };
+  }
+
+  private isMember(drugName: string, group: AllergyGroup): boolean {
+    return group.members.some(member => this.taxonomy.matches(drugName, member)) &&
+      !group.exclude.some(excluded => this.taxonomy.matches(drugName, excluded));
+  }
+}
+
+/**
+ * Reads and validates an allergy rules file.
+ * @throws GenericError if the file is invalid or refers to unknown drugs or groups.
+ */
+export function loadAllergyRules(filePath: string, taxonomy: DrugTaxonomy): AllergyRules {
+  return new AllergyRules(readKnowledgeFile(filePath, AllergyRulesSchema, FORMAT_GUIDE), taxonomy, filePath);
+}
+
+// ===== SINGLETON INSTANCE =====
+
+let allergyRulesInstance: AllergyRules | null = null;
+
+/**
+ * Gets the loaded allergy cross-sensitivity rules, loading them on first use
+ */
+export function getAllergyRules(): AllergyRules {
+  if (!allergyRulesInstance) {
+    allergyRulesInstance = loadAllergyRules(
+      KNOWLEDGE_BASE_CONFIG.ALLERGY_RULES_FILE || DEFAULT_ALLERGY_RULES_FILE,
+      getDrugTaxonomy()
+    );
+  }
+  return allergyRulesInstance;
+}
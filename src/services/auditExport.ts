@@ -0,0 +1,186 @@
+/**
+ * Audit Export Service
+ * Converts audit trail events into formats external review tools can ingest:
+ * FHIR R4 AuditEvent resources, flat CSV and NDJSON, with optional PHI redaction.
+ */
+
+import { createHmac } from 'node:crypto';
+import { AUDIT_CONFIG, MCP_SERVER_CONFIG } from '../config/appConfig.js';
+import { GenericError, ErrorType, ErrorSeverity } from '../types/errors.js';
+import type { AuditEvent } from './auditLog.js';
+
+// ===== EXPORT TYPES =====
+
+export type AuditExportFormat = 'fhir' | 'csv' | 'ndjson';
+
+export const AUDIT_EXPORT_FORMATS: readonly AuditExportFormat[] = ['fhir', 'csv', 'ndjson'];
+
+export type ExportableAuditEvent = AuditEvent & { action: string };
+
+export interface AuditExport {
+  format: AuditExportFormat;
+  mime_type: string;
+  record_count: number;
+  redacted: boolean;
+  content: string;
+}
+
+const MIME_TYPES: Record<AuditExportFormat, string> = {
+  fhir: 'application/fhir+json',
+  csv: 'text/csv',
+  ndjson: 'application/x-ndjson',
+};
+
+const CSV_COLUMNS: Array<keyof ExportableAuditEvent> = [
+  'event_id', 'sequence', 'timestamp', 'tool', 'action', 'protocol', 'patient_id', 'actor',
+  'outcome', 'decision', 'input_digest', 'output_digest', 'previous_hash', 'hash',
+];
+
+// Tools that only read stored records; everything else creates or executes
+const READ_ONLY_TOOLS = ['audit_trail', 'audit_export', 'get_interaction_case', 'verify_audit_integrity'];
+
+export const REDACTED_TEXT = '[REDACTED]';
+
+// ===== EXPORT =====
+
+/**
+ * Serializes events in the requested format.
+ */
+export function exportAuditEvents(
+  events: ExportableAuditEvent[],
+  format: AuditExportFormat,
+  redacted: boolean,
+): AuditExport {
+  let content: string;
+  switch (format) {
+    case 'fhir':
+      content = JSON.stringify(toFhirBundle(events, redacted), null, 2);
+      break;
+    case 'csv':
+      content = toCsv(events);
+      break;
+    case 'ndjson':
+      content = events.map(event => JSON.stringify(event)).join('\n') + (events.length > 0 ? '\n' : '');
+      break;
+  }
+
+  return {
+    format,
+    mime_type: MIME_TYPES[format],
+    record_count: events.length,
+    redacted,
+    content,
+  };
+}
+
+/**
+ * Removes PHI from an event. The patient identifier is replaced with a stable pseudonym so
+ * reviewers can still group a patient's events, and the decision text, which can name
+ * medications and findings, is withheld. Digests and hashes are kept for integrity checks.
+ */
+export function redactAuditEvent<T extends AuditEvent>(event: T): T {
+  return {
+    ...event,
+    patient_id: event.patient_id ? pseudonymizePatientId(event.patient_id) : null,
+    decision: REDACTED_TEXT,
+  };
+}
+
+/**
+ * Keyed hash of the patient identifier. A plain hash of an MRN can be reversed by hashing
+ * candidate MRNs, so the pseudonym needs a secret the export's recipients do not hold.
+ * @throws GenericError if no pseudonym key is configured.
+ */
+export function pseudonymizePatientId(patientId: string): string {
+  if (!AUDIT_CONFIG.PSEUDONYM_KEY) {
+    throw new GenericError(ErrorType.CONFIGURATION_ERROR, 'Cannot redact audit events: no pseudonym key is configured', {
+      severity: ErrorSeverity.HIGH,
+      suggestions: [
+        'Set AUDIT_PSEUDONYM_KEY to a secret value and restart the server',
+        'Request the audit trail without redaction if the recipient may see patient identifiers',
+      ],
+    });
+  }
+  return `pseudo_${createHmac('sha256', AUDIT_CONFIG.PSEUDONYM_KEY).update(patientId).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * The patient identifier among those given whose pseudonym this is, or null when there is none.
+ */
+export function findPatientByPseudonym(pseudonym: string, patientIds: Iterable<string>): string | null {
+  for (const patientId of patientIds) {
+    if (pseudonymizePatientId(patientId) === pseudonym) return patientId;
+  }
+  return null;
+}
+
+// ===== FHIR R4 =====
+
+function toFhirBundle(events: ExportableAuditEvent[], redacted: boolean): Record<string, unknown> {
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry: events.map(event => ({ resource: toFhirAuditEvent(event, redacted) })),
+  };
+}
+
+function toFhirAuditEvent(event: ExportableAuditEvent, redacted: boolean): Record<string, unknown> {
+  const entities: Array<Record<string, unknown>> = [];
+
+  if (event.patient_id) {
+    entities.push({
+      what: redacted
+        ? { identifier: { system: 'urn:md-mcp:patient-pseudonym', value: event.patient_id } }
+        : { reference: `Patient/${event.patient_id}` },
+      type: { system: 'http://terminology.hl7.org/CodeSystem/audit-entity-type', code: '1', display: 'Person' },
+      role: { system: 'http://terminology.hl7.org/CodeSystem/object-role', code: '1', display: 'Patient' },
+    });
+  }
+
+  entities.push({
+    what: { identifier: { system: 'urn:md-mcp:audit-event', value: event.event_id } },
+    type: { system: 'http://terminology.hl7.org/CodeSystem/audit-entity-type', code: '2', display: 'System Object' },
+    description: `Audit chain entry ${event.sequence}`,
+    detail: [
+      { type: 'input_digest', valueString: event.input_digest },
+      ...(event.output_digest ? [{ type: 'output_digest', valueString: event.output_digest }] : []),
+      { type: 'previous_hash', valueString: event.previous_hash },
+      { type: 'hash', valueString: event.hash },
+    ],
+  });
+
+  return {
+    resourceType: 'AuditEvent',
+    id: event.event_id,
+    type: { system: 'http://terminology.hl7.org/CodeSystem/audit-event-type', code: 'rest', display: 'RESTful Operation' },
+    subtype: [{ system: 'urn:md-mcp:tool', code: event.tool, display: event.action }],
+    action: READ_ONLY_TOOLS.includes(event.tool) ? 'R' : 'E',
+    recorded: event.timestamp,
+    outcome: event.outcome === 'success' ? '0' : '4',
+    outcomeDesc: event.decision,
+    agent: [{
+      who: event.actor ? { identifier: { value: event.actor } } : { display: 'Unattributed' },
+      requestor: true,
+    }],
+    source: {
+      site: event.protocol,
+      observer: { display: MCP_SERVER_CONFIG.SERVER_NAME },
+      type: [{ system: 'http://terminology.hl7.org/CodeSystem/security-source-type', code: '4', display: 'Application Server' }],
+    },
+    entity: entities,
+  };
+}
+
+// ===== CSV =====
+
+function toCsv(events: ExportableAuditEvent[]): string {
+  const rows = events.map(event => CSV_COLUMNS.map(column => escapeCsvValue(event[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,411 @@
+/**
+ * Audit Log Service
+ * Append-only log of every tool invocation, queried by the audit_trail tool.
+ * Events hold digests of tool inputs and outputs rather than the clinical content itself.
+ * Each event carries the hash of the event before it, and checkpoints over the chain head
+ * are signed with the configured key, so edits, deletions and re-chaining are detectable.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import { GenericError, ErrorType, ErrorSeverity } from '../types/errors.js';
+import { AUDIT_CONFIG, SERVER_DESCRIPTION } from '../config/appConfig.js';
+import { getStorageBackend, StorageBackend, UnreadableEntry } from './storageBackend.js';
+
+// ===== AUDIT EVENT TYPES =====
+
+export type AuditProtocol = 'medrec' | 'tdm' | 'interactions' | 'soap' | 'five_rights' | 'integration';
+
+export const AUDIT_PROTOCOLS: readonly AuditProtocol[] = ['medrec', 'tdm', 'interactions', 'soap', 'five_rights', 'integration'];
+
+export interface AuditEvent {
+  event_id: string;
+  sequence: number; // Position in the chain, starting at 1
+  timestamp: string;
+  tool: string;
+  protocol: AuditProtocol;
+  patient_id: string | null; // Null when the tool input does not identify a patient
+  actor: string | null; // Null when the tool input does not identify who performed the action
+  input_digest: string; // SHA-256 of the canonical JSON tool input
+  output_digest: string | null; // SHA-256 of the canonical JSON tool output; null for failed calls
+  decision: string;
+  outcome: 'success' | 'error';
+  previous_hash: string; // Hash of the preceding event; GENESIS_HASH for the first event
+  hash: string; // SHA-256 of the canonical JSON event without this field
+}
+
+export interface AuditCheckpoint {
+  checkpoint_id: string;
+  created_at: string;
+  sequence: number; // Sequence of the last event covered by the checkpoint
+  event_hash: string; // Hash of that event; attests to the whole chain before it
+  signature: string; // HMAC-SHA256 of the checkpoint fields with the configured signing key
+}
+
+export type ChainIssueType = 'content_altered' | 'chain_link_mismatch' | 'sequence_gap' | 'event_removed' | 'unreadable_record';
+
+export interface ChainIssue {
+  issue: ChainIssueType;
+  sequence: number | null;
+  event_id: string | null;
+  tool: string | null;
+  patient_id: string | null;
+  timestamp: string | null;
+  details: string;
+}
+
+export type CheckpointIssueType = 'invalid_signature' | 'event_hash_mismatch' | 'event_missing';
+
+export interface CheckpointIssue {
+  issue: CheckpointIssueType;
+  checkpoint_id: string;
+  sequence: number;
+  details: string;
+}
+
+export interface ChainVerification {
+  events: AuditEvent[];
+  chain_issues: ChainIssue[];
+  checkpoints_total: number;
+  checkpoints_verified: number;
+  checkpoint_issues: CheckpointIssue[];
+  signing_configured: boolean;
+}
+
+export interface ToolEventDetails {
+  tool: string;
+  patient_id: string | null;
+  actor: string | null;
+  input: unknown;
+  output: unknown;
+  decision: string;
+}
+
+export interface AuditQuery {
+  patient_id: string;
+  start: Date;
+  end: Date;
+  protocols: readonly AuditProtocol[];
+}
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+const AUDIT_EVENTS_LOG = 'audit_events';
+const AUDIT_CHECKPOINTS_LOG = 'audit_checkpoints';
+
+const CATEGORY_PROTOCOLS: Record<keyof typeof SERVER_DESCRIPTION.server_info.tool_categories, AuditProtocol> = {
+  medication_reconciliation: 'medrec',
+  therapeutic_drug_monitoring: 'tdm',
+  drug_interaction_screening: 'interactions',
+  soap_documentation: 'soap',
+  five_rights_administration: 'five_rights',
+  integration_tools: 'integration',
+};
+
+// ===== AUDIT LOG SERVICE =====
+
+type UnsealedAuditEvent = Omit<AuditEvent, 'sequence' | 'previous_hash' | 'hash'>;
+
+export class AuditLogService {
+  private readonly events: AuditEvent[] = [];
+
+  constructor(private readonly backend: StorageBackend = getStorageBackend()) {
+    assertAuditConfigValid();
+    this.load();
+  }
+
+  /**
+   * Records a completed tool invocation.
+   * @throws GenericError if the event cannot be persisted.
+   */
+  recordToolEvent(details: ToolEventDetails): AuditEvent {
+    return this.append({
+      event_id: createEventId(),
+      timestamp: new Date().toISOString(),
+      tool: details.tool,
+      protocol: protocolForTool(details.tool),
+      patient_id: details.patient_id,
+      actor: details.actor,
+      input_digest: digest(details.input),
+      output_digest: digest(details.output),
+      decision: details.decision,
+      outcome: 'success',
+    });
+  }
+
+  /**
+   * Records a failed tool invocation. Patient and actor are taken from the raw input where
+   * it carries a top-level patient_id. Never throws, so the caller can still return its
+   * error response when the log itself is unavailable.
+   */
+  recordToolError(tool: string, input: unknown, error: GenericError): AuditEvent | null {
+    try {
+      return this.append({
+        event_id: createEventId(),
+        timestamp: new Date().toISOString(),
+        tool,
+        protocol: protocolForTool(tool),
+        patient_id: readPatientId(input),
+        actor: null,
+        input_digest: digest(input),
+        output_digest: null,
+        decision: `Failed with ${error.type}: ${error.message}`,
+        outcome: 'error',
+      });
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Returns the patient's events within the time range (inclusive) for the given protocols,
+   * oldest first.
+   */
+  query(criteria: AuditQuery): AuditEvent[] {
+    const start = criteria.start.getTime();
+    const end = criteria.end.getTime();
+
+    return this.events.filter(event => {
+      const time = new Date(event.timestamp).getTime();
+      return event.patient_id === criteria.patient_id &&
+        time >= start && time <= end &&
+        criteria.protocols.includes(event.protocol);
+    });
+  }
+
+  /**
+   * Distinct patient identifiers with events in the log.
+   */
+  patientIds(): string[] {
+    return [...new Set(this.events.flatMap(event => event.patient_id ?? []))];
+  }
+
+  /**
+   * Re-reads the stored log and walks the whole chain, recomputing every hash and link, and
+   * checks each checkpoint's signature and the event hash it attests to. The stored log is
+   * read again so changes made to it while the server runs are caught.
+   */
+  verifyChain(): ChainVerification {
+    const stored = this.backend.readLog<AuditEvent>(AUDIT_EVENTS_LOG);
+    const storedCheckpoints = this.backend.readLog<AuditCheckpoint>(AUDIT_CHECKPOINTS_LOG);
+    const events = stored.entries;
+    const unreadable: UnreadableEntry[] = [...stored.unreadable, ...storedCheckpoints.unreadable];
+
+    const chainIssues: ChainIssue[] = unreadable.map(entry => ({
+      issue: 'unreadable_record',
+      sequence: null,
+      event_id: null,
+      tool: null,
+      patient_id: null,
+      timestamp: null,
+      details: `Entry ${entry.position} of ${entry.source} is not a valid audit record`,
+    }));
+
+    let previous: AuditEvent | null = null;
+    for (const event of events) {
+      const issueBase = {
+        sequence: event.sequence,
+        event_id: event.event_id,
+        tool: event.tool,
+        patient_id: event.patient_id,
+        timestamp: event.timestamp,
+      };
+
+      if (computeEventHash(event) !== event.hash) {
+        chainIssues.push({ ...issueBase, issue: 'content_altered', details: 'Recomputed hash does not match the stored hash; the event was modified after it was recorded' });
+      }
+
+      const expectedPreviousHash = previous ? previous.hash : GENESIS_HASH;
+      if (event.previous_hash !== expectedPreviousHash) {
+        chainIssues.push({ ...issueBase, issue: 'chain_link_mismatch', details: `previous_hash does not match the hash of the preceding ${previous ? `event ${previous.event_id}` : 'genesis entry'}; events were removed, inserted or reordered` });
+      }
+
+      const expectedSequence = previous ? previous.sequence + 1 : 1;
+      if (event.sequence !== expectedSequence) {
+        chainIssues.push({ ...issueBase, issue: 'sequence_gap', details: `Expected sequence ${expectedSequence}, found ${event.sequence}` });
+      }
+
+      previous = event;
+    }
+
+    // Compare with the events as loaded or recorded by this server, so changes made since are
+    // reported with the event's original patient and tool
+    const storedBySequence = new Map(events.map(event => [event.sequence, event]));
+    for (const recorded of this.events) {
+      const storedEvent = storedBySequence.get(recorded.sequence);
+      const issueBase = {
+        sequence: recorded.sequence,
+        event_id: recorded.event_id,
+        tool: recorded.tool,
+        patient_id: recorded.patient_id,
+        timestamp: recorded.timestamp,
+      };
+      if (!storedEvent) {
+        chainIssues.push({ ...issueBase, issue: 'event_removed', details: 'The event is no longer in the stored log' });
+      } else if (storedEvent.hash !== recorded.hash || computeEventHash(storedEvent) !== recorded.hash) {
+        chainIssues.push({ ...issueBase, issue: 'content_altered', details: 'The stored event differs from the event as recorded; these are its original details' });
+      }
+    }
+
+    const checkpointIssues: CheckpointIssue[] = [];
+    for (const checkpoint of storedCheckpoints.entries) {
+      const issueBase = { checkpoint_id: checkpoint.checkpoint_id, sequence: checkpoint.sequence };
+
+      if (!AUDIT_CONFIG.SIGNING_KEY || !signatureMatches(checkpoint)) {
+        checkpointIssues.push({ ...issueBase, issue: 'invalid_signature', details: AUDIT_CONFIG.SIGNING_KEY
+          ? 'Signature does not match the configured signing key; the checkpoint was altered or signed with another key'
+          : 'No signing key is configured, so the checkpoint signature cannot be checked' });
+        continue;
+      }
+
+      const event = events.find(candidate => candidate.sequence === checkpoint.sequence);
+      if (!event) {
+        checkpointIssues.push({ ...issueBase, issue: 'event_missing', details: `No event with sequence ${checkpoint.sequence} exists in the log` });
+      } else if (event.hash !== checkpoint.event_hash) {
+        checkpointIssues.push({ ...issueBase, issue: 'event_hash_mismatch', details: `Event ${event.event_id} no longer has the hash the checkpoint attests to; the chain was rewritten` });
+      }
+    }
+
+    return {
+      events,
+      chain_issues: chainIssues,
+      checkpoints_total: storedCheckpoints.entries.length,
+      checkpoints_verified: storedCheckpoints.entries.length - checkpointIssues.length,
+      checkpoint_issues: checkpointIssues,
+      signing_configured: AUDIT_CONFIG.SIGNING_KEY.length > 0,
+    };
+  }
+
+  // ===== PERSISTENCE =====
+
+  /**
+   * Loads the events the chain continues from. Unreadable entries are skipped here and reported
+   * by verifyChain rather than preventing the server from starting.
+   */
+  private load(): void {
+    this.events.push(...this.backend.readLog<AuditEvent>(AUDIT_EVENTS_LOG).entries);
+  }
+
+  private append(unsealed: UnsealedAuditEvent): AuditEvent {
+    const previous = this.events[this.events.length - 1];
+    const chained = {
+      ...unsealed,
+      sequence: previous ? previous.sequence + 1 : 1,
+      previous_hash: previous ? previous.hash : GENESIS_HASH,
+    };
+    const event: AuditEvent = { ...chained, hash: computeEventHash(chained) };
+
+    this.backend.appendLogEntry(AUDIT_EVENTS_LOG, event);
+    this.events.push(event);
+
+    if (AUDIT_CONFIG.SIGNING_KEY && event.sequence % AUDIT_CONFIG.CHECKPOINT_INTERVAL === 0) {
+      this.writeCheckpoint(event);
+    }
+
+    return event;
+  }
+
+  private writeCheckpoint(event: AuditEvent): void {
+    const unsigned = {
+      checkpoint_id: `checkpoint_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      created_at: new Date().toISOString(),
+      sequence: event.sequence,
+      event_hash: event.hash,
+    };
+    const checkpoint: AuditCheckpoint = { ...unsigned, signature: signCheckpoint(unsigned) };
+
+    this.backend.appendLogEntry(AUDIT_CHECKPOINTS_LOG, checkpoint);
+  }
+}
+
+// ===== HELPER FUNCTIONS =====
+
+/**
+ * Checks the audit settings that would otherwise fail silently, such as a checkpoint
+ * interval that never matches a sequence number.
+ * @throws GenericError if AUDIT_CHECKPOINT_INTERVAL is not a positive whole number.
+ */
+export function assertAuditConfigValid(): void {
+  const interval = AUDIT_CONFIG.CHECKPOINT_INTERVAL;
+  if (!Number.isInteger(interval) || interval <= 0) {
+    throw new GenericError(ErrorType.CONFIGURATION_ERROR, `Invalid audit checkpoint interval '${process.env.AUDIT_CHECKPOINT_INTERVAL}'`, {
+      severity: ErrorSeverity.CRITICAL,
+      suggestions: ['Set AUDIT_CHECKPOINT_INTERVAL to a positive whole number of events, or unset it to use 100'],
+      details: { checkpoint_interval: process.env.AUDIT_CHECKPOINT_INTERVAL ?? null },
+    });
+  }
+}
+
+/**
+ * Maps a tool to the protocol whose tool category lists it.
+ */
+export function protocolForTool(tool: string): AuditProtocol {
+  const categories = SERVER_DESCRIPTION.server_info.tool_categories;
+  for (const category of Object.keys(categories) as Array<keyof typeof categories>) {
+    if ((categories[category].tools as readonly string[]).includes(tool)) {
+      return CATEGORY_PROTOCOLS[category];
+    }
+  }
+  return 'integration';
+}
+
+function computeEventHash(event: Omit<AuditEvent, 'hash'>): string {
+  const { hash: _hash, ...hashedFields } = event as AuditEvent;
+  return digest(hashedFields);
+}
+
+function signCheckpoint(checkpoint: Omit<AuditCheckpoint, 'signature'>): string {
+  return createHmac('sha256', AUDIT_CONFIG.SIGNING_KEY).update(canonicalJson(checkpoint)).digest('hex');
+}
+
+function signatureMatches(checkpoint: AuditCheckpoint): boolean {
+  const { signature, ...signedFields } = checkpoint;
+  const expected = Buffer.from(signCheckpoint(signedFields), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * SHA-256 of the value serialized with object keys sorted, so equal content gives equal digests.
+ */
+export function digest(value: unknown): string {
+  return createHash('sha256').update(canonicalJson(value)).digest('hex');
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item ?? null)).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function readPatientId(input: unknown): string | null {
+  if (input !== null && typeof input === 'object' && 'patient_id' in input) {
+    const patientId = (input as { patient_id: unknown }).patient_id;
+    return typeof patientId === 'string' && patientId.length > 0 ? patientId : null;
+  }
+  return null;
+}
+
+function createEventId(): string {
+  return `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// ===== SINGLETON INSTANCE =====
+
+let auditLogInstance: AuditLogService | null = null;
+
+/**
+ * Gets singleton instance of the audit log
+ */
+export function getAuditLog(): AuditLogService {
+  if (!auditLogInstance) {
+    auditLogInstance = new AuditLogService();
+  }
+  return auditLogInstance;
+}
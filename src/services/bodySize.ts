@@ -0,0 +1,108 @@
+/**
+ * Body Size Calculations
+ * Body surface area (Mosteller, DuBois), ideal body weight (Devine), adjusted body weight, and
+ * selection of the weight to dose by, for weight-based and BSA-based dosing.
+ */
+
+// ===== BODY SIZE TYPES =====
+
+export type BsaFormula = 'mosteller' | 'dubois';
+
+export type DosingWeightBasis = 'actual' | 'ideal' | 'adjusted';
+
+export interface DosingWeight {
+  weight_kg: number;
+  basis: DosingWeightBasis;
+  actual_weight_kg: number;
+  ideal_body_weight_kg: number | null; // Null without height and sex, or for children
+  adjusted_body_weight_kg: number | null;
+  percent_of_ideal: number | null;
+  rationale: string;
+  alternative: string | null; // Adjusted body weight, for adults dosed by actual weight above 120% of ideal body weight
+}
+
+// Above this percentage of ideal body weight some drugs are dosed by adjusted body weight
+const OBESITY_THRESHOLD_PERCENT_OF_IDEAL = 120;
+const ADJUSTED_BODY_WEIGHT_FACTOR = 0.4;
+const CENTIMETRES_PER_INCH = 2.54;
+const ADULT_AGE_YEARS = 18;
+
+// ===== CALCULATORS =====
+
+/**
+ * Body surface area in m², rounded to two decimals.
+ * Mosteller: √(height cm × weight kg / 3600). DuBois: 0.007184 × weight^0.425 × height^0.725.
+ */
+export function calculateBsa(weightKg: number, heightCm: number, formula: BsaFormula = 'mosteller'): number {
+  const bsa = formula === 'dubois'
+    ? 0.007184 * Math.pow(weightKg, 0.425) * Math.pow(heightCm, 0.725)
+    : Math.sqrt(heightCm * weightKg / 3600);
+  return Math.round(bsa * 100) / 100;
+}
+
+/**
+ * Ideal body weight in kg (Devine): 50 kg for men or 45.5 kg for women plus 2.3 kg per inch over 5 feet.
+ */
+export function idealBodyWeight(heightCm: number, sex: 'male' | 'female'): number {
+  const inchesOverFiveFeet = heightCm / CENTIMETRES_PER_INCH - 60;
+  return round1((sex === 'male' ? 50 : 45.5) + 2.3 * inchesOverFiveFeet);
+}
+
+/**
+ * Adjusted body weight in kg: ideal body weight plus 40% of the weight above it.
+ */
+export function adjustedBodyWeight(actualWeightKg: number, idealWeightKg: number): number {
+  return round1(idealWeightKg + ADJUSTED_BODY_WEIGHT_FACTOR * (actualWeightKg - idealWeightKg));
+}
+
+/**
+ * The weight to dose by: actual weight unless the order asks for ideal or adjusted body weight.
+ * For adults above 120% of ideal body weight dosed by actual weight, the adjusted body weight is
+ * given as an alternative. Ideal and adjusted body weight need height and sex and are not used
+ * for children, who are dosed by actual weight.
+ */
+export function selectDosingWeight(patient: {
+  actual_weight_kg: number;
+  height_cm?: number | undefined;
+  sex?: 'male' | 'female' | undefined;
+  age?: number | undefined;
+  basis?: DosingWeightBasis | undefined;
+}): DosingWeight {
+  const actual = patient.actual_weight_kg;
+  const isChild = patient.age !== undefined && patient.age < ADULT_AGE_YEARS;
+  const ideal = !isChild && patient.height_cm !== undefined && patient.sex !== undefined
+    ? idealBodyWeight(patient.height_cm, patient.sex)
+    : null;
+  const adjusted = ideal !== null && actual > ideal ? adjustedBodyWeight(actual, ideal) : null;
+  const percentOfIdeal = ideal !== null ? Math.round(actual / ideal * 100) : null;
+  const weights = { actual_weight_kg: actual, ideal_body_weight_kg: ideal, adjusted_body_weight_kg: adjusted, percent_of_ideal: percentOfIdeal };
+  const alternative = adjusted !== null && percentOfIdeal !== null && percentOfIdeal > OBESITY_THRESHOLD_PERCENT_OF_IDEAL
+    ? `Actual weight is ${percentOfIdeal}% of ideal body weight (above ${OBESITY_THRESHOLD_PERCENT_OF_IDEAL}%); adjusted body weight would be ${adjusted} kg - set dosing_weight to 'adjusted' if the drug is dosed by it`
+    : null;
+  const actualWeight = (rationale: string): DosingWeight => ({ weight_kg: actual, basis: 'actual', ...weights, rationale, alternative });
+
+  if (ideal === null) {
+    return actualWeight(isChild
+      ? 'Children are dosed by actual body weight'
+      : patient.basis && patient.basis !== 'actual'
+        ? `Actual body weight used: ${patient.basis} body weight needs height and sex`
+        : 'Actual body weight');
+  }
+
+  if (patient.basis === 'ideal') {
+    return { weight_kg: ideal, basis: 'ideal', ...weights, rationale: 'Ideal body weight (Devine), as ordered', alternative: null };
+  }
+  if (patient.basis === 'adjusted') {
+    return adjusted !== null
+      ? { weight_kg: adjusted, basis: 'adjusted', ...weights, rationale: 'Adjusted body weight, as ordered', alternative: null }
+      : actualWeight('Actual body weight used: it is not above ideal body weight, so there is no adjusted body weight');
+  }
+  if (patient.basis === 'actual') {
+    return actualWeight('Actual body weight, as ordered');
+  }
+  return actualWeight(`Actual body weight: ${percentOfIdeal}% of ideal body weight`);
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
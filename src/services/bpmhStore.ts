@@ -0,0 +1,55 @@
+/**
+ * BPMH Store Service
+ * Holds Best Possible Medication Histories so medication reconciliation tools can
+ * look them up by the bpmh_id returned from gather_bpmh
+ */
+
+import type { BpmhOutput } from '../tools/medrec/gatherBpmh.js';
+import { GenericError, ErrorType, ErrorSeverity } from '../types/errors.js';
+import { RecordStore } from './recordStore.js';
+
+// ===== BPMH STORE SERVICE =====
+
+export class BpmhStoreService {
+  private readonly store = new RecordStore<BpmhOutput>('bpmh');
+
+  /**
+   * Saves a BPMH under its bpmh_id.
+   */
+  saveBpmh(bpmh: BpmhOutput): BpmhOutput {
+    return this.store.put(bpmh.bpmh_id, bpmh);
+  }
+
+  /**
+   * Retrieves a BPMH by ID.
+   * @throws GenericError if no BPMH exists with the given ID.
+   */
+  getBpmh(bpmhId: string): BpmhOutput {
+    const bpmh = this.store.get(bpmhId);
+    if (!bpmh) {
+      throw new GenericError(ErrorType.NO_RESULTS_FOUND, `No BPMH found with ID '${bpmhId}'`, {
+        severity: ErrorSeverity.MEDIUM,
+        suggestions: [
+          'Run gather_bpmh first and pass the bpmh_id it returns',
+          'Check the bpmh_id for typos',
+        ],
+        details: { bpmh_id: bpmhId },
+      });
+    }
+    return bpmh;
+  }
+}
+
+// ===== SINGLETON INSTANCE =====
+
+let bpmhStoreInstance: BpmhStoreService | null = null;
+
+/**
+ * Gets singleton instance of the BPMH store
+ */
+export function getBpmhStore(): BpmhStoreService {
+  if (!bpmhStoreInstance) {
+    bpmhStoreInstance = new BpmhStoreService();
+  }
+  return bpmhStoreInstance;
+}
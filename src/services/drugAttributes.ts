@@ -0,0 +1,124 @@
+/**
+ * Drug Attribute Service
+ * Per-drug attributes from knowledge/drug_attributes/attributes.json that feed whole-list risk
+ * scores, which pairwise interaction rules cannot express (e.g. cumulative QT prolongation,
+ * anticholinergic burden and serotonergic load).
+ */
+
+import { join } from 'node:path';
+import { z } from 'zod';
+import { KNOWLEDGE_BASE_CONFIG } from '../config/appConfig.js';
+import {
+  KNOWLEDGE_ROOT,
+  KnowledgeBaseVersion,
+  assertKnowledgeConsistent,
+  knowledgeVersionShape,
+  nonEmptyText,
+  readKnowledgeFile,
+} from './knowledgeFiles.js';
+import { DrugTaxonomy, getDrugTaxonomy } from './drugClassification.js';
+
+// ===== ATTRIBUTE SCHEMA =====
+
+const DrugAttributeTableSchema = z.object({
+  ...knowledgeVersionShape,
+  sources: z.array(nonEmptyText).min(1),
+  drugs: z.array(z.object({
+    drug: nonEmptyText.describe('Ingredient from the drug class taxonomy'),
+    qt_risk: z.enum(['known', 'possible', 'conditional']).nullable().describe('Risk of torsades de pointes'),
+    anticholinergic_burden: z.number().int().min(0).max(3).describe('Anticholinergic Cognitive Burden (ACB) score'),
+    serotonergic_mechanism: z.enum(['mao_inhibitor', 'reuptake_inhibitor', 'release_enhancer', 'receptor_agonist', 'other'])
+      .nullable().describe('How the drug raises serotonin activity'),
+  }).strict()),
+}).strict();
+
+type DrugAttributeTableData = z.infer<typeof DrugAttributeTableSchema>;
+
+export type DrugAttributes = DrugAttributeTableData['drugs'][number];
+export type QtRiskCategory = NonNullable<DrugAttributes['qt_risk']>;
+export type SerotonergicMechanism = NonNullable<DrugAttributes['serotonergic_mechanism']>;
+
+export const DEFAULT_DRUG_ATTRIBUTES_FILE = join(KNOWLEDGE_ROOT, 'drug_attributes', 'attributes.json');
+
+const FORMAT_GUIDE = 'knowledge/drug_attributes/README.md';
+
+// ===== DRUG ATTRIBUTE TABLE =====
+
+export class DrugAttributeTable {
+  readonly version: KnowledgeBaseVersion;
+  readonly sources: string[];
+  private readonly attributes = new Map<string, DrugAttributes>();
+
+  constructor(data: DrugAttributeTableData, taxonomy: DrugTaxonomy, source: string) {
+    this.version = { name: data.name, version: data.version, released: data.released };
+    this.sources = data.sources;
+    const problems: string[] = [];
+
+    for (const entry of data.drugs) {
+      const key = DrugTaxonomy.toKey(entry.drug);
+      if (this.attributes.has(key)) problems.push(`${entry.drug}: listed more than once`);
+      if (taxonomy.classify(key).ingredient === null) problems.push(`${entry.drug}: not an ingredient in the drug class taxonomy`);
+      this.attributes.set(key, entry);
+    }
+
+    assertKnowledgeConsistent(
+      problems,
+      'Drug attribute table is inconsistent',
+      `Correct the listed entries; see ${FORMAT_GUIDE} for the format`,
+      source
+    );
+  }
+
+  /**
+   * Attributes of a resolved ingredient, or null when the table does not list it.
+   */
+  get(drugName: string): DrugAttributes | null {
+    return this.attributes.get(DrugTaxonomy.toKey(drugName)) ?? null;
+  }
+
+  /**
+   * Torsades de pointes risk category of the drug, or null when it has none.
+   */
+  qtRisk(drugName: string): QtRiskCategory | null {
+    return this.get(drugName)?.qt_risk ?? null;
+  }
+
+  /**
+   * ACB score of the drug, 0 when the table does not list it.
+   */
+  anticholinergicBurden(drugName: string): number {
+    return this.get(drugName)?.anticholinergic_burden ?? 0;
+  }
+
+  /**
+   * How the drug raises serotonin activity, or null when it is not serotonergic.
+   */
+  serotonergicMechanism(drugName: string): SerotonergicMechanism | null {
+    return this.get(drugName)?.serotonergic_mechanism ?? null;
+  }
+}
+
+/**
+ * Reads and validates an attribute table file.
+ * @throws GenericError if the file is invalid or names drugs missing from the taxonomy.
+ */
+export function loadDrugAttributeTable(filePath: string, taxonomy: DrugTaxonomy): DrugAttributeTable {
+  return new DrugAttributeTable(readKnowledgeFile(filePath, DrugAttributeTableSchema, FORMAT_GUIDE), taxonomy, filePath);
+}
+
+// ===== SINGLETON INSTANCE =====
+
+let drugAttributeTableInstance: DrugAttributeTable | null = null;
+
+/**
+ * Gets the loaded drug attribute table, loading it on first use
+ */
+export function getDrugAttributeTable(): DrugAttributeTable {
+  if (!drugAttributeTableInstance) {
+    drugAttributeTableInstance = loadDrugAttributeTable(
+      KNOWLEDGE_BASE_CONFIG.DRUG_ATTRIBUTES_FILE || DEFAULT_DRUG_ATTRIBUTES_FILE,
+      getDrugTaxonomy()
+    );
+  }
+  return drugAttributeTableInstance;
+}
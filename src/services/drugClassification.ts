@@ -0,0 +1,177 @@
+/**
+ * Drug Classification Service
+ * ATC-style drug class hierarchy loaded from knowledge/drug_classes/taxonomy.json. Resolves a
+ * drug to its ingredient and every class above it, so screening rules can target a single
+ * ingredient (lisinopril), a class (ace_inhibitor) or a group of classes (renin_angiotensin_agent).
+ */
+
+import { join } from 'node:path';
+import { z } from 'zod';
+import { KNOWLEDGE_BASE_CONFIG } from '../config/appConfig.js';
+import {
+  KNOWLEDGE_ROOT,
+  KnowledgeBaseVersion,
+  assertKnowledgeConsistent,
+  knowledgeVersionShape,
+  nonEmptyText,
+  readKnowledgeFile,
+} from './knowledgeFiles.js';
+
+// ===== TAXONOMY SCHEMA =====
+
+const identifier = z.string().regex(/^[a-z0-9_]+$/, 'identifiers use lowercase letters, digits and underscores');
+
+const DrugTaxonomySchema = z.object({
+  ...knowledgeVersionShape,
+  classes: z.array(z.object({
+    id: identifier,
+    name: nonEmptyText,
+    atc_code: nonEmptyText,
+    parent: identifier.nullable(),
+  }).strict()),
+  ingredients: z.array(z.object({
+    id: identifier,
+    atc_code: nonEmptyText,
+    classes: z.array(identifier).min(1),
+  }).strict()),
+}).strict();
+
+type DrugTaxonomyData = z.infer<typeof DrugTaxonomySchema>;
+
+export const DEFAULT_DRUG_TAXONOMY_FILE = join(KNOWLEDGE_ROOT, 'drug_classes', 'taxonomy.json');
+
+const FORMAT_GUIDE = 'knowledge/drug_classes/README.md';
+
+// ===== CLASSIFICATION TYPES =====
+
+export interface DrugClassification {
+  ingredient: string | null; // Taxonomy ingredient, or null when the drug is not in the taxonomy
+  atc_code: string | null;
+  classes: string[]; // Every class the drug belongs to, most specific first
+}
+
+// ===== DRUG TAXONOMY =====
+
+export class DrugTaxonomy {
+  readonly version: KnowledgeBaseVersion;
+  private readonly classParents = new Map<string, string | null>();
+  private readonly ingredients = new Map<string, { atc_code: string; classes: string[] }>();
+
+  constructor(data: DrugTaxonomyData, source: string) {
+    this.version = { name: data.name, version: data.version, released: data.released };
+    for (const drugClass of data.classes) this.classParents.set(drugClass.id, drugClass.parent);
+    for (const ingredient of data.ingredients) this.ingredients.set(ingredient.id, ingredient);
+
+    assertKnowledgeConsistent(
+      this.findProblems(data),
+      'Drug class taxonomy is inconsistent',
+      `Correct the listed entries; see ${FORMAT_GUIDE} for the format`,
+      source
+    );
+  }
+
+  /**
+   * Resolves a drug name to its ingredient and the full chain of classes above it.
+   */
+  classify(drugName: string): DrugClassification {
+    const key = DrugTaxonomy.toKey(drugName);
+    const ingredient = this.ingredients.get(key);
+    if (!ingredient) {
+      return { ingredient: null, atc_code: null, classes: [] };
+    }
+
+    const classes: string[] = [];
+    for (const directClass of ingredient.classes) {
+      for (let current: string | null | undefined = directClass; current; current = this.classParents.get(current)) {
+        if (!classes.includes(current)) classes.push(current);
+      }
+    }
+    return { ingredient: key, atc_code: ingredient.atc_code, classes };
+  }
+
+  /**
+   * Whether a drug is the target ingredient or belongs to the target class at any level.
+   */
+  matches(drugName: string, target: string): boolean {
+    const classification = this.classify(drugName);
+    const key = DrugTaxonomy.toKey(target);
+    return classification.ingredient === key || classification.classes.includes(key);
+  }
+
+  /**
+   * Whether the identifier names an ingredient or class in the taxonomy.
+   */
+  isKnownTarget(target: string): boolean {
+    const key = DrugTaxonomy.toKey(target);
+    return this.ingredients.has(key) || this.classParents.has(key);
+  }
+
+  /**
+   * Identifiers of every ingredient in the taxonomy.
+   */
+  ingredientIds(): string[] {
+    return [...this.ingredients.keys()];
+  }
+
+  /**
+   * Lowercases and joins words with underscores: "Isosorbide Mononitrate" -> isosorbide_mononitrate.
+   */
+  static toKey(name: string): string {
+    return name.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  }
+
+  private findProblems(data: DrugTaxonomyData): string[] {
+    const problems: string[] = [];
+    const seen = new Set<string>();
+
+    for (const id of [...data.classes.map(c => c.id), ...data.ingredients.map(i => i.id)]) {
+      if (seen.has(id)) problems.push(`${id}: identifier is used more than once`);
+      seen.add(id);
+    }
+
+    for (const drugClass of data.classes) {
+      if (drugClass.parent !== null && !this.classParents.has(drugClass.parent)) {
+        problems.push(`${drugClass.id}: parent class '${drugClass.parent}' is not defined`);
+      }
+
+      const visited = new Set<string>();
+      for (let current: string | null | undefined = drugClass.id; current; current = this.classParents.get(current)) {
+        if (visited.has(current)) {
+          problems.push(`${drugClass.id}: class hierarchy contains a cycle`);
+          break;
+        }
+        visited.add(current);
+      }
+    }
+
+    for (const ingredient of data.ingredients) {
+      for (const drugClass of ingredient.classes) {
+        if (!this.classParents.has(drugClass)) problems.push(`${ingredient.id}: class '${drugClass}' is not defined`);
+      }
+    }
+
+    return problems;
+  }
+}
+
+/**
+ * Reads and validates a taxonomy file.
+ * @throws GenericError if the file is invalid or the hierarchy is inconsistent.
+ */
+export function loadDrugTaxonomy(filePath: string): DrugTaxonomy {
+  return new DrugTaxonomy(readKnowledgeFile(filePath, DrugTaxonomySchema, FORMAT_GUIDE), filePath);
+}
+
+// ===== SINGLETON INSTANCE =====
+
+let drugTaxonomyInstance: DrugTaxonomy | null = null;
+
+/**
+ * Gets the loaded drug class taxonomy, loading it on first use
+ */
+export function getDrugTaxonomy(): DrugTaxonomy {
+  if (!drugTaxonomyInstance) {
+    drugTaxonomyInstance = loadDrugTaxonomy(KNOWLEDGE_BASE_CONFIG.DRUG_TAXONOMY_FILE || DEFAULT_DRUG_TAXONOMY_FILE);
+  }
+  return drugTaxonomyInstance;
+}
@@ -0,0 +1,343 @@
+/**
+ * Drug-Laboratory Rules Service
+ * Lab-contingent safety checks loaded from knowledge/drug_lab/rules.json: a rule fires when a
+ * patient taking a drug has a lab result above or below a threshold (digoxin with low potassium,
+ * metformin with low eGFR, warfarin with high INR). Lab results are read from free-text test names
+ * and results and converted to the unit the rules use.
+ */
+
+import { join } from 'node:path';
+import { z } from 'zod';
+import { KNOWLEDGE_BASE_CONFIG } from '../config/appConfig.js';
+import {
+  KNOWLEDGE_ROOT,
+  KnowledgeBaseVersion,
+  assertKnowledgeConsistent,
+  knowledgeVersionShape,
+  nonEmptyText,
+  readKnowledgeFile,
+} from './knowledgeFiles.js';
+import { DrugTaxonomy, getDrugTaxonomy } from './drugClassification.js';
+import { DrugAttributeTable, getDrugAttributeTable } from './drugAttributes.js';
+
+// ===== RULE SCHEMA =====
+
+const identifier = z.string().regex(/^[a-z0-9_]+$/, 'identifiers use lowercase letters, digits and underscores');
+const severity = z.enum(['contraindicated', 'serious', 'moderate', 'minor']);
+
+const DrugLabRulesSchema = z.object({
+  ...knowledgeVersionShape,
+  labs: z.array(z.object({
+    id: identifier,
+    name: nonEmptyText,
+    unit: nonEmptyText.nullable().describe('Unit the thresholds use; null for unitless tests such as INR'),
+    terms: z.array(nonEmptyText).min(1).describe('Test names that identify the lab, matched case-insensitively'),
+    unit_conversions: z.array(z.object({
+      unit: nonEmptyText,
+      factor: z.number().positive().describe('Multiplier from this unit to the lab unit'),
+    }).strict()),
+  }).strict()),
+  rules: z.array(z.object({
+    id: nonEmptyText,
+    drugs: z.array(nonEmptyText).describe('Ingredients or classes from the drug class taxonomy'),
+    drug_qt_risk: z.array(z.enum(['known', 'possible', 'conditional'])).describe('QT risk categories from the drug attribute table'),
+    lab: identifier,
+    comparison: z.enum(['below', 'above']),
+    threshold: z.number(),
+    severity,
+    management_level: z.enum(['use_alternative', 'monitor_closely', 'adjust_dose', 'no_action']),
+    effect: nonEmptyText,
+    recommendation: nonEmptyText,
+    references: z.array(nonEmptyText).min(1),
+  }).strict()),
+}).strict();
+
+type DrugLabRulesData = z.infer<typeof DrugLabRulesSchema>;
+type LabDefinition = DrugLabRulesData['labs'][number];
+type DrugLabRule = DrugLabRulesData['rules'][number];
+
+export const DEFAULT_DRUG_LAB_RULES_FILE = join(KNOWLEDGE_ROOT, 'drug_lab', 'rules.json');
+
+const FORMAT_GUIDE = 'knowledge/drug_lab/README.md';
+
+const SEVERITY_RANK: Record<DrugLabRule['severity'], number> = { contraindicated: 4, serious: 3, moderate: 2, minor: 1 };
+
+// A number with an optional "<" or ">" qualifier and a unit, e.g. "3.1 mmol/L" or "<30"
+const RESULT_PATTERN = /^(?:([<>])=?\s*)?(\d+(?:\.\d+)?|\.\d+)\s*(.*)$/;
+
+// ===== LAB VALUE TYPES =====
+
+export interface LabValue {
+  lab: string; // Lab id from the rules file
+  value: number; // In the lab's unit
+  qualifier: '<' | '>' | null; // Set for results reported beyond a limit, e.g. "<30"
+  reported_as: string; // Test name and result as given
+  converted_from_unit: string | null; // Unit of the reported result when it was converted
+  datetime: string | null;
+}
+
+export interface LabResultInput {
+  test_name: string;
+  result: string;
+  datetime?: string | undefined;
+}
+
+export interface LabReadResult {
+  values: LabValue[];
+  unreadable: Array<{ test_name: string; result: string; reason: string }>; // A lab the rules use, but the result could not be read
+}
+
+export interface DrugLabMedication {
+  drug_name: string;
+  resolved_name: string;
+}
+
+export interface DrugLabAlert {
+  rule_id: string;
+  medications: DrugLabMedication[]; // Every drug the rule is the strongest rule for, e.g. all QT-prolonging drugs with a low potassium
+  lab: string;
+  lab_name: string;
+  value: number;
+  qualifier: '<' | '>' | null;
+  unit: string | null;
+  comparison: 'below' | 'above';
+  threshold: number;
+  reported_as: string;
+  lab_datetime: string | null;
+  severity: DrugLabRule['severity'];
+  management_level: DrugLabRule['management_level'];
+  effect: string;
+  recommendation: string;
+  references: string[];
+  message: string; // Drugs, value and threshold in one sentence, e.g. "digoxin with potassium 3.1 mmol/L (below 3.5 mmol/L)"
+}
+
+// ===== DRUG-LABORATORY RULES =====
+
+export class DrugLabRules {
+  readonly version: KnowledgeBaseVersion;
+  private readonly labs = new Map<string, LabDefinition>();
+  private readonly rules: DrugLabRule[];
+  private readonly taxonomy: DrugTaxonomy;
+  private readonly attributes: DrugAttributeTable;
+
+  constructor(data: DrugLabRulesData, taxonomy: DrugTaxonomy, attributes: DrugAttributeTable, source: string) {
+    this.version = { name: data.name, version: data.version, released: data.released };
+    this.rules = data.rules;
+    this.taxonomy = taxonomy;
+    this.attributes = attributes;
+    const problems: string[] = [];
+
+    for (const lab of data.labs) {
+      if (this.labs.has(lab.id)) problems.push(`${lab.id}: lab is listed more than once`);
+      this.labs.set(lab.id, lab);
+    }
+
+    const ruleIds = new Set<string>();
+    for (const rule of data.rules) {
+      if (ruleIds.has(rule.id)) problems.push(`${rule.id}: rule id is used more than once`);
+      ruleIds.add(rule.id);
+      if (!this.labs.has(rule.lab)) problems.push(`${rule.id}: lab '${rule.lab}' is not defined`);
+      if (rule.drugs.length === 0 && rule.drug_qt_risk.length === 0) problems.push(`${rule.id}: names no drugs or QT risk categories`);
+      for (const target of rule.drugs) {
+        if (!taxonomy.isKnownTarget(target)) problems.push(`${rule.id}: '${target}' is not an ingredient or class in the drug class taxonomy`);
+      }
+    }
+
+    assertKnowledgeConsistent(
+      problems,
+      'Drug-laboratory rules are inconsistent',
+      `Correct the listed entries; see ${FORMAT_GUIDE} for the format`,
+      source
+    );
+  }
+
+  /**
+   * Lab value for a number already in the lab's unit, e.g. a potassium_meq_l input field.
+   */
+  labValue(labId: string, value: number, datetime: string | null = null): LabValue {
+    const lab = this.labs.get(labId);
+    return {
+      lab: labId,
+      value,
+      qualifier: null,
+      reported_as: `${lab?.name ?? labId} ${value}${lab?.unit ? ` ${lab.unit}` : ''}`,
+      converted_from_unit: null,
+      datetime
+    };
+  }
+
+  /**
+   * Reads free-text lab results. Tests the rules do not use are ignored; results of tests they use
+   * that have no number or an unknown unit are returned as unreadable.
+   */
+  readLabResults(results: LabResultInput[]): LabReadResult {
+    const values: LabValue[] = [];
+    const unreadable: LabReadResult['unreadable'] = [];
+
+    for (const result of results) {
+      const testName = result.test_name.trim().toLowerCase();
+      const lab = [...this.labs.values()].find(candidate => candidate.terms.some(term => term.toLowerCase() === testName));
+      if (!lab) continue;
+
+      const match = RESULT_PATTERN.exec(result.result.trim());
+      const number = match ? Number(match[2]) : NaN;
+      if (!match || Number.isNaN(number)) {
+        unreadable.push({ test_name: result.test_name, result: result.result, reason: 'No numeric result' });
+        continue;
+      }
+
+      const unit = (match[3] ?? '').trim();
+      const factor = unitFactor(lab, unit);
+      if (factor === null) {
+        unreadable.push({ test_name: result.test_name, result: result.result, reason: `Unit not recognized; expected ${expectedUnits(lab)}` });
+        continue;
+      }
+
+      values.push({
+        lab: lab.id,
+        value: Math.round(number * factor * 100) / 100,
+        qualifier: match[1] === '<' || match[1] === '>' ? match[1] : null,
+        reported_as: `${result.test_name} ${result.result}`,
+        converted_from_unit: factor === 1 ? null : unit,
+        datetime: result.datetime ?? null
+      });
+    }
+
+    return { values, unreadable };
+  }
+
+  /**
+   * Checks each medication against the most recent value of each lab. Per drug and lab only the
+   * strongest rule that fires is used: the highest severity, then the most extreme threshold.
+   * One alert is returned per rule, listing every drug it applies to.
+   */
+  check(medications: DrugLabMedication[], labValues: LabValue[]): DrugLabAlert[] {
+    const alerts: DrugLabAlert[] = [];
+
+    for (const labValue of latestValues(labValues)) {
+      const lab = this.labs.get(labValue.lab);
+      if (!lab) continue;
+
+      const medicationsByRule = new Map<DrugLabRule, DrugLabMedication[]>();
+      for (const medication of medications) {
+        const fired = this.rules.filter(rule =>
+          rule.lab === lab.id && this.appliesToDrug(rule, medication.resolved_name) && exceeds(rule, labValue)
+        );
+        const strongest = fired.reduce<DrugLabRule | null>((best, rule) => best === null || isStronger(rule, best) ? rule : best, null);
+        if (strongest) medicationsByRule.set(strongest, [...(medicationsByRule.get(strongest) ?? []), medication]);
+      }
+      for (const [rule, ruleMedications] of medicationsByRule) {
+        alerts.push(buildAlert(rule, lab, labValue, ruleMedications));
+      }
+    }
+
+    return alerts;
+  }
+
+  private appliesToDrug(rule: DrugLabRule, drugName: string): boolean {
+    if (rule.drugs.some(target => this.taxonomy.matches(drugName, target))) return true;
+    const qtRisk = this.attributes.qtRisk(drugName);
+    return qtRisk !== null && rule.drug_qt_risk.includes(qtRisk);
+  }
+}
+
+function normalizeUnit(unit: string): string {
+  return unit.toLowerCase().replace(/²/g, '2').replace(/\s+/g, '');
+}
+
+function unitFactor(lab: LabDefinition, unit: string): number | null {
+  if (unit === '') return 1;
+  if (lab.unit !== null && normalizeUnit(unit) === normalizeUnit(lab.unit)) return 1;
+  return lab.unit_conversions.find(conversion => normalizeUnit(conversion.unit) === normalizeUnit(unit))?.factor ?? null;
+}
+
+function expectedUnits(lab: LabDefinition): string {
+  const units = [lab.unit, ...lab.unit_conversions.map(conversion => conversion.unit)].filter((unit): unit is string => unit !== null);
+  return units.length > 0 ? units.join(' or ') : 'no unit';
+}
+
+// Most recent value per lab; undated or equally dated values are ranked by their order in the list
+function latestValues(labValues: LabValue[]): LabValue[] {
+  const latest = new Map<string, LabValue>();
+  for (const value of labValues) {
+    const current = latest.get(value.lab);
+    const time = value.datetime ? Date.parse(value.datetime) : NaN;
+    const currentTime = current?.datetime ? Date.parse(current.datetime) : NaN;
+    if (!current || Number.isNaN(time) || Number.isNaN(currentTime) || time >= currentTime) {
+      latest.set(value.lab, value);
+    }
+  }
+  return [...latest.values()];
+}
+
+// A result reported as "<30" is below every threshold of 30 or more, and likewise for ">"
+function exceeds(rule: DrugLabRule, labValue: LabValue): boolean {
+  if (rule.comparison === 'below') {
+    return labValue.value < rule.threshold || (labValue.qualifier === '<' && labValue.value <= rule.threshold);
+  }
+  return labValue.value > rule.threshold || (labValue.qualifier === '>' && labValue.value >= rule.threshold);
+}
+
+function isStronger(rule: DrugLabRule, other: DrugLabRule): boolean {
+  if (SEVERITY_RANK[rule.severity] !== SEVERITY_RANK[other.severity]) {
+    return SEVERITY_RANK[rule.severity] > SEVERITY_RANK[other.severity];
+  }
+  return rule.comparison === 'below' ? rule.threshold < other.threshold : rule.threshold > other.threshold;
+}
+
+function buildAlert(
+  rule: DrugLabRule,
+  lab: LabDefinition,
+  labValue: LabValue,
+  medications: DrugLabMedication[]
+): DrugLabAlert {
+  const unit = lab.unit ? ` ${lab.unit}` : '';
+  const value = `${labValue.qualifier ?? ''}${labValue.value}${unit}`;
+  return {
+    rule_id: rule.id,
+    medications,
+    lab: lab.id,
+    lab_name: lab.name,
+    value: labValue.value,
+    qualifier: labValue.qualifier,
+    unit: lab.unit,
+    comparison: rule.comparison,
+    threshold: rule.threshold,
+    reported_as: labValue.reported_as,
+    lab_datetime: labValue.datetime,
+    severity: rule.severity,
+    management_level: rule.management_level,
+    effect: rule.effect,
+    recommendation: rule.recommendation,
+    references: rule.references,
+    message: `${medications.map(medication => medication.drug_name).join(', ')} with ${lab.name} ${value} (${rule.comparison} ${rule.threshold}${unit}` +
+      `${labValue.converted_from_unit ? `; converted from ${labValue.reported_as}` : ''})`
+  };
+}
+
+/**
+ * Reads and validates a drug-laboratory rules file.
+ * @throws GenericError if the file is invalid or refers to unknown drugs or labs.
+ */
+export function loadDrugLabRules(filePath: string, taxonomy: DrugTaxonomy, attributes: DrugAttributeTable): DrugLabRules {
+  return new DrugLabRules(readKnowledgeFile(filePath, DrugLabRulesSchema, FORMAT_GUIDE), taxonomy, attributes, filePath);
+}
+
+// ===== SINGLETON INSTANCE =====
+
+let drugLabRulesInstance: DrugLabRules | null = null;
+
+/**
+ * Gets the loaded drug-laboratory rules, loading them on first use
+ */
+export function getDrugLabRules(): DrugLabRules {
+  if (!drugLabRulesInstance) {
+    drugLabRulesInstance = loadDrugLabRules(
+      KNOWLEDGE_BASE_CONFIG.DRUG_LAB_RULES_FILE || DEFAULT_DRUG_LAB_RULES_FILE,
+      getDrugTaxonomy(),
+      getDrugAttributeTable()
+    );
+  }
+  return drugLabRulesInstance;
+}
@@ -0,0 +1,231 @@
+/**
+ * Drug Name Normalizer Service
+ * Resolves free-text drug names ("Lanoxin", "digoxin 0.125", "Vancomycin HCl") to a canonical
+ * ingredient using the synonym dictionary in knowledge/drug_names/synonyms.json and the
+ * ingredients of the drug class taxonomy. Every tool that compares drug names goes through it.
+ */
+
+import { join } from 'node:path';
+import { z } from 'zod';
+import { KNOWLEDGE_BASE_CONFIG } from '../config/appConfig.js';
+import {
+  KNOWLEDGE_ROOT,
+  KnowledgeBaseVersion,
+  assertKnowledgeConsistent,
+  knowledgeVersionShape,
+  nonEmptyText,
+  readKnowledgeFile,
+} from './knowledgeFiles.js';
+import { DrugTaxonomy, getDrugTaxonomy } from './drugClassification.js';
+
+// ===== DICTIONARY SCHEMA =====
+
+const DrugNameDictionarySchema = z.object({
+  ...knowledgeVersionShape,
+  salt_forms: z.array(nonEmptyText),
+  dosage_form_terms: z.array(nonEmptyText),
+  entries: z.array(z.object({
+    ingredient: z.string().regex(/^[a-z0-9_]+$/, 'ingredient uses lowercase letters, digits and underscores'),
+    brand_names: z.array(nonEmptyText),
+    synonyms: z.array(nonEmptyText),
+    misspellings: z.array(nonEmptyText),
+  }).strict()),
+}).strict();
+
+type DrugNameDictionaryData = z.infer<typeof DrugNameDictionarySchema>;
+
+export const DEFAULT_DRUG_NAME_DICTIONARY_FILE = join(KNOWLEDGE_ROOT, 'drug_names', 'synonyms.json');
+
+const FORMAT_GUIDE = 'knowledge/drug_names/README.md';
+
+// Strength expressions such as "0.125", "500 mg", "1g", "100 units/mL", "250mg/5mL", "10%"
+const STRENGTH_PATTERN = /\b\d+(?:\.\d+)?\s*(?:mg|mcg|µg|ug|g|gm|ml|l|units?|u|iu|meq|mmol|%)?(?:\s*\/\s*(?:\d+(?:\.\d+)?\s*)?(?:mg|mcg|ml|l|g|h|hr|dose|actuation)?)?(?=\s|$|[,;)])/gi;
+
+// ===== NORMALIZATION TYPES =====
+
+export type DrugNameMatchType = 'ingredient' | 'brand' | 'synonym' | 'misspelling' | 'unresolved';
+
+export interface ResolvedDrugName {
+  input: string;
+  resolved_name: string; // Canonical ingredient, or the cleaned input when it could not be resolved
+  match_type: DrugNameMatchType;
+  removed_terms: string[]; // Strengths, salt forms and dosage forms stripped before lookup
+  did_you_mean: string | null; // Closely spelled ingredient for an unresolved name; a suggestion only, never used for lookups
+}
+
+// ===== DRUG NAME NORMALIZER =====
+
+export class DrugNameNormalizer {
+  readonly version: KnowledgeBaseVersion;
+  private readonly names = new Map<string, { ingredient: string; match_type: Exclude<DrugNameMatchType, 'unresolved'> }>();
+  private readonly strippableTerms: Set<string>;
+
+  constructor(data: DrugNameDictionaryData, taxonomy: DrugTaxonomy, source: string) {
+    this.version = { name: data.name, version: data.version, released: data.released };
+    this.strippableTerms = new Set([...data.salt_forms, ...data.dosage_form_terms].map(term => term.toLowerCase()));
+
+    const problems: string[] = [];
+    const register = (name: string, ingredient: string, matchType: 'ingredient' | 'brand' | 'synonym' | 'misspelling') => {
+      const key = DrugTaxonomy.toKey(name);
+      const existing = this.names.get(key);
+      if (existing && existing.ingredient !== ingredient) {
+        problems.push(`'${name}' maps to both ${existing.ingredient} and ${ingredient}`);
+        return;
+      }
+      if (!existing || matchType === 'ingredient') this.names.set(key, { ingredient, match_type: matchType });
+    };
+
+    for (const ingredient of taxonomy.ingredientIds()) register(ingredient, ingredient, 'ingredient');
+    for (const entry of data.entries) register(entry.ingredient, entry.ingredient, 'ingredient');
+    for (const entry of data.entries) {
+      entry.brand_names.forEach(name => register(name, entry.ingredient, 'brand'));
+      entry.synonyms.forEach(name => register(name, entry.ingredient, 'synonym'));
+      entry.misspellings.forEach(name => register(name, entry.ingredient, 'misspelling'));
+    }
+
+    assertKnowledgeConsistent(
+      problems,
+      'Drug name dictionary is inconsistent',
+      `Remove the conflicting names; see ${FORMAT_GUIDE} for the format`,
+      source
+    );
+  }
+
+  /**
+   * Resolves a free-text drug name to its canonical ingredient. Tries the name as written,
+   * then without strength, salt and dosage-form terms, then text inside parentheses, then
+   * word by word. Unresolved names are returned cleaned but unchanged, with a closely spelled
+   * ingredient as a suggestion: many real drugs are one letter apart (nizatidine and tizanidine), so
+   * a near miss is never taken to be the drug.
+   */
+  resolve(drugName: string): ResolvedDrugName {
+    const lowered = drugName.toLowerCase();
+    const strengths = lowered.match(STRENGTH_PATTERN)?.map(term => term.trim()) ?? [];
+    const withoutStrength = lowered.replace(STRENGTH_PATTERN, ' ');
+
+    const outside = withoutStrength.replace(/\(.*?\)/g, ' ');
+    const inside = [...withoutStrength.matchAll(/\((.*?)\)/g)].map(match => match[1] ?? '');
+    const candidates = [outside, ...inside].map(text => text.replace(/[,;:]/g, ' ').trim()).filter(text => text.length > 0);
+
+    for (const candidate of candidates) {
+      const { stripped, removed } = this.stripTerms(candidate);
+      for (const [text, removedTerms] of [[candidate, []], [stripped, removed]] as Array<[string, string[]]>) {
+        const match = this.names.get(DrugTaxonomy.toKey(text));
+        if (match) {
+          return { input: drugName, resolved_name: match.ingredient, match_type: match.match_type, removed_terms: [...strengths, ...removedTerms], did_you_mean: null };
+        }
+      }
+    }
+
+    const primary = this.stripTerms(candidates[0] ?? lowered);
+    const primaryKey = DrugTaxonomy.toKey(primary.stripped);
+
+    // Brand and generic written together ("Bayer aspirin"): every word must name the same ingredient
+    const words = primary.stripped.split(/\s+/);
+    const wordMatches = words.flatMap(word => this.names.get(DrugTaxonomy.toKey(word)) ?? []);
+    const wordMatch = wordMatches[0];
+    if (wordMatch && wordMatches.length === words.length && wordMatches.every(match => match.ingredient === wordMatch.ingredient)) {
+      return { input: drugName, resolved_name: wordMatch.ingredient, match_type: wordMatch.match_type, removed_terms: [...strengths, ...primary.removed], did_you_mean: null };
+    }
+
+    // Salt words stay in unresolved names so "sodium chloride" is not reported as "chloride"
+    return {
+      input: drugName,
+      resolved_name: DrugTaxonomy.toKey(candidates[0] ?? lowered),
+      match_type: 'unresolved',
+      removed_terms: strengths,
+      did_you_mean: this.findClosestName(primaryKey)
+    };
+  }
+
+  private stripTerms(text: string): { stripped: string; removed: string[] } {
+    const words = text.split(/\s+/).filter(word => word.length > 0);
+    const kept = words.filter(word => !this.strippableTerms.has(word));
+    // Keep the original words if stripping would leave nothing (e.g. "calcium carbonate")
+    if (kept.length === 0) return { stripped: text, removed: [] };
+    return { stripped: kept.join(' '), removed: words.filter(word => this.strippableTerms.has(word)) };
+  }
+
+  /**
+   * Finds the single ingredient whose known names are within a small edit distance of the key, to
+   * suggest for an unresolved name:
+   * one edit for names of 5-8 characters, two for longer names. Shorter names and ties between
+   * different ingredients are left unresolved rather than guessed.
+   */
+  private findClosestName(key: string): string | null {
+    if (key.length < 5) return null;
+    const maxDistance = key.length >= 9 ? 2 : 1;
+
+    let best: { ingredient: string; distance: number } | null = null;
+    let ambiguous = false;
+    for (const [name, match] of this.names) {
+      if (Math.abs(name.length - key.length) > maxDistance) continue;
+      const distance = editDistance(key, name);
+      if (distance > maxDistance) continue;
+      if (!best || distance < best.distance) {
+        best = { ingredient: match.ingredient, distance };
+        ambiguous = false;
+      } else if (distance === best.distance && match.ingredient !== best.ingredient) {
+        ambiguous = true;
+      }
+    }
+    return best && !ambiguous ? best.ingredient : null;
+  }
+}
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions and adjacent
+ * transpositions each count as one edit.
+ */
+function editDistance(a: string, b: string): number {
+  const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  const at = (i: number, j: number): number => rows[i]?.[j] ?? 0;
+
+  for (let i = 1; i <= a.length; i++) {
+    const row = rows[i];
+    if (!row) continue;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(at(i - 1, j) + 1, at(i, j - 1) + 1, at(i - 1, j - 1) + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, at(i - 2, j - 2) + 1);
+      }
+      row[j] = value;
+    }
+  }
+  return at(a.length, b.length);
+}
+
+/**
+ * Reads and validates a dictionary file.
+ * @throws GenericError if the file is invalid or maps one name to several ingredients.
+ */
+export function loadDrugNameNormalizer(filePath: string, taxonomy: DrugTaxonomy): DrugNameNormalizer {
+  return new DrugNameNormalizer(readKnowledgeFile(filePath, DrugNameDictionarySchema, FORMAT_GUIDE), taxonomy, filePath);
+}
+
+// ===== SINGLETON INSTANCE =====
+
+let drugNameNormalizerInstance: DrugNameNormalizer | null = null;
+
+/**
+ * Gets the loaded drug name normalizer, loading it on first use
+ */
+export function getDrugNameNormalizer(): DrugNameNormalizer {
+  if (!drugNameNormalizerInstance) {
+    drugNameNormalizerInstance = loadDrugNameNormalizer(
+      KNOWLEDGE_BASE_CONFIG.DRUG_NAME_DICTIONARY_FILE || DEFAULT_DRUG_NAME_DICTIONARY_FILE,
+      getDrugTaxonomy()
+    );
+  }
+  return drugNameNormalizerInstance;
+}
+
+/**
+ * Resolves a drug name with the shared normalizer.
+ */
+export function resolveDrugName(drugName: string): ResolvedDrugName {
+  return getDrugNameNormalizer().resolve(drugName);
+}
@@ -0,0 +1,344 @@
+/**
+ * Geriatric Prescribing Criteria Service
+ * Explicit criteria for potentially inappropriate prescribing in older adults (AGS Beers Criteria
+ * and STOPP/START), loaded from knowledge/geriatrics/criteria.json. Checks a medication list,
+ * the patient's conditions and renal function against every rule and reports the matches with
+ * their rule reference.
+ */
+
+import { join } from 'node:path';
+import { z } from 'zod';
+import { KNOWLEDGE_BASE_CONFIG } from '../config/appConfig.js';
+import {
+  KNOWLEDGE_ROOT,
+  KnowledgeBaseVersion,
+  assertKnowledgeConsistent,
+  knowledgeVersionShape,
+  nonEmptyText,
+  readKnowledgeFile,
+} from './knowledgeFiles.js';
+import { DrugTaxonomy, getDrugTaxonomy } from './drugClassification.js';
+
+// ===== CRITERIA SCHEMA =====
+
+const identifier = z.string().regex(/^[a-z0-9_]+$/, 'identifiers use lowercase letters, digits and underscores');
+const drugTargets = z.array(nonEmptyText);
+
+const criteriaSet = z.enum(['beers', 'stopp', 'start']);
+
+// Fields shared by every rule type
+const ruleShape = {
+  id: nonEmptyText,
+  criteria: criteriaSet,
+  reference: nonEmptyText.describe('Table or criterion in the source, quoted in findings (e.g. "STOPP v2 D14")'),
+  description: nonEmptyText,
+  conditions: z.array(identifier).describe('Conditions of which the patient must have at least one; empty for none'),
+  unless_conditions: z.array(identifier).describe('Conditions that make the rule not apply'),
+  unless_drugs: drugTargets.describe('Ingredients or classes that make the rule not apply when prescribed'),
+  recommendation: nonEmptyText,
+  rationale: nonEmptyText,
+  quality_of_evidence: z.enum(['high', 'moderate', 'low']).nullable(),
+  strength_of_recommendation: z.enum(['strong', 'weak']).nullable(),
+};
+
+const GeriatricCriteriaSchema = z.object({
+  ...knowledgeVersionShape,
+  minimum_age: z.number().int().positive().describe('Age in years from which the criteria apply'),
+  sources: z.array(nonEmptyText).min(1),
+  conditions: z.array(z.object({
+    id: identifier,
+    name: nonEmptyText,
+    terms: z.array(nonEmptyText).min(1).describe('Condition descriptions and ICD-10 codes, matched case-insensitively'),
+  }).strict()),
+  rules: z.array(z.discriminatedUnion('type', [
+    z.object({
+      ...ruleShape,
+      type: z.literal('potentially_inappropriate_medication'),
+      drugs: drugTargets.min(1),
+      exclude: drugTargets,
+    }).strict(),
+    z.object({
+      ...ruleShape,
+      type: z.literal('drug_disease'),
+      drugs: drugTargets.min(1),
+      exclude: drugTargets,
+    }).strict(),
+    z.object({
+      ...ruleShape,
+      type: z.literal('drug_drug'),
+      drug_groups: z.array(z.object({
+        drugs: drugTargets.min(1),
+        exclude: drugTargets,
+        min_count: z.number().int().positive().describe('Medications from the group needed for the rule to apply'),
+      }).strict()).min(1),
+    }).strict(),
+    z.object({
+      ...ruleShape,
+      type: z.literal('renal'),
+      drugs: drugTargets.min(1),
+      exclude: drugTargets,
+      crcl_below_ml_min: z.number().positive().describe('Creatinine clearance below which the rule applies'),
+    }).strict(),
+    z.object({
+      ...ruleShape,
+      type: z.literal('omitted_therapy'),
+      drugs: drugTargets.min(1).describe('Indicated therapy; the rule applies when none of these is prescribed'),
+      trigger_drugs: drugTargets.describe('Prescribed drugs of which at least one must be present; empty for none'),
+    }).strict(),
+  ])),
+}).strict();
+
+type GeriatricCriteriaData = z.infer<typeof GeriatricCriteriaSchema>;
+type ConditionDefinition = GeriatricCriteriaData['conditions'][number];
+type GeriatricRule = GeriatricCriteriaData['rules'][number];
+
+export type CriteriaSet = z.infer<typeof criteriaSet>;
+export type GeriatricRuleType = GeriatricRule['type'];
+
+export const DEFAULT_GERIATRIC_CRITERIA_FILE = join(KNOWLEDGE_ROOT, 'geriatrics', 'criteria.json');
+
+const FORMAT_GUIDE = 'knowledge/geriatrics/README.md';
+
+// ===== REVIEW TYPES =====
+
+type Medication = { drug_name: string; resolved_name: string };
+
+export interface GeriatricReviewInput {
+  age: number;
+  medications: Medication[];
+  conditions: Array<{ condition: string; status: 'active' | 'controlled' | 'history' }>;
+  creatinine_clearance_ml_min?: number | undefined;
+  criteria: CriteriaSet[];
+}
+
+export interface GeriatricFinding {
+  rule_id: string;
+  criteria: CriteriaSet;
+  reference: string;
+  type: GeriatricRuleType;
+  description: string;
+  medications: Medication[]; // Drugs the rule applies to; for omitted therapies, the drugs that trigger it
+  patient_factors: string[]; // Conditions or renal function that made the rule apply
+  recommendation: string;
+  rationale: string;
+  quality_of_evidence: 'high' | 'moderate' | 'low' | null; // Beers only
+  strength_of_recommendation: 'strong' | 'weak' | null; // Beers only
+}
+
+export interface GeriatricReview {
+  criteria_version: KnowledgeBaseVersion;
+  criteria_applied: CriteriaSet[];
+  sources: string[];
+  potentially_inappropriate_medications: GeriatricFinding[]; // Includes drug-drug and renal rules
+  drug_disease_issues: GeriatricFinding[];
+  omitted_therapies: GeriatricFinding[];
+  drugs_not_assessed: string[]; // Not in the drug class taxonomy, so no rule can match them
+  notes: string[];
+}
+
+// ===== GERIATRIC CRITERIA =====
+
+export class GeriatricCriteria {
+  readonly version: KnowledgeBaseVersion;
+  readonly minimumAge: number;
+  readonly sources: string[];
+  private readonly conditions = new Map<string, ConditionDefinition>();
+  private readonly rules: GeriatricRule[];
+  private readonly taxonomy: DrugTaxonomy;
+
+  constructor(data: GeriatricCriteriaData, taxonomy: DrugTaxonomy, source: string) {
+    this.version = { name: data.name, version: data.version, released: data.released };
+    this.minimumAge = data.minimum_age;
+    this.sources = data.sources;
+    this.taxonomy = taxonomy;
+    this.rules = data.rules;
+    const problems: string[] = [];
+
+    for (const condition of data.conditions) {
+      if (this.conditions.has(condition.id)) problems.push(`${condition.id}: condition is listed more than once`);
+      this.conditions.set(condition.id, condition);
+    }
+
+    const ruleIds = new Set<string>();
+    for (const rule of data.rules) {
+      if (ruleIds.has(rule.id)) problems.push(`${rule.id}: rule id is used more than once`);
+      ruleIds.add(rule.id);
+
+      for (const target of ruleDrugTargets(rule)) {
+        if (!taxonomy.isKnownTarget(target)) problems.push(`${rule.id}: '${target}' is not an ingredient or class in the drug class taxonomy`);
+      }
+      for (const conditionId of [...rule.conditions, ...rule.unless_conditions]) {
+        if (!this.conditions.has(conditionId)) problems.push(`${rule.id}: condition '${conditionId}' is not defined`);
+      }
+      if (rule.type === 'drug_disease' && rule.conditions.length === 0) {
+        problems.push(`${rule.id}: drug_disease rules must list at least one condition`);
+      }
+      if (rule.type === 'omitted_therapy' && rule.conditions.length === 0 && rule.trigger_drugs.length === 0) {
+        problems.push(`${rule.id}: omitted_therapy rules must list conditions or trigger_drugs`);
+      }
+    }
+
+    assertKnowledgeConsistent(
+      problems,
+      'Geriatric prescribing criteria are inconsistent',
+      `Correct the listed entries; see ${FORMAT_GUIDE} for the format`,
+      source
+    );
+  }
+
+  /**
+   * Checks the medication list against every rule of the selected criteria. Conditions are
+   * matched whatever their status, since a history of falls or ulcers is itself a criterion.
+   * Renal rules are skipped when creatinine clearance is not provided.
+   */
+  review(input: GeriatricReviewInput): GeriatricReview {
+    const medications = input.medications.filter((med, index) =>
+      input.medications.findIndex(other => other.resolved_name === med.resolved_name) === index
+    );
+    const findings: GeriatricFinding[] = [];
+
+    for (const rule of this.rules) {
+      if (!input.criteria.includes(rule.criteria)) continue;
+      const finding = this.applyRule(rule, medications, input);
+      if (finding) findings.push(finding);
+    }
+
+    const notes: string[] = [];
+    if (input.age < this.minimumAge) {
+      notes.push(`The criteria are intended for adults aged ${this.minimumAge} and over; findings for a ${input.age}-year-old are advisory only`);
+    }
+    if (input.creatinine_clearance_ml_min === undefined) {
+      notes.push('Creatinine clearance not provided; renal dosing criteria were not checked');
+    }
+    if (input.conditions.length === 0) {
+      notes.push('No conditions provided; drug-disease criteria and condition-based omitted therapies were not checked');
+    }
+
+    return {
+      criteria_version: this.version,
+      criteria_applied: input.criteria,
+      sources: this.sources,
+      potentially_inappropriate_medications: findings.filter(finding =>
+        finding.type === 'potentially_inappropriate_medication' || finding.type === 'drug_drug' || finding.type === 'renal'
+      ),
+      drug_disease_issues: findings.filter(finding => finding.type === 'drug_disease'),
+      omitted_therapies: findings.filter(finding => finding.type === 'omitted_therapy'),
+      drugs_not_assessed: medications
+        .filter(med => this.taxonomy.classify(med.resolved_name).ingredient === null)
+        .map(med => med.drug_name),
+      notes
+    };
+  }
+
+  private applyRule(rule: GeriatricRule, medications: Medication[], input: GeriatricReviewInput): GeriatricFinding | null {
+    const matchedConditions = rule.conditions.flatMap(conditionId => this.patientConditions(conditionId, input.conditions));
+    if (rule.conditions.length > 0 && matchedConditions.length === 0) return null;
+    if (rule.unless_conditions.some(conditionId => this.patientConditions(conditionId, input.conditions).length > 0)) return null;
+    if (this.prescribed(medications, rule.unless_drugs, []).length > 0) return null;
+
+    const patientFactors = [...new Set(matchedConditions)];
+    let involved: Medication[];
+
+    switch (rule.type) {
+      case 'potentially_inappropriate_medication':
+      case 'drug_disease':
+        involved = this.prescribed(medications, rule.drugs, rule.exclude);
+        break;
+
+      case 'renal': {
+        const crcl = input.creatinine_clearance_ml_min;
+        if (crcl === undefined || crcl >= rule.crcl_below_ml_min) return null;
+        involved = this.prescribed(medications, rule.drugs, rule.exclude);
+        patientFactors.push(`Creatinine clearance ${crcl} mL/min (below ${rule.crcl_below_ml_min})`);
+        break;
+      }
+
+      case 'drug_drug': {
+        const byGroup = rule.drug_groups.map(group => this.prescribed(medications, group.drugs, group.exclude));
+        if (byGroup.some((matched, index) => matched.length < (rule.drug_groups[index]?.min_count ?? 1))) return null;
+        involved = byGroup.flat().filter((med, index, all) => all.indexOf(med) === index);
+        const required = rule.drug_groups.reduce((sum, group) => sum + group.min_count, 0);
+        if (involved.length < required) return null;
+        break;
+      }
+
+      case 'omitted_therapy':
+        if (this.prescribed(medications, rule.drugs, []).length > 0) return null;
+        involved = this.prescribed(medications, rule.trigger_drugs, []);
+        if (rule.trigger_drugs.length > 0 && involved.length === 0) return null;
+        return toFinding(rule, involved, patientFactors);
+    }
+
+    return involved.length > 0 ? toFinding(rule, involved, patientFactors) : null;
+  }
+
+  /**
+   * Patient conditions that match any term of the condition definition.
+   */
+  private patientConditions(conditionId: string, conditions: GeriatricReviewInput['conditions']): string[] {
+    const definition = this.conditions.get(conditionId);
+    if (!definition) return [];
+    return conditions
+      .filter(condition => definition.terms.some(term => condition.condition.toLowerCase().includes(term.toLowerCase())))
+      .map(condition => condition.condition);
+  }
+
+  private prescribed(medications: Medication[], targets: string[], exclude: string[]): Medication[] {
+    return medications.filter(med =>
+      targets.some(target => this.taxonomy.matches(med.resolved_name, target)) &&
+      !exclude.some(excluded => this.taxonomy.matches(med.resolved_name, excluded))
+    );
+  }
+}
+
+function ruleDrugTargets(rule: GeriatricRule): string[] {
+  switch (rule.type) {
+    case 'drug_drug':
+      return [...rule.unless_drugs, ...rule.drug_groups.flatMap(group => [...group.drugs, ...group.exclude])];
+    case 'omitted_therapy':
+      return [...rule.unless_drugs, ...rule.drugs, ...rule.trigger_drugs];
+    default:
+      return [...rule.unless_drugs, ...rule.drugs, ...rule.exclude];
+  }
+}
+
+function toFinding(rule: GeriatricRule, medications: Medication[], patientFactors: string[]): GeriatricFinding {
+  return {
+    rule_id: rule.id,
+    criteria: rule.criteria,
+    reference: rule.reference,
+    type: rule.type,
+    description: rule.description,
+    medications,
+    patient_factors: patientFactors,
+    recommendation: rule.recommendation,
+    rationale: rule.rationale,
+    quality_of_evidence: rule.quality_of_evidence,
+    strength_of_recommendation: rule.strength_of_recommendation
+  };
+}
+
+/**
+ * Reads and validates a geriatric criteria file.
+ * @throws GenericError if the file is invalid or refers to unknown drugs or conditions.
+ */
+export function loadGeriatricCriteria(filePath: string, taxonomy: DrugTaxonomy): GeriatricCriteria {
+  return new GeriatricCriteria(readKnowledgeFile(filePath, GeriatricCriteriaSchema, FORMAT_GUIDE), taxonomy, filePath);
+}
+
+// ===== SINGLETON INSTANCE =====
+
+let geriatricCriteriaInstance: GeriatricCriteria | null = null;
+
+/**
+ * Gets the loaded geriatric prescribing criteria, loading them on first use
+ */
+export function getGeriatricCriteria(): GeriatricCriteria {
+  if (!geriatricCriteriaInstance) {
+    geriatricCriteriaInstance = loadGeriatricCriteria(
+      KNOWLEDGE_BASE_CONFIG.GERIATRIC_CRITERIA_FILE || DEFAULT_GERIATRIC_CRITERIA_FILE,
+      getDrugTaxonomy()
+    );
+  }
+  return geriatricCriteriaInstance;
+}
@@ -0,0 +1,184 @@
+/**
+ * Hepatic Dosing Service
+ * Drug-specific hepatic dose adjustments by Child-Pugh class, loaded from
+ * knowledge/hepatic_dosing/tables.json, with the references they come from. The class is taken
+ * from the Child-Pugh calculator in hepaticFunction.ts or stated by the caller.
+ */
+
+import { join } from 'node:path';
+import { z } from 'zod';
+import { KNOWLEDGE_BASE_CONFIG } from '../config/appConfig.js';
+import {
+  KNOWLEDGE_ROOT,
+  KnowledgeBaseVersion,
+  assertKnowledgeConsistent,
+  knowledgeVersionShape,
+  nonEmptyText,
+  readKnowledgeFile,
+} from './knowledgeFiles.js';
+import { DrugTaxonomy, getDrugTaxonomy } from './drugClassification.js';
+import { ChildPughClass } from './hepaticFunction.js';
+
+// ===== TABLE SCHEMA =====
+
+const adjustment = z.object({
+  action: z.enum(['adjust', 'use_with_caution', 'avoid']),
+  dose: nonEmptyText.nullable().describe('Adjusted dose; null unless the action is adjust'),
+  dose_percent: z.number().positive().max(100).nullable().describe('Adjusted dose as a percentage of the usual single dose, when the table gives one'),
+  interval: nonEmptyText.nullable().describe('Adjusted dosing interval; null unless the action is adjust'),
+  comment: nonEmptyText.nullable(),
+}).strict().nullable().describe('Null when no adjustment is needed in this class');
+
+const HepaticDosingSchema = z.object({
+  ...knowledgeVersionShape,
+  drugs: z.array(z.object({
+    drug: nonEmptyText.describe('Ingredient from the drug class taxonomy'),
+    usual_dose: nonEmptyText,
+    usual_interval: nonEmptyText,
+    child_pugh: z.object({ A: adjustment, B: adjustment, C: adjustment }).strict(),
+    references: z.array(nonEmptyText).min(1),
+  }).strict()),
+}).strict();
+
+type HepaticDosingData = z.infer<typeof HepaticDosingSchema>;
+type HepaticDosingEntry = HepaticDosingData['drugs'][number];
+
+export const DEFAULT_HEPATIC_DOSING_FILE = join(KNOWLEDGE_ROOT, 'hepatic_dosing', 'tables.json');
+
+const FORMAT_GUIDE = 'knowledge/hepatic_dosing/README.md';
+
+// ===== HEPATIC DOSING TYPES =====
+
+export interface HepaticDoseRecommendation {
+  drug_name: string;
+  resolved_name: string;
+  child_pugh_class: ChildPughClass;
+  action: 'no_change' | 'adjust' | 'use_with_caution' | 'avoid';
+  dose: string | null;
+  dose_percent: number | null; // Percentage of the usual single dose, when the table gives one
+  interval: string | null;
+  comment: string | null;
+  usual_dose: string;
+  usual_interval: string;
+  source: {
+    tables: KnowledgeBaseVersion;
+    references: string[];
+  };
+  message: string;
+}
+
+// ===== HEPATIC DOSING TABLES =====
+
+export class HepaticDosingTables {
+  readonly version: KnowledgeBaseVersion;
+  private readonly entries = new Map<string, HepaticDosingEntry>();
+  private readonly taxonomy: DrugTaxonomy;
+
+  constructor(data: HepaticDosingData, taxonomy: DrugTaxonomy, source: string) {
+    this.version = { name: data.name, version: data.version, released: data.released };
+    this.taxonomy = taxonomy;
+    const problems: string[] = [];
+
+    for (const entry of data.drugs) {
+      const key = DrugTaxonomy.toKey(entry.drug);
+      if (this.entries.has(key)) problems.push(`${entry.drug}: listed more than once`);
+      if (taxonomy.classify(key).ingredient === null) problems.push(`${entry.drug}: not an ingredient in the drug class taxonomy`);
+      this.entries.set(key, entry);
+
+      for (const [childPughClass, classAdjustment] of Object.entries(entry.child_pugh)) {
+        if (!classAdjustment) continue;
+        const hasDosing = classAdjustment.dose !== null || classAdjustment.dose_percent !== null || classAdjustment.interval !== null;
+        if (classAdjustment.action === 'adjust' && (classAdjustment.dose === null || classAdjustment.interval === null)) {
+          problems.push(`${entry.drug}: class ${childPughClass} adjusts the dose but has no dose or interval`);
+        }
+        if (classAdjustment.action !== 'adjust' && hasDosing) {
+          problems.push(`${entry.drug}: class ${childPughClass} is ${classAdjustment.action} but gives a dose or interval`);
+        }
+        if (classAdjustment.action === 'use_with_caution' && classAdjustment.comment === null) {
+          problems.push(`${entry.drug}: class ${childPughClass} is use_with_caution but has no comment saying what to watch for`);
+        }
+      }
+    }
+
+    assertKnowledgeConsistent(
+      problems,
+      'Hepatic dosing tables are inconsistent',
+      `Correct the listed entries; see ${FORMAT_GUIDE} for the format`,
+      source
+    );
+  }
+
+  /**
+   * Whether the tables have hepatic dosing for a resolved drug name.
+   */
+  hasTable(drugName: string): boolean {
+    return this.get(drugName) !== null;
+  }
+
+  /**
+   * Hepatic dose recommendation for a medication in a Child-Pugh class, or null when the drug has no table.
+   */
+  recommend(medication: { drug_name: string; resolved_name: string }, childPughClass: ChildPughClass): HepaticDoseRecommendation | null {
+    const entry = this.get(medication.resolved_name);
+    if (!entry) return null;
+
+    const classAdjustment = entry.child_pugh[childPughClass];
+    const result = classAdjustment
+      ? {
+          action: classAdjustment.action,
+          dose: classAdjustment.dose,
+          dose_percent: classAdjustment.dose_percent,
+          interval: classAdjustment.interval,
+          comment: classAdjustment.comment,
+        }
+      : { action: 'no_change' as const, dose: entry.usual_dose, dose_percent: null, interval: entry.usual_interval, comment: null };
+
+    const what = `${medication.drug_name}, Child-Pugh class ${childPughClass}`;
+    const comment = result.comment ? `. ${result.comment}` : '';
+    const message = result.action === 'avoid' ? `${what}: avoid${comment}`
+      : result.action === 'use_with_caution' ? `${what}: use with caution${comment}`
+      : result.action === 'no_change' ? `${what}: no hepatic adjustment (${result.dose} ${result.interval})`
+      : `${what}: ${result.dose} ${result.interval}${comment}`;
+
+    return {
+      drug_name: medication.drug_name,
+      resolved_name: medication.resolved_name,
+      child_pugh_class: childPughClass,
+      ...result,
+      usual_dose: entry.usual_dose,
+      usual_interval: entry.usual_interval,
+      source: { tables: this.version, references: entry.references },
+      message
+    };
+  }
+
+  private get(drugName: string): HepaticDosingEntry | null {
+    const ingredient = this.taxonomy.classify(drugName).ingredient ?? drugName;
+    return this.entries.get(DrugTaxonomy.toKey(ingredient)) ?? null;
+  }
+}
+
+/**
+ * Reads and validates a hepatic dosing tables file.
+ * @throws GenericError if the file is invalid or names drugs missing from the taxonomy.
+ */
+export function loadHepaticDosingTables(filePath: string, taxonomy: DrugTaxonomy): HepaticDosingTables {
+  return new HepaticDosingTables(readKnowledgeFile(filePath, HepaticDosingSchema, FORMAT_GUIDE), taxonomy, filePath);
+}
+
+// ===== SINGLETON INSTANCE =====
+
+let hepaticDosingTablesInstance: HepaticDosingTables | null = null;
+
+/**
+ * Gets the loaded hepatic dosing tables, loading them on first use
+ */
+export function getHepaticDosingTables(): HepaticDosingTables {
+  if (!hepaticDosingTablesInstance) {
+    hepaticDosingTablesInstance = loadHepaticDosingTables(
+      KNOWLEDGE_BASE_CONFIG.HEPATIC_DOSING_FILE || DEFAULT_HEPATIC_DOSING_FILE,
+      getDrugTaxonomy()
+    );
+  }
+  return hepaticDosingTablesInstance;
+}
@@ -0,0 +1,151 @@
+/**
+ * Hepatic Function Scores
+ * Child-Pugh score and class from bilirubin, albumin, INR, ascites and encephalopathy, and the
+ * MELD and MELD-Na scores from bilirubin, INR, creatinine and sodium (UNOS 2016 formula). The
+ * Child-Pugh class selects the hepatic dose adjustment in the hepatic dosing tables.
+ */
+
+import { z } from 'zod';
+
+// ===== INPUT SCHEMA =====
+
+export const LiverFunctionSchema = z.object({
+  bilirubin_mg_dl: z.number().positive().optional().describe('Total bilirubin in mg/dL'),
+  albumin_g_dl: z.number().positive().optional().describe('Serum albumin in g/dL'),
+  inr: z.number().positive().optional().describe('INR'),
+  ascites: z.enum(['none', 'mild', 'moderate_severe']).optional().describe('Ascites: none, mild (or controlled with diuretics), or moderate to severe (or refractory)'),
+  encephalopathy: z.enum(['none', 'grade_1_2', 'grade_3_4']).optional().describe('Hepatic encephalopathy: none, grade 1-2 (or controlled with medication), or grade 3-4 (or refractory)'),
+  creatinine_mg_dl: z.number().positive().optional().describe('Serum creatinine in mg/dL, for MELD'),
+  sodium_mmol_l: z.number().positive().optional().describe('Serum sodium in mmol/L, for MELD-Na'),
+  dialysis_twice_in_past_week: z.boolean().optional().describe('Dialysis at least twice, or 24 hours of CVVHD, in the past week; MELD then uses a creatinine of 4.0 mg/dL')
+});
+
+export type LiverFunctionInput = z.infer<typeof LiverFunctionSchema>;
+
+export type ChildPughClass = 'A' | 'B' | 'C';
+
+// ===== SCORE TYPES =====
+
+export interface ChildPughScore {
+  score: number; // 5-15
+  class: ChildPughClass;
+  points: {
+    bilirubin: number;
+    albumin: number;
+    inr: number;
+    ascites: number;
+    encephalopathy: number;
+  };
+  interpretation: string;
+}
+
+export interface MeldScore {
+  meld: number; // 6-40
+  meld_na: number | null; // Null when sodium is not provided
+  values_used: {
+    bilirubin_mg_dl: number;
+    inr: number;
+    creatinine_mg_dl: number;
+    sodium_mmol_l: number | null;
+  }; // After the UNOS lower bounds and caps
+}
+
+export interface HepaticAssessment {
+  child_pugh: ChildPughScore | null; // Null when any component is missing
+  meld: MeldScore | null; // Null when bilirubin, INR or creatinine is missing
+  missing_for_child_pugh: string[];
+  missing_for_meld: string[];
+}
+
+const CHILD_PUGH_INTERPRETATION: Record<ChildPughClass, string> = {
+  A: 'Class A (5-6 points): well-compensated disease',
+  B: 'Class B (7-9 points): significant functional compromise',
+  C: 'Class C (10-15 points): decompensated disease',
+};
+
+// UNOS limits: values below 1.0 are set to 1.0, creatinine is capped at 4.0 mg/dL, sodium is bounded to 125-137 mmol/L
+const MELD_MINIMUM_VALUE = 1.0;
+const MELD_MAXIMUM_CREATININE = 4.0;
+const MELD_SODIUM_RANGE = { min: 125, max: 137 };
+const MELD_MAXIMUM = 40;
+
+// ===== CALCULATORS =====
+
+/**
+ * Child-Pugh score and class, or null when any of the five components is missing.
+ */
+export function calculateChildPugh(input: LiverFunctionInput): ChildPughScore | null {
+  const { bilirubin_mg_dl: bilirubin, albumin_g_dl: albumin, inr, ascites, encephalopathy } = input;
+  if (bilirubin === undefined || albumin === undefined || inr === undefined || ascites === undefined || encephalopathy === undefined) {
+    return null;
+  }
+
+  const points = {
+    bilirubin: bilirubin < 2 ? 1 : bilirubin <= 3 ? 2 : 3,
+    albumin: albumin > 3.5 ? 1 : albumin >= 2.8 ? 2 : 3,
+    inr: inr < 1.7 ? 1 : inr <= 2.3 ? 2 : 3,
+    ascites: ascites === 'none' ? 1 : ascites === 'mild' ? 2 : 3,
+    encephalopathy: encephalopathy === 'none' ? 1 : encephalopathy === 'grade_1_2' ? 2 : 3,
+  };
+  const score = points.bilirubin + points.albumin + points.inr + points.ascites + points.encephalopathy;
+  const childPughClass: ChildPughClass = score <= 6 ? 'A' : score <= 9 ? 'B' : 'C';
+
+  return { score, class: childPughClass, points, interpretation: CHILD_PUGH_INTERPRETATION[childPughClass] };
+}
+
+/**
+ * MELD score, and MELD-Na when sodium is given, or null when bilirubin, INR or creatinine is missing.
+ * MELD-Na is applied only above a MELD of 11, as in the UNOS 2016 policy.
+ */
+export function calculateMeld(input: LiverFunctionInput): MeldScore | null {
+  if (input.bilirubin_mg_dl === undefined || input.inr === undefined || input.creatinine_mg_dl === undefined) {
+    return null;
+  }
+
+  const bilirubin = Math.max(input.bilirubin_mg_dl, MELD_MINIMUM_VALUE);
+  const inr = Math.max(input.inr, MELD_MINIMUM_VALUE);
+  const creatinine = input.dialysis_twice_in_past_week
+    ? MELD_MAXIMUM_CREATININE
+    : Math.min(Math.max(input.creatinine_mg_dl, MELD_MINIMUM_VALUE), MELD_MAXIMUM_CREATININE);
+
+  const meldScore = 0.957 * Math.log(creatinine) + 0.378 * Math.log(bilirubin) + 1.120 * Math.log(inr) + 0.643;
+  const meld = Math.min(Math.round(meldScore * 10), MELD_MAXIMUM);
+
+  let meldNa: number | null = null;
+  let sodium: number | null = null;
+  if (input.sodium_mmol_l !== undefined) {
+    sodium = Math.min(Math.max(input.sodium_mmol_l, MELD_SODIUM_RANGE.min), MELD_SODIUM_RANGE.max);
+    meldNa = meld > 11
+      ? Math.min(Math.round(meld + 1.32 * (137 - sodium) - 0.033 * meld * (137 - sodium)), MELD_MAXIMUM)
+      : meld;
+  }
+
+  return {
+    meld,
+    meld_na: meldNa,
+    values_used: { bilirubin_mg_dl: bilirubin, inr, creatinine_mg_dl: creatinine, sodium_mmol_l: sodium }
+  };
+}
+
+/**
+ * Child-Pugh and MELD scores with the inputs each is missing.
+ */
+export function assessHepaticFunction(input: LiverFunctionInput): HepaticAssessment {
+  const childPughInputs: Array<keyof LiverFunctionInput> = ['bilirubin_mg_dl', 'albumin_g_dl', 'inr', 'ascites', 'encephalopathy'];
+  const meldInputs: Array<keyof LiverFunctionInput> = ['bilirubin_mg_dl', 'inr', 'creatinine_mg_dl'];
+
+  return {
+    child_pugh: calculateChildPugh(input),
+    meld: calculateMeld(input),
+    missing_for_child_pugh: childPughInputs.filter(field => input[field] === undefined),
+    missing_for_meld: meldInputs.filter(field => input[field] === undefined)
+  };
+}
+
+/**
+ * Child-Pugh class to dose by: calculated from liver function tests when they are complete,
+ * otherwise the class stated in the input. Null when neither is available.
+ */
+export function childPughClassFor(stated: ChildPughClass | undefined, assessment: HepaticAssessment | null): ChildPughClass | null {
+  return assessment?.child_pugh?.class ?? stated ?? null;
+}
@@ -0,0 +1,206 @@
+/**
+ * Interaction Case Store Service
+ * Tracks a drug interaction from screening through significance assessment,
+ * management recommendation and documented decision
+ */
+
+import type { DrugInteraction, ScreenInteractionsInput } from '../tools/interactions/screenInteractions.js';
+import type { AssessInteractionSignificanceInput, InteractionSignificanceOutput } from '../tools/interactions/assessInteractionSignificance.js';
+import type { InteractionManagementOutput, RecommendInteractionManagementInput } from '../tools/interactions/recommendInteractionManagement.js';
+import type { DocumentInteractionDecisionInput, InteractionDecisionOutput } from '../tools/interactions/documentInteractionDecision.js';
+import { GenericError, ErrorType, ErrorSeverity } from '../types/errors.js';
+import { RecordStore } from './recordStore.js';
+import type { MedicationLoadScores } from './medicationLoadScoring.js';
+
+// ===== INTERACTION CASE TYPES =====
+
+export type InteractionCaseStatus = 'screened' | 'assessed' | 'management_recommended' | 'decision_documented';
+
+export interface InteractionCaseRecord {
+  interaction_id: string;
+  screening_id: string;
+  patient_id: string;
+  status: InteractionCaseStatus;
+  created_at: string;
+  updated_at: string;
+  interaction: DrugInteraction;
+  screening_context: {
+    medications: ScreenInteractionsInput['medications'];
+    patient_conditions: ScreenInteractionsInput['patient_conditions'];
+    patient_characteristics: ScreenInteractionsInput['patient_characteristics'];
+    medication_load_scores?: MedicationLoadScores; // Absent on cases opened before load scoring was added
+  };
+  assessment: (InteractionSignificanceOutput & {
+    patient_specific_factors: AssessInteractionSignificanceInput['patient_specific_factors'];
+    clinical_context: AssessInteractionSignificanceInput['clinical_context'];
+  }) | null;
+  management: (InteractionManagementOutput & {
+    clinical_constraints: RecommendInteractionManagementInput['clinical_constraints'];
+  }) | null;
+  decision: (InteractionDecisionOutput & {
+    decision_maker: string;
+    decision_datetime: string;
+    decision: DocumentInteractionDecisionInput['decision'];
+    outcome_if_known: DocumentInteractionDecisionInput['outcome_if_known'] | null;
+  }) | null;
+  history: Array<{
+    datetime: string;
+    tool: string;
+    status: InteractionCaseStatus;
+    reference_id: string;
+    summary: string;
+  }>;
+}
+
+// ===== INTERACTION CASE STORE SERVICE =====
+
+export class InteractionCaseStoreService {
+  private readonly store = new RecordStore<InteractionCaseRecord>('interaction_cases');
+
+  /**
+   * Opens a case for an interaction found by screen_interactions.
+   */
+  openCase(
+    screeningId: string,
+    screeningInput: ScreenInteractionsInput,
+    interaction: DrugInteraction,
+    medicationLoadScores: MedicationLoadScores,
+  ): InteractionCaseRecord {
+    const now = new Date().toISOString();
+    const entity1 = interaction.interacting_entities.entity_1.name;
+    const entity2 = interaction.interacting_entities.entity_2.name;
+
+    return this.store.put(interaction.interaction_id, {
+      interaction_id: interaction.interaction_id,
+      screening_id: screeningId,
+      patient_id: screeningInput.patient_id,
+      status: 'screened',
+      created_at: now,
+      updated_at: now,
+      interaction,
+      screening_context: {
+        medications: screeningInput.medications,
+        patient_conditions: screeningInput.patient_conditions,
+        patient_characteristics: screeningInput.patient_characteristics,
+        medication_load_scores: medicationLoadScores,
+      },
+      assessment: null,
+      management: null,
+      decision: null,
+      history: [{
+        datetime: now,
+        tool: 'screen_interactions',
+        status: 'screened',
+        reference_id: screeningId,
+        summary: `${interaction.severity} ${interaction.type} interaction identified between ${entity1} and ${entity2}`,
+      }],
+    });
+  }
+
+  /**
+   * Retrieves a case by interaction ID.
+   * @throws GenericError if no case exists for the interaction.
+   */
+  getCase(interactionId: string): InteractionCaseRecord {
+    const interactionCase = this.store.get(interactionId);
+    if (!interactionCase) {
+      throw new GenericError(ErrorType.NO_RESULTS_FOUND, `No interaction case found with interaction ID '${interactionId}'`, {
+        severity: ErrorSeverity.MEDIUM,
+        suggestions: [
+          'Run screen_interactions first and pass one of the interaction_id values it returns',
+          'Check the interaction_id for typos',
+        ],
+        details: { interaction_id: interactionId },
+      });
+    }
+    return interactionCase;
+  }
+
+  /**
+   * Retrieves the case an assessment belongs to.
+   * @throws GenericError if no case has the given assessment.
+   */
+  getCaseByAssessment(assessmentId: string): InteractionCaseRecord {
+    const [interactionCase] = this.store.find(record => record.assessment?.assessment_id === assessmentId);
+    if (!interactionCase) {
+      throw new GenericError(ErrorType.NO_RESULTS_FOUND, `No interaction case found with assessment ID '${assessmentId}'`, {
+        severity: ErrorSeverity.MEDIUM,
+        suggestions: [
+          'Run assess_interaction_significance first and pass the assessment_id it returns',
+          'Check the assessment_id for typos',
+        ],
+        details: { assessment_id: assessmentId },
+      });
+    }
+    return interactionCase;
+  }
+
+  /**
+   * Records the significance assessment on the case.
+   */
+  recordAssessment(
+    interactionId: string,
+    assessment: NonNullable<InteractionCaseRecord['assessment']>,
+  ): InteractionCaseRecord {
+    return this.update(this.getCase(interactionId), 'assessed', 'assess_interaction_significance', assessment.assessment_id,
+      `Patient-specific risk ${assessment.patient_specific_risk}, significance score ${assessment.clinical_significance_score}/10`,
+      { assessment });
+  }
+
+  /**
+   * Records management recommendations on the case the assessment belongs to.
+   */
+  recordManagement(
+    assessmentId: string,
+    management: NonNullable<InteractionCaseRecord['management']>,
+  ): InteractionCaseRecord {
+    const topStrategy = management.recommendations[0]?.strategy ?? 'none';
+    return this.update(this.getCaseByAssessment(assessmentId), 'management_recommended', 'recommend_interaction_management', assessmentId,
+      `${management.recommendations.length} management strategies recommended; top strategy ${topStrategy}`,
+      { management });
+  }
+
+  /**
+   * Records the documented clinical decision on the case.
+   */
+  recordDecision(
+    interactionId: string,
+    decision: NonNullable<InteractionCaseRecord['decision']>,
+  ): InteractionCaseRecord {
+    return this.update(this.getCase(interactionId), 'decision_documented', 'document_interaction_decision', decision.documentation_id,
+      `Decision ${decision.decision.action_taken} by ${decision.decision_maker}`,
+      { decision });
+  }
+
+  private update(
+    interactionCase: InteractionCaseRecord,
+    status: InteractionCaseStatus,
+    tool: string,
+    referenceId: string,
+    summary: string,
+    changes: Partial<Pick<InteractionCaseRecord, 'assessment' | 'management' | 'decision'>>,
+  ): InteractionCaseRecord {
+    const now = new Date().toISOString();
+    return this.store.put(interactionCase.interaction_id, {
+      ...interactionCase,
+      ...changes,
+      status,
+      updated_at: now,
+      history: [...interactionCase.history, { datetime: now, tool, status, reference_id: referenceId, summary }],
+    });
+  }
+}
+
+// ===== SINGLETON INSTANCE =====
+
+let interactionCaseStoreInstance: InteractionCaseStoreService | null = null;
+
+/**
+ * Gets singleton instance of the interaction case store
+ */
+export function getInteractionCaseStore(): InteractionCaseStoreService {
+  if (!interactionCaseStoreInstance) {
+    interactionCaseStoreInstance = new InteractionCaseStoreService();
+  }
+  return interactionCaseStoreInstance;
+}
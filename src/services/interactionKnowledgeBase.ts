@@ -0,0 +1,133 @@
+/**
+ * Interaction Knowledge Base Service
+ * Loads the drug-drug, drug-condition and drug-food interaction rules from the versioned
+ * JSON files under knowledge/interactions so clinical content can be maintained without code
+ * changes. Files are validated when loaded; invalid content stops the server at startup.
+ */
+
+import { join } from 'node:path';
+import { z } from 'zod';
+import { KNOWLEDGE_BASE_CONFIG } from '../config/appConfig.js';
+import { KNOWLEDGE_ROOT, KnowledgeBaseVersion, assertKnowledgeConsistent, knowledgeVersionShape, nonEmptyText, readKnowledgeFile } from './knowledgeFiles.js';
+import { DrugTaxonomy, getDrugTaxonomy } from './drugClassification.js';
+
+// ===== KNOWLEDGE BASE SCHEMA =====
+
+const ruleContentShape = {
+  id: nonEmptyText.describe('Stable rule identifier, unique across the knowledge base'),
+  severity: z.enum(['contraindicated', 'serious', 'moderate', 'minor']),
+  management_level: z.enum(['use_alternative', 'monitor_closely', 'adjust_dose', 'no_action']),
+  mechanism: nonEmptyText,
+  clinical_effects: z.array(nonEmptyText).min(1),
+  onset: z.enum(['rapid', 'delayed', 'variable']),
+  documentation_level: z.enum(['established', 'probable', 'suspected', 'theoretical']),
+  evidence_quality: z.enum(['high', 'moderate', 'low']),
+  references: z.array(nonEmptyText).min(1).describe('Literature or labeling supporting the rule'),
+};
+
+const DrugDrugRuleSchema = z.object({
+  ...ruleContentShape,
+  drug_1: nonEmptyText.describe('Ingredient or drug class from the drug class taxonomy'),
+  drug_2: nonEmptyText.describe('Ingredient or drug class from the drug class taxonomy'),
+}).strict();
+
+const DrugConditionRuleSchema = z.object({
+  ...ruleContentShape,
+  drug: nonEmptyText.describe('Ingredient or drug class from the drug class taxonomy'),
+  condition_terms: z.array(nonEmptyText).min(1).describe('Condition descriptions or ICD-10 codes that trigger the rule'),
+}).strict();
+
+const DrugFoodRuleSchema = z.object({
+  ...ruleContentShape,
+  drug: nonEmptyText.describe('Ingredient or drug class from the drug class taxonomy'),
+  food_terms: z.array(nonEmptyText).min(1).describe('Foods or supplements that trigger the rule'),
+}).strict();
+
+const ManifestSchema = z.object({
+  ...knowledgeVersionShape,
+  files: z.object({
+    drug_drug: nonEmptyText,
+    drug_condition: nonEmptyText,
+    drug_food: nonEmptyText,
+  }).strict(),
+}).strict();
+
+export type DrugDrugRule = z.infer<typeof DrugDrugRuleSchema>;
+export type DrugConditionRule = z.infer<typeof DrugConditionRuleSchema>;
+export type DrugFoodRule = z.infer<typeof DrugFoodRuleSchema>;
+export type InteractionRule = DrugDrugRule | DrugConditionRule | DrugFoodRule;
+
+export interface InteractionKnowledgeBase {
+  version: KnowledgeBaseVersion;
+  drug_drug: DrugDrugRule[];
+  drug_condition: DrugConditionRule[];
+  drug_food: DrugFoodRule[];
+}
+
+export type { KnowledgeBaseVersion };
+
+export const DEFAULT_INTERACTIONS_DIR = join(KNOWLEDGE_ROOT, 'interactions');
+
+const FORMAT_GUIDE = 'knowledge/interactions/README.md';
+
+// ===== LOADING =====
+
+/**
+ * Reads and validates the knowledge base described by manifest.json in the directory. Drug
+ * targets must name an ingredient or class in the taxonomy, so a misspelled target is reported
+ * instead of silently never matching.
+ * @throws GenericError if a file is missing, is not valid JSON, or fails validation.
+ */
+export function loadInteractionKnowledgeBase(directory: string, taxonomy: DrugTaxonomy): InteractionKnowledgeBase {
+  const manifest = readKnowledgeFile(join(directory, 'manifest.json'), ManifestSchema, FORMAT_GUIDE);
+  const entries = <T extends z.ZodTypeAny>(fileName: string, schema: T): Array<z.infer<T>> =>
+    readKnowledgeFile(join(directory, fileName), z.object({ entries: z.array(schema) }).strict(), FORMAT_GUIDE).entries;
+
+  const knowledgeBase: InteractionKnowledgeBase = {
+    version: { name: manifest.name, version: manifest.version, released: manifest.released },
+    drug_drug: entries(manifest.files.drug_drug, DrugDrugRuleSchema),
+    drug_condition: entries(manifest.files.drug_condition, DrugConditionRuleSchema),
+    drug_food: entries(manifest.files.drug_food, DrugFoodRuleSchema),
+  };
+
+  const ids = [...knowledgeBase.drug_drug, ...knowledgeBase.drug_condition, ...knowledgeBase.drug_food].map(rule => rule.id);
+  assertKnowledgeConsistent(
+    [...new Set(ids.filter((id, index) => ids.indexOf(id) !== index))].map(id => `${id}: rule id is used more than once`),
+    'Interaction rule IDs are not unique',
+    'Give every rule in the knowledge base a unique id',
+    directory
+  );
+
+  const targets = [
+    ...knowledgeBase.drug_drug.flatMap(rule => [{ id: rule.id, drug: rule.drug_1 }, { id: rule.id, drug: rule.drug_2 }]),
+    ...knowledgeBase.drug_condition.map(rule => ({ id: rule.id, drug: rule.drug })),
+    ...knowledgeBase.drug_food.map(rule => ({ id: rule.id, drug: rule.drug })),
+  ];
+  assertKnowledgeConsistent(
+    targets
+      .filter(target => !taxonomy.isKnownTarget(target.drug))
+      .map(target => `${target.id}: '${target.drug}' is not an ingredient or class in the drug class taxonomy`),
+    'Interaction rules reference unknown drugs or classes',
+    'Use identifiers from knowledge/drug_classes/taxonomy.json, or add the missing ingredient there',
+    directory
+  );
+
+  return knowledgeBase;
+}
+
+// ===== SINGLETON INSTANCE =====
+
+let interactionKnowledgeBaseInstance: InteractionKnowledgeBase | null = null;
+
+/**
+ * Gets the loaded interaction knowledge base, loading it on first use
+ */
+export function getInteractionKnowledgeBase(): InteractionKnowledgeBase {
+  if (!interactionKnowledgeBaseInstance) {
+    interactionKnowledgeBaseInstance = loadInteractionKnowledgeBase(
+      KNOWLEDGE_BASE_CONFIG.INTERACTIONS_DIR || DEFAULT_INTERACTIONS_DIR,
+      getDrugTaxonomy()
+    );
+  }
+  return interactionKnowledgeBaseInstance;
+}
@@ -0,0 +1,35 @@
+/**
+ * Knowledge Base Startup
+ * Loads every clinical knowledge base and checks the audit settings, so an invalid data file or
+ * setting stops the server at startup rather than on the first tool call that needs it.
+ */
+
+import { getInteractionKnowledgeBase } from './interactionKnowledgeBase.js';
+import { getDrugNameNormalizer } from './drugNameNormalizer.js';
+import { getPharmacokineticInteractionEngine } from './pharmacokineticInteractions.js';
+import { getDrugAttributeTable } from './drugAttributes.js';
+import { getAllergyRules } from './allergyScreening.js';
+import { getPregnancyLactationDataset } from './pregnancyLactation.js';
+import { getGeriatricCriteria } from './geriatricCriteria.js';
+import { getTherapeuticDuplicationGroups } from './therapeuticDuplication.js';
+import { getDrugLabRules } from './drugLabRules.js';
+import { getRenalDosingTables } from './renalDosing.js';
+import { getHepaticDosingTables } from './hepaticDosing.js';
+import { getAdministrationSeparations } from './administrationSeparations.js';
+import { assertAuditConfigValid } from './auditLog.js';
+
+export function loadKnowledgeBases(): void {
+  getInteractionKnowledgeBase();
+  getDrugNameNormalizer();
+  getPharmacokineticInteractionEngine();
+  getDrugAttributeTable();
+  getAllergyRules();
+  getPregnancyLactationDataset();
+  getGeriatricCriteria();
+  getTherapeuticDuplicationGroups();
+  getDrugLabRules();
+  getRenalDosingTables();
+  getHepaticDosingTables();
+  getAdministrationSeparations();
+  assertAuditConfigValid();
+}
@@ -0,0 +1,78 @@
+/**
+ * Knowledge File Loader
+ * Shared reader for the clinical knowledge files under knowledge/. Each file is parsed and
+ * validated against its schema; problems are reported as configuration errors naming the
+ * file and the fields at fault so content maintainers can fix them without reading code.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { z } from 'zod';
+import { GenericError, ErrorType, ErrorSeverity } from '../types/errors.js';
+
+// Bundled knowledge directory, resolved relative to this module so it works from src/ and dist/
+export const KNOWLEDGE_ROOT = fileURLToPath(new URL('../../knowledge/', import.meta.url));
+
+export const nonEmptyText = z.string().trim().min(1);
+
+export const knowledgeVersionShape = {
+  name: nonEmptyText,
+  version: z.string().regex(/^\d+\.\d+\.\d+$/, 'version must be MAJOR.MINOR.PATCH'),
+  released: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'released must be an ISO8601 date'),
+  description: z.string().optional(),
+};
+
+export interface KnowledgeBaseVersion {
+  name: string;
+  version: string;
+  released: string;
+}
+
+/**
+ * Reads a JSON knowledge file and validates it against the schema.
+ * @throws GenericError if the file is missing, is not valid JSON, or fails validation.
+ */
+export function readKnowledgeFile<T extends z.ZodTypeAny>(filePath: string, schema: T, formatGuide: string): z.infer<T> {
+  if (!existsSync(filePath)) {
+    throw new GenericError(ErrorType.CONFIGURATION_ERROR, `Knowledge file not found: ${filePath}`, {
+      severity: ErrorSeverity.CRITICAL,
+      suggestions: ['Check the knowledge directory settings in .env and the file names listed in the manifest'],
+      details: { file: filePath },
+    });
+  }
+
+  let content: unknown;
+  try {
+    content = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new GenericError(ErrorType.CONFIGURATION_ERROR, `Knowledge file is not valid JSON: ${filePath}`, {
+      severity: ErrorSeverity.CRITICAL,
+      suggestions: ['Check the file for missing commas, quotes or brackets'],
+      details: { file: filePath },
+      ...(error instanceof Error && { cause: error }),
+    });
+  }
+
+  const result = schema.safeParse(content);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new GenericError(ErrorType.CONFIGURATION_ERROR, `Knowledge file failed validation: ${filePath}`, {
+      severity: ErrorSeverity.CRITICAL,
+      suggestions: [`Correct the listed fields; see ${formatGuide} for the format`],
+      details: { file: filePath, issues },
+    });
+  }
+  return result.data;
+}
+
+/**
+ * Throws a configuration error listing the problems found when checking knowledge content.
+ */
+export function assertKnowledgeConsistent(problems: string[], message: string, suggestion: string, source: string): void {
+  if (problems.length === 0) return;
+  throw new GenericError(ErrorType.CONFIGURATION_ERROR, message, {
+    severity: ErrorSeverity.CRITICAL,
+    suggestions: [suggestion],
+    details: { source, issues: problems },
+  });
+}
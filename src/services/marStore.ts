@@ -0,0 +1,114 @@
+/**
+ * MAR Store Service
+ * Holds generated medication administration records so verify_right_time can check a dose
+ * against its MAR slot by ID
+ */
+
+import { GenericError, ErrorType, ErrorSeverity } from '../types/errors.js';
+import { RecordStore } from './recordStore.js';
+import { MealTiming, ParsedSig } from '../utils/sig.js';
+
+// ===== MAR TYPES =====
+
+export interface MarOrder {
+  order_id: string;
+  drug_name: string;
+  resolved_name: string;
+  dose: string;
+  route: string;
+  frequency: ParsedSig;
+  meal_timing: MealTiming | null;
+  time_critical: boolean;
+  slot_ids: string[]; // Empty for PRN-only orders, which are given on request rather than at set times
+}
+
+export interface MarSlot {
+  slot_id: string;
+  order_id: string;
+  drug_name: string;
+  resolved_name: string;
+  dose: string;
+  route: string;
+  scheduled_time: string; // ISO8601 with the facility's UTC offset
+  earliest: string;
+  latest: string;
+  standard_time: string; // HH:MM the frequency and facility times gave, before any separation moved the dose
+  meal_timing: MealTiming | null;
+  adjustment: string | null; // Why the dose was moved from its standard time
+}
+
+export interface MarRecord {
+  mar_id: string;
+  patient_id: string | null;
+  window_start: string;
+  window_end: string;
+  orders: MarOrder[];
+  slots: MarSlot[]; // Every scheduled dose in the window, in time order
+  generated_at: string;
+}
+
+// ===== MAR STORE SERVICE =====
+
+export class MarStoreService {
+  private readonly store = new RecordStore<MarRecord>('mars');
+
+  /**
+   * Saves a generated MAR, replacing any earlier version with the same ID.
+   */
+  saveMar(mar: MarRecord): MarRecord {
+    return this.store.put(mar.mar_id, mar);
+  }
+
+  /**
+   * Retrieves a MAR by ID.
+   * @throws GenericError if the MAR does not exist.
+   */
+  getMar(marId: string): MarRecord {
+    const mar = this.store.get(marId);
+    if (!mar) {
+      throw new GenericError(ErrorType.NO_RESULTS_FOUND, `No MAR found with ID '${marId}'`, {
+        severity: ErrorSeverity.MEDIUM,
+        suggestions: [
+          'Run generate_mar first and pass the mar_id it returns',
+          'Check the MAR ID for typos',
+        ],
+        details: { mar_id: marId },
+      });
+    }
+    return mar;
+  }
+
+  /**
+   * Retrieves a MAR and one of its slots.
+   * @throws GenericError if the MAR or the slot does not exist.
+   */
+  getSlot(marId: string, slotId: string): { mar: MarRecord; slot: MarSlot } {
+    const mar = this.getMar(marId);
+    const slot = mar.slots.find(candidate => candidate.slot_id === slotId);
+    if (!slot) {
+      throw new GenericError(ErrorType.NO_RESULTS_FOUND, `MAR '${marId}' has no slot with ID '${slotId}'`, {
+        severity: ErrorSeverity.MEDIUM,
+        suggestions: [
+          'Pass a slot_id from the slots returned by generate_mar',
+          'Generate a new MAR if the window has passed',
+        ],
+        details: { mar_id: marId, slot_id: slotId },
+      });
+    }
+    return { mar, slot };
+  }
+}
+
+// ===== SINGLETON INSTANCE =====
+
+let marStoreInstance: MarStoreService | null = null;
+
+/**
+ * Gets singleton instance of the MAR store
+ */
+export function getMarStore(): MarStoreService {
+  if (!marStoreInstance) {
+    marStoreInstance = new MarStoreService();
+  }
+  return marStoreInstance;
+}
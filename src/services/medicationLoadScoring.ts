@@ -0,0 +1,141 @@
+/**
+ * Medication Load Scoring Service
+ * Whole-list anticholinergic burden (Anticholinergic Cognitive Burden scale) and serotonergic
+ * load (serotonergic agent count and serotonin syndrome risk), with the per-drug values taken
+ * from the drug attribute table and the contributing drugs listed.
+ */
+
+import { DrugAttributeTable, SerotonergicMechanism } from './drugAttributes.js';
+
+// ===== SCORING CONSTANTS =====
+
+// ACB totals of 3 or more are associated with cognitive decline, falls and mortality
+const CLINICALLY_RELEVANT_ACB_SCORE = 3;
+const HIGH_ACB_SCORE = 6;
+
+const MODERATE_SEROTONERGIC_AGENT_COUNT = 2;
+const HIGH_SEROTONERGIC_AGENT_COUNT = 3;
+
+// ===== MEDICATION LOAD TYPES =====
+
+export interface AnticholinergicBurdenAssessment {
+  score_name: 'Anticholinergic Cognitive Burden (ACB) scale';
+  total_score: number;
+  burden_level: 'none' | 'low' | 'clinically_relevant' | 'high'; // 0, 1-2, 3-5, 6 or more
+  contributing_drugs: Array<{
+    drug_name: string;
+    resolved_name: string;
+    acb_score: number;
+  }>;
+  recommendations: string[];
+}
+
+export interface SerotonergicLoadAssessment {
+  serotonergic_agent_count: number;
+  serotonin_syndrome_risk: 'none' | 'low' | 'moderate' | 'high';
+  includes_mao_inhibitor: boolean;
+  contributing_drugs: Array<{
+    drug_name: string;
+    resolved_name: string;
+    mechanism: SerotonergicMechanism;
+  }>;
+  recommendations: string[];
+}
+
+export interface MedicationLoadScores {
+  anticholinergic_burden: AnticholinergicBurdenAssessment;
+  serotonergic_load: SerotonergicLoadAssessment;
+  sources: string[];
+}
+
+// ===== MEDICATION LOAD ASSESSMENT =====
+
+/**
+ * Scores anticholinergic burden and serotonergic load. A drug listed more than once (e.g. under
+ * a generic and a brand name) is counted once.
+ */
+export function assessMedicationLoad(
+  medications: Array<{ drug_name: string; resolved_name: string }>,
+  attributes: DrugAttributeTable
+): MedicationLoadScores {
+  const uniqueMedications = medications.filter((med, index) =>
+    medications.findIndex(other => other.resolved_name === med.resolved_name) === index
+  );
+
+  return {
+    anticholinergic_burden: assessAnticholinergicBurden(uniqueMedications, attributes),
+    serotonergic_load: assessSerotonergicLoad(uniqueMedications, attributes),
+    sources: attributes.sources
+  };
+}
+
+function assessAnticholinergicBurden(
+  medications: Array<{ drug_name: string; resolved_name: string }>,
+  attributes: DrugAttributeTable
+): AnticholinergicBurdenAssessment {
+  const contributingDrugs = medications.flatMap(med => {
+    const acbScore = attributes.anticholinergicBurden(med.resolved_name);
+    return acbScore > 0 ? [{ drug_name: med.drug_name, resolved_name: med.resolved_name, acb_score: acbScore }] : [];
+  });
+  const totalScore = contributingDrugs.reduce((sum, drug) => sum + drug.acb_score, 0);
+  const burdenLevel = totalScore >= HIGH_ACB_SCORE ? 'high'
+    : totalScore >= CLINICALLY_RELEVANT_ACB_SCORE ? 'clinically_relevant'
+    : totalScore > 0 ? 'low' : 'none';
+
+  const recommendations: string[] = [];
+  if (burdenLevel === 'clinically_relevant' || burdenLevel === 'high') {
+    const strongDrugs = contributingDrugs.filter(drug => drug.acb_score === 3).map(drug => drug.resolved_name);
+    if (strongDrugs.length > 0) {
+      recommendations.push(`Deprescribe or replace strongly anticholinergic drugs (ACB 3): ${strongDrugs.join(', ')}`);
+    }
+    recommendations.push('Assess for confusion, delirium and cognitive decline');
+    recommendations.push('Monitor for constipation, urinary retention, dry mouth, blurred vision and falls');
+  }
+  if (burdenLevel === 'high') {
+    recommendations.push('Review the whole medication list for anticholinergic drugs that can be stopped');
+  }
+
+  return {
+    score_name: 'Anticholinergic Cognitive Burden (ACB) scale',
+    total_score: totalScore,
+    burden_level: burdenLevel,
+    contributing_drugs: contributingDrugs,
+    recommendations
+  };
+}
+
+function assessSerotonergicLoad(
+  medications: Array<{ drug_name: string; resolved_name: string }>,
+  attributes: DrugAttributeTable
+): SerotonergicLoadAssessment {
+  const contributingDrugs = medications.flatMap(med => {
+    const mechanism = attributes.serotonergicMechanism(med.resolved_name);
+    return mechanism ? [{ drug_name: med.drug_name, resolved_name: med.resolved_name, mechanism }] : [];
+  });
+  const agentCount = contributingDrugs.length;
+  const includesMaoInhibitor = contributingDrugs.some(drug => drug.mechanism === 'mao_inhibitor');
+
+  // An MAO inhibitor with any other serotonergic agent carries the highest risk
+  const risk = agentCount >= HIGH_SEROTONERGIC_AGENT_COUNT || (includesMaoInhibitor && agentCount >= 2) ? 'high'
+    : agentCount >= MODERATE_SEROTONERGIC_AGENT_COUNT ? 'moderate'
+    : agentCount === 1 ? 'low' : 'none';
+
+  const recommendations: string[] = [];
+  if (risk === 'moderate' || risk === 'high') {
+    recommendations.push('Monitor for serotonin syndrome: agitation, tremor, clonus, hyperreflexia, diaphoresis, hyperthermia and diarrhea');
+    recommendations.push('Start or increase serotonergic drugs one at a time, at the lowest effective dose');
+  }
+  if (includesMaoInhibitor && agentCount >= 2) {
+    recommendations.push('Avoid combining an MAO inhibitor with other serotonergic drugs; allow a washout period when switching');
+  } else if (risk === 'high') {
+    recommendations.push('Stop or replace non-essential serotonergic drugs');
+  }
+
+  return {
+    serotonergic_agent_count: agentCount,
+    serotonin_syndrome_risk: risk,
+    includes_mao_inhibitor: includesMaoInhibitor,
+    contributing_drugs: contributingDrugs,
+    recommendations
+  };
+}
@@ -0,0 +1,259 @@
+/**
+ * Pharmacokinetic Interaction Engine
+ * Infers drug-drug interactions from the CYP450 and P-glycoprotein profiles in
+ * knowledge/pharmacokinetics/profiles.json: when one drug inhibits or induces a pathway that
+ * clears another, the change in exposure (AUC) of the affected drug is predicted from the
+ * fraction of its clearance through that pathway and the strength of the interacting drug.
+ */
+
+import { join } from 'node:path';
+import { z } from 'zod';
+import { KNOWLEDGE_BASE_CONFIG } from '../config/appConfig.js';
+import {
+  KNOWLEDGE_ROOT,
+  KnowledgeBaseVersion,
+  assertKnowledgeConsistent,
+  knowledgeVersionShape,
+  nonEmptyText,
+  readKnowledgeFile,
+} from './knowledgeFiles.js';
+import { DrugTaxonomy, getDrugTaxonomy } from './drugClassification.js';
+
+// ===== PROFILE SCHEMA =====
+
+const PATHWAYS = ['cyp3a4', 'cyp2d6', 'cyp2c9', 'cyp2c19', 'cyp1a2', 'pgp'] as const;
+const STRENGTHS = ['strong', 'moderate', 'weak'] as const;
+
+const pathway = z.enum(PATHWAYS);
+const strength = z.enum(STRENGTHS);
+
+const PharmacokineticProfilesSchema = z.object({
+  ...knowledgeVersionShape,
+  profiles: z.array(z.object({
+    drug: nonEmptyText.describe('Ingredient from the drug class taxonomy'),
+    narrow_therapeutic_index: z.boolean(),
+    prodrug: z.boolean().describe('Whether the pathways listed under substrate_of form the active drug'),
+    substrate_of: z.array(z.object({
+      pathway,
+      fraction: z.number().gt(0).max(1).describe('Fraction of clearance (or of active drug formation, for prodrugs) through the pathway'),
+    }).strict()),
+    inhibits: z.array(z.object({ pathway, strength }).strict()),
+    induces: z.array(z.object({ pathway, strength }).strict()),
+    references: z.array(nonEmptyText).min(1),
+  }).strict()),
+}).strict();
+
+type PharmacokineticProfilesData = z.infer<typeof PharmacokineticProfilesSchema>;
+type PharmacokineticProfile = PharmacokineticProfilesData['profiles'][number];
+
+export type MetabolicPathway = z.infer<typeof pathway>;
+export type ModulatorStrength = z.infer<typeof strength>;
+
+export const DEFAULT_PK_PROFILES_FILE = join(KNOWLEDGE_ROOT, 'pharmacokinetics', 'profiles.json');
+
+const FORMAT_GUIDE = 'knowledge/pharmacokinetics/README.md';
+
+export const PATHWAY_LABELS: Record<MetabolicPathway, string> = {
+  cyp3a4: 'CYP3A4',
+  cyp2d6: 'CYP2D6',
+  cyp2c9: 'CYP2C9',
+  cyp2c19: 'CYP2C19',
+  cyp1a2: 'CYP1A2',
+  pgp: 'P-gp',
+};
+
+// Fraction of pathway activity removed by an inhibitor, and fold increase in pathway activity
+// caused by an inducer. Chosen so a fully dependent substrate reproduces the FDA categories:
+// strong inhibitors raise AUC at least 5-fold, moderate 2- to 5-fold, weak 1.25- to 2-fold;
+// strong inducers lower AUC by at least 80%, moderate by 50-80%, weak by 20-50%.
+const INHIBITION_BY_STRENGTH: Record<ModulatorStrength, number> = { strong: 0.9, moderate: 0.6, weak: 0.3 };
+const INDUCTION_BY_STRENGTH: Record<ModulatorStrength, number> = { strong: 5, moderate: 1.5, weak: 0.5 };
+
+// Exposure changes smaller than this (in either direction) are not reported
+const MIN_REPORTED_FOLD_CHANGE = 1.25;
+
+// ===== PREDICTION TYPES =====
+
+export interface PathwayEffect {
+  pathway: MetabolicPathway;
+  effect: 'inhibition' | 'induction';
+  strength: ModulatorStrength;
+  fraction: number; // Share of the affected drug's clearance through the pathway
+  exposure_ratio: number; // Predicted AUC ratio from this pathway alone
+}
+
+export interface PharmacokineticPrediction {
+  affected_drug: string; // Ingredient whose exposure changes
+  interacting_drug: string; // Ingredient that inhibits or induces the pathway
+  pathway_effects: PathwayEffect[];
+  predicted_exposure_ratio: number; // AUC with the interacting drug divided by AUC without it
+  exposure_change: 'increase' | 'decrease';
+  measured_moiety: 'parent_drug' | 'active_metabolite'; // Active metabolite for prodrugs
+  fold_change: number; // Ratio expressed as a fold change of at least 1 in either direction
+  narrow_therapeutic_index: boolean;
+  summary: string;
+  references: string[];
+}
+
+export interface EnzymeModulators {
+  inhibitors: string[];
+  inducers: string[];
+  predictions: PharmacokineticPrediction[];
+}
+
+// ===== PHARMACOKINETIC INTERACTION ENGINE =====
+
+export class PharmacokineticInteractionEngine {
+  readonly version: KnowledgeBaseVersion;
+  private readonly profiles = new Map<string, PharmacokineticProfile>();
+
+  constructor(data: PharmacokineticProfilesData, taxonomy: DrugTaxonomy, source: string) {
+    this.version = { name: data.name, version: data.version, released: data.released };
+    const problems: string[] = [];
+
+    for (const profile of data.profiles) {
+      const key = DrugTaxonomy.toKey(profile.drug);
+      if (this.profiles.has(key)) problems.push(`${profile.drug}: profile is listed more than once`);
+      if (taxonomy.classify(key).ingredient === null) problems.push(`${profile.drug}: not an ingredient in the drug class taxonomy`);
+      problems.push(...findProfileProblems(profile));
+      this.profiles.set(key, profile);
+    }
+
+    assertKnowledgeConsistent(
+      problems,
+      'Enzyme and transporter profiles are inconsistent',
+      `Correct the listed profiles; see ${FORMAT_GUIDE} for the format`,
+      source
+    );
+  }
+
+  /**
+   * Predicts how the interacting drug changes exposure to the affected drug. Effects on
+   * separate pathways are combined multiplicatively. Returns null when the drugs share no
+   * pathway or the predicted change is below the reporting threshold.
+   */
+  predict(affectedDrug: string, interactingDrug: string): PharmacokineticPrediction | null {
+    const affectedKey = DrugTaxonomy.toKey(affectedDrug);
+    const interactingKey = DrugTaxonomy.toKey(interactingDrug);
+    const affected = this.profiles.get(affectedKey);
+    const interacting = this.profiles.get(interactingKey);
+    if (!affected || !interacting || affectedKey === interactingKey) return null;
+
+    const pathwayEffects: PathwayEffect[] = [];
+    for (const substrate of affected.substrate_of) {
+      const inhibitor = interacting.inhibits.find(entry => entry.pathway === substrate.pathway);
+      const inducer = interacting.induces.find(entry => entry.pathway === substrate.pathway);
+      const modulator = inhibitor ? { effect: 'inhibition' as const, strength: inhibitor.strength }
+        : inducer ? { effect: 'induction' as const, strength: inducer.strength }
+        : null;
+      if (!modulator) continue;
+
+      // Clearance through the pathway is scaled by the modulator; other routes are unchanged
+      const pathwayActivity = modulator.effect === 'inhibition'
+        ? 1 - INHIBITION_BY_STRENGTH[modulator.strength]
+        : 1 + INDUCTION_BY_STRENGTH[modulator.strength];
+      const clearanceRatio = substrate.fraction * pathwayActivity + (1 - substrate.fraction);
+      // A prodrug's active metabolite moves with its formation rate rather than against it
+      const exposureRatio = affected.prodrug ? clearanceRatio : 1 / clearanceRatio;
+
+      pathwayEffects.push({
+        pathway: substrate.pathway,
+        effect: modulator.effect,
+        strength: modulator.strength,
+        fraction: substrate.fraction,
+        exposure_ratio: round(exposureRatio),
+      });
+    }
+
+    const ratio = pathwayEffects.reduce((product, effect) => product * effect.exposure_ratio, 1);
+    const foldChange = ratio >= 1 ? ratio : 1 / ratio;
+    if (pathwayEffects.length === 0 || foldChange < MIN_REPORTED_FOLD_CHANGE) return null;
+
+    const prediction: Omit<PharmacokineticPrediction, 'summary'> = {
+      affected_drug: affectedKey,
+      interacting_drug: interactingKey,
+      pathway_effects: pathwayEffects,
+      predicted_exposure_ratio: round(ratio),
+      exposure_change: ratio >= 1 ? 'increase' : 'decrease',
+      measured_moiety: affected.prodrug ? 'active_metabolite' : 'parent_drug',
+      fold_change: round(foldChange),
+      narrow_therapeutic_index: affected.narrow_therapeutic_index,
+      references: [...new Set([...affected.references, ...interacting.references])],
+    };
+    return { ...prediction, summary: describePrediction(prediction) };
+  }
+
+  /**
+   * Finds the concurrent drugs that inhibit or induce the pathways clearing the given drug.
+   */
+  findModulators(drugName: string, concurrentDrugs: string[]): EnzymeModulators {
+    const predictions = concurrentDrugs.flatMap(other => this.predict(drugName, other) ?? []);
+    const byEffect = (effect: PathwayEffect['effect']) => predictions
+      .filter(prediction => prediction.pathway_effects.some(pathwayEffect => pathwayEffect.effect === effect))
+      .map(prediction => prediction.interacting_drug);
+    return { inhibitors: byEffect('inhibition'), inducers: byEffect('induction'), predictions };
+  }
+}
+
+function findProfileProblems(profile: PharmacokineticProfile): string[] {
+  const problems: string[] = [];
+  const duplicated = (entries: Array<{ pathway: MetabolicPathway }>) =>
+    entries.map(entry => entry.pathway).filter((entry, index, all) => all.indexOf(entry) !== index);
+
+  for (const entry of duplicated(profile.substrate_of)) problems.push(`${profile.drug}: substrate_of lists ${entry} more than once`);
+  for (const entry of duplicated([...profile.inhibits, ...profile.induces])) {
+    problems.push(`${profile.drug}: ${entry} is listed more than once under inhibits and induces`);
+  }
+
+  // P-gp transport is not part of metabolic clearance, so only CYP fractions must fit within 1
+  const cypFraction = profile.substrate_of.filter(entry => entry.pathway !== 'pgp').reduce((sum, entry) => sum + entry.fraction, 0);
+  if (cypFraction > 1.0001) problems.push(`${profile.drug}: CYP fractions add up to more than 1 (${round(cypFraction)})`);
+
+  if (profile.prodrug && profile.substrate_of.length === 0) {
+    problems.push(`${profile.drug}: a prodrug needs the pathways that activate it under substrate_of`);
+  }
+  return problems;
+}
+
+function describePrediction(prediction: Omit<PharmacokineticPrediction, 'summary'>): string {
+  const prodrug = prediction.measured_moiety === 'active_metabolite';
+  const pathways = prediction.pathway_effects.map(effect => {
+    const share = effect.pathway === 'pgp' ? 'disposition' : prodrug ? 'activation' : 'clearance';
+    return `${PATHWAY_LABELS[effect.pathway]} ${effect.effect} (${effect.strength}; ${Math.round(effect.fraction * 100)}% of ${prediction.affected_drug} ${share})`;
+  });
+  const pathwayText = pathways.length > 1 ? `${pathways.slice(0, -1).join(', ')} and ${pathways[pathways.length - 1]}` : pathways[0];
+  const moiety = prodrug ? `${prediction.affected_drug} active metabolite` : prediction.affected_drug;
+  const change = prediction.exposure_change === 'increase'
+    ? `${prediction.fold_change.toFixed(1)}-fold increase`
+    : `${Math.round((1 - prediction.predicted_exposure_ratio) * 100)}% decrease`;
+  return `${pathwayText} by ${prediction.interacting_drug}. Predicted change in ${moiety} exposure (AUC): ${change}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Reads and validates a profiles file.
+ * @throws GenericError if the file is invalid or a profile is inconsistent.
+ */
+export function loadPharmacokineticInteractionEngine(filePath: string, taxonomy: DrugTaxonomy): PharmacokineticInteractionEngine {
+  return new PharmacokineticInteractionEngine(readKnowledgeFile(filePath, PharmacokineticProfilesSchema, FORMAT_GUIDE), taxonomy, filePath);
+}
+
+// ===== SINGLETON INSTANCE =====
+
+let pharmacokineticInteractionEngineInstance: PharmacokineticInteractionEngine | null = null;
+
+/**
+ * Gets the loaded pharmacokinetic interaction engine, loading it on first use
+ */
+export function getPharmacokineticInteractionEngine(): PharmacokineticInteractionEngine {
+  if (!pharmacokineticInteractionEngineInstance) {
+    pharmacokineticInteractionEngineInstance = loadPharmacokineticInteractionEngine(
+      KNOWLEDGE_BASE_CONFIG.PK_PROFILES_FILE || DEFAULT_PK_PROFILES_FILE,
+      getDrugTaxonomy()
+    );
+  }
+  return pharmacokineticInteractionEngineInstance;
+}
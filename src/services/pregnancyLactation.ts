@@ -0,0 +1,269 @@
+/**
+ * Pregnancy and Lactation Safety Service
+ * Per-ingredient pregnancy risk by trimester and lactation risk with infant exposure data, loaded
+ * from knowledge/pregnancy_lactation/safety.json. Turns a patient's pregnancy status, gestational
+ * age and breastfeeding status into warnings for each medication.
+ */
+
+import { join } from 'node:path';
+import { z } from 'zod';
+import { KNOWLEDGE_BASE_CONFIG } from '../config/appConfig.js';
+import {
+  KNOWLEDGE_ROOT,
+  KnowledgeBaseVersion,
+  assertKnowledgeConsistent,
+  knowledgeVersionShape,
+  nonEmptyText,
+  readKnowledgeFile,
+} from './knowledgeFiles.js';
+import { DrugTaxonomy, getDrugTaxonomy } from './drugClassification.js';
+
+// ===== DATASET SCHEMA =====
+
+const risk = z.enum(['compatible', 'caution', 'avoid', 'contraindicated']);
+
+const trimesterRisk = z.object({
+  risk,
+  summary: nonEmptyText,
+}).strict();
+
+const PregnancyLactationSchema = z.object({
+  ...knowledgeVersionShape,
+  drugs: z.array(z.object({
+    drug: nonEmptyText.describe('Ingredient from the drug class taxonomy'),
+    pregnancy: z.object({
+      first_trimester: trimesterRisk,
+      second_trimester: trimesterRisk,
+      third_trimester: trimesterRisk,
+    }).strict(),
+    lactation: z.object({
+      risk,
+      relative_infant_dose_percent: z.number().nonnegative().nullable().describe('Highest reported relative infant dose'),
+      infant_effects: nonEmptyText,
+      infant_monitoring: nonEmptyText.nullable(),
+    }).strict(),
+    references: z.array(nonEmptyText).min(1),
+  }).strict()),
+}).strict();
+
+type PregnancyLactationData = z.infer<typeof PregnancyLactationSchema>;
+type PregnancyLactationEntry = PregnancyLactationData['drugs'][number];
+
+export type ReproductiveRisk = z.infer<typeof risk>;
+export type Trimester = 'first' | 'second' | 'third';
+
+export const DEFAULT_PREGNANCY_LACTATION_FILE = join(KNOWLEDGE_ROOT, 'pregnancy_lactation', 'safety.json');
+
+const FORMAT_GUIDE = 'knowledge/pregnancy_lactation/README.md';
+
+// Trimester boundaries in completed weeks of gestation: 0-13 first, 14-27 second, 28 onwards third
+const SECOND_TRIMESTER_WEEK = 14;
+const THIRD_TRIMESTER_WEEK = 28;
+
+// Relative infant dose above which exposure is generally considered a concern
+const HIGH_RELATIVE_INFANT_DOSE_PERCENT = 10;
+
+const RISK_RANK: Record<ReproductiveRisk, number> = { compatible: 0, caution: 1, avoid: 2, contraindicated: 3 };
+
+// ===== WARNING TYPES =====
+
+export interface ReproductiveStatus {
+  pregnant: boolean;
+  gestational_age_weeks?: number | undefined;
+  breastfeeding: boolean;
+}
+
+export interface PregnancyLactationWarning {
+  drug_name: string;
+  resolved_name: string;
+  context: 'pregnancy' | 'lactation';
+  trimester: Trimester | null; // Null for lactation, or for pregnancy when gestational age is unknown
+  risk: Exclude<ReproductiveRisk, 'compatible'>;
+  summary: string;
+  infant_exposure: {
+    relative_infant_dose_percent: number | null;
+    infant_effects: string;
+    infant_monitoring: string | null;
+  } | null; // Set for lactation warnings
+  references: string[];
+}
+
+export interface PregnancyLactationReview {
+  dataset: KnowledgeBaseVersion;
+  trimester: Trimester | null;
+  warnings: PregnancyLactationWarning[];
+  drugs_without_data: string[]; // Not in the dataset, so not assessed
+}
+
+// ===== PREGNANCY AND LACTATION DATASET =====
+
+export class PregnancyLactationDataset {
+  readonly version: KnowledgeBaseVersion;
+  private readonly entries = new Map<string, PregnancyLactationEntry>();
+
+  constructor(data: PregnancyLactationData, taxonomy: DrugTaxonomy, source: string) {
+    this.version = { name: data.name, version: data.version, released: data.released };
+    const problems: string[] = [];
+
+    for (const entry of data.drugs) {
+      const key = DrugTaxonomy.toKey(entry.drug);
+      if (this.entries.has(key)) problems.push(`${entry.drug}: listed more than once`);
+      if (taxonomy.classify(key).ingredient === null) problems.push(`${entry.drug}: not an ingredient in the drug class taxonomy`);
+      this.entries.set(key, entry);
+    }
+
+    assertKnowledgeConsistent(
+      problems,
+      'Pregnancy and lactation dataset is inconsistent',
+      `Correct the listed entries; see ${FORMAT_GUIDE} for the format`,
+      source
+    );
+  }
+
+  /**
+   * Pregnancy and lactation data of a resolved ingredient, or null when the dataset does not list it.
+   */
+  get(drugName: string): PregnancyLactationEntry | null {
+    return this.entries.get(DrugTaxonomy.toKey(drugName)) ?? null;
+  }
+
+  /**
+   * Warnings for each medication that is not compatible with the patient's pregnancy (in the
+   * current trimester) or breastfeeding. When gestational age is unknown, the highest risk
+   * across all trimesters is used.
+   */
+  review(medications: Array<{ drug_name: string; resolved_name: string }>, status: ReproductiveStatus): PregnancyLactationReview {
+    const trimester = status.pregnant && status.gestational_age_weeks !== undefined
+      ? trimesterForGestationalAge(status.gestational_age_weeks)
+      : null;
+    const warnings: PregnancyLactationWarning[] = [];
+    const withoutData: string[] = [];
+
+    if (status.pregnant || status.breastfeeding) {
+      for (const medication of medications) {
+        const entry = this.get(medication.resolved_name);
+        if (!entry) {
+          withoutData.push(medication.drug_name);
+          continue;
+        }
+        if (status.pregnant) {
+          const warning = pregnancyWarning(medication, entry, trimester);
+          if (warning) warnings.push(warning);
+        }
+        if (status.breastfeeding) {
+          const warning = lactationWarning(medication, entry);
+          if (warning) warnings.push(warning);
+        }
+      }
+    }
+
+    return { dataset: this.version, trimester, warnings, drugs_without_data: withoutData };
+  }
+}
+
+/**
+ * Trimester for a gestational age in weeks: under 14 first, 14-27 second, 28 or more third.
+ */
+export function trimesterForGestationalAge(weeks: number): Trimester {
+  if (weeks < SECOND_TRIMESTER_WEEK) return 'first';
+  if (weeks < THIRD_TRIMESTER_WEEK) return 'second';
+  return 'third';
+}
+
+function pregnancyWarning(
+  medication: { drug_name: string; resolved_name: string },
+  entry: PregnancyLactationEntry,
+  trimester: Trimester | null
+): PregnancyLactationWarning | null {
+  const byTrimester: Array<[Trimester, z.infer<typeof trimesterRisk>]> = [
+    ['first', entry.pregnancy.first_trimester],
+    ['second', entry.pregnancy.second_trimester],
+    ['third', entry.pregnancy.third_trimester],
+  ];
+
+  let risk: ReproductiveRisk;
+  let summary: string;
+  if (trimester) {
+    const current = byTrimester.find(([name]) => name === trimester)?.[1] ?? entry.pregnancy.first_trimester;
+    risk = current.risk;
+    summary = `${current.summary}.`;
+  } else {
+    const worst = Math.max(...byTrimester.map(([, data]) => RISK_RANK[data.risk]));
+    const atWorst = byTrimester.filter(([, data]) => RISK_RANK[data.risk] === worst);
+    risk = atWorst[0]?.[1].risk ?? 'compatible';
+    summary = `Gestational age not provided; highest risk across trimesters (${atWorst.map(([name]) => name).join(', ')}): ` +
+      atWorst.map(([name, data]) => `${capitalize(name)} trimester: ${data.summary}.`).join(' ');
+  }
+
+  if (risk === 'compatible') return null;
+  return {
+    drug_name: medication.drug_name,
+    resolved_name: medication.resolved_name,
+    context: 'pregnancy',
+    trimester,
+    risk,
+    summary,
+    infant_exposure: null,
+    references: entry.references
+  };
+}
+
+function lactationWarning(
+  medication: { drug_name: string; resolved_name: string },
+  entry: PregnancyLactationEntry
+): PregnancyLactationWarning | null {
+  const lactation = entry.lactation;
+  const highExposure = lactation.relative_infant_dose_percent !== null &&
+    lactation.relative_infant_dose_percent > HIGH_RELATIVE_INFANT_DOSE_PERCENT;
+
+  // Compatible drugs still warrant a warning when infant exposure is high
+  const risk = lactation.risk === 'compatible' && highExposure ? 'caution' : lactation.risk;
+  if (risk === 'compatible') return null;
+
+  const rid = lactation.relative_infant_dose_percent !== null
+    ? ` Relative infant dose up to ${lactation.relative_infant_dose_percent}%${highExposure ? ` (above ${HIGH_RELATIVE_INFANT_DOSE_PERCENT}%)` : ''}.`
+    : ' Relative infant dose not established.';
+  return {
+    drug_name: medication.drug_name,
+    resolved_name: medication.resolved_name,
+    context: 'lactation',
+    trimester: null,
+    risk,
+    summary: `${lactation.infant_effects}.${rid}${lactation.infant_monitoring ? ` Infant monitoring: ${lactation.infant_monitoring}.` : ''}`,
+    infant_exposure: {
+      relative_infant_dose_percent: lactation.relative_infant_dose_percent,
+      infant_effects: lactation.infant_effects,
+      infant_monitoring: lactation.infant_monitoring
+    },
+    references: entry.references
+  };
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Reads and validates a pregnancy and lactation dataset file.
+ * @throws GenericError if the file is invalid or names drugs missing from the taxonomy.
+ */
+export function loadPregnancyLactationDataset(filePath: string, taxonomy: DrugTaxonomy): PregnancyLactationDataset {
+  return new PregnancyLactationDataset(readKnowledgeFile(filePath, PregnancyLactationSchema, FORMAT_GUIDE), taxonomy, filePath);
+}
+
+// ===== SINGLETON INSTANCE =====
+
+let pregnancyLactationDatasetInstance: PregnancyLactationDataset | null = null;
+
+/**
+ * Gets the loaded pregnancy and lactation dataset, loading it on first use
+ */
+export function getPregnancyLactationDataset(): PregnancyLactationDataset {
+  if (!pregnancyLactationDatasetInstance) {
+    pregnancyLactationDatasetInstance = loadPregnancyLactationDataset(
+      KNOWLEDGE_BASE_CONFIG.PREGNANCY_LACTATION_FILE || DEFAULT_PREGNANCY_LACTATION_FILE,
+      getDrugTaxonomy()
+    );
+  }
+  return pregnancyLactationDatasetInstance;
+}
@@ -0,0 +1,160 @@
+/**
+ * QT Risk Scoring Service
+ * Cumulative QT prolongation risk across a whole medication list using the Tisdale score
+ * (Tisdale et al., Circ Cardiovasc Qual Outcomes 2013), with the QT-prolonging drugs taken from
+ * the drug attribute table and ECG monitoring recommended by risk category.
+ */
+
+import { DrugTaxonomy } from './drugClassification.js';
+import { DrugAttributeTable, QtRiskCategory } from './drugAttributes.js';
+
+// ===== SCORING CONSTANTS =====
+
+// Tisdale score cut-offs: 0-6 low, 7-10 moderate, 11-21 high
+const MODERATE_RISK_SCORE = 7;
+const HIGH_RISK_SCORE = 11;
+
+const HYPOKALEMIA_MEQ_L = 3.5;
+const HYPOMAGNESEMIA_MG_DL = 1.7;
+const PROLONGED_QTC_MS = 450;
+const MARKEDLY_PROLONGED_QTC_MS = 500;
+
+// Condition descriptions and ICD-10 codes that count as Tisdale risk factors
+const ACUTE_MI_TERMS = ['myocardial infarction', 'stemi', 'nstemi', 'heart attack', 'i21', 'i22'];
+const SEPSIS_TERMS = ['sepsis', 'septic', 'a40', 'a41', 'r65.2'];
+const HEART_FAILURE_TERMS = ['heart failure', 'chf', 'hfref', 'hfpef', 'i50'];
+
+// ===== QT RISK TYPES =====
+
+export interface QtRiskInput {
+  medications: Array<{ drug_name: string; resolved_name: string }>;
+  conditions: Array<{ condition: string; status: 'active' | 'controlled' | 'history' }>;
+  age: number;
+  sex?: 'female' | 'male' | undefined;
+  potassium_meq_l?: number | undefined;
+  magnesium_mg_dl?: number | undefined;
+  qtc_ms?: number | undefined;
+}
+
+export interface QtRiskAssessment {
+  score_name: 'Tisdale QT risk score';
+  total_score: number; // 0-21
+  risk_category: 'low' | 'moderate' | 'high';
+  qt_prolonging_drugs: Array<{
+    drug_name: string;
+    resolved_name: string;
+    qt_risk: QtRiskCategory;
+  }>;
+  score_components: Array<{
+    factor: string;
+    points: number;
+    present: boolean | null; // Null when the data needed was not provided
+  }>;
+  additional_risk_factors: string[]; // Not scored by Tisdale, but raise torsades risk
+  missing_data: string[];
+  ecg_monitoring: {
+    baseline_ecg_required: boolean;
+    follow_up: string;
+    actions: string[];
+  };
+  sources: string[];
+}
+
+// ===== QT RISK ASSESSMENT =====
+
+/**
+ * Scores cumulative QT prolongation risk. Missing patient data scores zero and is listed in
+ * missing_data, so the total is a lower bound when data is incomplete.
+ */
+export function assessQtRisk(input: QtRiskInput, attributes: DrugAttributeTable, taxonomy: DrugTaxonomy): QtRiskAssessment {
+  const qtDrugs = input.medications.flatMap(med => {
+    const qtRisk = attributes.qtRisk(med.resolved_name);
+    return qtRisk ? [{ drug_name: med.drug_name, resolved_name: med.resolved_name, qt_risk: qtRisk }] : [];
+  });
+
+  const hasCondition = (terms: string[], statuses: string[]) => input.conditions.some(condition =>
+    statuses.includes(condition.status) && terms.some(term => condition.condition.toLowerCase().includes(term))
+  );
+
+  const components: QtRiskAssessment['score_components'] = [
+    { factor: 'Age 68 years or older', points: 1, present: input.age >= 68 },
+    { factor: 'Female sex', points: 1, present: input.sex === undefined ? null : input.sex === 'female' },
+    { factor: 'Loop diuretic', points: 1, present: input.medications.some(med => taxonomy.matches(med.resolved_name, 'loop_diuretic')) },
+    { factor: `Serum potassium ${HYPOKALEMIA_MEQ_L} mEq/L or lower`, points: 2, present: input.potassium_meq_l === undefined ? null : input.potassium_meq_l <= HYPOKALEMIA_MEQ_L },
+    { factor: `QTc ${PROLONGED_QTC_MS} ms or longer`, points: 2, present: input.qtc_ms === undefined ? null : input.qtc_ms >= PROLONGED_QTC_MS },
+    { factor: 'Acute myocardial infarction', points: 2, present: hasCondition(ACUTE_MI_TERMS, ['active']) },
+    { factor: 'One QT-prolonging drug', points: 3, present: qtDrugs.length >= 1 },
+    { factor: 'Two or more QT-prolonging drugs', points: 3, present: qtDrugs.length >= 2 },
+    { factor: 'Sepsis', points: 3, present: hasCondition(SEPSIS_TERMS, ['active']) },
+    { factor: 'Heart failure', points: 3, present: hasCondition(HEART_FAILURE_TERMS, ['active', 'controlled']) },
+  ];
+
+  const totalScore = components.reduce((sum, component) => sum + (component.present ? component.points : 0), 0);
+  const riskCategory = totalScore >= HIGH_RISK_SCORE ? 'high' : totalScore >= MODERATE_RISK_SCORE ? 'moderate' : 'low';
+
+  const additionalRiskFactors: string[] = [];
+  if (input.magnesium_mg_dl !== undefined && input.magnesium_mg_dl < HYPOMAGNESEMIA_MG_DL) {
+    additionalRiskFactors.push(`Hypomagnesemia (magnesium ${input.magnesium_mg_dl} mg/dL)`);
+  }
+  if (input.qtc_ms !== undefined && input.qtc_ms > MARKEDLY_PROLONGED_QTC_MS) {
+    additionalRiskFactors.push(`QTc above ${MARKEDLY_PROLONGED_QTC_MS} ms (${input.qtc_ms} ms)`);
+  }
+  const knownRiskCount = qtDrugs.filter(drug => drug.qt_risk === 'known').length;
+  if (knownRiskCount >= 2) {
+    additionalRiskFactors.push(`${knownRiskCount} drugs with known risk of torsades de pointes`);
+  }
+
+  const missingData: string[] = [];
+  if (input.sex === undefined) missingData.push('Sex not provided; scored as 0');
+  if (input.potassium_meq_l === undefined) missingData.push('Serum potassium not provided; scored as 0');
+  if (input.qtc_ms === undefined) missingData.push('Baseline QTc not provided; scored as 0');
+  if (input.magnesium_mg_dl === undefined) missingData.push('Serum magnesium not provided');
+
+  return {
+    score_name: 'Tisdale QT risk score',
+    total_score: totalScore,
+    risk_category: riskCategory,
+    qt_prolonging_drugs: qtDrugs,
+    score_components: components,
+    additional_risk_factors: additionalRiskFactors,
+    missing_data: missingData,
+    ecg_monitoring: recommendEcgMonitoring(riskCategory, knownRiskCount > 0, additionalRiskFactors.length > 0),
+    sources: attributes.sources
+  };
+}
+
+function recommendEcgMonitoring(
+  riskCategory: QtRiskAssessment['risk_category'],
+  hasKnownRiskDrug: boolean,
+  hasAdditionalRiskFactors: boolean
+): QtRiskAssessment['ecg_monitoring'] {
+  const electrolytes = 'Keep potassium at 4.0 mEq/L or above and magnesium at 2.0 mg/dL or above';
+  const stopCriteria = 'Reassess QT-prolonging drugs if QTc exceeds 500 ms or rises more than 60 ms from baseline';
+
+  if (riskCategory === 'high') {
+    return {
+      baseline_ecg_required: true,
+      follow_up: 'Continuous ECG monitoring (telemetry) or a daily 12-lead ECG while QT-prolonging drugs are continued',
+      actions: [
+        'Replace non-essential QT-prolonging drugs with alternatives',
+        'Avoid adding further QT-prolonging drugs',
+        electrolytes,
+        stopCriteria
+      ]
+    };
+  }
+
+  if (riskCategory === 'moderate' || hasAdditionalRiskFactors) {
+    return {
+      baseline_ecg_required: true,
+      follow_up: 'Repeat 12-lead ECG once a new or increased QT-prolonging drug reaches steady state, and after electrolyte changes',
+      actions: [electrolytes, stopCriteria]
+    };
+  }
+
+  return {
+    baseline_ecg_required: hasKnownRiskDrug,
+    follow_up: 'No routine ECG monitoring beyond baseline unless risk factors change',
+    actions: [electrolytes]
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Keyed Record Store for MCP Server
+ * Keeps clinical records produced by one tool available to the next tool in a protocol chain,
+ * storing them in the configured storage backend so they can survive a server restart.
+ */
+
+import { getStorageBackend, StorageBackend } from './storageBackend.js';
+
+// ===== RECORD STORE =====
+
+export class RecordStore<T> {
+  /**
+   * @param collection Name of the collection within the storage backend.
+   */
+  constructor(
+    private readonly collection: string,
+    private readonly backend: StorageBackend = getStorageBackend(),
+  ) {}
+
+  /**
+   * Stores a record under the given ID, replacing any previous version.
+   */
+  put(id: string, record: T): T {
+    this.backend.putRecord(this.collection, id, record);
+    return record;
+  }
+
+  /**
+   * Returns the record stored under the given ID, if any.
+   */
+  get(id: string): T | undefined {
+    return this.backend.getRecord<T>(this.collection, id);
+  }
+
+  /**
+   * Returns all records matching the predicate, in insertion order.
+   */
+  find(predicate: (record: T) => boolean): T[] {
+    return this.backend.listRecords<T>(this.collection).filter(predicate);
+  }
+}
@@ -0,0 +1,291 @@
+/**
+ * Renal Dosing Service
+ * Drug-specific renal dose adjustments loaded from knowledge/renal_dosing/tables.json. Each drug
+ * has dose and interval recommendations by creatinine clearance or eGFR band and by dialysis
+ * modality, with the references they come from. The fraction of each drug excreted unchanged
+ * gives the drug-specific increase in half-life at a reduced creatinine clearance.
+ */
+
+import { join } from 'node:path';
+import { z } from 'zod';
+import { KNOWLEDGE_BASE_CONFIG } from '../config/appConfig.js';
+import {
+  KNOWLEDGE_ROOT,
+  KnowledgeBaseVersion,
+  assertKnowledgeConsistent,
+  knowledgeVersionShape,
+  nonEmptyText,
+  readKnowledgeFile,
+} from './knowledgeFiles.js';
+import { DrugTaxonomy, getDrugTaxonomy } from './drugClassification.js';
+
+// ===== TABLE SCHEMA =====
+
+const adjustmentShape = {
+  action: z.enum(['adjust', 'avoid']),
+  dose: nonEmptyText.nullable().describe('Adjusted dose; null when the drug is to be avoided'),
+  dose_percent: z.number().positive().max(100).nullable().describe('Adjusted dose as a percentage of the usual single dose, when the table gives one'),
+  interval: nonEmptyText.nullable().describe('Adjusted dosing interval; null when the drug is to be avoided'),
+  comment: nonEmptyText.nullable(),
+};
+
+const RenalDosingSchema = z.object({
+  ...knowledgeVersionShape,
+  drugs: z.array(z.object({
+    drug: nonEmptyText.describe('Ingredient from the drug class taxonomy'),
+    measure: z.enum(['crcl', 'egfr']).describe('Renal function measure the bands use'),
+    fraction_excreted_unchanged: z.number().min(0).max(0.95).describe('Fraction of the dose excreted unchanged in urine'),
+    usual_dose: nonEmptyText,
+    usual_interval: nonEmptyText,
+    bands: z.array(z.object({
+      min: z.number().min(0).describe('Lower bound, inclusive'),
+      max: z.number().positive().describe('Upper bound, exclusive'),
+      ...adjustmentShape,
+    }).strict()).min(1),
+    dialysis: z.object({
+      hemodialysis: z.object(adjustmentShape).strict().nullable(),
+      peritoneal_dialysis: z.object(adjustmentShape).strict().nullable(),
+      crrt: z.object(adjustmentShape).strict().nullable(),
+    }).strict().describe('Null for a modality the sources give no recommendation for'),
+    references: z.array(nonEmptyText).min(1),
+  }).strict()),
+}).strict();
+
+type RenalDosingData = z.infer<typeof RenalDosingSchema>;
+type RenalDosingEntry = RenalDosingData['drugs'][number];
+type RenalAdjustment = z.infer<z.ZodObject<typeof adjustmentShape>>;
+
+export type RenalMeasure = RenalDosingEntry['measure'];
+export type DialysisModality = keyof RenalDosingEntry['dialysis'];
+
+export const DEFAULT_RENAL_DOSING_FILE = join(KNOWLEDGE_ROOT, 'renal_dosing', 'tables.json');
+
+const FORMAT_GUIDE = 'knowledge/renal_dosing/README.md';
+
+// Creatinine clearance taken as normal when scaling half-life by renal function
+export const NORMAL_CREATININE_CLEARANCE_ML_MIN = 100;
+
+const MEASURE_LABELS: Record<RenalMeasure, { name: string; unit: string }> = {
+  crcl: { name: 'CrCl', unit: 'mL/min' },
+  egfr: { name: 'eGFR', unit: 'mL/min/1.73m2' },
+};
+
+const DIALYSIS_LABELS: Record<DialysisModality, string> = {
+  hemodialysis: 'Hemodialysis',
+  peritoneal_dialysis: 'Peritoneal dialysis',
+  crrt: 'Continuous renal replacement therapy',
+};
+
+// ===== RENAL DOSING TYPES =====
+
+export interface RenalFunction {
+  creatinine_clearance_ml_min?: number | undefined;
+  egfr_ml_min_1_73m2?: number | undefined;
+  dialysis?: DialysisModality | 'none' | undefined;
+}
+
+export interface RenalDoseRecommendation {
+  drug_name: string;
+  resolved_name: string;
+  basis: RenalMeasure | DialysisModality; // Band measure used, or the dialysis modality
+  renal_value: number | null; // Null for dialysis
+  band: string; // e.g. "CrCl 20 to under 50 mL/min" or "Hemodialysis"
+  action: 'no_change' | 'adjust' | 'avoid' | 'no_recommendation'; // no_recommendation: the table has none for the dialysis modality
+  dose: string | null;
+  dose_percent: number | null; // Percentage of the usual single dose, when the table gives one
+  interval: string | null;
+  comment: string | null;
+  usual_dose: string;
+  usual_interval: string;
+  measure_note: string | null; // Set when the other renal measure was used because the table's was not provided
+  source: {
+    tables: KnowledgeBaseVersion;
+    references: string[];
+  };
+  message: string;
+}
+
+// ===== RENAL DOSING TABLES =====
+
+export class RenalDosingTables {
+  readonly version: KnowledgeBaseVersion;
+  private readonly entries = new Map<string, RenalDosingEntry>();
+  private readonly taxonomy: DrugTaxonomy;
+
+  constructor(data: RenalDosingData, taxonomy: DrugTaxonomy, source: string) {
+    this.version = { name: data.name, version: data.version, released: data.released };
+    this.taxonomy = taxonomy;
+    const problems: string[] = [];
+
+    for (const entry of data.drugs) {
+      const key = DrugTaxonomy.toKey(entry.drug);
+      if (this.entries.has(key)) problems.push(`${entry.drug}: listed more than once`);
+      if (taxonomy.classify(key).ingredient === null) problems.push(`${entry.drug}: not an ingredient in the drug class taxonomy`);
+      this.entries.set(key, entry);
+
+      const bands = [...entry.bands].sort((a, b) => a.min - b.min);
+      if (bands[0] && bands[0].min !== 0) problems.push(`${entry.drug}: the lowest band must start at 0`);
+      bands.forEach((band, index) => {
+        if (band.min >= band.max) problems.push(`${entry.drug}: band ${band.min}-${band.max} has min not below max`);
+        const next = bands[index + 1];
+        if (next && next.min !== band.max) problems.push(`${entry.drug}: bands ${band.min}-${band.max} and ${next.min}-${next.max} leave a gap or overlap`);
+      });
+
+      const adjustments: Array<[string, RenalAdjustment | null]> = [
+        ...entry.bands.map((band): [string, RenalAdjustment] => [`band ${band.min}-${band.max}`, band]),
+        ...Object.entries(entry.dialysis),
+      ];
+      for (const [where, adjustment] of adjustments) {
+        if (!adjustment) continue;
+        if (adjustment.action === 'adjust' && (adjustment.dose === null || adjustment.interval === null)) {
+          problems.push(`${entry.drug}: ${where} adjusts the dose but has no dose or interval`);
+        }
+        if (adjustment.action === 'avoid' && (adjustment.dose !== null || adjustment.dose_percent !== null || adjustment.interval !== null)) {
+          problems.push(`${entry.drug}: ${where} avoids the drug but gives a dose or interval`);
+        }
+      }
+    }
+
+    assertKnowledgeConsistent(
+      problems,
+      'Renal dosing tables are inconsistent',
+      `Correct the listed entries; see ${FORMAT_GUIDE} for the format`,
+      source
+    );
+  }
+
+  /**
+   * Whether the tables have renal dosing for a resolved drug name.
+   */
+  hasTable(drugName: string): boolean {
+    return this.get(drugName) !== null;
+  }
+
+  /**
+   * Renal dose recommendation for a medication. Dialysis takes precedence over clearance; otherwise
+   * the band is chosen by the measure the table uses, falling back to the other measure when it is
+   * not provided. Returns null when the drug has no table or no renal function is given.
+   */
+  recommend(medication: { drug_name: string; resolved_name: string }, renalFunction: RenalFunction): RenalDoseRecommendation | null {
+    const entry = this.get(medication.resolved_name);
+    if (!entry) return null;
+
+    const base = {
+      drug_name: medication.drug_name,
+      resolved_name: medication.resolved_name,
+      usual_dose: entry.usual_dose,
+      usual_interval: entry.usual_interval,
+      source: { tables: this.version, references: entry.references },
+    };
+
+    const dialysis = renalFunction.dialysis;
+    if (dialysis !== undefined && dialysis !== 'none') {
+      const adjustment = entry.dialysis[dialysis];
+      const band = DIALYSIS_LABELS[dialysis];
+      const result = adjustment
+        ? { ...base, ...fromAdjustment(adjustment) }
+        : { ...base, action: 'no_recommendation' as const, dose: null, dose_percent: null, interval: null, comment: 'The renal dosing tables have no recommendation for this modality; consult a clinical pharmacist' };
+      return { ...result, basis: dialysis, renal_value: null, band, measure_note: null, message: buildMessage(medication.drug_name, band, result) };
+    }
+
+    const measured = measurement(entry.measure, renalFunction);
+    if (!measured) return null;
+
+    const label = MEASURE_LABELS[entry.measure];
+    const adjustment = entry.bands.find(candidate => measured.value >= candidate.min && measured.value < candidate.max);
+    const highest = Math.max(...entry.bands.map(candidate => candidate.max));
+    const band = adjustment
+      ? `${label.name} ${adjustment.min === 0 ? `under ${adjustment.max}` : `${adjustment.min} to under ${adjustment.max}`} ${label.unit}`
+      : `${label.name} ${highest} ${label.unit} or more`;
+    const result = adjustment
+      ? { ...base, ...fromAdjustment(adjustment) }
+      : { ...base, action: 'no_change' as const, dose: entry.usual_dose, dose_percent: null, interval: entry.usual_interval, comment: null };
+    const reported = `${MEASURE_LABELS[measured.measure].name} ${measured.value} ${MEASURE_LABELS[measured.measure].unit}`;
+    const measureNote = measured.substituted
+      ? `${MEASURE_LABELS[measured.measure].name} used because ${label.name}, which the table uses, was not provided`
+      : null;
+
+    return {
+      ...result,
+      basis: entry.measure,
+      renal_value: measured.value,
+      band,
+      measure_note: measureNote,
+      message: buildMessage(medication.drug_name, measured.substituted ? `${reported} (used for ${band})` : reported, result),
+    };
+  }
+
+  /**
+   * Factor by which the half-life of a drug lengthens at a creatinine clearance, from the fraction
+   * excreted unchanged (Dettli): 1 / (1 - fe x (1 - CrCl / normal CrCl)). Null when the drug has no table.
+   */
+  halfLifeMultiplier(drugName: string, creatinineClearance: number): number | null {
+    const entry = this.get(drugName);
+    if (!entry) return null;
+    const remaining = Math.min(Math.max(creatinineClearance, 0), NORMAL_CREATININE_CLEARANCE_ML_MIN) / NORMAL_CREATININE_CLEARANCE_ML_MIN;
+    return 1 / (1 - entry.fraction_excreted_unchanged * (1 - remaining));
+  }
+
+  private get(drugName: string): RenalDosingEntry | null {
+    const ingredient = this.taxonomy.classify(drugName).ingredient ?? drugName;
+    return this.entries.get(DrugTaxonomy.toKey(ingredient)) ?? null;
+  }
+}
+
+function measurement(preferred: RenalMeasure, renalFunction: RenalFunction): { measure: RenalMeasure; value: number; substituted: boolean } | null {
+  const values: Record<RenalMeasure, number | undefined> = {
+    crcl: renalFunction.creatinine_clearance_ml_min,
+    egfr: renalFunction.egfr_ml_min_1_73m2,
+  };
+  const other: RenalMeasure = preferred === 'crcl' ? 'egfr' : 'crcl';
+  const preferredValue = values[preferred];
+  if (preferredValue !== undefined) return { measure: preferred, value: preferredValue, substituted: false };
+  const otherValue = values[other];
+  if (otherValue !== undefined) return { measure: other, value: otherValue, substituted: true };
+  return null;
+}
+
+function fromAdjustment(adjustment: RenalAdjustment): Pick<RenalDoseRecommendation, 'action' | 'dose' | 'dose_percent' | 'interval' | 'comment'> {
+  return {
+    action: adjustment.action,
+    dose: adjustment.dose,
+    dose_percent: adjustment.dose_percent,
+    interval: adjustment.interval,
+    comment: adjustment.comment,
+  };
+}
+
+function buildMessage(drugName: string, renal: string, result: Pick<RenalDoseRecommendation, 'action' | 'dose' | 'interval' | 'comment'>): string {
+  const comment = result.comment ? `. ${result.comment}` : '';
+  switch (result.action) {
+    case 'avoid': return `${drugName}, ${renal}: avoid${comment}`;
+    case 'no_recommendation': return `${drugName}, ${renal}: no recommendation${comment}`;
+    case 'no_change': return `${drugName}, ${renal}: no renal adjustment (${result.dose} ${result.interval})`;
+    default: return `${drugName}, ${renal}: ${result.dose} ${result.interval}${comment}`;
+  }
+}
+
+/**
+ * Reads and validates a renal dosing tables file.
+ * @throws GenericError if the file is invalid or names drugs missing from the taxonomy.
+ */
+export function loadRenalDosingTables(filePath: string, taxonomy: DrugTaxonomy): RenalDosingTables {
+  return new RenalDosingTables(readKnowledgeFile(filePath, RenalDosingSchema, FORMAT_GUIDE), taxonomy, filePath);
+}
+
+// ===== SINGLETON INSTANCE =====
+
+let renalDosingTablesInstance: RenalDosingTables | null = null;
+
+/**
+ * Gets the loaded renal dosing tables, loading them on first use
+ */
+export function getRenalDosingTables(): RenalDosingTables {
+  if (!renalDosingTablesInstance) {
+    renalDosingTablesInstance = loadRenalDosingTables(
+      KNOWLEDGE_BASE_CONFIG.RENAL_DOSING_FILE || DEFAULT_RENAL_DOSING_FILE,
+      getDrugTaxonomy()
+    );
+  }
+  return renalDosingTablesInstance;
+}
@@ -0,0 +1,98 @@
+/**
+ * SOAP Section Store Service
+ * Holds documented SOAP sections so compile_soap_note can assemble them by section ID
+ */
+
+import { GenericError, ErrorType, ErrorSeverity } from '../types/errors.js';
+import { RecordStore } from './recordStore.js';
+
+// ===== SOAP SECTION TYPES =====
+
+export type SoapSectionType = 'subjective' | 'objective' | 'assessment' | 'plan';
+
+export interface SoapSectionRecord {
+  section_id: string;
+  section_type: SoapSectionType;
+  encounter_id: string;
+  patient_id: string | null; // Only document_subjective receives patient_id directly
+  encounter_datetime: string | null;
+  narrative: string;
+  structured_data: Record<string, unknown>;
+  linked_section_ids: string[]; // Sections this section was documented from
+  documented_at: string;
+}
+
+// ===== SOAP SECTION STORE SERVICE =====
+
+export class SoapSectionStoreService {
+  private readonly store = new RecordStore<SoapSectionRecord>('soap_sections');
+
+  /**
+   * Saves a documented section. If the section has no patient_id, it inherits the
+   * patient_id already recorded for the same encounter.
+   */
+  saveSection(section: Omit<SoapSectionRecord, 'documented_at'>): SoapSectionRecord {
+    const record: SoapSectionRecord = {
+      ...section,
+      patient_id: section.patient_id ?? this.findEncounterPatientId(section.encounter_id),
+      documented_at: new Date().toISOString(),
+    };
+    return this.store.put(record.section_id, record);
+  }
+
+  /**
+   * Retrieves a section by ID and checks it is of the expected type.
+   * @throws GenericError if the section does not exist or is of a different type.
+   */
+  getSection(sectionId: string, expectedType: SoapSectionType): SoapSectionRecord {
+    const section = this.store.get(sectionId);
+    if (!section) {
+      throw new GenericError(ErrorType.NO_RESULTS_FOUND, `No ${expectedType} section found with ID '${sectionId}'`, {
+        severity: ErrorSeverity.MEDIUM,
+        suggestions: [
+          `Run document_${expectedType} first and pass the section_id it returns`,
+          'Check the section ID for typos',
+        ],
+        details: { section_id: sectionId, expected_type: expectedType },
+      });
+    }
+
+    if (section.section_type !== expectedType) {
+      throw new GenericError(
+        ErrorType.INVALID_INPUT,
+        `Section '${sectionId}' is of type '${section.section_type}', expected '${expectedType}'`,
+        {
+          severity: ErrorSeverity.MEDIUM,
+          suggestions: [`Pass the section_id returned by document_${expectedType}`],
+          details: { section_id: sectionId, expected_type: expectedType, actual_type: section.section_type },
+        },
+      );
+    }
+
+    return section;
+  }
+
+  /**
+   * Finds the patient_id recorded for an encounter, if any section has one.
+   */
+  findEncounterPatientId(encounterId: string): string | null {
+    const withPatient = this.store.find(
+      section => section.encounter_id === encounterId && section.patient_id !== null,
+    );
+    return withPatient[0]?.patient_id ?? null;
+  }
+}
+
+// ===== SINGLETON INSTANCE =====
+
+let soapSectionStoreInstance: SoapSectionStoreService | null = null;
+
+/**
+ * Gets singleton instance of the SOAP section store
+ */
+export function getSoapSectionStore(): SoapSectionStoreService {
+  if (!soapSectionStoreInstance) {
+    soapSectionStoreInstance = new SoapSectionStoreService();
+  }
+  return soapSectionStoreInstance;
+}
@@ -0,0 +1,357 @@
+/**
+ * Storage Backend for MCP Server
+ * Durable home for clinical records and append-only logs. The implementation is chosen by
+ * STORAGE_CONFIG.BACKEND: in-memory, JSON-lines files, or a single-file SQLite database.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+import type Database from 'better-sqlite3';
+import { GenericError, ErrorType, ErrorSeverity } from '../types/errors.js';
+import { STORAGE_CONFIG } from '../config/appConfig.js';
+
+// ===== STORAGE BACKEND INTERFACE =====
+
+export type StorageBackendKind = 'memory' | 'jsonl' | 'sqlite';
+
+export const STORAGE_BACKEND_KINDS: readonly StorageBackendKind[] = ['memory', 'jsonl', 'sqlite'];
+
+export interface UnreadableEntry {
+  source: string; // File or table the entry came from
+  position: number; // Line number or row position
+}
+
+export interface LogReadResult<T> {
+  entries: T[];
+  unreadable: UnreadableEntry[]; // Entries that could not be parsed; reported rather than dropped silently
+}
+
+export interface StorageBackend {
+  readonly kind: StorageBackendKind;
+
+  /**
+   * Stores a keyed record, replacing any previous version under the same ID.
+   */
+  putRecord(collection: string, id: string, record: unknown): void;
+
+  /**
+   * Returns the record stored under the ID, if any.
+   */
+  getRecord<T>(collection: string, id: string): T | undefined;
+
+  /**
+   * Returns all records in the collection, in the order they were first stored.
+   */
+  listRecords<T>(collection: string): T[];
+
+  /**
+   * Appends an entry to an append-only log.
+   */
+  appendLogEntry(log: string, entry: unknown): void;
+
+  /**
+   * Returns all entries of a log, oldest first.
+   */
+  readLog<T>(log: string): LogReadResult<T>;
+}
+
+// ===== IN-MEMORY BACKEND =====
+
+/**
+ * Keeps everything in process memory; contents are lost on restart. Intended for tests.
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  readonly kind = 'memory' as const;
+  private readonly collections = new Map<string, Map<string, unknown>>();
+  private readonly logs = new Map<string, unknown[]>();
+
+  putRecord(collection: string, id: string, record: unknown): void {
+    this.collection(collection).set(id, record);
+  }
+
+  getRecord<T>(collection: string, id: string): T | undefined {
+    return this.collection(collection).get(id) as T | undefined;
+  }
+
+  listRecords<T>(collection: string): T[] {
+    return [...this.collection(collection).values()] as T[];
+  }
+
+  appendLogEntry(log: string, entry: unknown): void {
+    this.log(log).push(entry);
+  }
+
+  readLog<T>(log: string): LogReadResult<T> {
+    return { entries: [...this.log(log)] as T[], unreadable: [] };
+  }
+
+  private collection(name: string): Map<string, unknown> {
+    let records = this.collections.get(name);
+    if (!records) {
+      records = new Map();
+      this.collections.set(name, records);
+    }
+    return records;
+  }
+
+  private log(name: string): unknown[] {
+    let entries = this.logs.get(name);
+    if (!entries) {
+      entries = [];
+      this.logs.set(name, entries);
+    }
+    return entries;
+  }
+}
+
+// ===== JSON-LINES BACKEND =====
+
+/**
+ * One append-only file per collection or log. Record files hold {id, record} lines and are
+ * replayed on first use, later lines for the same ID replacing earlier ones.
+ */
+export class JsonLinesStorageBackend implements StorageBackend {
+  readonly kind = 'jsonl' as const;
+  private readonly collections = new Map<string, Map<string, unknown>>();
+
+  constructor(private readonly dataDir: string) {}
+
+  putRecord(collection: string, id: string, record: unknown): void {
+    const records = this.collection(collection);
+    this.appendLine(this.filePath(collection), { id, record }, `${collection} record ${id}`);
+    records.set(id, record);
+  }
+
+  getRecord<T>(collection: string, id: string): T | undefined {
+    return this.collection(collection).get(id) as T | undefined;
+  }
+
+  listRecords<T>(collection: string): T[] {
+    return [...this.collection(collection).values()] as T[];
+  }
+
+  appendLogEntry(log: string, entry: unknown): void {
+    this.appendLine(this.filePath(log), entry, `${log} entry`);
+  }
+
+  readLog<T>(log: string): LogReadResult<T> {
+    return this.readLines<T>(this.filePath(log));
+  }
+
+  private collection(name: string): Map<string, unknown> {
+    let records = this.collections.get(name);
+    if (!records) {
+      const { entries, unreadable } = this.readLines<{ id: string; record: unknown }>(this.filePath(name));
+      if (unreadable.length > 0) {
+        throw new GenericError(ErrorType.CACHE_ERROR, `Failed to load ${name} records`, {
+          severity: ErrorSeverity.HIGH,
+          suggestions: [`Check that ${this.filePath(name)} contains one JSON record per line`],
+          details: { collection: name, unreadable_lines: unreadable.map(entry => entry.position) },
+        });
+      }
+      records = new Map(entries.map(entry => [entry.id, entry.record]));
+      this.collections.set(name, records);
+    }
+    return records;
+  }
+
+  private filePath(name: string): string {
+    return join(this.dataDir, `${name}.jsonl`);
+  }
+
+  private readLines<T>(filePath: string): LogReadResult<T> {
+    if (!existsSync(filePath)) return { entries: [], unreadable: [] };
+
+    let content: string;
+    try {
+      content = readFileSync(filePath, 'utf8');
+    } catch (error) {
+      throw new GenericError(ErrorType.CACHE_ERROR, `Failed to read ${filePath}`, {
+        severity: ErrorSeverity.HIGH,
+        suggestions: ['Check that the data directory is readable'],
+        details: { file: filePath },
+        ...(error instanceof Error && { cause: error }),
+      });
+    }
+
+    const result: LogReadResult<T> = { entries: [], unreadable: [] };
+    content.split('\n').forEach((line, index) => {
+      if (line.trim().length === 0) return;
+      try {
+        result.entries.push(JSON.parse(line) as T);
+      } catch {
+        result.unreadable.push({ source: filePath, position: index + 1 });
+      }
+    });
+    return result;
+  }
+
+  private appendLine(filePath: string, value: unknown, description: string): void {
+    try {
+      mkdirSync(this.dataDir, { recursive: true });
+      appendFileSync(filePath, JSON.stringify(value) + '\n', 'utf8');
+    } catch (error) {
+      throw new GenericError(ErrorType.CACHE_ERROR, `Failed to persist ${description}`, {
+        severity: ErrorSeverity.HIGH,
+        suggestions: ['Check that the data directory exists and is writable'],
+        details: { file: filePath },
+        ...(error instanceof Error && { cause: error }),
+      });
+    }
+  }
+}
+
+// ===== SQLITE BACKEND =====
+
+const require = createRequire(import.meta.url);
+
+/**
+ * Loads better-sqlite3 on first use, so the memory and JSON-lines backends run without the
+ * native module installed or built.
+ */
+function loadSqlite(): typeof Database {
+  try {
+    return require('better-sqlite3') as typeof Database;
+  } catch (error) {
+    throw new GenericError(ErrorType.CONFIGURATION_ERROR, 'The SQLite storage backend needs the better-sqlite3 package', {
+      severity: ErrorSeverity.CRITICAL,
+      suggestions: [
+        'Install better-sqlite3 and check that its native module builds for this Node.js version',
+        `Or set STORAGE_BACKEND to one of: ${STORAGE_BACKEND_KINDS.filter(kind => kind !== 'sqlite').join(', ')}`,
+      ],
+      ...(error instanceof Error && { cause: error }),
+    });
+  }
+}
+
+/**
+ * Single-file SQLite database. Log rows are protected by triggers that reject updates and
+ * deletes, so logs stay append-only through the SQL interface as well.
+ */
+export class SqliteStorageBackend implements StorageBackend {
+  readonly kind = 'sqlite' as const;
+  private readonly db: Database.Database;
+
+  constructor(private readonly filePath: string) {
+    const Sqlite = loadSqlite();
+    try {
+      mkdirSync(dirname(filePath), { recursive: true });
+      this.db = new Sqlite(filePath);
+      this.db.pragma('journal_mode = WAL');
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS records (
+          collection TEXT NOT NULL,
+          id TEXT NOT NULL,
+          data TEXT NOT NULL,
+          PRIMARY KEY (collection, id)
+        );
+        CREATE TABLE IF NOT EXISTS log_entries (
+          position INTEGER PRIMARY KEY AUTOINCREMENT,
+          log TEXT NOT NULL,
+          data TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS log_entries_by_log ON log_entries (log, position);
+        CREATE TRIGGER IF NOT EXISTS log_entries_no_update BEFORE UPDATE ON log_entries
+          BEGIN SELECT RAISE(ABORT, 'log entries are append-only'); END;
+        CREATE TRIGGER IF NOT EXISTS log_entries_no_delete BEFORE DELETE ON log_entries
+          BEGIN SELECT RAISE(ABORT, 'log entries are append-only'); END;
+      `);
+    } catch (error) {
+      throw new GenericError(ErrorType.CACHE_ERROR, `Failed to open SQLite database ${filePath}`, {
+        severity: ErrorSeverity.HIGH,
+        suggestions: ['Check that the database path is writable and not locked by another process'],
+        details: { file: filePath },
+        ...(error instanceof Error && { cause: error }),
+      });
+    }
+  }
+
+  putRecord(collection: string, id: string, record: unknown): void {
+    this.run(`${collection} record ${id}`, () =>
+      this.db.prepare(`
+        INSERT INTO records (collection, id, data) VALUES (?, ?, ?)
+        ON CONFLICT (collection, id) DO UPDATE SET data = excluded.data
+      `).run(collection, id, JSON.stringify(record)));
+  }
+
+  getRecord<T>(collection: string, id: string): T | undefined {
+    const row = this.run(`${collection} record ${id}`, () =>
+      this.db.prepare('SELECT data FROM records WHERE collection = ? AND id = ?').get(collection, id) as { data: string } | undefined);
+    return row ? JSON.parse(row.data) as T : undefined;
+  }
+
+  listRecords<T>(collection: string): T[] {
+    const rows = this.run(`${collection} records`, () =>
+      this.db.prepare('SELECT data FROM records WHERE collection = ? ORDER BY rowid').all(collection) as Array<{ data: string }>);
+    return rows.map(row => JSON.parse(row.data) as T);
+  }
+
+  appendLogEntry(log: string, entry: unknown): void {
+    this.run(`${log} entry`, () =>
+      this.db.prepare('INSERT INTO log_entries (log, data) VALUES (?, ?)').run(log, JSON.stringify(entry)));
+  }
+
+  readLog<T>(log: string): LogReadResult<T> {
+    const rows = this.run(`${log} entries`, () =>
+      this.db.prepare('SELECT position, data FROM log_entries WHERE log = ? ORDER BY position').all(log) as Array<{ position: number; data: string }>);
+
+    const result: LogReadResult<T> = { entries: [], unreadable: [] };
+    for (const row of rows) {
+      try {
+        result.entries.push(JSON.parse(row.data) as T);
+      } catch {
+        result.unreadable.push({ source: `${this.filePath}#log_entries`, position: row.position });
+      }
+    }
+    return result;
+  }
+
+  private run<T>(description: string, operation: () => T): T {
+    try {
+      return operation();
+    } catch (error) {
+      throw new GenericError(ErrorType.CACHE_ERROR, `SQLite operation failed for ${description}`, {
+        severity: ErrorSeverity.HIGH,
+        suggestions: ['Check that the database file is writable and not corrupted'],
+        details: { file: this.filePath },
+        ...(error instanceof Error && { cause: error }),
+      });
+    }
+  }
+}
+
+// ===== SINGLETON INSTANCE =====
+
+let storageBackendInstance: StorageBackend | null = null;
+
+/**
+ * Creates the backend named by STORAGE_CONFIG.BACKEND.
+ * @throws GenericError if the configured backend is unknown.
+ */
+export function createStorageBackend(kind: string = STORAGE_CONFIG.BACKEND): StorageBackend {
+  switch (kind) {
+    case 'memory':
+      return new MemoryStorageBackend();
+    case 'jsonl':
+      return new JsonLinesStorageBackend(STORAGE_CONFIG.DATA_DIR);
+    case 'sqlite':
+      return new SqliteStorageBackend(STORAGE_CONFIG.SQLITE_FILE);
+    default:
+      throw new GenericError(ErrorType.CONFIGURATION_ERROR, `Unknown storage backend '${kind}'`, {
+        severity: ErrorSeverity.CRITICAL,
+        suggestions: [`Set STORAGE_BACKEND to one of: ${STORAGE_BACKEND_KINDS.join(', ')}`],
+        details: { backend: kind },
+      });
+  }
+}
+
+/**
+ * Gets singleton instance of the configured storage backend
+ */
+export function getStorageBackend(): StorageBackend {
+  if (!storageBackendInstance) {
+    storageBackendInstance = createStorageBackend();
+  }
+  return storageBackendInstance;
+}
@@ -0,0 +1,317 @@
+/**
+ * Therapeutic Duplication Service
+ * Detects medications that duplicate each other's therapeutic effect, either the same ingredient
+ * ordered more than once or two drugs from one duplication group (two proton pump inhibitors, an
+ * ACE inhibitor with an ARB, IV and PO opioids), using knowledge/therapeutic_duplication/groups.json.
+ * Combinations the file lists as intentional, such as a scheduled long-acting opioid with a PRN
+ * short-acting opioid for breakthrough pain, are reported separately instead of as duplications.
+ */
+
+import { join } from 'node:path';
+import { z } from 'zod';
+import { KNOWLEDGE_BASE_CONFIG } from '../config/appConfig.js';
+import {
+  KNOWLEDGE_ROOT,
+  KnowledgeBaseVersion,
+  assertKnowledgeConsistent,
+  knowledgeVersionShape,
+  nonEmptyText,
+  readKnowledgeFile,
+} from './knowledgeFiles.js';
+import { DrugTaxonomy, getDrugTaxonomy } from './drugClassification.js';
+
+// ===== GROUP SCHEMA =====
+
+const identifier = z.string().regex(/^[a-z0-9_]+$/, 'identifiers use lowercase letters, digits and underscores');
+const severity = z.enum(['serious', 'moderate', 'minor']);
+const managementLevel = z.enum(['use_alternative', 'monitor_closely', 'adjust_dose', 'no_action']);
+
+const findingShape = {
+  severity,
+  management_level: managementLevel,
+  clinical_effects: z.array(nonEmptyText).min(1),
+  recommendation: nonEmptyText,
+  references: z.array(nonEmptyText).min(1),
+};
+
+const TherapeuticDuplicationSchema = z.object({
+  ...knowledgeVersionShape,
+  same_ingredient: z.object(findingShape).strict().describe('Applies to an ingredient ordered more than once that is in no group'),
+  long_acting: z.object({
+    terms: z.array(nonEmptyText).min(1).describe('Words, brand names or ingredients in a drug name that mark a long-acting drug, e.g. ER, OxyContin, methadone'),
+    routes: z.array(nonEmptyText).describe('Routes whose doses are long-acting, e.g. transdermal'),
+  }).strict(),
+  groups: z.array(z.object({
+    id: identifier,
+    name: nonEmptyText,
+    members: z.array(nonEmptyText).min(1).describe('Ingredients or classes from the drug class taxonomy'),
+    exclude: z.array(nonEmptyText).describe('Ingredients or classes left out of the members'),
+    ...findingShape,
+    allowed_combinations: z.array(z.object({
+      description: nonEmptyText,
+      first: z.array(nonEmptyText).min(1),
+      second: z.array(nonEmptyText).min(1),
+      regimen: z.enum(['any', 'long_acting_with_prn']).describe('long_acting_with_prn: one drug is scheduled and long-acting, the other PRN and short-acting'),
+    }).strict()),
+  }).strict()),
+}).strict();
+
+type TherapeuticDuplicationData = z.infer<typeof TherapeuticDuplicationSchema>;
+type DuplicationGroup = TherapeuticDuplicationData['groups'][number];
+type AllowedCombination = DuplicationGroup['allowed_combinations'][number];
+
+export type DuplicationSeverity = z.infer<typeof severity>;
+
+export const DEFAULT_THERAPEUTIC_DUPLICATION_FILE = join(KNOWLEDGE_ROOT, 'therapeutic_duplication', 'groups.json');
+
+const FORMAT_GUIDE = 'knowledge/therapeutic_duplication/README.md';
+
+// Frequencies that mark an order as PRN rather than scheduled
+const PRN_PATTERN = /\bprn\b|as needed|as required|when required/i;
+
+// Route spellings compared as one route when checking for the same ingredient by two routes
+const ROUTE_ALIASES: Record<string, string> = {
+  'oral': 'po', 'by mouth': 'po', 'per os': 'po',
+  'intravenous': 'iv', 'intramuscular': 'im',
+  'subcutaneous': 'sc', 'subcut': 'sc', 'sq': 'sc',
+  'sublingual': 'sl', 'per rectum': 'pr', 'rectal': 'pr',
+  'transdermal': 'td',
+};
+
+// ===== DUPLICATION TYPES =====
+
+export interface DuplicationCandidate {
+  drug_name: string;
+  resolved_name: string;
+  frequency?: string | undefined;
+  route?: string | undefined;
+}
+
+export interface TherapeuticDuplication<T extends DuplicationCandidate> {
+  group_id: string | null; // Null for an ingredient ordered more than once that is in no group
+  group_name: string;
+  duplication_type: 'same_ingredient' | 'same_class';
+  severity: DuplicationSeverity;
+  management_level: z.infer<typeof managementLevel>;
+  medications: T[];
+  description: string;
+  clinical_effects: string[];
+  recommendation: string;
+  references: string[];
+}
+
+export interface IntentionalCombination<T extends DuplicationCandidate> {
+  group_id: string;
+  description: string; // The allowed combination that applied
+  medications: [T, T];
+}
+
+export interface TherapeuticDuplicationReview<T extends DuplicationCandidate> {
+  groups: KnowledgeBaseVersion;
+  duplications: TherapeuticDuplication<T>[];
+  intentional_combinations: IntentionalCombination<T>[]; // Same group but listed as allowed, so not flagged
+}
+
+// ===== THERAPEUTIC DUPLICATION GROUPS =====
+
+export class TherapeuticDuplicationGroups {
+  readonly version: KnowledgeBaseVersion;
+  private readonly groups: DuplicationGroup[];
+  private readonly sameIngredient: TherapeuticDuplicationData['same_ingredient'];
+  private readonly longActingTerms: string[];
+  private readonly longActingRoutes: Set<string>;
+  private readonly taxonomy: DrugTaxonomy;
+
+  constructor(data: TherapeuticDuplicationData, taxonomy: DrugTaxonomy, source: string) {
+    this.version = { name: data.name, version: data.version, released: data.released };
+    this.groups = data.groups;
+    this.sameIngredient = data.same_ingredient;
+    this.longActingTerms = data.long_acting.terms.map(toWords);
+    this.longActingRoutes = new Set(data.long_acting.routes.map(normalizeRoute));
+    this.taxonomy = taxonomy;
+    const problems: string[] = [];
+
+    const ids = new Set<string>();
+    for (const group of data.groups) {
+      if (ids.has(group.id)) problems.push(`${group.id}: group is listed more than once`);
+      ids.add(group.id);
+      const combinationTargets = group.allowed_combinations.flatMap(combination => [...combination.first, ...combination.second]);
+      for (const target of [...group.members, ...group.exclude, ...combinationTargets]) {
+        if (!taxonomy.isKnownTarget(target)) problems.push(`${group.id}: '${target}' is not an ingredient or class in the drug class taxonomy`);
+      }
+    }
+
+    assertKnowledgeConsistent(
+      problems,
+      'Therapeutic duplication groups are inconsistent',
+      `Correct the listed entries; see ${FORMAT_GUIDE} for the format`,
+      source
+    );
+  }
+
+  /**
+   * Finds therapeutic duplications in a medication list. Within a group every pair of drugs is a
+   * duplication unless an allowed combination covers it; one finding is reported per group. The same
+   * ingredient ordered by two routes is always a duplication. An ingredient ordered more than once
+   * that is in no group is reported as a same-ingredient duplication.
+   */
+  review<T extends DuplicationCandidate>(medications: T[]): TherapeuticDuplicationReview<T> {
+    const duplications: TherapeuticDuplication<T>[] = [];
+    const intentional: IntentionalCombination<T>[] = [];
+    const inGroup = new Set<T>();
+
+    for (const group of this.groups) {
+      const members = medications.filter(medication => this.isMember(medication.resolved_name, group));
+      members.forEach(medication => inGroup.add(medication));
+
+      const flagged = new Set<T>();
+      for (let i = 0; i < members.length; i++) {
+        for (let j = i + 1; j < members.length; j++) {
+          const first = members[i];
+          const second = members[j];
+          if (!first || !second) continue;
+
+          const allowed = this.isSameIngredientByTwoRoutes(first, second)
+            ? undefined
+            : group.allowed_combinations.find(combination => this.isAllowed(combination, first, second));
+          if (allowed) {
+            intentional.push({ group_id: group.id, description: allowed.description, medications: [first, second] });
+          } else {
+            flagged.add(first);
+            flagged.add(second);
+          }
+        }
+      }
+
+      if (flagged.size > 0) {
+        duplications.push(this.buildDuplication(group, members.filter(medication => flagged.has(medication))));
+      }
+    }
+
+    // Ingredients outside every group are still duplicated when ordered more than once
+    const byIngredient = new Map<string, T[]>();
+    for (const medication of medications) {
+      if (inGroup.has(medication)) continue;
+      const key = this.ingredientKey(medication);
+      byIngredient.set(key, [...(byIngredient.get(key) ?? []), medication]);
+    }
+    for (const [ingredient, sameIngredient] of byIngredient) {
+      if (sameIngredient.length < 2) continue;
+      duplications.push({
+        group_id: null,
+        group_name: ingredient,
+        duplication_type: 'same_ingredient',
+        ...this.sameIngredient,
+        medications: sameIngredient,
+        description: `${ingredient} ordered ${sameIngredient.length} times: ${describeMedications(sameIngredient)}`
+      });
+    }
+
+    return { groups: this.version, duplications, intentional_combinations: intentional };
+  }
+
+  private buildDuplication<T extends DuplicationCandidate>(group: DuplicationGroup, medications: T[]): TherapeuticDuplication<T> {
+    const ingredients = new Set(medications.map(medication => this.ingredientKey(medication)));
+    const sameIngredient = ingredients.size === 1;
+    const routes = [...new Set(medications.flatMap(medication => medication.route ? [normalizeRoute(medication.route).toUpperCase()] : []))];
+
+    const what = sameIngredient
+      ? `${[...ingredients][0]} ordered ${medications.length} times`
+      : `Therapeutic duplication (${group.name})`;
+    const byRoute = routes.length > 1 ? `. Ordered by more than one route (${routes.join(', ')})` : '';
+    return {
+      group_id: group.id,
+      group_name: group.name,
+      duplication_type: sameIngredient ? 'same_ingredient' : 'same_class',
+      severity: group.severity,
+      management_level: group.management_level,
+      medications,
+      description: `${what}: ${describeMedications(medications)}${byRoute}`,
+      clinical_effects: group.clinical_effects,
+      recommendation: group.recommendation,
+      references: group.references
+    };
+  }
+
+  private isAllowed(combination: AllowedCombination, first: DuplicationCandidate, second: DuplicationCandidate): boolean {
+    const fits = (targets: string[], medication: DuplicationCandidate) =>
+      targets.some(target => this.taxonomy.matches(medication.resolved_name, target));
+    const paired = (fits(combination.first, first) && fits(combination.second, second)) ||
+      (fits(combination.first, second) && fits(combination.second, first));
+    if (!paired) return false;
+    if (combination.regimen === 'any') return true;
+
+    const [scheduled, prn] = isPrn(first) ? [second, first] : [first, second];
+    return !isPrn(scheduled) && isPrn(prn) && this.isLongActing(scheduled) && !this.isLongActing(prn);
+  }
+
+  private isLongActing(medication: DuplicationCandidate): boolean {
+    if (medication.route && this.longActingRoutes.has(normalizeRoute(medication.route))) return true;
+    const names = [medication.drug_name, medication.resolved_name].map(toWords);
+    return this.longActingTerms.some(term => names.some(name => name.includes(term)));
+  }
+
+  private isSameIngredientByTwoRoutes(first: DuplicationCandidate, second: DuplicationCandidate): boolean {
+    if (!first.route || !second.route) return false;
+    return this.ingredientKey(first) === this.ingredientKey(second) &&
+      normalizeRoute(first.route) !== normalizeRoute(second.route);
+  }
+
+  private isMember(drugName: string, group: DuplicationGroup): boolean {
+    return group.members.some(member => this.taxonomy.matches(drugName, member)) &&
+      !group.exclude.some(excluded => this.taxonomy.matches(drugName, excluded));
+  }
+
+  private ingredientKey(medication: DuplicationCandidate): string {
+    return this.taxonomy.classify(medication.resolved_name).ingredient ?? DrugTaxonomy.toKey(medication.resolved_name);
+  }
+}
+
+function isPrn(medication: DuplicationCandidate): boolean {
+  return medication.frequency !== undefined && PRN_PATTERN.test(medication.frequency);
+}
+
+function normalizeRoute(route: string): string {
+  const normalized = route.toLowerCase().replace(/\./g, '').trim();
+  return ROUTE_ALIASES[normalized] ?? normalized;
+}
+
+/**
+ * Lowercase words padded with spaces, so a term matches whole words only ("er" in "morphine ER",
+ * not in "sertraline").
+ */
+function toWords(text: string): string {
+  return ` ${text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+}
+
+function describeMedications(medications: DuplicationCandidate[]): string {
+  return medications.map(medication => {
+    const regimen = [medication.route, medication.frequency].filter(Boolean).join(' ');
+    return regimen ? `${medication.drug_name} (${regimen})` : medication.drug_name;
+  }).join(', ');
+}
+
+/**
+ * Reads and validates a therapeutic duplication groups file.
+ * @throws GenericError if the file is invalid or names drugs missing from the taxonomy.
+ */
+export function loadTherapeuticDuplicationGroups(filePath: string, taxonomy: DrugTaxonomy): TherapeuticDuplicationGroups {
+  return new TherapeuticDuplicationGroups(readKnowledgeFile(filePath, TherapeuticDuplicationSchema, FORMAT_GUIDE), taxonomy, filePath);
+}
+
+// ===== SINGLETON INSTANCE =====
+
+let therapeuticDuplicationGroupsInstance: TherapeuticDuplicationGroups | null = null;
+
+/**
+ * Gets the loaded therapeutic duplication groups, loading them on first use
+ */
+export function getTherapeuticDuplicationGroups(): TherapeuticDuplicationGroups {
+  if (!therapeuticDuplicationGroupsInstance) {
+    therapeuticDuplicationGroupsInstance = loadTherapeuticDuplicationGroups(
+      KNOWLEDGE_BASE_CONFIG.THERAPEUTIC_DUPLICATION_FILE || DEFAULT_THERAPEUTIC_DUPLICATION_FILE,
+      getDrugTaxonomy()
+    );
+  }
+  return therapeuticDuplicationGroupsInstance;
+}
@@ -0,0 +1,389 @@
+/**
+ * Calculate Infusion Rate Tool
+ * Converts between a continuous infusion's dose rate and pump rate and checks the programmed pump rate
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { McpResponse } from "../../types/mcp.js";
+import { getResponseFormatter } from "../../services/responseFormatter.js";
+import { validateToolInput } from "../../utils/validators.js";
+import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
+import { GenericError, ErrorType, ErrorSeverity } from "../../types/errors.js";
+import {
+  Quantity,
+  QuantityComparison,
+  QuantityUnit,
+  cancelDenominator,
+  compareQuantities,
+  convertQuantity,
+  describeDimension,
+  formatQuantity,
+  parseQuantity,
+  parseUnit,
+  quantityOf
+} from "../../utils/quantities.js";
+
+// Define the Zod schema for infusion rate input
+export const CalculateInfusionRateSchema = z.object({
+  patient_id: z.string().optional().describe("Patient identifier, recorded in the audit trail"),
+  verifier_id: z.string().optional().describe("ID of person checking the pump"),
+  drug_name: z.string().optional().describe("Infused medication"),
+  ordered_dose_rate: z.string().optional().describe("Ordered dose rate, e.g. '5 mcg/kg/min', '1000 units/h', '2 mg/h' or '0.05-0.2 mcg/kg/min' for a titration range; omit to calculate the dose rate a pump rate delivers"),
+  concentration: z.string().describe("Bag or syringe concentration, e.g. '400 mg/250 mL', '25,000 units/500 mL' or '1 mg/mL'"),
+  patient_weight_kg: z.number().positive().optional().describe("Patient weight in kg, for dose rates per kg"),
+  programmed_rate_ml_h: z.number().min(0).optional().describe("Rate programmed on the pump in mL/h"),
+  dose_rate_unit: z.string().optional().describe("Unit to express the delivered dose rate in, e.g. 'mcg/kg/min'; defaults to the ordered dose rate's unit, or the drug's unit per hour")
+});
+
+export type CalculateInfusionRateInput = z.infer<typeof CalculateInfusionRateSchema>;
+
+// Infusion rate output
+export interface InfusionRateOutput {
+  drug_name: string | null;
+  concentration: string; // Per mL, e.g. "1.6 mg/mL"
+  ordered_dose_rate: string | null;
+  expected_pump_rate: string | null; // mL/h that delivers the ordered dose rate
+  programmed_pump_rate: string | null;
+  delivered_dose_rate: string | null; // What the programmed rate delivers, in the ordered or requested unit
+  pump_check: {
+    status: QuantityComparison['status'] | 'not_checked';
+    difference_percent: number | null; // Programmed rate relative to the expected rate
+    programming_error: {
+      factor: number; // How many times too fast or too slow, e.g. 10 or 1000
+      direction: 'too_fast' | 'too_slow';
+      likely_cause: string;
+    } | null;
+    message: string;
+  };
+  steps: string[];
+  can_proceed: boolean;
+  warnings: string[];
+}
+
+// A programmed rate within this percentage of the expected rate matches it
+const PUMP_RATE_TOLERANCE_PERCENT = 5;
+
+// Ratios between programmed and expected rates that point to a programming error rather than a slip
+const PROGRAMMING_ERROR_FACTORS: Array<{ factor: number; likely_cause: string }> = [
+  { factor: 10, likely_cause: 'misplaced decimal point' },
+  { factor: 100, likely_cause: 'misplaced decimal point' },
+  { factor: 1000, likely_cause: 'mg and mcg (or g and mg) confused' },
+  { factor: 60, likely_cause: 'per minute and per hour confused' },
+];
+
+// ===== TOOL REGISTRATION =====
+
+export function registerCalculateInfusionRateTool(server: McpServer): void {
+  server.registerTool(
+    "calculate_infusion_rate",
+    {
+      title: "Calculate Infusion Rate",
+      description: `Converts between a continuous infusion's dose rate and pump rate and checks the rate programmed on the pump.
+
+**Purpose:** Make sure a continuous IV infusion runs at the ordered dose rate.
+
+**Input Parameters:**
+- patient_id: Patient identifier for the audit trail (optional)
+- verifier_id: Person checking the pump (optional)
+- drug_name: Infused medication (optional)
+- ordered_dose_rate: Ordered dose rate such as mcg/kg/min, units/h or mg/h (optional)
+- concentration: Bag or syringe concentration
+- patient_weight_kg: Patient weight, for dose rates per kg (optional)
+- programmed_rate_ml_h: Rate programmed on the pump in mL/h (optional)
+- dose_rate_unit: Unit for the delivered dose rate (optional)
+
+**Process:**
+1. Convert the concentration to drug per mL
+2. Convert the ordered dose rate to mL/h, multiplying out the patient weight for rates per kg
+3. Convert the programmed pump rate back to the dose rate it delivers
+4. Compare the programmed rate with the expected rate and flag errors of a factor of 10, 100, 1000 or 60
+
+**Output:** Returns the expected pump rate, the dose rate the programmed rate delivers, the calculation steps, the pump check with any likely programming error, and warnings.`,
+      inputSchema: CalculateInfusionRateSchema.shape,
+    },
+    async (input: CalculateInfusionRateInput): Promise<McpResponse<InfusionRateOutput>> => {
+      const startTime = Date.now();
+      const responseFormatter = getResponseFormatter();
+
+      try {
+        // 1. Validate input
+        const { data: validatedInput } = validateToolInput(CalculateInfusionRateSchema, input, "calculate_infusion_rate");
+
+        // 2. Calculate rates and check the pump
+        const infusionOutput = processInfusionRate(validatedInput);
+
+        // 3. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "calculate_infusion_rate",
+          patient_id: validatedInput.patient_id ?? null,
+          actor: validatedInput.verifier_id ?? null,
+          input: validatedInput,
+          output: infusionOutput,
+          decision: infusionOutput.pump_check.status !== 'not_checked'
+            ? `Pump rate ${infusionOutput.pump_check.status}: ${infusionOutput.pump_check.message}`
+            : infusionOutput.expected_pump_rate
+              ? `Calculated pump rate ${infusionOutput.expected_pump_rate}`
+              : `Delivered dose rate ${infusionOutput.delivered_dose_rate ?? 'not calculated'}`
+        });
+
+        // 4. Format response
+        return responseFormatter.formatGenericToolResponse(infusionOutput, startTime);
+
+      } catch (error) {
+        const classifiedError = classifyError(error, `Error in calculate_infusion_rate tool handler`);
+        getAuditLog().recordToolError("calculate_infusion_rate", input, classifiedError);
+        return createComprehensiveErrorResponse(classifiedError, null, {
+          toolName: "calculate_infusion_rate",
+          userInput: input
+        });
+      }
+    }
+  );
+}
+
+// ===== INFUSION RATE PROCESSING =====
+
+function processInfusionRate(input: CalculateInfusionRateInput): InfusionRateOutput {
+  if (input.ordered_dose_rate === undefined && input.programmed_rate_ml_h === undefined) {
+    throw new GenericError(ErrorType.INVALID_INPUT, 'Give an ordered dose rate, a programmed pump rate, or both', {
+      severity: ErrorSeverity.MEDIUM,
+      suggestions: [
+        'Give ordered_dose_rate to calculate the pump rate in mL/h',
+        'Give programmed_rate_ml_h to calculate the dose rate the pump delivers'
+      ]
+    });
+  }
+
+  const steps: string[] = [];
+  const warnings: string[] = [];
+  const { concentration, perMl } = parseConcentration(input.concentration);
+  if (concentration.unit.symbol !== perMl.unit.symbol) {
+    steps.push(`${formatQuantity(concentration)} = ${formatQuantity(perMl)}`);
+  }
+
+  const orderedRate = input.ordered_dose_rate !== undefined ? parseDoseRate(input.ordered_dose_rate, 'ordered_dose_rate') : null;
+  const expected = orderedRate ? calculatePumpRate(orderedRate, perMl, input.patient_weight_kg, steps) : null;
+  if (expected?.problem) {
+    warnings.push(`CRITICAL: Pump rate could not be calculated - ${expected.problem}`);
+  }
+  const expectedRate = expected?.rate ?? null;
+
+  const programmedRate = input.programmed_rate_ml_h !== undefined ? quantityOf(input.programmed_rate_ml_h, 'mL/h') : null;
+  const doseRateUnit = input.dose_rate_unit !== undefined
+    ? parseDoseRateUnit(input.dose_rate_unit)
+    : orderedRate?.unit ?? parseUnit(`${perMl.unit.numerator.symbol}/h`);
+  const delivered = programmedRate && doseRateUnit
+    ? calculateDeliveredDoseRate(programmedRate, perMl, doseRateUnit, input.patient_weight_kg)
+    : null;
+  if (delivered?.problem) {
+    warnings.push(`WARNING: Delivered dose rate not calculated - ${delivered.problem}`);
+  }
+
+  const pumpCheck = checkPumpRate(expectedRate, programmedRate);
+  if (pumpCheck.programming_error) {
+    const { factor, direction, likely_cause: likelyCause } = pumpCheck.programming_error;
+    warnings.push(`CRITICAL: Pump programmed ${factor} times too ${direction === 'too_fast' ? 'fast' : 'slow'} - likely ${likelyCause}. ${pumpCheck.message}`);
+  } else if (pumpCheck.status === 'different') {
+    warnings.push(`CRITICAL: Programmed rate does not match the order - ${pumpCheck.message}`);
+  }
+  if (orderedRate && programmedRate === null && expectedRate) {
+    warnings.push('ALERT: No programmed rate given - check the pump against the expected rate before starting');
+  }
+
+  return {
+    drug_name: input.drug_name ?? null,
+    concentration: formatQuantity(perMl),
+    ordered_dose_rate: orderedRate ? formatQuantity(orderedRate) : null,
+    expected_pump_rate: expectedRate ? formatQuantity(expectedRate) : null,
+    programmed_pump_rate: programmedRate ? formatQuantity(programmedRate) : null,
+    delivered_dose_rate: delivered?.rate ? formatQuantity(delivered.rate) : null,
+    pump_check: pumpCheck,
+    steps: [...steps, ...(delivered?.steps ?? [])],
+    can_proceed: !expected?.problem && pumpCheck.status !== 'different' && pumpCheck.status !== 'incompatible',
+    warnings
+  };
+}
+
+/**
+ * The concentration as drug per mL, e.g. "400 mg/250 mL" as 1.6 mg/mL.
+ * @throws GenericError when it is not a positive amount of drug per positive volume.
+ */
+function parseConcentration(text: string): { concentration: Quantity; perMl: Quantity } {
+  const concentration = parseQuantity(text);
+  const isPerVolume = concentration !== null && concentration.max === null &&
+    !['volume', 'time'].includes(concentration.unit.numerator.dimension) &&
+    concentration.unit.denominators.length === 1 && concentration.unit.denominators[0]?.dimension === 'volume';
+  const perMlUnit = concentration && parseUnit(`${concentration.unit.numerator.symbol}/mL`);
+  const perMl = isPerVolume && concentration && perMlUnit ? convertQuantity(concentration, perMlUnit) : null;
+  if (!concentration || !perMl) {
+    throw new GenericError(ErrorType.INVALID_INPUT, `Concentration '${text}' is not an amount of drug per volume`, {
+      severity: ErrorSeverity.MEDIUM,
+      suggestions: ["Give the concentration as drug per volume, e.g. '400 mg/250 mL' or '1 mg/mL'"],
+      details: { concentration: text }
+    });
+  }
+  // "0 mg/100 mL" or "100 mg/0 mL" would give a pump rate of infinity or zero
+  if (!(perMl.value > 0) || !Number.isFinite(perMl.value)) {
+    throw new GenericError(ErrorType.INVALID_INPUT, `Concentration '${text}' needs a drug amount and volume above zero`, {
+      severity: ErrorSeverity.MEDIUM,
+      suggestions: ["Check the bag or syringe label and give the concentration as, e.g., '400 mg/250 mL'"],
+      details: { concentration: text }
+    });
+  }
+  return { concentration, perMl };
+}
+
+/**
+ * A dose rate such as "5 mcg/kg/min" or "125 mL/h".
+ * @throws GenericError when the text is not an amount per unit of time.
+ */
+function parseDoseRate(text: string, field: string): Quantity {
+  const rate = parseQuantity(text);
+  if (!rate || !rate.unit.denominators.some(denominator => denominator.dimension === 'time')) {
+    throw new GenericError(ErrorType.INVALID_INPUT, `${field} '${text}' is not a rate per unit of time`, {
+      severity: ErrorSeverity.MEDIUM,
+      suggestions: ["Give a rate such as '5 mcg/kg/min', '1000 units/h' or '2 mg/h'"],
+      details: { [field]: text }
+    });
+  }
+  return rate;
+}
+
+function parseDoseRateUnit(text: string): QuantityUnit {
+  return parseDoseRate(`1 ${text}`, 'dose_rate_unit').unit;
+}
+
+/**
+ * The pump rate in mL/h for a dose rate: a rate per kg times the patient weight, converted to
+ * the concentration's drug unit per hour and divided by the concentration. A volume rate such as
+ * "125 mL/h" is already a pump rate. The problem says what is missing when it cannot be calculated.
+ */
+function calculatePumpRate(
+  orderedRate: Quantity,
+  perMl: Quantity,
+  weightKg: number | undefined,
+  steps: string[]
+): { rate: Quantity | null; problem: string | null } {
+  const pumpRateUnit = parseUnit('mL/h');
+  if (orderedRate.unit.numerator.dimension === 'volume') {
+    const rate = pumpRateUnit && convertQuantity(orderedRate, pumpRateUnit);
+    return rate
+      ? { rate: roundPumpRate(rate), problem: null }
+      : { rate: null, problem: `${formatQuantity(orderedRate)} is ${describeDimension(orderedRate.unit)}, not a volume per time` };
+  }
+
+  let rate = orderedRate;
+  if (rate.unit.denominators.some(denominator => denominator.dimension === 'body_weight')) {
+    if (weightKg === undefined) {
+      return { rate: null, problem: `${formatQuantity(orderedRate)} is weight-based but no patient weight was given` };
+    }
+    const weight = quantityOf(weightKg, 'kg');
+    rate = (weight && cancelDenominator(rate, weight)) ?? rate;
+    steps.push(`${formatQuantity(orderedRate)} × ${weightKg} kg = ${formatQuantity(rate)}`);
+  }
+
+  const drugPerHour = parseUnit(`${perMl.unit.numerator.symbol}/h`);
+  const hourly = drugPerHour && convertQuantity(rate, drugPerHour);
+  if (!hourly) {
+    return {
+      rate: null,
+      problem: `${formatQuantity(rate)} is ${describeDimension(rate.unit)} but the concentration is ${describeDimension(perMl.unit)}; ` +
+        'the dose rate must be an amount of the same drug unit per time'
+    };
+  }
+  if (hourly.unit.symbol !== rate.unit.symbol) {
+    steps.push(`${formatQuantity(rate)} = ${formatQuantity(hourly)}`);
+  }
+
+  const pumpRate = roundPumpRate({
+    value: hourly.value / perMl.value,
+    max: hourly.max === null ? null : hourly.max / perMl.value,
+    unit: pumpRateUnit ?? hourly.unit
+  });
+  if (!Number.isFinite(pumpRate.value) || (pumpRate.max !== null && !Number.isFinite(pumpRate.max))) {
+    return { rate: null, problem: `${formatQuantity(hourly)} ÷ ${formatQuantity(perMl)} is not a pump rate` };
+  }
+  steps.push(`${formatQuantity(hourly)} ÷ ${formatQuantity(perMl)} = ${formatQuantity(pumpRate)}`);
+  return { rate: pumpRate, problem: null };
+}
+
+/**
+ * The dose rate a pump rate delivers: mL/h times the concentration, divided by the patient
+ * weight for a rate per kg, in the requested unit. A volume rate is the pump rate itself.
+ */
+function calculateDeliveredDoseRate(
+  pumpRate: Quantity,
+  perMl: Quantity,
+  unit: QuantityUnit,
+  weightKg: number | undefined
+): { rate: Quantity | null; problem: string | null; steps: string[] } {
+  if (unit.numerator.dimension === 'volume') {
+    const rate = convertQuantity(pumpRate, unit);
+    return rate
+      ? { rate, problem: null, steps: [] }
+      : { rate: null, problem: `the pump rate in mL/h cannot be expressed in ${unit.symbol}`, steps: [] };
+  }
+
+  const perWeight = unit.denominators.some(denominator => denominator.dimension === 'body_weight');
+  if (perWeight && weightKg === undefined) {
+    return { rate: null, problem: `${unit.symbol} is weight-based but no patient weight was given`, steps: [] };
+  }
+
+  const drug = perMl.unit.numerator.symbol;
+  const hourlyUnit = parseUnit(perWeight ? `${drug}/kg/h` : `${drug}/h`);
+  const hourlyValue = pumpRate.value * perMl.value / (perWeight && weightKg !== undefined ? weightKg : 1);
+  const hourly = hourlyUnit ? { value: hourlyValue, max: null, unit: hourlyUnit } : null;
+  const rate = hourly && convertQuantity(hourly, unit);
+  if (!hourly || !rate) {
+    return { rate: null, problem: `the pump delivers ${describeDimension(hourlyUnit ?? perMl.unit)}, which cannot be expressed in ${unit.symbol}`, steps: [] };
+  }
+
+  const delivered = { ...rate, value: Number(rate.value.toPrecision(5)) };
+  const calculation = perWeight
+    ? `${formatQuantity(pumpRate)} × ${formatQuantity(perMl)} ÷ ${weightKg} kg`
+    : `${formatQuantity(pumpRate)} × ${formatQuantity(perMl)}`;
+  return { rate: delivered, problem: null, steps: [`Delivered: ${calculation} = ${formatQuantity(delivered)}`] };
+}
+
+/**
+ * Compares the programmed rate with the expected rate. A programmed rate that is 10, 100, 1000
+ * or 60 times too fast or too slow is reported as a likely programming error.
+ */
+function checkPumpRate(expectedRate: Quantity | null, programmedRate: Quantity | null): InfusionRateOutput['pump_check'] {
+  if (!expectedRate || !programmedRate) {
+    return {
+      status: 'not_checked',
+      difference_percent: null,
+      programming_error: null,
+      message: !programmedRate ? 'No programmed rate given' : 'No expected rate to check the programmed rate against'
+    };
+  }
+
+  const comparison = compareQuantities(expectedRate, programmedRate, {}, PUMP_RATE_TOLERANCE_PERCENT);
+  if (comparison.status !== 'different') {
+    return { ...comparison, programming_error: null };
+  }
+
+  // Measure against the nearer end of a titration range
+  const reference = programmedRate.value > (expectedRate.max ?? expectedRate.value) ? expectedRate.max ?? expectedRate.value : expectedRate.value;
+  const ratio = reference > 0 ? programmedRate.value / reference : Infinity;
+  const tooFast = ratio > 1;
+  const magnitude = tooFast ? ratio : 1 / ratio;
+  const match = PROGRAMMING_ERROR_FACTORS.find(({ factor }) =>
+    Math.abs(magnitude - factor) <= factor * PUMP_RATE_TOLERANCE_PERCENT / 100);
+
+  return {
+    ...comparison,
+    programming_error: match
+      ? { factor: match.factor, direction: tooFast ? 'too_fast' : 'too_slow', likely_cause: match.likely_cause }
+      : null
+  };
+}
+
+// Pumps are programmed to 0.1 mL/h; syringe pumps take two significant figures below 1 mL/h
+function roundPumpRate(rate: Quantity): Quantity {
+  const round = (value: number) => value < 1 ? Number(value.toPrecision(2)) : Math.round(value * 10) / 10;
+  return { value: round(rate.value), max: rate.max === null ? null : round(rate.max), unit: rate.unit };
+}
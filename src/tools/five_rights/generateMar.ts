@@ -0,0 +1,786 @@
+/**
+ * Generate MAR Tool
+ * Builds a timed medication administration record (MAR) for a patient's active orders over a window
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { McpResponse } from "../../types/mcp.js";
+import { getResponseFormatter } from "../../services/responseFormatter.js";
+import { validateToolInput } from "../../utils/validators.js";
+import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
+import { GenericError, ErrorType, ErrorSeverity } from "../../types/errors.js";
+import { resolveDrugName } from "../../services/drugNameNormalizer.js";
+import { KnowledgeBaseVersion } from "../../services/knowledgeFiles.js";
+import {
+  OVERNIGHT_FAST_HOURS,
+  SeparationCheck,
+  SeparationRequirement,
+  checkSeparation,
+  describeSeparation,
+  firstDoseLeadHours,
+  getAdministrationSeparations
+} from "../../services/administrationSeparations.js";
+import { MarOrder, MarSlot, getMarStore } from "../../services/marStore.js";
+import { DEFAULT_ANCHOR_TIMES, MealTiming, ParsedSig, TimeAnchor, dayOfWeekOf, parseSig } from "../../utils/sig.js";
+
+const clockTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use a 24-hour HH:MM time such as 09:00");
+
+// Define the Zod schema for MAR generation input
+export const GenerateMarSchema = z.object({
+  patient_id: z.string().optional().describe("Patient identifier, recorded in the audit trail and on the MAR"),
+  verifier_id: z.string().optional().describe("ID of person generating the MAR"),
+  window_start: z.string().describe("ISO8601 start of the MAR window with the facility's UTC offset, e.g. '2026-10-19T07:00:00-04:00'; scheduled times use the same offset"),
+  window_hours: z.number().positive().max(168).optional().describe("Length of the window in hours (default 24, at most 168)"),
+  orders: z.array(z.object({
+    order_id: z.string().min(1).describe("Order identifier, unique within the request"),
+    drug_name: z.string().min(1).describe("Ordered medication"),
+    dose: z.string().min(1).describe("Ordered dose, e.g. '100 mcg'"),
+    route: z.string().min(1).describe("Route, e.g. 'oral' or 'IV'; separations apply to oral doses"),
+    frequency: z.string().min(1).describe("Ordered frequency as written, e.g. 'daily before breakfast', 'BID', 'q8h', 'at 0600 and 1800', 'Mon/Wed/Fri' or 'q6h PRN pain'"),
+    meal_timing: z.enum(['before', 'with', 'after']).optional().describe("Meal timing, when not part of the frequency"),
+    time_critical: z.boolean().optional().describe("Whether the medication is time-critical: its doses keep their times and have a 30-minute window"),
+    start_datetime: z.string().optional().describe("ISO8601 time of the first dose, for orders starting within the window"),
+    stop_datetime: z.string().optional().describe("ISO8601 time the order stops"),
+    last_dose_datetime: z.string().optional().describe("ISO8601 time of the last dose given, so every-N-hours doses continue from it")
+  })).min(1).describe("Active medication orders"),
+  facility_times: z.object({
+    standard_times: z.object({
+      once_daily: z.array(clockTime).length(1).optional(),
+      twice_daily: z.array(clockTime).length(2).optional(),
+      three_times_daily: z.array(clockTime).length(3).optional(),
+      four_times_daily: z.array(clockTime).length(4).optional()
+    }).optional().describe("Facility standard administration times by doses per day (defaults 09:00; 09:00 and 21:00; 08:00, 14:00 and 20:00; 08:00, 12:00, 16:00 and 20:00)"),
+    interval_start: clockTime.optional().describe("First dose time of the day for every-N-hours orders (default 06:00, so q8h doses fall at 06:00, 14:00 and 22:00)"),
+    anchors: z.object({
+      morning: clockTime.optional(),
+      noon: clockTime.optional(),
+      evening: clockTime.optional(),
+      bedtime: clockTime.optional()
+    }).optional().describe("Clock times for named times such as 'at bedtime' (defaults 08:00, 12:00, 18:00 and 22:00)"),
+    meals: z.object({
+      breakfast: clockTime.optional(),
+      lunch: clockTime.optional(),
+      dinner: clockTime.optional()
+    }).optional().describe("Meal times (defaults 07:30, 12:00 and 17:30)"),
+    before_meal_minutes: z.number().int().min(0).max(120).optional().describe("Minutes before a meal that 'before meals' doses are given (default 30)"),
+    after_meal_minutes: z.number().int().min(0).max(120).optional().describe("Minutes after a meal that 'after meals' doses are given (default 30)")
+  }).optional().describe("Facility administration times; defaults are used for anything not given")
+});
+
+export type GenerateMarInput = z.infer<typeof GenerateMarSchema>;
+
+type MarOrderInput = GenerateMarInput['orders'][number];
+
+// MAR output
+export interface GenerateMarOutput {
+  mar_id: string; // Pass with a slot_id to verify_right_time to check a dose against its slot
+  patient_id: string | null;
+  window_start: string;
+  window_end: string;
+  facility_times: FacilityTimes;
+  orders: Array<MarOrder & { notes: string[] }>;
+  slots: MarSlot[]; // Every scheduled dose in the window, in time order
+  grid: {
+    columns: string[]; // Distinct scheduled times, in order
+    rows: Array<{
+      order_id: string;
+      drug_name: string;
+      dose: string;
+      route: string;
+      sig: string;
+      cells: Array<string | null>; // slot_id due at each column's time, or null
+    }>;
+  };
+  separations: Array<{
+    rule_id: string;
+    order_id: string;
+    other_order_id: string;
+    requirement: string;
+    reason: string;
+    references: string[];
+  }>;
+  separation_conflicts: Array<{
+    rule_id: string;
+    slot_id: string;
+    other_slot_id: string;
+    gap_hours: number;
+    message: string;
+  }>;
+  source: {
+    separations: KnowledgeBaseVersion;
+  };
+  warnings: string[];
+}
+
+interface FacilityTimes {
+  standard_times: Record<'once_daily' | 'twice_daily' | 'three_times_daily' | 'four_times_daily', string[]>;
+  interval_start: string;
+  anchors: Record<TimeAnchor, string>;
+  meals: { breakfast: string; lunch: string; dinner: string };
+  before_meal_minutes: number;
+  after_meal_minutes: number;
+  utc_offset: string;
+}
+
+interface PreparedOrder {
+  input: MarOrderInput;
+  resolved_name: string;
+  frequency: ParsedSig;
+  meal_timing: MealTiming | null;
+  time_critical: boolean;
+  notes: string[];
+}
+
+interface OrderSeparation {
+  requirement: SeparationRequirement;
+  order: PreparedOrder; // The order the separation times
+  other_order: PreparedOrder;
+}
+
+interface ScheduledDose {
+  order: PreparedOrder;
+  time: number; // Epoch milliseconds
+  standard_time: number;
+  adjustment: string | null;
+}
+
+const DEFAULT_WINDOW_HOURS = 24;
+
+const DEFAULT_STANDARD_TIMES: FacilityTimes['standard_times'] = {
+  once_daily: ['09:00'],
+  twice_daily: ['09:00', '21:00'],
+  three_times_daily: ['08:00', '14:00', '20:00'],
+  four_times_daily: ['08:00', '12:00', '16:00', '20:00'],
+};
+const STANDARD_TIME_KEYS: Record<number, keyof FacilityTimes['standard_times']> = {
+  1: 'once_daily', 2: 'twice_daily', 3: 'three_times_daily', 4: 'four_times_daily'
+};
+const DEFAULT_INTERVAL_START = '06:00';
+const DEFAULT_MEALS: FacilityTimes['meals'] = { breakfast: '07:30', lunch: '12:00', dinner: '17:30' };
+const DEFAULT_MEAL_OFFSET_MINUTES = 30;
+
+// Meals that meal-timed doses follow, by doses per day; a fourth dose is given at bedtime
+const MEALS_BY_DOSES_PER_DAY: Record<number, Array<keyof FacilityTimes['meals']>> = {
+  1: ['breakfast'], 2: ['breakfast', 'dinner'], 3: ['breakfast', 'lunch', 'dinner'], 4: ['breakfast', 'lunch', 'dinner']
+};
+
+// Administration windows either side of the scheduled time, following the ISMP guidelines for
+// timely administration of scheduled medications
+const TIME_CRITICAL_WINDOW_MINUTES = 30;
+const MORE_THAN_DAILY_WINDOW_MINUTES = 60;
+const DAILY_OR_LESS_WINDOW_MINUTES = 120;
+// Doses more often than every 4 hours get the time-critical window
+const FREQUENT_DOSE_INTERVAL_HOURS = 4;
+
+// Doses moved to meet a separation move later in steps, staying at least half the order's
+// interval from its other doses; doses that must come first in the day move earlier instead
+const SEPARATION_SHIFT_STEP_MINUTES = 30;
+const MAX_SEPARATION_SHIFT_HOURS = 6;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// ===== TOOL REGISTRATION =====
+
+export function registerGenerateMarTool(server: McpServer): void {
+  server.registerTool(
+    "generate_mar",
+    {
+      title: "Generate MAR",
+      description: `Builds a timed medication administration record (MAR) for a patient's active orders over a window such as the next 24 hours.
+
+**Purpose:** Schedule every dose at the right time, keeping apart drugs that must not be given together.
+
+**Input Parameters:**
+- patient_id: Patient identifier for the audit trail (optional)
+- verifier_id: Person generating the MAR (optional)
+- window_start: Start of the window, with the facility's UTC offset
+- window_hours: Length of the window (optional, default 24)
+- orders: Active orders with drug, dose, route, frequency and optional meal timing, start, stop and last dose
+- facility_times: Facility standard times, named times and meal times (optional)
+
+**Process:**
+1. Parse each order's frequency into a schedule
+2. Place doses at the frequency's clock or named times, at meal times for meal-timed orders, at the facility's standard times, or every N hours from the last dose or the facility's first dose time
+3. Set each dose's administration window: 30 minutes for time-critical or frequent doses, 1 hour for doses more than once daily, 2 hours otherwise
+4. Check oral doses against the administration separations (e.g. levothyroxine and calcium) and move doses at standard times later to meet them; bisphosphonates move earlier, before the first oral medication and breakfast
+5. Report separations that could not be met, and PRN, continuous or unrecognised orders that were not scheduled
+6. Store the MAR so verify_right_time can check a dose against its slot
+
+**Output:** Returns the MAR ID, the scheduled slots with their windows, a grid of orders by time, the separations applied and any conflicts, with warnings.`,
+      inputSchema: GenerateMarSchema.shape,
+    },
+    async (input: GenerateMarInput): Promise<McpResponse<GenerateMarOutput>> => {
+      const startTime = Date.now();
+      const responseFormatter = getResponseFormatter();
+
+      try {
+        // 1. Validate input
+        const { data: validatedInput } = validateToolInput(GenerateMarSchema, input, "generate_mar");
+
+        // 2. Schedule the orders and store the MAR
+        const marOutput = processMarGeneration(validatedInput);
+
+        // 3. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "generate_mar",
+          patient_id: validatedInput.patient_id ?? null,
+          actor: validatedInput.verifier_id ?? null,
+          input: validatedInput,
+          output: marOutput,
+          decision: `Generated MAR ${marOutput.mar_id} with ${marOutput.slots.length} doses for ${marOutput.orders.length} orders` +
+            (marOutput.separation_conflicts.length > 0 ? `; ${marOutput.separation_conflicts.length} separation conflicts` : '')
+        });
+
+        // 4. Format response
+        return responseFormatter.formatGenericToolResponse(marOutput, startTime);
+
+      } catch (error) {
+        const classifiedError = classifyError(error, `Error in generate_mar tool handler`);
+        getAuditLog().recordToolError("generate_mar", input, classifiedError);
+        return createComprehensiveErrorResponse(classifiedError, null, {
+          toolName: "generate_mar",
+          userInput: input
+        });
+      }
+    }
+  );
+}
+
+// ===== MAR PROCESSING =====
+
+function processMarGeneration(input: GenerateMarInput): GenerateMarOutput {
+  const clock = facilityClock(input.window_start);
+  // Without an offset, read the start in UTC like the rest of the schedule rather than in server time
+  const windowStart = parseDatetime(input.window_start, 'window_start', clock.assumed);
+  const windowEnd = windowStart + (input.window_hours ?? DEFAULT_WINDOW_HOURS) * HOUR_MS;
+  const facility = resolveFacilityTimes(input.facility_times, clock);
+  const warnings: string[] = [];
+  if (clock.assumed) {
+    warnings.push(`ALERT: window_start has no UTC offset - times are scheduled in UTC`);
+  }
+
+  const seenIds = new Set<string>();
+  const orders = input.orders.map(order => {
+    if (seenIds.has(order.order_id)) {
+      throw new GenericError(ErrorType.INVALID_INPUT, `Order ID '${order.order_id}' is used more than once`, {
+        severity: ErrorSeverity.MEDIUM,
+        suggestions: ['Give each order a unique order_id'],
+        details: { order_id: order.order_id }
+      });
+    }
+    seenIds.add(order.order_id);
+    return prepareOrder(order, warnings);
+  });
+
+  const separations = findSeparations(orders);
+  const doses = orders.flatMap(order => scheduleOrder(order, facility, clock, windowStart, windowEnd));
+  placeFirstDoses(doses, separations, facility, clock);
+  // Doses due at the same time are placed with the drugs that separations time first, so the
+  // drugs kept apart from them are the ones moved
+  const timedBy = (order: PreparedOrder) => separations.filter(separation => separation.order === order).length;
+  doses.sort((a, b) => a.time - b.time || timedBy(b.order) - timedBy(a.order) || orders.indexOf(a.order) - orders.indexOf(b.order));
+  separateDoses(doses, separations, clock);
+  doses.sort((a, b) => a.time - b.time || orders.indexOf(a.order) - orders.indexOf(b.order));
+
+  const marId = `mar_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const slots = buildSlots(doses, clock);
+  const marOrders = orders.map(order => ({
+    order_id: order.input.order_id,
+    drug_name: order.input.drug_name,
+    resolved_name: order.resolved_name,
+    dose: order.input.dose,
+    route: order.input.route,
+    frequency: order.frequency,
+    meal_timing: order.meal_timing,
+    time_critical: order.time_critical,
+    slot_ids: slots.filter(slot => slot.order_id === order.input.order_id).map(slot => slot.slot_id)
+  }));
+
+  const conflicts = findSeparationConflicts(doses, slots, separations, clock);
+  for (const conflict of conflicts) {
+    warnings.push(`CRITICAL: Separation not met - ${conflict.message}`);
+  }
+  for (const conflict of findBreakfastConflicts(doses, separations, facility, clock)) {
+    warnings.push(`CRITICAL: Separation not met - ${conflict}`);
+  }
+
+  getMarStore().saveMar({
+    mar_id: marId,
+    patient_id: input.patient_id ?? null,
+    window_start: clock.format(windowStart),
+    window_end: clock.format(windowEnd),
+    orders: marOrders,
+    slots,
+    generated_at: new Date().toISOString()
+  });
+
+  return {
+    mar_id: marId,
+    patient_id: input.patient_id ?? null,
+    window_start: clock.format(windowStart),
+    window_end: clock.format(windowEnd),
+    facility_times: facility,
+    orders: marOrders.map((order, index) => ({ ...order, notes: orders[index]?.notes ?? [] })),
+    slots,
+    grid: buildGrid(orders, slots),
+    separations: separations.map(({ requirement, order, other_order: otherOrder }) => ({
+      rule_id: requirement.rule_id,
+      order_id: order.input.order_id,
+      other_order_id: otherOrder.input.order_id,
+      requirement: describeSeparation(requirement),
+      reason: requirement.reason,
+      references: requirement.source.references
+    })),
+    separation_conflicts: conflicts,
+    source: { separations: getAdministrationSeparations().version },
+    warnings
+  };
+}
+
+function prepareOrder(order: MarOrderInput, warnings: string[]): PreparedOrder {
+  const resolved = resolveDrugName(order.drug_name);
+  const frequency = parseSig(order.frequency);
+  const notes: string[] = [];
+
+  if (resolved.match_type === 'unresolved') {
+    const suggestion = resolved.did_you_mean ? ` (did you mean ${resolved.did_you_mean}?)` : '';
+    warnings.push(`ALERT: '${order.drug_name}' is not in the drug dictionary${suggestion} - separations from other drugs were not checked`);
+  }
+  if (!frequency.recognised) {
+    warnings.push(`ALERT: ${order.drug_name} frequency '${order.frequency}' was not recognised - no doses scheduled`);
+  }
+  if (frequency.unparsed_text) {
+    notes.push(`Part of the frequency was not understood: '${frequency.unparsed_text}'`);
+  }
+  for (const field of ['start_datetime', 'stop_datetime', 'last_dose_datetime'] as const) {
+    const value = order[field];
+    if (value !== undefined) parseDatetime(value, `${order.order_id} ${field}`);
+  }
+
+  return {
+    input: order,
+    resolved_name: resolved.resolved_name,
+    frequency,
+    meal_timing: order.meal_timing ?? frequency.meal_timing,
+    time_critical: order.time_critical ?? false,
+    notes
+  };
+}
+
+// ===== SCHEDULING =====
+
+/**
+ * Dose times for an order within the window. PRN, continuous and unrecognised orders get none.
+ */
+function scheduleOrder(order: PreparedOrder, facility: FacilityTimes, clock: FacilityClock, windowStart: number, windowEnd: number): ScheduledDose[] {
+  const { frequency, input } = order;
+  const start = input.start_datetime !== undefined ? Date.parse(input.start_datetime) : null;
+  const stop = input.stop_datetime !== undefined ? Date.parse(input.stop_datetime) : null;
+  const lastDose = input.last_dose_datetime !== undefined ? Date.parse(input.last_dose_datetime) : null;
+  const from = Math.max(windowStart, start ?? windowStart);
+  const to = Math.min(windowEnd, stop ?? windowEnd);
+  let times: number[] = [];
+
+  if (frequency.prn) {
+    order.notes.push(`Given as needed (${frequency.sig}) - not scheduled; check each dose with verify_right_time`);
+  } else if (frequency.pattern === 'continuous') {
+    order.notes.push('Continuous infusion - not scheduled as doses; check the pump rate with calculate_infusion_rate');
+  } else if (frequency.pattern === 'once') {
+    times = [start ?? windowStart];
+    if (start === null) order.notes.push('Single dose with no start time - scheduled at the start of the window');
+  } else if (frequency.pattern === 'interval' && frequency.interval_hours !== null) {
+    times = intervalTimes(order, frequency.interval_hours, facility, clock, { from, to, start, lastDose });
+  } else if (frequency.pattern === 'times_daily' || frequency.pattern === 'days_of_week') {
+    const dailyTimes = standardTimes(frequency, order.meal_timing, facility);
+    for (let day = clock.localDay(from) - 1; day <= clock.localDay(to); day++) {
+      const weekday = dayOfWeekOf(clock.formatDate(day));
+      if (frequency.days_of_week.length > 0 && (weekday === null || !frequency.days_of_week.includes(weekday))) continue;
+      times.push(...dailyTimes.map(time => clock.at(day, time)));
+    }
+  }
+
+  return times
+    .filter(time => time >= from && time < to)
+    .map(time => ({ order, time, standard_time: time, adjustment: null }));
+}
+
+/**
+ * Every-N-hours doses: from the last dose when given, else from the start time, else on the
+ * facility grid starting at interval_start (or at the standard daily time for intervals over a day).
+ */
+function intervalTimes(
+  order: PreparedOrder,
+  intervalHours: number,
+  facility: FacilityTimes,
+  clock: FacilityClock,
+  bounds: { from: number; to: number; start: number | null; lastDose: number | null }
+): number[] {
+  const step = intervalHours * HOUR_MS;
+  let first: number;
+  if (bounds.lastDose !== null) {
+    first = bounds.lastDose + step;
+  } else if (bounds.start !== null) {
+    first = bounds.start;
+  } else if (intervalHours <= 24) {
+    const gridStart = clock.at(clock.localDay(bounds.from), facility.interval_start);
+    first = gridStart + Math.ceil((bounds.from - gridStart) / step) * step;
+  } else {
+    const day = clock.localDay(bounds.from);
+    const standardTime = facility.standard_times.once_daily[0] ?? DEFAULT_INTERVAL_START;
+    first = clock.at(day, standardTime) >= bounds.from ? clock.at(day, standardTime) : clock.at(day + 1, standardTime);
+    order.notes.push(`No last dose or start time given - first dose placed at ${clock.describe(first)}; confirm when the last dose was given`);
+  }
+
+  // Doses overdue at the start of the window are given at its start
+  if (first < bounds.from && bounds.lastDose !== null) {
+    order.notes.push(`Dose due at ${clock.describe(first)} before the window - scheduled at the start of the window`);
+    first = bounds.from;
+  }
+
+  const times: number[] = [];
+  for (let time = first; time < bounds.to; time += step) times.push(time);
+  return times;
+}
+
+/**
+ * Daily clock times for a times-daily order: the frequency's own clock or named times, else meal
+ * times for meal-timed orders, else the facility standard times for the number of doses.
+ */
+function standardTimes(frequency: ParsedSig, mealTiming: MealTiming | null, facility: FacilityTimes): string[] {
+  const listed = [...frequency.times, ...frequency.anchors.map(anchor => facility.anchors[anchor])];
+  if (listed.length > 0) return [...new Set(listed)].sort();
+
+  const dosesPerDay = frequency.doses_per_day ?? 1;
+  const meals = MEALS_BY_DOSES_PER_DAY[dosesPerDay];
+  if (mealTiming && meals) {
+    const offset = mealTiming === 'before' ? -facility.before_meal_minutes
+      : mealTiming === 'after' ? facility.after_meal_minutes
+      : 0;
+    const times = meals.map(meal => addMinutes(facility.meals[meal], offset));
+    return dosesPerDay === 4 ? [...times, facility.anchors.bedtime] : times;
+  }
+
+  const key = STANDARD_TIME_KEYS[dosesPerDay];
+  if (key) return facility.standard_times[key];
+
+  // More than four doses a day are spread evenly from the first dose time
+  const spacing = Math.round(24 * 60 / dosesPerDay);
+  return Array.from({ length: dosesPerDay }, (_, index) => addMinutes(facility.interval_start, index * spacing)).sort();
+}
+
+// ===== SEPARATIONS =====
+
+/**
+ * Separations between each pair of orders, with the order each separation times.
+ */
+function findSeparations(orders: PreparedOrder[]): OrderSeparation[] {
+  const separations = getAdministrationSeparations();
+  const found: OrderSeparation[] = [];
+  orders.forEach((first, i) => {
+    for (const second of orders.slice(i + 1)) {
+      const between = separations.between(
+        { drug_name: first.input.drug_name, resolved_name: first.resolved_name, route: first.input.route },
+        { drug_name: second.input.drug_name, resolved_name: second.resolved_name, route: second.input.route }
+      );
+      for (const requirement of between) {
+        const timesFirst = requirement.drug_name === first.input.drug_name && requirement.other_drug_name === second.input.drug_name;
+        found.push({ requirement, order: timesFirst ? first : second, other_order: timesFirst ? second : first });
+      }
+    }
+  });
+  return found;
+}
+
+/**
+ * Moves doses of drugs that may not follow the drugs they are kept apart from, such as
+ * bisphosphonates, earlier so they come before that morning's doses of those drugs, and before
+ * breakfast when the separation asks for it. Only doses at standard or meal times move.
+ */
+function placeFirstDoses(doses: ScheduledDose[], separations: OrderSeparation[], facility: FacilityTimes, clock: FacilityClock): void {
+  for (const dose of doses) {
+    const firstOf = separations.filter(separation => separation.order === dose.order && firstDoseLeadHours(separation.requirement) !== null);
+    if (firstOf.length === 0 || !isMovable(dose)) continue;
+
+    let time = dose.time;
+    let moved: string | null = null;
+    // Moving earlier can bring the previous evening's doses within the overnight fast, so repeat
+    for (let changed = true; changed && time >= dose.time - MAX_SEPARATION_SHIFT_HOURS * HOUR_MS;) {
+      changed = false;
+      for (const { requirement, other_order: otherOrder } of firstOf) {
+        const lead = (firstDoseLeadHours(requirement) ?? 0) * HOUR_MS;
+        const following = doses
+          .filter(other => other.order === otherOrder)
+          .map(other => ({ time: other.time, name: requirement.other_drug_name }));
+        if (requirement.before_first_meal) {
+          following.push({ time: clock.at(clock.localDay(time), facility.meals.breakfast), name: 'breakfast' });
+        }
+        for (const other of following) {
+          if (other.time > time - OVERNIGHT_FAST_HOURS * HOUR_MS && other.time < time + lead) {
+            time = other.time - lead;
+            moved = describeSeparation(requirement, other.name);
+            changed = true;
+          }
+        }
+      }
+    }
+
+    if (moved !== null && time >= dose.time - MAX_SEPARATION_SHIFT_HOURS * HOUR_MS) {
+      dose.adjustment = `Moved from ${clock.clockTime(dose.standard_time)}: ${moved}`;
+      dose.time = time;
+    }
+  }
+}
+
+/**
+ * Moves doses later until they meet their separations from the doses already placed. Only doses
+ * at standard or meal times move; clock times in the order and time-critical doses stay put, and
+ * doses that must come first in the day only move earlier.
+ */
+function separateDoses(doses: ScheduledDose[], separations: OrderSeparation[], clock: FacilityClock): void {
+  const placed: ScheduledDose[] = [];
+
+  for (const dose of [...doses]) {
+    const violations = placed.flatMap(other => violatedChecks(dose, dose.time, other, separations));
+    const comesFirst = separations.some(separation => separation.order === dose.order && firstDoseLeadHours(separation.requirement) !== null);
+    if (violations.length > 0 && isMovable(dose) && !comesFirst) {
+      const newTime = findSeparatedTime(dose, doses, placed, separations);
+      if (newTime !== null) {
+        dose.time = newTime;
+        dose.adjustment = `Moved from ${clock.clockTime(dose.standard_time)}: ${[...new Set(violations.map(check => describeSeparation(check.requirement)))].join('; ')}`;
+      }
+    }
+    placed.push(dose);
+  }
+}
+
+/**
+ * The earliest later time that meets the separations from the doses already placed and the doses
+ * that cannot move; doses still to be placed that can move make way in their turn.
+ */
+function findSeparatedTime(dose: ScheduledDose, doses: ScheduledDose[], placed: ScheduledDose[], separations: OrderSeparation[]): number | null {
+  const sameOrder = doses.filter(other => other !== dose && other.order === dose.order);
+  const fixed = doses.filter(other => placed.includes(other) || !isMovable(other));
+  const minimumGap = (dose.order.frequency.interval_hours ?? 24) / 2 * HOUR_MS;
+  const maxSteps = MAX_SEPARATION_SHIFT_HOURS * 60 / SEPARATION_SHIFT_STEP_MINUTES;
+
+  for (let step = 1; step <= maxSteps; step++) {
+    const candidate = dose.time + step * SEPARATION_SHIFT_STEP_MINUTES * MINUTE_MS;
+    if (sameOrder.some(other => Math.abs(other.time - candidate) < minimumGap)) continue;
+    if (fixed.every(other => violatedChecks(dose, candidate, other, separations).length === 0)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Separation checks that fail between a dose, if given at the time, and another dose.
+ */
+function violatedChecks(dose: ScheduledDose, time: number, other: ScheduledDose, separations: OrderSeparation[]): SeparationCheck[] {
+  const checks: SeparationCheck[] = [];
+  for (const { requirement, order, other_order: otherOrder } of separations) {
+    if (order === dose.order && otherOrder === other.order) {
+      checks.push(checkSeparation(requirement, new Date(time), new Date(other.time)));
+    } else if (order === other.order && otherOrder === dose.order) {
+      checks.push(checkSeparation(requirement, new Date(other.time), new Date(time)));
+    }
+  }
+  return checks.filter(check => !check.satisfied);
+}
+
+function isMovable(dose: ScheduledDose): boolean {
+  const { frequency, time_critical: timeCritical } = dose.order;
+  return !timeCritical && frequency.times.length === 0 &&
+    (frequency.pattern === 'times_daily' || frequency.pattern === 'days_of_week');
+}
+
+/**
+ * Every separation still unmet once doses have been moved.
+ */
+function findSeparationConflicts(
+  doses: ScheduledDose[],
+  slots: MarSlot[],
+  separations: OrderSeparation[],
+  clock: FacilityClock
+): GenerateMarOutput['separation_conflicts'] {
+  const conflicts: GenerateMarOutput['separation_conflicts'] = [];
+  doses.forEach((dose, i) => {
+    for (const other of doses.slice(i + 1)) {
+      for (const check of violatedChecks(dose, dose.time, other, separations)) {
+        const drugDose = check.requirement.drug_name === dose.order.input.drug_name ? dose : other;
+        const otherDose = drugDose === dose ? other : dose;
+        conflicts.push({
+          rule_id: check.requirement.rule_id,
+          slot_id: slots[doses.indexOf(drugDose)]?.slot_id ?? '',
+          other_slot_id: slots[doses.indexOf(otherDose)]?.slot_id ?? '',
+          gap_hours: check.gap_hours,
+          message: `${check.requirement.drug_name} at ${clock.describe(drugDose.time)} and ${check.requirement.other_drug_name} at ${clock.describe(otherDose.time)}: ${check.message}`
+        });
+      }
+    }
+  });
+  return conflicts;
+}
+
+/**
+ * Doses given within their separation of breakfast, for drugs that must come before the first meal.
+ */
+function findBreakfastConflicts(doses: ScheduledDose[], separations: OrderSeparation[], facility: FacilityTimes, clock: FacilityClock): string[] {
+  const conflicts: string[] = [];
+  for (const dose of doses) {
+    const requirement = separations.find(separation => separation.order === dose.order && separation.requirement.before_first_meal)?.requirement;
+    const lead = requirement ? firstDoseLeadHours(requirement) : null;
+    if (!requirement || lead === null) continue;
+
+    const breakfast = clock.at(clock.localDay(dose.time), facility.meals.breakfast);
+    if (breakfast > dose.time - OVERNIGHT_FAST_HOURS * HOUR_MS && breakfast < dose.time + lead * HOUR_MS) {
+      conflicts.push(`${requirement.drug_name} at ${clock.describe(dose.time)} and breakfast at ${clock.describe(breakfast)}: ${describeSeparation(requirement, 'breakfast')}. ${requirement.reason}`);
+    }
+  }
+  return conflicts;
+}
+
+// ===== MAR ASSEMBLY =====
+
+function buildSlots(doses: ScheduledDose[], clock: FacilityClock): MarSlot[] {
+  const counts = new Map<string, number>();
+  return doses.map(dose => {
+    const { input } = dose.order;
+    const count = (counts.get(input.order_id) ?? 0) + 1;
+    counts.set(input.order_id, count);
+    const windowMinutes = administrationWindowMinutes(dose.order);
+    return {
+      slot_id: `${input.order_id}-${count}`,
+      order_id: input.order_id,
+      drug_name: input.drug_name,
+      resolved_name: dose.order.resolved_name,
+      dose: input.dose,
+      route: input.route,
+      scheduled_time: clock.format(dose.time),
+      earliest: clock.format(dose.time - windowMinutes * MINUTE_MS),
+      latest: clock.format(dose.time + windowMinutes * MINUTE_MS),
+      standard_time: clock.clockTime(dose.standard_time),
+      meal_timing: dose.order.meal_timing,
+      adjustment: dose.adjustment
+    };
+  });
+}
+
+/**
+ * Minutes either side of the scheduled time the dose may be given.
+ */
+function administrationWindowMinutes(order: PreparedOrder): number {
+  const { frequency } = order;
+  if (order.time_critical || (frequency.interval_hours !== null && frequency.interval_hours < FREQUENT_DOSE_INTERVAL_HOURS)) {
+    return TIME_CRITICAL_WINDOW_MINUTES;
+  }
+  return frequency.doses_per_day !== null && frequency.doses_per_day > 1
+    ? MORE_THAN_DAILY_WINDOW_MINUTES
+    : DAILY_OR_LESS_WINDOW_MINUTES;
+}
+
+function buildGrid(orders: PreparedOrder[], slots: MarSlot[]): GenerateMarOutput['grid'] {
+  const columns = [...new Set(slots.map(slot => slot.scheduled_time))];
+  return {
+    columns,
+    rows: orders.map(order => ({
+      order_id: order.input.order_id,
+      drug_name: order.input.drug_name,
+      dose: order.input.dose,
+      route: order.input.route,
+      sig: order.frequency.sig,
+      cells: columns.map(column => slots.find(slot => slot.order_id === order.input.order_id && slot.scheduled_time === column)?.slot_id ?? null)
+    }))
+  };
+}
+
+// ===== FACILITY TIMES =====
+
+function resolveFacilityTimes(times: GenerateMarInput['facility_times'], clock: FacilityClock): FacilityTimes {
+  return {
+    standard_times: withDefaults(DEFAULT_STANDARD_TIMES, times?.standard_times),
+    interval_start: times?.interval_start ?? DEFAULT_INTERVAL_START,
+    anchors: withDefaults(DEFAULT_ANCHOR_TIMES, times?.anchors),
+    meals: withDefaults(DEFAULT_MEALS, times?.meals),
+    before_meal_minutes: times?.before_meal_minutes ?? DEFAULT_MEAL_OFFSET_MINUTES,
+    after_meal_minutes: times?.after_meal_minutes ?? DEFAULT_MEAL_OFFSET_MINUTES,
+    utc_offset: clock.offset
+  };
+}
+
+function withDefaults<T extends Record<string, unknown>>(defaults: T, given: { [K in keyof T]?: T[K] | undefined } | undefined): T {
+  const merged = { ...defaults };
+  for (const key of Object.keys(defaults) as Array<keyof T>) {
+    merged[key] = given?.[key] ?? defaults[key];
+  }
+  return merged;
+}
+
+// ===== FACILITY CLOCK =====
+
+interface FacilityClock {
+  offset: string; // As written in window_start, e.g. "-04:00" or "Z"
+  assumed: boolean; // True when window_start had no offset and UTC was used
+  localDay(time: number): number; // Days since the epoch on the facility's calendar
+  at(day: number, time: string): number; // A clock time such as "08:00" on a local day
+  format(time: number): string;
+  formatDate(day: number): string;
+  clockTime(time: number): string;
+  describe(time: number): string;
+}
+
+/**
+ * Local facility time at the UTC offset of window_start. Daylight saving changes within the
+ * window are not applied.
+ */
+function facilityClock(windowStart: string): FacilityClock {
+  const match = /(Z|[+-]\d{2}:?\d{2})$/i.exec(windowStart.trim());
+  const offset = match?.[1]?.toUpperCase() ?? 'Z';
+  const sign = offset.startsWith('-') ? -1 : 1;
+  const digits = offset === 'Z' ? '0000' : offset.slice(1).replace(':', '');
+  const offsetMs = sign * (Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2))) * MINUTE_MS;
+  const local = (time: number) => new Date(time + offsetMs);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const formatDate = (day: number) => new Date(day * DAY_MS).toISOString().slice(0, 10);
+  const timeOfDay = (time: number) => local(time).toISOString().slice(11, 16);
+
+  return {
+    offset,
+    assumed: !match,
+    localDay: time => Math.floor((time + offsetMs) / DAY_MS),
+    at: (day, time) => {
+      const [hour = 0, minute = 0] = time.split(':').map(Number);
+      return day * DAY_MS + (hour * 60 + minute) * MINUTE_MS - offsetMs;
+    },
+    format: time => {
+      const date = local(time);
+      const suffix = offset === 'Z' ? 'Z' : `${offset.slice(0, 3)}:${pad(Number(digits.slice(2)))}`;
+      return `${date.toISOString().slice(0, 19)}${suffix}`;
+    },
+    formatDate,
+    clockTime: timeOfDay,
+    describe: time => `${formatDate(Math.floor((time + offsetMs) / DAY_MS))} ${timeOfDay(time)}`
+  };
+}
+
+function addMinutes(time: string, minutes: number): string {
+  const [hour = 0, minute = 0] = time.split(':').map(Number);
+  const total = ((hour * 60 + minute + minutes) % (24 * 60) + 24 * 60) % (24 * 60);
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+}
+
+function parseDatetime(value: string, field: string, asUtc = false): number {
+  const time = Date.parse(asUtc && value.includes('T') ? `${value.trim()}Z` : value);
+  if (isNaN(time)) {
+    throw new GenericError(ErrorType.INVALID_INPUT, `${field} '${value}' is not a valid ISO8601 datetime`, {
+      severity: ErrorSeverity.MEDIUM,
+      suggestions: ['Use an ISO8601 datetime with a UTC offset such as 2026-10-19T07:00:00-04:00'],
+      details: { [field]: value }
+    });
+  }
+  return time;
+}
@@ -9,6 +9,7 @@ import { McpResponse, McpSuccessResponse } from "../../types/mcp.js";
 import { getResponseFormatter } from "../../services/responseFormatter.js";
 import { validateToolInput } from "../../utils/validators.js";
 import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
 
 // Define the Zod schema for documentation verification input
 export const VerifyRightDocumentationSchema = z.object({
@@ -101,11 +102,24 @@ export function registerVerifyRightDocumentationTool(server: McpServer): void {
         // 2. Process documentation verification
         const documentationOutput = processDocumentationVerification(validatedInput);
 
-        // 3. Format response
+        // 3. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "verify_right_documentation",
+          patient_id: validatedInput.administration_details.patient_id,
+          actor: validatedInput.administration_details.administrator_id,
+          input: validatedInput,
+          output: documentationOutput,
+          decision: documentationOutput.documentation_record.documentation_complete
+            ? `Administration of ${validatedInput.administration_details.medication} documented`
+            : `Documentation incomplete; missing ${documentationOutput.documentation_record.missing_elements.join(', ')}`
+        });
+
+        // 4. Format response
         return responseFormatter.formatGenericToolResponse(documentationOutput, startTime);
 
       } catch (error) {
         const classifiedError = classifyError(error, `Error in verify_right_documentation tool handler`);
+        getAuditLog().recordToolError("verify_right_documentation", input, classifiedError);
         return createComprehensiveErrorResponse(classifiedError, null, { 
           toolName: "verify_right_documentation", 
           userInput: input 
@@ -9,26 +9,62 @@ import { McpResponse, McpSuccessResponse } from "../../types/mcp.js";
 import { getResponseFormatter } from "../../services/responseFormatter.js";
 import { validateToolInput } from "../../utils/validators.js";
 import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
+import { resolveDrugName } from "../../services/drugNameNormalizer.js";
+import { getRenalDosingTables, RenalDoseRecommendation } from "../../services/renalDosing.js";
+import { getHepaticDosingTables, HepaticDoseRecommendation } from "../../services/hepaticDosing.js";
+import { HepaticAssessment, LiverFunctionSchema, assessHepaticFunction, childPughClassFor } from "../../services/hepaticFunction.js";
+import { BsaFormula, DosingWeight, calculateBsa, selectDosingWeight } from "../../services/bodySize.js";
+import {
+  Dimension,
+  Quantity,
+  QuantityComparison,
+  cancelDenominator,
+  compareQuantities,
+  convertQuantity,
+  describeUnitMismatch,
+  formatQuantity,
+  parseQuantity,
+  parseUnit,
+  quantityOf,
+  sameDimension,
+  scaleQuantity
+} from "../../utils/quantities.js";
 
 // Define the Zod schema for dose verification input
 export const VerifyRightDoseSchema = z.object({
+  patient_id: z.string().optional().describe("Patient identifier, recorded in the audit trail"),
+  verifier_id: z.string().optional().describe("ID of person performing verification"),
   order_details: z.object({
-    ordered_dose: z.string().describe("Ordered dose with units"),
+    drug_name: z.string().optional().describe("Ordered medication, used for drug-specific renal dosing"),
+    ordered_dose: z.string().describe("Ordered dose with units, e.g. '500 mg', '0.5 g', '1-2 tablets', '15 mg/kg', '75 mg/m2' or '30 mg/kg/day'"),
     patient_weight_kg: z.number().optional().describe("Patient weight in kg (if weight-based)"),
-    bsa_m2: z.number().optional().describe("Body surface area in m² (if BSA-based)"),
+    height_cm: z.number().positive().optional().describe("Patient height in cm, for BSA and ideal body weight"),
+    sex: z.enum(['male', 'female']).optional().describe("Patient sex, for ideal body weight"),
+    dosing_weight: z.enum(['actual', 'ideal', 'adjusted']).optional().describe("Weight to dose by (default actual); for adults above 120% of ideal body weight the adjusted body weight is reported as an alternative"),
+    bsa_m2: z.number().optional().describe("Body surface area in m² (if BSA-based); calculated from height and weight when omitted"),
+    bsa_formula: z.enum(['mosteller', 'dubois']).optional().describe("Formula for a calculated BSA; defaults to Mosteller"),
+    doses_per_day: z.number().int().positive().optional().describe("Number of doses a daily dose such as '30 mg/kg/day' is divided into"),
+    max_dose: z.string().optional().describe("Maximum single dose, e.g. '1 g'; a calculated dose above it is capped"),
+    max_daily_dose: z.string().optional().describe("Maximum daily dose, e.g. '4 g'"),
     dose_calculation_formula: z.string().optional().describe("Dose calculation formula used")
   }),
   prepared_dose: z.object({
     amount: z.number().describe("Amount of medication prepared"),
     units: z.string().describe("Units of measurement"),
     volume: z.number().optional().describe("Volume in mL (if liquid)"),
-    concentration: z.string().optional().describe("Concentration if applicable"),
+    concentration: z.string().optional().describe("Concentration if applicable, e.g. '50 mg/mL' or '250 mg/5 mL'; converts a prepared volume to the ordered amount"),
     number_of_units: z.number().optional().describe("Number of units (tablets, vials, etc.)")
   }),
   patient_factors: z.object({
     age: z.number().describe("Patient age in years"),
     renal_function: z.enum(['normal', 'impaired']).describe("Renal function status"),
+    creatinine_clearance_ml_min: z.number().min(0).optional().describe("Creatinine clearance (Cockcroft-Gault) in mL/min"),
+    egfr_ml_min_1_73m2: z.number().min(0).optional().describe("eGFR in mL/min/1.73m²"),
+    dialysis: z.enum(['none', 'hemodialysis', 'peritoneal_dialysis', 'crrt']).optional().describe("Dialysis modality, if any"),
     hepatic_function: z.enum(['normal', 'impaired']).describe("Hepatic function status"),
+    child_pugh_class: z.enum(['A', 'B', 'C']).optional().describe("Child-Pugh class, if known"),
+    liver_function: LiverFunctionSchema.optional().describe("Liver function tests; the Child-Pugh class is calculated from them when complete"),
     dose_adjustment_required: z.boolean().describe("Whether dose adjustment is required")
   }),
   verification_datetime: z.string().describe("ISO8601 datetime of verification")
@@ -43,10 +79,33 @@ export interface DoseVerificationOutput {
     calculation_correct: boolean;
     within_normal_range: boolean;
     measurement_appropriate: boolean;
+    dose_calculation: {
+      basis: 'fixed' | 'weight' | 'bsa';
+      dosing_weight: DosingWeight | null; // For weight-based orders
+      bsa_m2: number | null; // For BSA-based orders
+      bsa_source: 'given' | BsaFormula | null;
+      doses_per_day: number | null; // For daily doses divided into single doses
+      expected_dose: string | null; // Single dose to prepare, after any cap at the maximum dose
+      capped_at_max_dose: boolean;
+      steps: string[];
+    };
+    dose_comparison: {
+      ordered_dose: string | null; // As parsed, or null when no quantity and unit were recognised
+      expected_dose: string | null; // Recalculated for weight-based and BSA-based orders
+      prepared_dose: string | null; // As prepared, converted from volume with the concentration when needed
+      status: QuantityComparison['status'] | 'unrecognised' | 'not_calculated';
+      difference_percent: number | null;
+      message: string;
+    };
     adjustment_for_organ_function: {
       required: boolean;
       applied: boolean;
       new_dose: string;
+      new_interval: string;
+      dose_check: { status: 'met' | 'not_met' | 'not_checked'; message: string } | null; // Prepared dose against the tables' adjusted doses
+      renal_dosing: RenalDoseRecommendation | null; // From the drug's renal dosing table, with its source
+      hepatic_dosing: HepaticDoseRecommendation | null; // From the drug's hepatic dosing table for the Child-Pugh class
+      hepatic_assessment: HepaticAssessment | null; // Child-Pugh and MELD scores, when liver function tests are given
     };
     high_alert_independent_calculation: {
       required: boolean;
@@ -75,16 +134,18 @@ export function registerVerifyRightDoseTool(server: McpServer): void {
 **Purpose:** Ensure correct dose is calculated and prepared before administration.
 
 **Input Parameters:**
-- order_details: Ordered dose and calculation parameters
+- patient_id: Patient identifier for the audit trail (optional)
+- verifier_id: Person performing verification (optional)
+- order_details: Ordered drug, dose and calculation parameters
 - prepared_dose: Actual dose prepared
-- patient_factors: Patient demographics and organ function
+- patient_factors: Patient demographics and organ function, including creatinine clearance, eGFR, dialysis modality, Child-Pugh class and liver function tests (optional)
 - verification_datetime: When verification was performed
 
 **Process:**
-1. Verify dose calculation (especially weight/BSA-based)
-2. Check dose against normal ranges
+1. Verify dose calculation: recalculate weight-based (per kg, by actual, ideal or adjusted body weight), BSA-based (per m², Mosteller or DuBois) and divided daily doses, cap at the maximum dose, and compare with the prepared dose, converting between units of the same dimension (e.g. 0.5 g and 500 mg) and from a prepared volume with its concentration; unit mismatches are reported with what is needed to compare the doses
+2. Check dose against the order's maximum single and daily doses, or simplified normal ranges for fixed doses
 3. Verify measurement accuracy
-4. Check for organ dysfunction adjustments
+4. Check for organ dysfunction adjustments, using the drug's renal dosing table by CrCl/eGFR band or dialysis modality and its hepatic dosing table by Child-Pugh class (calculated from liver function tests when given), and check the prepared dose is at or below the tables' adjusted dose
 5. For high-alert: independent double-check of calculation
 
 **Output:** Returns dose verification result with safety checks and warnings.`,
@@ -101,11 +162,24 @@ export function registerVerifyRightDoseTool(server: McpServer): void {
         // 2. Process dose verification
         const verificationOutput = processDoseVerification(validatedInput);
 
-        // 3. Format response
+        // 3. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "verify_right_dose",
+          patient_id: validatedInput.patient_id ?? null,
+          actor: validatedInput.verifier_id ?? null,
+          input: validatedInput,
+          output: verificationOutput,
+          decision: verificationOutput.verification_result.can_proceed
+            ? `Dose ${validatedInput.order_details.ordered_dose} confirmed`
+            : `Dose ${validatedInput.order_details.ordered_dose} not confirmed; administration halted`
+        });
+
+        // 4. Format response
         return responseFormatter.formatGenericToolResponse(verificationOutput, startTime);
 
       } catch (error) {
         const classifiedError = classifyError(error, `Error in verify_right_dose tool handler`);
+        getAuditLog().recordToolError("verify_right_dose", input, classifiedError);
         return createComprehensiveErrorResponse(classifiedError, null, { 
           toolName: "verify_right_dose", 
           userInput: input 
@@ -118,34 +192,46 @@ export function registerVerifyRightDoseTool(server: McpServer): void {
 // ===== DOSE VERIFICATION PROCESSING =====
 
 function processDoseVerification(input: VerifyRightDoseInput): DoseVerificationOutput {
-  // Parse ordered dose
-  const orderedDose = parseDose(input.order_details.ordered_dose);
+  // Parse the ordered dose and recalculate weight-based and BSA-based doses
+  const orderedDose = parseQuantity(input.order_details.ordered_dose);
+  const { calculation: doseCalculation, expectedDose, problem: calculationProblem } = calculateExpectedDose(input, orderedDose);
+  const preparedDose = parsePreparedDose(input, expectedDose ?? orderedDose);
   
   // Check calculation correctness
-  const calculationCorrect = verifyDoseCalculation(input, orderedDose);
+  const doseComparison = compareDoses(input, orderedDose, expectedDose, preparedDose, doseCalculation, calculationProblem);
+  const calculationCorrect = doseComparison.status === 'equal' || doseComparison.status === 'within_range';
   
   // Check if dose is within normal range
-  const withinNormalRange = checkDoseRange(input, orderedDose);
+  const exceededLimits = checkDoseLimits(input, preparedDose ?? expectedDose);
+  const withinNormalRange = checkDoseRange(input, expectedDose, doseCalculation, exceededLimits);
   
   // Check measurement appropriateness
   const measurementAppropriate = checkMeasurementAppropriateness(input);
   
   // Check organ function adjustments
-  const organFunctionAdjustment = checkOrganFunctionAdjustment(input);
+  const renalDosing = lookUpRenalDosing(input);
+  const hepaticAssessment = input.patient_factors.liver_function ? assessHepaticFunction(input.patient_factors.liver_function) : null;
+  const hepaticDosing = lookUpHepaticDosing(input, hepaticAssessment);
+  const organFunctionAdjustment = checkOrganFunctionAdjustment(input, preparedDose, doseCalculation.dosing_weight, renalDosing, hepaticDosing, hepaticAssessment);
   
   // Check high-alert requirements
-  const highAlertCheck = checkHighAlertRequirements(input);
+  const highAlertCheck = checkHighAlertRequirements(input, preparedDose);
   
   // Perform dose range check
-  const doseRangeCheck = performDoseRangeCheck(input, orderedDose);
+  const doseRangeCheck = performDoseRangeCheck(input, expectedDose, doseCalculation, withinNormalRange);
   
   // Generate warnings
-  const warnings = generateDoseWarnings(input, calculationCorrect, withinNormalRange, measurementAppropriate);
+  const warnings = generateDoseWarnings(
+    input, doseComparison, doseCalculation, exceededLimits, preparedDose, withinNormalRange, measurementAppropriate, renalDosing, hepaticDosing, organFunctionAdjustment
+  );
   
   // Determine if can proceed
   const canProceed = calculationCorrect && 
                     withinNormalRange && 
                     measurementAppropriate && 
+                    renalDosing?.action !== 'avoid' &&
+                    hepaticDosing?.action !== 'avoid' &&
+                    organFunctionAdjustment.dose_check?.status !== 'not_met' &&
                     (!highAlertCheck.required || highAlertCheck.completed);
   
   return {
@@ -154,6 +240,8 @@ function processDoseVerification(input: VerifyRightDoseInput): DoseVerificationO
       calculation_correct: calculationCorrect,
       within_normal_range: withinNormalRange,
       measurement_appropriate: measurementAppropriate,
+      dose_calculation: doseCalculation,
+      dose_comparison: doseComparison,
       adjustment_for_organ_function: organFunctionAdjustment,
       high_alert_independent_calculation: highAlertCheck,
       dose_range_check: doseRangeCheck,
@@ -163,49 +251,250 @@ function processDoseVerification(input: VerifyRightDoseInput): DoseVerificationO
   };
 }
 
-function parseDose(doseString: string): { amount: number; units: string } {
-  // Simple dose parsing - in practice, would be more sophisticated
-  const match = doseString.match(/(\d+(?:\.\d+)?)\s*(\w+)/);
-  if (match && match[1] && match[2]) {
+type DoseCalculation = DoseVerificationOutput['verification_result']['dose_calculation'];
+
+const MINUTES_PER_DAY = 1440;
+
+const BSA_SOURCE_LABELS: Record<'given' | BsaFormula, string> = {
+  given: 'given',
+  mosteller: 'Mosteller formula',
+  dubois: 'DuBois formula'
+};
+
+// Calculated doses may be rounded to a measurable amount, as most pediatric and oncology policies allow
+const CALCULATED_DOSE_TOLERANCE_PERCENT = 5;
+
+/**
+ * Recalculates the single dose to prepare: a per-kg dose times the dosing weight, a per-m² dose
+ * times the BSA, a daily dose divided by the doses per day, capped at the maximum dose. A fixed
+ * dose is its own expected dose. The problem says what is missing when it cannot be calculated.
+ */
+function calculateExpectedDose(
+  input: VerifyRightDoseInput,
+  orderedDose: Quantity | null
+): { calculation: DoseCalculation; expectedDose: Quantity | null; problem: string | null } {
+  const order = input.order_details;
+  const calculation: DoseCalculation = {
+    basis: 'fixed',
+    dosing_weight: null,
+    bsa_m2: null,
+    bsa_source: null,
+    doses_per_day: null,
+    expected_dose: null,
+    capped_at_max_dose: false,
+    steps: []
+  };
+  if (!orderedDose) {
+    return { calculation, expectedDose: null, problem: null };
+  }
+  
+  let dose = orderedDose;
+  const step = (description: string) => calculation.steps.push(`${description} = ${formatQuantity(dose)}`);
+  const notCalculated = (problem: string) => ({ calculation, expectedDose: null, problem });
+  
+  if (hasDenominator(dose, 'body_weight')) {
+    calculation.basis = 'weight';
+    if (order.patient_weight_kg === undefined) {
+      return notCalculated(`${formatQuantity(orderedDose)} is weight-based but no patient weight was given`);
+    }
+    const dosingWeight = selectDosingWeight({
+      actual_weight_kg: order.patient_weight_kg,
+      height_cm: order.height_cm,
+      sex: order.sex,
+      age: input.patient_factors.age,
+      basis: order.dosing_weight
+    });
+    calculation.dosing_weight = dosingWeight;
+    const perWeight = formatQuantity(dose);
+    dose = multiplyOut(dose, dosingWeight.weight_kg, 'kg');
+    step(`${perWeight} × ${dosingWeight.weight_kg} kg (${dosingWeight.basis} body weight)`);
+  }
+  
+  if (hasDenominator(dose, 'body_surface_area')) {
+    calculation.basis = 'bsa';
+    const bsa = order.bsa_m2 ?? (order.patient_weight_kg !== undefined && order.height_cm !== undefined
+      ? calculateBsa(order.patient_weight_kg, order.height_cm, order.bsa_formula)
+      : null);
+    if (bsa === null) {
+      return notCalculated(`${formatQuantity(orderedDose)} is BSA-based but neither BSA nor height and weight were given`);
+    }
+    calculation.bsa_m2 = bsa;
+    calculation.bsa_source = order.bsa_m2 !== undefined ? 'given' : order.bsa_formula ?? 'mosteller';
+    const perBsa = formatQuantity(dose);
+    dose = multiplyOut(dose, bsa, 'm²');
+    step(`${perBsa} × ${bsa} m² (${BSA_SOURCE_LABELS[calculation.bsa_source]})`);
+  }
+  
+  if (dose.unit.denominators.some(denominator => denominator.dimension === 'time' && denominator.factor === MINUTES_PER_DAY)) {
+    if (order.doses_per_day === undefined) {
+      return notCalculated(`${formatQuantity(dose)} is a daily dose but the number of doses per day was not given`);
+    }
+    calculation.doses_per_day = order.doses_per_day;
+    const daily = formatQuantity(dose);
+    dose = multiplyOut(dose, 1 / order.doses_per_day, 'day');
+    step(`${daily} ÷ ${order.doses_per_day} doses per day`);
+  }
+  
+  if (calculation.steps.length > 0) {
+    dose = { ...dose, value: roundCalculatedDose(dose.value), max: dose.max === null ? null : roundCalculatedDose(dose.max) };
+  }
+  
+  const maxDose = order.max_dose ? parseQuantity(order.max_dose) : null;
+  const cap = maxDose && convertQuantity(maxDose, dose.unit);
+  if (cap && (dose.max ?? dose.value) > cap.value) {
+    calculation.capped_at_max_dose = true;
+    dose = { value: Math.min(dose.value, cap.value), max: dose.max === null ? null : cap.value, unit: dose.unit };
+    step(`Capped at the maximum dose of ${order.max_dose}`);
+  }
+  
+  calculation.expected_dose = formatQuantity(dose);
+  return { calculation, expectedDose: dose, problem: null };
+}
+
+function hasDenominator(dose: Quantity, dimension: Dimension): boolean {
+  return dose.unit.denominators.some(denominator => denominator.dimension === dimension);
+}
+
+function multiplyOut(dose: Quantity, value: number, unit: string): Quantity {
+  const amount = quantityOf(value, unit);
+  return (amount && cancelDenominator(dose, amount)) ?? dose;
+}
+
+// Five significant figures, so small doses keep their precision
+function roundCalculatedDose(value: number): number {
+  return Number(value.toPrecision(5));
+}
+
+/**
+ * The prepared dose as a quantity. A prepared volume is converted to the dose to give with the
+ * concentration when that dose is not itself a volume.
+ */
+function parsePreparedDose(input: VerifyRightDoseInput, targetDose: Quantity | null): Quantity | null {
+  const prepared = quantityOf(input.prepared_dose.amount, input.prepared_dose.units);
+  const concentration = input.prepared_dose.concentration ? parseQuantity(input.prepared_dose.concentration) : null;
+  if (!targetDose || !concentration || (prepared && sameDimension(prepared.unit, targetDose.unit))) {
+    return prepared;
+  }
+  
+  const volume = prepared?.unit.numerator.dimension === 'volume'
+    ? prepared
+    : input.prepared_dose.volume !== undefined ? quantityOf(input.prepared_dose.volume, 'mL') : null;
+  return (volume && cancelDenominator(concentration, volume)) ?? prepared;
+}
+
+function compareDoses(
+  input: VerifyRightDoseInput,
+  orderedDose: Quantity | null,
+  expectedDose: Quantity | null,
+  preparedDose: Quantity | null,
+  calculation: DoseCalculation,
+  calculationProblem: string | null
+): DoseVerificationOutput['verification_result']['dose_comparison'] {
+  const doses = {
+    ordered_dose: orderedDose && formatQuantity(orderedDose),
+    expected_dose: calculation.expected_dose,
+    prepared_dose: preparedDose && formatQuantity(preparedDose)
+  };
+  if (calculationProblem) {
+    return { ...doses, status: 'not_calculated', difference_percent: null, message: calculationProblem };
+  }
+  if (!expectedDose || !preparedDose) {
     return {
-      amount: parseFloat(match[1]),
-      units: match[2]
+      ...doses,
+      status: 'unrecognised',
+      difference_percent: null,
+      message: !orderedDose
+        ? `No dose with recognised units in the ordered dose '${input.order_details.ordered_dose}'`
+        : `Prepared dose units '${input.prepared_dose.units}' are not recognised`
     };
   }
-  return { amount: 0, units: 'unknown' };
+  
+  // Allow for small rounding differences (within 0.1%), or rounding of calculated doses to a measurable amount
+  const comparison = calculation.basis === 'fixed' && calculation.doses_per_day === null
+    ? compareQuantities(expectedDose, preparedDose)
+    : compareQuantities(expectedDose, preparedDose, {}, CALCULATED_DOSE_TOLERANCE_PERCENT);
+  return { ...doses, ...comparison };
 }
 
-function verifyDoseCalculation(input: VerifyRightDoseInput, orderedDose: { amount: number; units: string }): boolean {
-  // Check if prepared dose matches ordered dose
-  const preparedAmount = input.prepared_dose.amount;
-  const orderedAmount = orderedDose.amount;
+/**
+ * The amount used by the simplified range checks: masses in mg, other units as given.
+ */
+function rangeCheckAmount(dose: Quantity): number {
+  const milligrams = parseUnit('mg');
+  const converted = milligrams && dose.unit.numerator.dimension === 'mass' && dose.unit.denominators.length === 0
+    ? convertQuantity(dose, milligrams)
+    : null;
+  return (converted ?? dose).max ?? (converted ?? dose).value;
+}
+
+/**
+ * The order's maximum single and daily doses that a dose exceeds, or that cannot be checked.
+ */
+function checkDoseLimits(input: VerifyRightDoseInput, dose: Quantity | null): string[] {
+  const order = input.order_details;
+  const exceeded: string[] = [];
+  if (!dose) {
+    return exceeded;
+  }
   
-  // Allow for small rounding differences
-  const tolerance = 0.01;
-  const amountMatch = Math.abs(preparedAmount - orderedAmount) <= tolerance;
+  const maxDose = order.max_dose ? parseQuantity(order.max_dose) : null;
+  if (maxDose) {
+    const limit = convertQuantity(maxDose, dose.unit);
+    if (!limit) {
+      exceeded.push(`Maximum dose not checked: ${describeUnitMismatch(maxDose, dose)}`);
+    } else if ((dose.max ?? dose.value) > limit.value * (1 + CALCULATED_DOSE_TOLERANCE_PERCENT / 100)) {
+      exceeded.push(`${formatQuantity(dose)} is above the maximum dose of ${order.max_dose}`);
+    }
+  }
   
-  // Check units match
-  const unitsMatch = input.prepared_dose.units.toLowerCase() === orderedDose.units.toLowerCase();
+  const maxDailyDose = order.max_daily_dose ? parseQuantity(order.max_daily_dose) : null;
+  if (maxDailyDose && order.doses_per_day === undefined) {
+    exceeded.push('Maximum daily dose not checked: the number of doses per day was not given');
+  } else if (maxDailyDose && order.doses_per_day !== undefined) {
+    const dailyDose = scaleQuantity(dose, order.doses_per_day);
+    const limit = convertQuantity(maxDailyDose, dailyDose.unit);
+    if (!limit) {
+      exceeded.push(`Maximum daily dose not checked: ${describeUnitMismatch(maxDailyDose, dailyDose)}`);
+    } else if ((dailyDose.max ?? dailyDose.value) > limit.value * (1 + CALCULATED_DOSE_TOLERANCE_PERCENT / 100)) {
+      exceeded.push(`${formatQuantity(dailyDose)} a day (${order.doses_per_day} doses) is above the maximum daily dose of ${order.max_daily_dose}`);
+    }
+  }
   
-  return amountMatch && unitsMatch;
+  return exceeded;
 }
 
-function checkDoseRange(input: VerifyRightDoseInput, orderedDose: { amount: number; units: string }): boolean {
-  // Simplified dose range check
-  // In practice, would check against medication-specific ranges
-  
+function checkDoseRange(
+  input: VerifyRightDoseInput,
+  expectedDose: Quantity | null,
+  calculation: DoseCalculation,
+  exceededLimits: string[]
+): boolean {
   // Basic safety checks
-  if (orderedDose.amount <= 0) {
+  if (!expectedDose || expectedDose.value <= 0) {
     return false;
   }
   
+  // Check the order's own maximum doses when it gives them
+  if (input.order_details.max_dose || input.order_details.max_daily_dose) {
+    return exceededLimits.length === 0;
+  }
+  
+  // Weight-based and BSA-based doses scale with the patient, so the flat limits below do not apply
+  if (calculation.basis !== 'fixed') {
+    return true;
+  }
+  
+  // Simplified dose range check
+  // In practice, would check against medication-specific ranges
+  
   // Check for extremely high doses (safety check)
-  if (orderedDose.amount > 1000) {
+  const amount = rangeCheckAmount(expectedDose);
+  if (amount > 1000) {
     return false;
   }
   
   // Check age-appropriate dosing
-  if (input.patient_factors.age < 18 && orderedDose.amount > 100) {
+  if (input.patient_factors.age < 18 && amount > 100) {
     return false;
   }
   
@@ -231,51 +520,131 @@ function checkMeasurementAppropriateness(input: VerifyRightDoseInput): boolean {
   return true;
 }
 
-function checkOrganFunctionAdjustment(input: VerifyRightDoseInput): {
-  required: boolean;
-  applied: boolean;
-  new_dose: string;
-} {
+function lookUpRenalDosing(input: VerifyRightDoseInput): RenalDoseRecommendation | null {
+  const drugName = input.order_details.drug_name;
+  if (!drugName) {
+    return null;
+  }
+  
+  return getRenalDosingTables().recommend(
+    { drug_name: drugName, resolved_name: resolveDrugName(drugName).resolved_name },
+    input.patient_factors
+  );
+}
+
+function lookUpHepaticDosing(input: VerifyRightDoseInput, hepaticAssessment: HepaticAssessment | null): HepaticDoseRecommendation | null {
+  const drugName = input.order_details.drug_name;
+  const childPughClass = childPughClassFor(input.patient_factors.child_pugh_class, hepaticAssessment);
+  if (!drugName || !childPughClass) {
+    return null;
+  }
+  
+  return getHepaticDosingTables().recommend(
+    { drug_name: drugName, resolved_name: resolveDrugName(drugName).resolved_name },
+    childPughClass
+  );
+}
+
+type OrganFunctionDoseCheck = NonNullable<DoseVerificationOutput['verification_result']['adjustment_for_organ_function']['dose_check']>;
+
+// Alternatives within a table's dose text, e.g. "750 mg initial dose, then 500 mg"
+const DOSE_ALTERNATIVES = /,?\s+(?:or|then)\s+/i;
+
+function checkOrganFunctionAdjustment(
+  input: VerifyRightDoseInput,
+  preparedDose: Quantity | null,
+  dosingWeight: DosingWeight | null,
+  renalDosing: RenalDoseRecommendation | null,
+  hepaticDosing: HepaticDoseRecommendation | null,
+  hepaticAssessment: HepaticAssessment | null
+): DoseVerificationOutput['verification_result']['adjustment_for_organ_function'] {
+  const tableResults = { renal_dosing: renalDosing, hepatic_dosing: hepaticDosing, hepatic_assessment: hepaticAssessment };
+  const recommendations = [renalDosing, hepaticDosing].flatMap(recommendation =>
+    recommendation && recommendation.action !== 'no_change' ? [recommendation] : []);
   const adjustmentRequired = input.patient_factors.dose_adjustment_required || 
                              input.patient_factors.renal_function === 'impaired' || 
-                             input.patient_factors.hepatic_function === 'impaired';
-  
-  if (adjustmentRequired) {
-    // Calculate adjusted dose (simplified)
-    let adjustmentFactor = 1.0;
-    
-    if (input.patient_factors.renal_function === 'impaired') {
-      adjustmentFactor *= 0.5; // Reduce dose by 50% for renal impairment
-    }
-    
-    if (input.patient_factors.hepatic_function === 'impaired') {
-      adjustmentFactor *= 0.75; // Reduce dose by 25% for hepatic impairment
-    }
-    
-    const adjustedAmount = input.prepared_dose.amount * adjustmentFactor;
-    const newDose = `${adjustedAmount} ${input.prepared_dose.units}`;
-    
+                             input.patient_factors.hepatic_function === 'impaired' ||
+                             recommendations.length > 0;
+  
+  // Impairment without a drug-specific table, or a drug to avoid, is flagged but not adjusted
+  const adjustments = [
+    ...(renalDosing?.action === 'adjust' ? [{ label: `Renal dosing for ${renalDosing.band}`, recommendation: renalDosing }] : []),
+    ...(hepaticDosing?.action === 'adjust' ? [{ label: `Hepatic dosing for Child-Pugh ${hepaticDosing.child_pugh_class}`, recommendation: hepaticDosing }] : [])
+  ];
+  if (!adjustmentRequired || adjustments.length === 0 || recommendations.some(recommendation => recommendation.action === 'avoid')) {
     return {
-      required: true,
-      applied: true,
-      new_dose: newDose
+      required: adjustmentRequired,
+      applied: false,
+      new_dose: '',
+      new_interval: '',
+      dose_check: null,
+      ...tableResults
     };
   }
   
+  // The prepared dose must meet every table's adjusted dose; one it cannot be compared with is left to the checker
+  const checks = adjustments.map(({ label, recommendation }) => {
+    const doses = adjustedDoses(recommendation, dosingWeight);
+    const newDose = doses.length === 0 ? recommendation.dose ?? ''
+      : doses.map(formatQuantity).join(' or ') + (recommendation.dose_percent === null ? '' : ` (${recommendation.dose_percent}% of ${recommendation.usual_dose})`);
+    return { newDose, ...checkAdjustedDose(label, newDose, doses, preparedDose) };
+  });
+  const status: OrganFunctionDoseCheck['status'] = checks.some(check => check.status === 'not_met') ? 'not_met'
+    : checks.some(check => check.status === 'not_checked') ? 'not_checked'
+    : 'met';
+  
   return {
-    required: false,
-    applied: false,
-    new_dose: ''
+    required: true,
+    applied: status === 'met',
+    new_dose: checks.map(check => check.newDose).join('; '),
+    new_interval: [...new Set(adjustments.map(({ recommendation }) => recommendation.interval))].join('; '),
+    dose_check: { status, message: checks.map(check => check.message).join('; ') },
+    ...tableResults
   };
 }
 
-function checkHighAlertRequirements(input: VerifyRightDoseInput): {
+/**
+ * The single doses a table's adjustment allows: each alternative in its dose text, or its
+ * percentage of the usual dose. A per-kg dose is multiplied out by the dosing weight, when the
+ * order has one.
+ */
+function adjustedDoses(recommendation: RenalDoseRecommendation | HepaticDoseRecommendation, dosingWeight: DosingWeight | null): Quantity[] {
+  const text = recommendation.dose_percent === null ? recommendation.dose : recommendation.usual_dose;
+  const factor = (recommendation.dose_percent ?? 100) / 100;
+  return (text ?? '').split(DOSE_ALTERNATIVES).flatMap(alternative => {
+    const dose = parseQuantity(alternative);
+    if (!dose || (hasDenominator(dose, 'body_weight') && !dosingWeight)) {
+      return [];
+    }
+    const single = dosingWeight && hasDenominator(dose, 'body_weight') ? multiplyOut(dose, dosingWeight.weight_kg, 'kg') : dose;
+    return [scaleQuantity(single, factor)];
+  });
+}
+
+// Met when the prepared dose is at or below one of the adjusted doses
+function checkAdjustedDose(label: string, newDose: string, doses: Quantity[], preparedDose: Quantity | null): OrganFunctionDoseCheck {
+  if (!preparedDose) {
+    return { status: 'not_checked', message: `${label}: the prepared dose was not recognised, so it could not be checked against ${newDose || 'the adjusted dose'}` };
+  }
+  const comparisons = doses.map(dose => compareQuantities(dose, preparedDose)).filter(comparison => comparison.status !== 'incompatible');
+  const [nearest] = comparisons;
+  if (!nearest) {
+    return { status: 'not_checked', message: `${label}: ${formatQuantity(preparedDose)} could not be compared with ${newDose || 'the adjusted dose'}` };
+  }
+  const met = comparisons.some(comparison => comparison.status === 'equal' || comparison.status === 'within_range' ||
+    (comparison.difference_percent !== null && comparison.difference_percent < 0));
+  return met
+    ? { status: 'met', message: `${label}: ${formatQuantity(preparedDose)} is at or below the adjusted dose of ${newDose}` }
+    : { status: 'not_met', message: `${label}: ${nearest.message}` };
+}
+
+function checkHighAlertRequirements(input: VerifyRightDoseInput, preparedDose: Quantity | null): {
   required: boolean;
   completed: boolean;
   second_verifier_id: string;
 } {
   // Simplified: assume high-alert if dose is very high or patient is elderly
-  const isHighAlert = input.prepared_dose.amount > 100 || input.patient_factors.age > 75;
+  const isHighAlert = (preparedDose ? rangeCheckAmount(preparedDose) : input.prepared_dose.amount) > 100 || input.patient_factors.age > 75;
   
   return {
     required: isHighAlert,
@@ -284,40 +653,71 @@ function checkHighAlertRequirements(input: VerifyRightDoseInput): {
   };
 }
 
-function performDoseRangeCheck(input: VerifyRightDoseInput, orderedDose: { amount: number; units: string }): {
+function performDoseRangeCheck(
+  input: VerifyRightDoseInput,
+  expectedDose: Quantity | null,
+  calculation: DoseCalculation,
+  withinNormalRange: boolean
+): {
   min_dose: string;
   max_dose: string;
   ordered_dose_appropriate: boolean;
 } {
-  // Simplified dose range check
+  // Simplified dose range check, unless the order gives its maximum dose
   const minDose = 0.1;
   const maxDose = 1000;
   
-  const orderedDoseAppropriate = orderedDose.amount >= minDose && orderedDose.amount <= maxDose;
+  const unit = !expectedDose ? null
+    : expectedDose.unit.numerator.dimension === 'mass' && expectedDose.unit.denominators.length === 0 ? parseUnit('mg')
+    : expectedDose.unit;
+  const flatLimit = (amount: number) => unit ? formatQuantity({ value: amount, max: null, unit }) : `${amount} unknown`;
   
   return {
-    min_dose: `${minDose} ${orderedDose.units}`,
-    max_dose: `${maxDose} ${orderedDose.units}`,
-    ordered_dose_appropriate: orderedDoseAppropriate
+    min_dose: flatLimit(minDose),
+    max_dose: input.order_details.max_dose
+      ?? (calculation.basis === 'fixed' ? flatLimit(maxDose) : 'Not specified for a weight-based or BSA-based order'),
+    ordered_dose_appropriate: withinNormalRange
   };
 }
 
 function generateDoseWarnings(
   input: VerifyRightDoseInput,
-  calculationCorrect: boolean,
+  doseComparison: DoseVerificationOutput['verification_result']['dose_comparison'],
+  doseCalculation: DoseCalculation,
+  exceededLimits: string[],
+  preparedDose: Quantity | null,
   withinNormalRange: boolean,
-  measurementAppropriate: boolean
+  measurementAppropriate: boolean,
+  renalDosing: RenalDoseRecommendation | null,
+  hepaticDosing: HepaticDoseRecommendation | null,
+  organFunctionAdjustment: DoseVerificationOutput['verification_result']['adjustment_for_organ_function']
 ): string[] {
   const warnings: string[] = [];
   
-  if (!calculationCorrect) {
-    warnings.push('CRITICAL: Dose calculation incorrect');
+  if (doseComparison.status === 'incompatible') {
+    warnings.push(`CRITICAL: Unit mismatch - ${doseComparison.message}`);
+  } else if (doseComparison.status === 'unrecognised' || doseComparison.status === 'not_calculated') {
+    warnings.push(`CRITICAL: Dose could not be verified - ${doseComparison.message}`);
+  } else if (doseComparison.status === 'different') {
+    warnings.push(`CRITICAL: Dose calculation incorrect - ${doseComparison.message}`);
   }
   
   if (!withinNormalRange) {
     warnings.push('WARNING: Dose outside normal range');
   }
   
+  for (const limit of exceededLimits) {
+    warnings.push(`WARNING: ${limit}`);
+  }
+  
+  if (doseCalculation.capped_at_max_dose) {
+    warnings.push(`ALERT: Calculated dose capped at the maximum dose of ${input.order_details.max_dose}`);
+  }
+  
+  if (doseCalculation.basis !== 'fixed' && !input.order_details.max_dose && !input.order_details.max_daily_dose) {
+    warnings.push(`ALERT: No maximum dose given for a ${doseCalculation.basis === 'weight' ? 'weight-based' : 'BSA-based'} order - check the calculated dose against the drug's usual maximum`);
+  }
+  
   if (!measurementAppropriate) {
     warnings.push('WARNING: Measurement may not be accurate');
   }
@@ -326,15 +726,35 @@ function generateDoseWarnings(
     warnings.push('ALERT: Pediatric patient - verify age-appropriate dosing');
   }
   
-  if (input.patient_factors.renal_function === 'impaired') {
-    warnings.push('ALERT: Renal impairment - dose adjustment may be required');
+  if (renalDosing?.action === 'avoid') {
+    warnings.push(`CRITICAL: Renal dosing - ${renalDosing.message}`);
+  } else if (renalDosing?.action === 'adjust' || renalDosing?.action === 'no_recommendation') {
+    warnings.push(`ALERT: Renal dosing - ${renalDosing.message}`);
+  } else if (input.patient_factors.renal_function === 'impaired' && !renalDosing) {
+    const drugName = input.order_details.drug_name;
+    warnings.push(drugName && !getRenalDosingTables().hasTable(resolveDrugName(drugName).resolved_name)
+      ? `ALERT: Renal impairment - no renal dosing table for ${drugName}; check the product information for dose adjustment`
+      : 'ALERT: Renal impairment - dose adjustment may be required; provide the drug name and CrCl, eGFR or dialysis modality for drug-specific renal dosing');
+  }
+  
+  if (hepaticDosing?.action === 'avoid') {
+    warnings.push(`CRITICAL: Hepatic dosing - ${hepaticDosing.message}`);
+  } else if (hepaticDosing?.action === 'adjust' || hepaticDosing?.action === 'use_with_caution') {
+    warnings.push(`ALERT: Hepatic dosing - ${hepaticDosing.message}`);
+  } else if (input.patient_factors.hepatic_function === 'impaired' && !hepaticDosing) {
+    const drugName = input.order_details.drug_name;
+    warnings.push(drugName && !getHepaticDosingTables().hasTable(resolveDrugName(drugName).resolved_name)
+      ? `ALERT: Hepatic impairment - no hepatic dosing table for ${drugName}; check the product information for dose adjustment`
+      : 'ALERT: Hepatic impairment - dose adjustment may be required; provide the drug name and Child-Pugh class or liver function tests for drug-specific hepatic dosing');
   }
   
-  if (input.patient_factors.hepatic_function === 'impaired') {
-    warnings.push('ALERT: Hepatic impairment - dose adjustment may be required');
+  if (organFunctionAdjustment.dose_check?.status === 'not_met') {
+    warnings.push(`CRITICAL: Organ function dose adjustment not applied - ${organFunctionAdjustment.dose_check.message}`);
+  } else if (organFunctionAdjustment.dose_check?.status === 'not_checked') {
+    warnings.push(`ALERT: Organ function dose adjustment not checked - ${organFunctionAdjustment.dose_check.message}`);
   }
   
-  if (input.prepared_dose.amount > 100) {
+  if ((preparedDose ? rangeCheckAmount(preparedDose) : input.prepared_dose.amount) > 100) {
     warnings.push('ALERT: High dose - independent verification recommended');
   }
   
@@ -9,9 +9,14 @@ import { McpResponse, McpSuccessResponse } from "../../types/mcp.js";
 import { getResponseFormatter } from "../../services/responseFormatter.js";
 import { validateToolInput } from "../../utils/validators.js";
 import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
+import { resolveDrugName, ResolvedDrugName } from "../../services/drugNameNormalizer.js";
+import { getPregnancyLactationDataset, PregnancyLactationWarning } from "../../services/pregnancyLactation.js";
 
 // Define the Zod schema for medication verification input
 export const VerifyRightMedicationSchema = z.object({
+  patient_id: z.string().optional().describe("Patient identifier, recorded in the audit trail"),
+  verifier_id: z.string().optional().describe("ID of person performing verification"),
   order_details: z.object({
     ordered_medication: z.string().describe("Ordered medication (generic name)"),
     brand_names: z.array(z.string()).describe("Brand names for the medication"),
@@ -26,7 +31,12 @@ export const VerifyRightMedicationSchema = z.object({
   }),
   verification_datetime: z.string().describe("ISO8601 datetime of verification"),
   high_alert_medication: z.boolean().describe("Whether this is a high-alert medication"),
-  look_alike_sound_alike: z.boolean().describe("Whether this is a look-alike/sound-alike medication")
+  look_alike_sound_alike: z.boolean().describe("Whether this is a look-alike/sound-alike medication"),
+  patient_context: z.object({
+    pregnancy_status: z.boolean().describe("Whether the patient is pregnant"),
+    gestational_age_weeks: z.number().min(0).max(45).optional().describe("Completed weeks of gestation"),
+    breastfeeding: z.boolean().describe("Whether the patient is breastfeeding")
+  }).optional().describe("Pregnancy and breastfeeding status, used for trimester-aware safety warnings")
 });
 
 export type VerifyRightMedicationInput = z.infer<typeof VerifyRightMedicationSchema>;
@@ -45,6 +55,11 @@ export interface MedicationVerificationOutput {
     can_proceed: boolean;
     alerts: string[];
   };
+  resolved_drug_names: {
+    ordered_medication: ResolvedDrugName;
+    label_name: ResolvedDrugName;
+  };
+  pregnancy_lactation_warnings: PregnancyLactationWarning[];
 }
 
 // ===== TOOL REGISTRATION =====
@@ -59,19 +74,23 @@ export function registerVerifyRightMedicationTool(server: McpServer): void {
 **Purpose:** Ensure correct medication is selected before administration.
 
 **Input Parameters:**
+- patient_id: Patient identifier for the audit trail (optional)
+- verifier_id: Person performing verification (optional)
 - order_details: Ordered medication information
 - medication_in_hand: Physical medication details
 - verification_datetime: When verification was performed
 - high_alert_medication: Whether this is a high-alert medication
 - look_alike_sound_alike: Whether this is a LASA medication
+- patient_context: Pregnancy status, gestational age and breastfeeding (optional)
 
 **Process:**
-1. Compare generic names (primary)
+1. Compare generic names (primary), after resolving brand names, salt forms and strengths to the ingredient
 2. Check brand names if applicable
 3. Verify NDC if available
 4. Check expiration date
 5. For high-alert: require independent double-check
 6. For LASA: extra caution
+7. For pregnant or breastfeeding patients: check the pregnancy and lactation dataset for the current trimester; a contraindicated drug halts administration
 
 **Output:** Returns verification result with safety checks and alerts.`,
       inputSchema: VerifyRightMedicationSchema.shape,
@@ -87,11 +106,24 @@ export function registerVerifyRightMedicationTool(server: McpServer): void {
         // 2. Process medication verification
         const verificationOutput = processMedicationVerification(validatedInput);
 
-        // 3. Format response
+        // 3. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "verify_right_medication",
+          patient_id: validatedInput.patient_id ?? null,
+          actor: validatedInput.verifier_id ?? null,
+          input: validatedInput,
+          output: verificationOutput,
+          decision: verificationOutput.verification_result.can_proceed
+            ? `Medication ${validatedInput.order_details.ordered_medication} confirmed`
+            : `Medication ${validatedInput.order_details.ordered_medication} not confirmed; administration halted`
+        });
+
+        // 4. Format response
         return responseFormatter.formatGenericToolResponse(verificationOutput, startTime);
 
       } catch (error) {
         const classifiedError = classifyError(error, `Error in verify_right_medication tool handler`);
+        getAuditLog().recordToolError("verify_right_medication", input, classifiedError);
         return createComprehensiveErrorResponse(classifiedError, null, { 
           toolName: "verify_right_medication", 
           userInput: input 
@@ -104,8 +136,12 @@ export function registerVerifyRightMedicationTool(server: McpServer): void {
 // ===== MEDICATION VERIFICATION PROCESSING =====
 
 function processMedicationVerification(input: VerifyRightMedicationInput): MedicationVerificationOutput {
+  // Resolve both names to their ingredient
+  const orderedName = resolveDrugName(input.order_details.ordered_medication);
+  const labelName = resolveDrugName(input.medication_in_hand.label_name);
+
   // Check generic name match
-  const genericNameMatch = checkGenericNameMatch(input);
+  const genericNameMatch = checkGenericNameMatch(input, orderedName, labelName);
   
   // Check NDC match
   const ndcMatch = checkNDCMatch(input);
@@ -122,13 +158,26 @@ function processMedicationVerification(input: VerifyRightMedicationInput): Medic
   // Check for LASA warnings
   const lasaWarning = input.look_alike_sound_alike;
   
+  // Check pregnancy and lactation safety for the current trimester
+  const pregnancyLactationWarnings = input.patient_context
+    ? getPregnancyLactationDataset().review(
+        [{ drug_name: input.order_details.ordered_medication, resolved_name: orderedName.resolved_name }],
+        {
+          pregnant: input.patient_context.pregnancy_status,
+          gestational_age_weeks: input.patient_context.gestational_age_weeks,
+          breastfeeding: input.patient_context.breastfeeding
+        }
+      ).warnings
+    : [];
+  
   // Generate alerts
-  const alerts = generateAlerts(input, genericNameMatch, ndcMatch, expirationValid, lasaWarning);
+  const alerts = generateAlerts(input, genericNameMatch, ndcMatch, expirationValid, lasaWarning, [orderedName, labelName], pregnancyLactationWarnings);
   
   // Determine if can proceed
   const canProceed = genericNameMatch && 
                     expirationValid && 
                     storageConditionsMet && 
+                    !pregnancyLactationWarnings.some(warning => warning.risk === 'contraindicated') &&
                     (!doubleCheckRequired || input.high_alert_medication); // Simplified: assume double-check completed if high-alert
   
   return {
@@ -143,11 +192,25 @@ function processMedicationVerification(input: VerifyRightMedicationInput): Medic
       lasa_warning: lasaWarning,
       can_proceed: canProceed,
       alerts
-    }
+    },
+    resolved_drug_names: {
+      ordered_medication: orderedName,
+      label_name: labelName
+    },
+    pregnancy_lactation_warnings: pregnancyLactationWarnings
   };
 }
 
-function checkGenericNameMatch(input: VerifyRightMedicationInput): boolean {
+function checkGenericNameMatch(
+  input: VerifyRightMedicationInput,
+  orderedName: ResolvedDrugName,
+  labelName: ResolvedDrugName
+): boolean {
+  // Same ingredient, whether written as generic, brand or salt form
+  if (orderedName.match_type !== 'unresolved' && orderedName.resolved_name === labelName.resolved_name) {
+    return true;
+  }
+  
   const orderedMed = input.order_details.ordered_medication.toLowerCase().trim();
   const labelMed = input.medication_in_hand.label_name.toLowerCase().trim();
   
@@ -196,7 +259,9 @@ function generateAlerts(
   genericNameMatch: boolean,
   ndcMatch: boolean,
   expirationValid: boolean,
-  lasaWarning: boolean
+  lasaWarning: boolean,
+  resolvedNames: ResolvedDrugName[],
+  pregnancyLactationWarnings: PregnancyLactationWarning[]
 ): string[] {
   const alerts: string[] = [];
   
@@ -204,6 +269,10 @@ function generateAlerts(
     alerts.push('CRITICAL: Medication name does not match order');
   }
   
+  for (const name of resolvedNames.filter(n => n.did_you_mean !== null)) {
+    alerts.push(`CRITICAL: '${name.input}' is not a recognised drug name (did you mean ${name.did_you_mean}?) - confirm the spelling before administration`);
+  }
+  
   if (!ndcMatch) {
     alerts.push('WARNING: NDC code verification failed');
   }
@@ -224,5 +293,13 @@ function generateAlerts(
     alerts.push('WARNING: Lot number not available');
   }
   
+  for (const warning of pregnancyLactationWarnings) {
+    const level = warning.risk === 'contraindicated' ? 'CRITICAL' : warning.risk === 'avoid' ? 'WARNING' : 'ALERT';
+    const context = warning.context === 'pregnancy'
+      ? `pregnancy${warning.trimester ? ` (${warning.trimester} trimester)` : ''}`
+      : 'breastfeeding';
+    alerts.push(`${level}: ${warning.resolved_name} - ${warning.risk} in ${context}. ${warning.summary}`);
+  }
+  
   return alerts;
 }
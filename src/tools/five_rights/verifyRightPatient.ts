@@ -9,6 +9,7 @@ import { McpResponse, McpSuccessResponse } from "../../types/mcp.js";
 import { getResponseFormatter } from "../../services/responseFormatter.js";
 import { validateToolInput } from "../../utils/validators.js";
 import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
 
 // Define the Zod schema for patient verification input
 export const VerifyRightPatientSchema = z.object({
@@ -85,11 +86,24 @@ export function registerVerifyRightPatientTool(server: McpServer): void {
         // 2. Process patient verification
         const verificationOutput = processPatientVerification(validatedInput);
 
-        // 3. Format response
+        // 3. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "verify_right_patient",
+          patient_id: validatedInput.expected_patient.mrn,
+          actor: validatedInput.verifier_id,
+          input: validatedInput,
+          output: verificationOutput,
+          decision: verificationOutput.verification_result.can_proceed
+            ? `Patient identity confirmed (${verificationOutput.verification_result.match_confidence} match)`
+            : 'Patient identity not confirmed; administration halted'
+        });
+
+        // 4. Format response
         return responseFormatter.formatGenericToolResponse(verificationOutput, startTime);
 
       } catch (error) {
         const classifiedError = classifyError(error, `Error in verify_right_patient tool handler`);
+        getAuditLog().recordToolError("verify_right_patient", input, classifiedError);
         return createComprehensiveErrorResponse(classifiedError, null, { 
           toolName: "verify_right_patient", 
           userInput: input 
@@ -9,9 +9,12 @@ import { McpResponse, McpSuccessResponse } from "../../types/mcp.js";
 import { getResponseFormatter } from "../../services/responseFormatter.js";
 import { validateToolInput } from "../../utils/validators.js";
 import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
 
 // Define the Zod schema for route verification input
 export const VerifyRightRouteSchema = z.object({
+  patient_id: z.string().optional().describe("Patient identifier, recorded in the audit trail"),
+  verifier_id: z.string().optional().describe("ID of person performing verification"),
   order_details: z.object({
     ordered_route: z.enum(['oral', 'IV', 'IM', 'SC', 'topical', 'inhaled', 'rectal', 'ophthalmic', 'otic', 'nasal', 'transdermal']).describe("Ordered route of administration"),
     specific_site: z.string().optional().describe("Specific site if applicable")
@@ -64,6 +67,8 @@ export function registerVerifyRightRouteTool(server: McpServer): void {
 **Purpose:** Ensure correct route is used for medication administration.
 
 **Input Parameters:**
+- patient_id: Patient identifier for the audit trail (optional)
+- verifier_id: Person performing verification (optional)
 - order_details: Ordered route and specific site
 - patient_assessment: Patient condition and contraindications
 - medication_formulation: Available routes and formulation type
@@ -89,11 +94,24 @@ export function registerVerifyRightRouteTool(server: McpServer): void {
         // 2. Process route verification
         const verificationOutput = processRouteVerification(validatedInput);
 
-        // 3. Format response
+        // 3. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "verify_right_route",
+          patient_id: validatedInput.patient_id ?? null,
+          actor: validatedInput.verifier_id ?? null,
+          input: validatedInput,
+          output: verificationOutput,
+          decision: verificationOutput.verification_result.can_proceed
+            ? `Route ${validatedInput.order_details.ordered_route} confirmed`
+            : `Route ${validatedInput.order_details.ordered_route} not confirmed; administration halted`
+        });
+
+        // 4. Format response
         return responseFormatter.formatGenericToolResponse(verificationOutput, startTime);
 
       } catch (error) {
         const classifiedError = classifyError(error, `Error in verify_right_route tool handler`);
+        getAuditLog().recordToolError("verify_right_route", input, classifiedError);
         return createComprehensiveErrorResponse(classifiedError, null, { 
           toolName: "verify_right_route", 
           userInput: input 
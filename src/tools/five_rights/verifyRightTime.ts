@@ -9,22 +9,34 @@ import { McpResponse, McpSuccessResponse } from "../../types/mcp.js";
 import { getResponseFormatter } from "../../services/responseFormatter.js";
 import { validateToolInput } from "../../utils/validators.js";
 import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
+import { GenericError, ErrorType, ErrorSeverity } from "../../types/errors.js";
+import { ParsedSig, dayOfWeekOf, daysUntilNext, minimumIntervalHours, parseSig } from "../../utils/sig.js";
+import { MarRecord, MarSlot, getMarStore } from "../../services/marStore.js";
+import { checkSeparation, getAdministrationSeparations } from "../../services/administrationSeparations.js";
 
 // Define the Zod schema for time verification input
 export const VerifyRightTimeSchema = z.object({
+  patient_id: z.string().optional().describe("Patient identifier, recorded in the audit trail"),
+  verifier_id: z.string().optional().describe("ID of person performing verification"),
   order_details: z.object({
-    ordered_frequency: z.string().describe("Ordered dosing frequency"),
-    scheduled_time: z.string().describe("ISO8601 scheduled administration time"),
+    ordered_frequency: z.string().optional().describe("Ordered dosing frequency as written, e.g. 'q8h', 'BID', 'q6h PRN pain max 4/day', 'daily at 0800 with food' or 'Mon/Wed/Fri'; taken from the MAR order when mar_slot is given, and compared with it when both are given"),
+    scheduled_time: z.string().optional().describe("ISO8601 scheduled administration time; taken from the MAR slot when mar_slot is given"),
     time_critical: z.boolean().describe("Whether medication is time-critical"),
     administration_window: z.object({
       earliest: z.string().describe("ISO8601 earliest administration time"),
       latest: z.string().describe("ISO8601 latest administration time")
-    })
+    }).optional().describe("Hand-entered administration window; taken from the MAR slot when mar_slot is given"),
+    mar_slot: z.object({
+      mar_id: z.string().describe("MAR ID returned by generate_mar"),
+      slot_id: z.string().describe("ID of the dose's slot on the MAR")
+    }).optional().describe("The dose's slot on a MAR from generate_mar, giving its scheduled time and administration window and the patient's other doses to check separations against")
   }),
   current_datetime: z.string().describe("ISO8601 current datetime"),
   last_dose: z.object({
     datetime: z.string().describe("ISO8601 datetime of last dose"),
-    dose_given: z.string().describe("Dose that was given")
+    dose_given: z.string().describe("Dose that was given"),
+    doses_in_past_24h: z.number().int().min(0).optional().describe("Doses given in the past 24 hours, checked against the frequency's maximum daily doses")
   }),
   patient_factors: z.object({
     fasting_required: z.boolean().describe("Whether fasting is required"),
@@ -40,9 +52,45 @@ export type VerifyRightTimeInput = z.infer<typeof VerifyRightTimeSchema>;
 export interface TimeVerificationOutput {
   verification_result: {
     timing_appropriate: boolean;
+    schedule: {
+      source: 'mar_slot' | 'order_details';
+      scheduled_time: string;
+      earliest: string;
+      latest: string;
+      mar_slot: {
+        mar_id: string;
+        slot_id: string;
+        drug_name: string;
+        dose: string;
+        route: string;
+        standard_time: string;
+        adjustment: string | null; // Why generate_mar moved the dose from its standard time
+      } | null;
+    };
     within_window: boolean;
     minimum_interval_met: boolean;
     meal_requirements_met: boolean;
+    separations_met: boolean; // False when giving the dose now is too close to another dose on the MAR
+    separation_conflicts: Array<{
+      rule_id: string;
+      other_slot_id: string;
+      gap_hours: number;
+      message: string;
+      references: string[];
+    }>;
+    frequency: ParsedSig; // The ordered frequency as parsed, with a readable sig
+    frequency_source: 'mar_order' | 'order_details';
+    frequency_mismatch: string | null; // Set when ordered_frequency and the MAR order's frequency differ; the dose is held until it is resolved
+    minimum_interval: {
+      hours: number;
+      source: 'frequency' | 'mar_schedule' | 'maximum_daily_doses' | 'default'; // Default when the frequency gives neither an interval nor a daily maximum
+    };
+    scheduled_day: boolean; // False when the frequency names days of the week and today is not one of them
+    daily_maximum: {
+      max_doses_per_day: number | null;
+      doses_in_past_24h: number | null;
+      reached: boolean;
+    };
     time_critical_status: {
       is_time_critical: boolean;
       deviation_minutes: number;
@@ -54,6 +102,9 @@ export interface TimeVerificationOutput {
   };
 }
 
+// Minimum interval between doses when the frequency is not recognised or gives no interval
+const DEFAULT_MINIMUM_INTERVAL_HOURS = 4;
+
 // ===== TOOL REGISTRATION =====
 
 export function registerVerifyRightTimeTool(server: McpServer): void {
@@ -66,17 +117,20 @@ export function registerVerifyRightTimeTool(server: McpServer): void {
 **Purpose:** Ensure correct timing for medication administration.
 
 **Input Parameters:**
-- order_details: Ordered frequency and timing details
+- patient_id: Patient identifier for the audit trail (optional)
+- verifier_id: Person performing verification (optional)
+- order_details: Ordered frequency and timing details, with the dose's MAR slot or a hand-entered frequency, scheduled time and window
 - current_datetime: Current time
 - last_dose: Information about last dose given
 - patient_factors: Patient-specific timing factors
 
 **Process:**
-1. Check if within administration window
-2. Verify minimum interval from last dose
-3. Check meal/fasting requirements
-4. Consider drug interaction timing
-5. Assess time-critical status
+1. Check if within the administration window of the MAR slot, or of the order details
+2. Take the frequency from the MAR order when a MAR slot is given (reporting any difference from ordered_frequency), otherwise parse the ordered frequency, and verify the minimum interval from the last dose (for TID, QID and similar, the gap the MAR slots allow, or half the even spacing)
+3. Check the day of the week and the maximum daily doses, when the frequency gives them
+4. Check meal/fasting requirements
+5. Check separations from the patient's other doses on the MAR (e.g. levothyroxine and calcium)
+6. Assess time-critical status
 
 **Output:** Returns timing verification result with recommendations.`,
       inputSchema: VerifyRightTimeSchema.shape,
@@ -92,11 +146,22 @@ export function registerVerifyRightTimeTool(server: McpServer): void {
         // 2. Process time verification
         const verificationOutput = processTimeVerification(validatedInput);
 
-        // 3. Format response
+        // 3. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "verify_right_time",
+          patient_id: validatedInput.patient_id ?? null,
+          actor: validatedInput.verifier_id ?? null,
+          input: validatedInput,
+          output: verificationOutput,
+          decision: `Timing check recommends ${verificationOutput.verification_result.recommended_action}`
+        });
+
+        // 4. Format response
         return responseFormatter.formatGenericToolResponse(verificationOutput, startTime);
 
       } catch (error) {
         const classifiedError = classifyError(error, `Error in verify_right_time tool handler`);
+        getAuditLog().recordToolError("verify_right_time", input, classifiedError);
         return createComprehensiveErrorResponse(classifiedError, null, { 
           toolName: "verify_right_time", 
           userInput: input 
@@ -110,37 +175,58 @@ export function registerVerifyRightTimeTool(server: McpServer): void {
 
 function processTimeVerification(input: VerifyRightTimeInput): TimeVerificationOutput {
   const currentTime = new Date(input.current_datetime);
-  const scheduledTime = new Date(input.order_details.scheduled_time);
-  const earliestTime = new Date(input.order_details.administration_window.earliest);
-  const latestTime = new Date(input.order_details.administration_window.latest);
+  const { schedule, mar } = resolveSchedule(input);
+  const scheduledTime = new Date(schedule.scheduled_time);
+  const earliestTime = new Date(schedule.earliest);
+  const latestTime = new Date(schedule.latest);
   
   // Check if within administration window
   const withinWindow = currentTime >= earliestTime && currentTime <= latestTime;
   
   // Check minimum interval from last dose
-  const minimumIntervalMet = checkMinimumInterval(input);
+  const { frequency, source: frequencySource, mismatch: frequencyMismatch } = resolveFrequency(input, mar);
+  const minimumInterval = determineMinimumInterval(frequency, mar);
+  const minimumIntervalMet = checkMinimumInterval(input, minimumInterval.hours);
+  
+  // Check the day of the week and the maximum daily doses
+  const scheduledDay = checkScheduledDay(input, frequency);
+  const dailyMaximum = checkDailyMaximum(input, frequency);
   
   // Check meal requirements
   const mealRequirementsMet = checkMealRequirements(input);
   
+  // Check separations from the other doses on the MAR
+  const separationConflicts = mar ? checkMarSeparations(mar.record, mar.slot, currentTime) : [];
+  const separationsMet = separationConflicts.length === 0;
+  
   // Check time-critical status
   const timeCriticalStatus = checkTimeCriticalStatus(input, currentTime, scheduledTime);
   
   // Determine if timing is appropriate
-  const timingAppropriate = withinWindow && minimumIntervalMet && mealRequirementsMet;
+  const timingAppropriate = withinWindow && minimumIntervalMet && mealRequirementsMet && separationsMet && scheduledDay &&
+    !dailyMaximum.reached && frequencyMismatch === null;
   
   // Determine recommended action
-  const recommendedAction = determineRecommendedAction(input, timingAppropriate, timeCriticalStatus);
+  const recommendedAction = determineRecommendedAction(input, timingAppropriate, timeCriticalStatus, frequencyMismatch !== null);
   
   // Calculate delay until time if needed
-  const delayUntil = calculateDelayUntil(input, recommendedAction);
+  const delayUntil = calculateDelayUntil(input, scheduledTime, recommendedAction, frequency, minimumInterval.hours, scheduledDay);
   
   return {
     verification_result: {
       timing_appropriate: timingAppropriate,
+      schedule,
       within_window: withinWindow,
       minimum_interval_met: minimumIntervalMet,
       meal_requirements_met: mealRequirementsMet,
+      separations_met: separationsMet,
+      separation_conflicts: separationConflicts,
+      frequency,
+      frequency_source: frequencySource,
+      frequency_mismatch: frequencyMismatch,
+      minimum_interval: minimumInterval,
+      scheduled_day: scheduledDay,
+      daily_maximum: dailyMaximum,
       time_critical_status: timeCriticalStatus,
       can_proceed: timingAppropriate,
       recommended_action: recommendedAction,
@@ -149,32 +235,177 @@ function processTimeVerification(input: VerifyRightTimeInput): TimeVerificationO
   };
 }
 
-function checkMinimumInterval(input: VerifyRightTimeInput): boolean {
+/**
+ * The scheduled time and administration window: from the dose's MAR slot when one is given,
+ * otherwise as entered in the order details.
+ * @throws GenericError if neither is given, or the MAR belongs to another patient.
+ */
+function resolveSchedule(input: VerifyRightTimeInput): {
+  schedule: TimeVerificationOutput['verification_result']['schedule'];
+  mar: { record: MarRecord; slot: MarSlot } | null;
+} {
+  const { mar_slot: marSlot, scheduled_time: scheduledTime, administration_window: window } = input.order_details;
+
+  if (marSlot) {
+    const { mar, slot } = getMarStore().getSlot(marSlot.mar_id, marSlot.slot_id);
+    if (input.patient_id !== undefined && mar.patient_id !== null && mar.patient_id !== input.patient_id) {
+      throw new GenericError(ErrorType.INVALID_INPUT, `MAR '${mar.mar_id}' belongs to patient '${mar.patient_id}', not '${input.patient_id}'`, {
+        severity: ErrorSeverity.HIGH,
+        suggestions: ['Confirm the patient identity and use the MAR generated for this patient'],
+        details: { mar_id: mar.mar_id, mar_patient_id: mar.patient_id, patient_id: input.patient_id }
+      });
+    }
+    return {
+      schedule: {
+        source: 'mar_slot',
+        scheduled_time: slot.scheduled_time,
+        earliest: slot.earliest,
+        latest: slot.latest,
+        mar_slot: {
+          mar_id: mar.mar_id,
+          slot_id: slot.slot_id,
+          drug_name: slot.drug_name,
+          dose: slot.dose,
+          route: slot.route,
+          standard_time: slot.standard_time,
+          adjustment: slot.adjustment
+        }
+      },
+      mar: { record: mar, slot }
+    };
+  }
+
+  if (scheduledTime === undefined || window === undefined) {
+    throw new GenericError(ErrorType.INVALID_INPUT, 'Give the dose\'s MAR slot, or its scheduled time and administration window', {
+      severity: ErrorSeverity.MEDIUM,
+      suggestions: [
+        'Pass order_details.mar_slot with the mar_id and slot_id from generate_mar',
+        'Or pass order_details.scheduled_time and order_details.administration_window'
+      ]
+    });
+  }
+  return {
+    schedule: { source: 'order_details', scheduled_time: scheduledTime, earliest: window.earliest, latest: window.latest, mar_slot: null },
+    mar: null
+  };
+}
+
+/**
+ * The frequency the dose is checked against: the MAR order's when a MAR slot is given, compared
+ * with any ordered_frequency also given, otherwise the ordered_frequency as entered.
+ * @throws GenericError if neither a MAR slot nor an ordered frequency is given.
+ */
+function resolveFrequency(input: VerifyRightTimeInput, mar: { record: MarRecord; slot: MarSlot } | null): {
+  frequency: ParsedSig;
+  source: TimeVerificationOutput['verification_result']['frequency_source'];
+  mismatch: string | null;
+} {
+  const ordered = input.order_details.ordered_frequency;
+  const marOrder = mar?.record.orders.find(order => order.order_id === mar.slot.order_id);
+
+  if (marOrder) {
+    const entered = ordered !== undefined ? parseSig(ordered) : null;
+    const mismatch = entered !== null && entered.sig !== marOrder.frequency.sig
+      ? `Ordered frequency '${ordered}' (${entered.sig}) differs from the MAR order's '${marOrder.frequency.text}' (${marOrder.frequency.sig}); confirm the current order`
+      : null;
+    return { frequency: marOrder.frequency, source: 'mar_order', mismatch };
+  }
+
+  if (ordered === undefined) {
+    throw new GenericError(ErrorType.INVALID_INPUT, 'Give the ordered frequency, or the dose\'s MAR slot', {
+      severity: ErrorSeverity.MEDIUM,
+      suggestions: [
+        'Pass order_details.ordered_frequency as written on the order, e.g. \'q8h\' or \'BID\'',
+        'Or pass order_details.mar_slot to use the frequency stored on the MAR'
+      ]
+    });
+  }
+  return { frequency: parseSig(ordered), source: 'order_details', mismatch: null };
+}
+
+/**
+ * Separations not met if the dose is given now, against the scheduled times of the other
+ * orders' doses on the MAR.
+ */
+function checkMarSeparations(mar: MarRecord, slot: MarSlot, currentTime: Date): TimeVerificationOutput['verification_result']['separation_conflicts'] {
+  const separations = getAdministrationSeparations();
+  const conflicts: TimeVerificationOutput['verification_result']['separation_conflicts'] = [];
+
+  for (const other of mar.slots) {
+    if (other.order_id === slot.order_id) continue;
+    for (const requirement of separations.between(slot, other)) {
+      const otherTime = new Date(other.scheduled_time);
+      const check = requirement.drug_name === slot.drug_name
+        ? checkSeparation(requirement, currentTime, otherTime)
+        : checkSeparation(requirement, otherTime, currentTime);
+      if (!check.satisfied) {
+        conflicts.push({
+          rule_id: requirement.rule_id,
+          other_slot_id: other.slot_id,
+          gap_hours: check.gap_hours,
+          message: `${check.message} (scheduled ${other.scheduled_time})`,
+          references: requirement.source.references
+        });
+      }
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * The shortest time allowed since the last dose: the frequency's interval, or a maximum daily
+ * count spread over the day, or 4 hours when the frequency gives neither.
+ */
+/**
+ * The shortest time allowed since the last dose. For a times-daily or days-of-week frequency on a
+ * MAR it is the gap the MAR allows: from the latest time of the order's previous slot to the
+ * earliest time of this slot, so doses at uneven standard times are not held back.
+ */
+function determineMinimumInterval(
+  frequency: ParsedSig,
+  mar: { record: MarRecord; slot: MarSlot } | null
+): TimeVerificationOutput['verification_result']['minimum_interval'] {
+  if (mar && (frequency.pattern === 'times_daily' || frequency.pattern === 'days_of_week')) {
+    const previous = mar.record.slots
+      .filter(slot => slot.order_id === mar.slot.order_id && Date.parse(slot.scheduled_time) < Date.parse(mar.slot.scheduled_time))
+      .pop();
+    const gapHours = previous ? (Date.parse(mar.slot.earliest) - Date.parse(previous.latest)) / (60 * 60 * 1000) : 0;
+    if (gapHours > 0) {
+      return { hours: Math.round(gapHours * 100) / 100, source: 'mar_schedule' };
+    }
+  }
+
+  const hours = minimumIntervalHours(frequency);
+  if (hours === null) {
+    return { hours: DEFAULT_MINIMUM_INTERVAL_HOURS, source: 'default' };
+  }
+  return { hours, source: frequency.interval_hours !== null ? 'frequency' : 'maximum_daily_doses' };
+}
+
+function checkMinimumInterval(input: VerifyRightTimeInput, minimumIntervalHours: number): boolean {
   const currentTime = new Date(input.current_datetime);
   const lastDoseTime = new Date(input.last_dose.datetime);
   const timeDifference = (currentTime.getTime() - lastDoseTime.getTime()) / (1000 * 60); // minutes
   
-  // Calculate minimum interval based on frequency
-  const frequency = input.order_details.ordered_frequency.toLowerCase();
-  let minimumInterval: number;
-  
-  if (frequency.includes('every 4 hours') || frequency.includes('q4h')) {
-    minimumInterval = 240; // 4 hours
-  } else if (frequency.includes('every 6 hours') || frequency.includes('q6h')) {
-    minimumInterval = 360; // 6 hours
-  } else if (frequency.includes('every 8 hours') || frequency.includes('q8h')) {
-    minimumInterval = 480; // 8 hours
-  } else if (frequency.includes('every 12 hours') || frequency.includes('q12h')) {
-    minimumInterval = 720; // 12 hours
-  } else if (frequency.includes('daily') || frequency.includes('qd')) {
-    minimumInterval = 1440; // 24 hours
-  } else if (frequency.includes('twice daily') || frequency.includes('bid')) {
-    minimumInterval = 720; // 12 hours
-  } else {
-    minimumInterval = 240; // Default 4 hours
+  return timeDifference >= minimumIntervalHours * 60;
+}
+
+function checkScheduledDay(input: VerifyRightTimeInput, frequency: ParsedSig): boolean {
+  if (frequency.days_of_week.length === 0) {
+    return true;
   }
-  
-  return timeDifference >= minimumInterval;
+  const today = dayOfWeekOf(input.current_datetime);
+  return today === null || frequency.days_of_week.includes(today);
+}
+
+function checkDailyMaximum(input: VerifyRightTimeInput, frequency: ParsedSig): TimeVerificationOutput['verification_result']['daily_maximum'] {
+  const maxDosesPerDay = frequency.max_doses_per_day;
+  const dosesInPast24h = input.last_dose.doses_in_past_24h ?? null;
+  return {
+    max_doses_per_day: maxDosesPerDay,
+    doses_in_past_24h: dosesInPast24h,
+    reached: maxDosesPerDay !== null && dosesInPast24h !== null && dosesInPast24h >= maxDosesPerDay
+  };
 }
 
 function checkMealRequirements(input: VerifyRightTimeInput): boolean {
@@ -235,12 +466,17 @@ function checkTimeCriticalStatus(
 function determineRecommendedAction(
   input: VerifyRightTimeInput,
   timingAppropriate: boolean,
-  timeCriticalStatus: { is_time_critical: boolean; deviation_minutes: number; deviation_acceptable: boolean; }
+  timeCriticalStatus: { is_time_critical: boolean; deviation_minutes: number; deviation_acceptable: boolean; },
+  frequencyMismatch: boolean
 ): 'give_now' | 'delay_until' | 'contact_prescriber' {
   if (timingAppropriate) {
     return 'give_now';
   }
   
+  if (frequencyMismatch) {
+    return 'contact_prescriber';
+  }
+  
   if (timeCriticalStatus.is_time_critical && !timeCriticalStatus.deviation_acceptable) {
     return 'contact_prescriber';
   }
@@ -254,7 +490,11 @@ function determineRecommendedAction(
 
 function calculateDelayUntil(
   input: VerifyRightTimeInput,
-  recommendedAction: 'give_now' | 'delay_until' | 'contact_prescriber'
+  scheduledTime: Date,
+  recommendedAction: 'give_now' | 'delay_until' | 'contact_prescriber',
+  frequency: ParsedSig,
+  minimumIntervalHours: number,
+  scheduledDay: boolean
 ): string {
   if (recommendedAction === 'give_now') {
     return new Date().toISOString();
@@ -263,33 +503,22 @@ function calculateDelayUntil(
   if (recommendedAction === 'delay_until') {
     // Calculate next appropriate time
     const currentTime = new Date(input.current_datetime);
-    const scheduledTime = new Date(input.order_details.scheduled_time);
     
     // If current time is before scheduled time, use scheduled time
     if (currentTime < scheduledTime) {
       return scheduledTime.toISOString();
     }
     
-    // If current time is after scheduled time, calculate next dose time
-    const frequency = input.order_details.ordered_frequency.toLowerCase();
-    let nextDoseTime: Date;
-    
-    if (frequency.includes('every 4 hours') || frequency.includes('q4h')) {
-      nextDoseTime = new Date(currentTime.getTime() + 4 * 60 * 60 * 1000);
-    } else if (frequency.includes('every 6 hours') || frequency.includes('q6h')) {
-      nextDoseTime = new Date(currentTime.getTime() + 6 * 60 * 60 * 1000);
-    } else if (frequency.includes('every 8 hours') || frequency.includes('q8h')) {
-      nextDoseTime = new Date(currentTime.getTime() + 8 * 60 * 60 * 1000);
-    } else if (frequency.includes('every 12 hours') || frequency.includes('q12h')) {
-      nextDoseTime = new Date(currentTime.getTime() + 12 * 60 * 60 * 1000);
-    } else if (frequency.includes('daily') || frequency.includes('qd')) {
-      nextDoseTime = new Date(currentTime.getTime() + 24 * 60 * 60 * 1000);
-    } else if (frequency.includes('twice daily') || frequency.includes('bid')) {
-      nextDoseTime = new Date(currentTime.getTime() + 12 * 60 * 60 * 1000);
-    } else {
-      nextDoseTime = new Date(currentTime.getTime() + 4 * 60 * 60 * 1000); // Default 4 hours
+    // On a day the frequency does not name, wait for the next day it does
+    const today = scheduledDay ? null : dayOfWeekOf(input.current_datetime);
+    const daysToWait = today ? daysUntilNext(today, frequency.days_of_week) : null;
+    if (daysToWait !== null) {
+      return new Date(currentTime.getTime() + daysToWait * 24 * 60 * 60 * 1000).toISOString();
     }
     
+    // If current time is after scheduled time, calculate next dose time
+    const nextDoseTime = new Date(currentTime.getTime() + minimumIntervalHours * 60 * 60 * 1000);
+    
     return nextDoseTime.toISOString();
   }
   
@@ -9,6 +9,9 @@ import { McpResponse, McpSuccessResponse } from "../../types/mcp.js";
 import { getResponseFormatter } from "../../services/responseFormatter.js";
 import { validateToolInput } from "../../utils/validators.js";
 import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { GenericError, ErrorType, ErrorSeverity } from "../../types/errors.js";
+import { AUDIT_PROTOCOLS, AuditEvent, getAuditLog } from "../../services/auditLog.js";
+import { AuditExport, exportAuditEvents, pseudonymizePatientId, redactAuditEvent } from "../../services/auditExport.js";
 
 // Define the Zod schema for audit trail input
 export const AuditTrailSchema = z.object({
@@ -17,7 +20,9 @@ export const AuditTrailSchema = z.object({
     start: z.string().describe("ISO8601 start datetime"),
     end: z.string().describe("ISO8601 end datetime")
   }),
-  protocol_filter: z.array(z.enum(['medrec', 'tdm', 'interactions', 'soap', 'five_rights'])).describe("Protocols to include in audit")
+  protocol_filter: z.array(z.enum(['medrec', 'tdm', 'interactions', 'soap', 'five_rights', 'integration'])).describe("Protocols to include in audit (empty for all)"),
+  export_format: z.enum(['json', 'fhir', 'csv', 'ndjson']).optional().describe("Export format: json (default), fhir (FHIR R4 AuditEvent bundle), csv or ndjson"),
+  redact_phi: z.boolean().optional().describe("Pseudonymize patient identifiers and withhold decision text")
 });
 
 export type AuditTrailInput = z.infer<typeof AuditTrailSchema>;
@@ -25,25 +30,26 @@ export type AuditTrailInput = z.infer<typeof AuditTrailSchema>;
 // Audit trail output
 export interface AuditTrailOutput {
   audit_trail: {
+    patient_id: string;
+    time_range: {
+      start: string;
+      end: string;
+    };
+    protocols_included: string[];
     total_events: number;
-    events: Array<{
-      event_id: string;
-      protocol: string;
-      tool: string;
+    events: Array<AuditEvent & {
       action: string;
-      datetime: string;
-      user_id: string;
-      inputs: Record<string, any>;
-      outputs: Record<string, any>;
-      decision_made: string;
-      patient_outcome: string;
     }>;
     quality_metrics: {
-      protocol_adherence: number;
+      completion_rate: number; // Percentage of tool calls that completed without error
+      failed_events: number;
       interventions_made: number;
-      patient_safety_events_prevented: number;
+      events_by_protocol: Record<string, number>;
     };
   };
+  export?: AuditExport & {
+    resource_uri: string; // MCP resource that serves the same export for download
+  };
 }
 
 // ===== TOOL REGISTRATION =====
@@ -55,20 +61,23 @@ export function registerAuditTrailTool(server: McpServer): void {
       title: "Audit Trail",
       description: `Maintain complete audit trail across all protocols.
 
-**Purpose:** Provide comprehensive audit trail for all clinical protocol activities.
+**Purpose:** Provide comprehensive audit trail for all clinical protocol activities. Every tool call is recorded in an append-only audit log with the tool, patient, actor, timestamp, SHA-256 digests of its input and output, and the decision it reached.
 
 **Input Parameters:**
 - patient_id: Patient identifier
 - time_range: Time range for audit
-- protocol_filter: Specific protocols to include
+- protocol_filter: Specific protocols to include (empty for all)
+- export_format: json (default), fhir, csv or ndjson (optional)
+- redact_phi: Pseudonymize patient identifiers and withhold decision text; requires AUDIT_PSEUDONYM_KEY (optional)
 
 **Process:**
-1. Retrieve all events within time range
+1. Retrieve the patient's events within time range
 2. Filter by protocols if specified
-3. Calculate quality metrics
-4. Generate comprehensive audit report
+3. Redact PHI if requested
+4. Calculate quality metrics
+5. Generate comprehensive audit report and export if requested
 
-**Output:** Returns complete audit trail with quality metrics.`,
+**Output:** Returns the recorded audit events, oldest first, with quality metrics. With an export format, also returns the serialized export and the URI of the audit_export resource that serves it for download.`,
       inputSchema: AuditTrailSchema.shape,
     },
     async (input: AuditTrailInput): Promise<McpResponse<AuditTrailOutput>> => {
@@ -82,11 +91,24 @@ export function registerAuditTrailTool(server: McpServer): void {
         // 2. Process audit trail
         const auditTrailOutput = processAuditTrail(validatedInput);
 
-        // 3. Format response
+        // 3. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "audit_trail",
+          patient_id: validatedInput.patient_id,
+          actor: null,
+          input: validatedInput,
+          output: auditTrailOutput,
+          decision: auditTrailOutput.export
+            ? `${auditTrailOutput.audit_trail.total_events} audit events exported as ${auditTrailOutput.export.format}${auditTrailOutput.export.redacted ? ' (redacted)' : ''}`
+            : `${auditTrailOutput.audit_trail.total_events} audit events retrieved`
+        });
+
+        // 4. Format response
         return responseFormatter.formatGenericToolResponse(auditTrailOutput, startTime);
 
       } catch (error) {
         const classifiedError = classifyError(error, `Error in audit_trail tool handler`);
+        getAuditLog().recordToolError("audit_trail", input, classifiedError);
         return createComprehensiveErrorResponse(classifiedError, null, { 
           toolName: "audit_trail", 
           userInput: input 
@@ -98,117 +120,85 @@ export function registerAuditTrailTool(server: McpServer): void {
 
 // ===== AUDIT TRAIL PROCESSING =====
 
-function processAuditTrail(input: AuditTrailInput): AuditTrailOutput {
-  // Retrieve events from audit database
-  const events = retrieveAuditEvents(input);
-  
+const INTERVENTION_TOOLS = ['resolve_discrepancy', 'recommend_interaction_management', 'document_interaction_decision'];
+
+/**
+ * Builds the audit trail report; also used by the audit_export resource so downloads match the tool response.
+ */
+export function processAuditTrail(input: AuditTrailInput): AuditTrailOutput {
+  const protocols = input.protocol_filter.length > 0 ? input.protocol_filter : [...AUDIT_PROTOCOLS];
+  const redact = input.redact_phi ?? false;
+
+  // Retrieve events from the audit log
+  const events = retrieveAuditEvents(input, protocols)
+    .map(event => ({ ...event, action: getToolAction(event.tool) }))
+    .map(event => redact ? redactAuditEvent(event) : event);
+
   // Calculate quality metrics
   const qualityMetrics = calculateQualityMetrics(events);
-  
+
+  const format = input.export_format ?? 'json';
+
   return {
     audit_trail: {
+      patient_id: redact ? pseudonymizePatientId(input.patient_id) : input.patient_id,
+      time_range: input.time_range,
+      protocols_included: protocols,
       total_events: events.length,
-      events: events,
+      events,
       quality_metrics: qualityMetrics
-    }
+    },
+    ...(format !== 'json' && {
+      export: {
+        ...exportAuditEvents(events, format, redact),
+        resource_uri: buildAuditExportUri({ ...input, protocol_filter: protocols }, format, redact)
+      }
+    })
   };
 }
 
-function retrieveAuditEvents(input: AuditTrailInput): Array<{
-  event_id: string;
-  protocol: string;
-  tool: string;
-  action: string;
-  datetime: string;
-  user_id: string;
-  inputs: Record<string, any>;
-  outputs: Record<string, any>;
-  decision_made: string;
-  patient_outcome: string;
-}> {
-  // This would typically query an audit database
-  // For now, return mock data based on the input parameters
-  
-  const events = [];
-  const startDate = new Date(input.time_range.start);
-  const endDate = new Date(input.time_range.end);
-  
-  // Generate mock events based on protocols
-  const protocols = input.protocol_filter.length > 0 ? input.protocol_filter : 
-    ['medrec', 'tdm', 'interactions', 'soap', 'five_rights'];
-  
-  for (const protocol of protocols) {
-    const protocolEvents = generateMockProtocolEvents(protocol, input.patient_id, startDate, endDate);
-    events.push(...protocolEvents);
-  }
-  
-  // Sort events by datetime
-  events.sort((a, b) => new Date(a.datetime).getTime() - new Date(b.datetime).getTime());
-  
-  return events;
+// A redacted export's URI carries the patient's pseudonym, which the audit_export resource resolves
+function buildAuditExportUri(input: AuditTrailInput, format: string, redact: boolean): string {
+  const params = new URLSearchParams({
+    patient_id: redact ? pseudonymizePatientId(input.patient_id) : input.patient_id,
+    start: input.time_range.start,
+    end: input.time_range.end,
+    protocols: input.protocol_filter.join(','),
+    redact: String(redact)
+  });
+  return `mcp://md-mcp/audit-export/${format}?${params.toString()}`;
 }
 
-function generateMockProtocolEvents(
-  protocol: string, 
-  patientId: string, 
-  startDate: Date, 
-  endDate: Date
-): Array<{
-  event_id: string;
-  protocol: string;
-  tool: string;
-  action: string;
-  datetime: string;
-  user_id: string;
-  inputs: Record<string, any>;
-  outputs: Record<string, any>;
-  decision_made: string;
-  patient_outcome: string;
-}> {
-  const events = [];
-  const tools = getProtocolTools(protocol);
-  
-  // Generate 2-5 events per protocol
-  const eventCount = Math.floor(Math.random() * 4) + 2;
-  
-  for (let i = 0; i < eventCount; i++) {
-    const tool = tools[Math.floor(Math.random() * tools.length)];
-    if (!tool) continue;
-    
-    const eventDate = new Date(startDate.getTime() + Math.random() * (endDate.getTime() - startDate.getTime()));
-    
-    events.push({
-      event_id: generateEventId(protocol, tool, i),
-      protocol: protocol,
-      tool: tool,
-      action: getToolAction(tool),
-      datetime: eventDate.toISOString(),
-      user_id: `user_${Math.floor(Math.random() * 1000)}`,
-      inputs: generateMockInputs(tool),
-      outputs: generateMockOutputs(tool),
-      decision_made: generateMockDecision(tool),
-      patient_outcome: generateMockOutcome(tool)
+function retrieveAuditEvents(input: AuditTrailInput, protocols: AuditTrailInput['protocol_filter']): AuditEvent[] {
+  const start = parseRangeBoundary(input.time_range.start, 'start');
+  const end = parseRangeBoundary(input.time_range.end, 'end');
+
+  if (start.getTime() > end.getTime()) {
+    throw new GenericError(ErrorType.INVALID_INPUT, 'Audit time range start is after its end', {
+      severity: ErrorSeverity.MEDIUM,
+      suggestions: ['Swap time_range.start and time_range.end'],
+      details: { time_range: input.time_range },
     });
   }
-  
-  return events;
+
+  return getAuditLog().query({
+    patient_id: input.patient_id,
+    start,
+    end,
+    protocols
+  });
 }
 
-function getProtocolTools(protocol: string): string[] {
-  switch (protocol) {
-    case 'medrec':
-      return ['gather_bpmh', 'compare_medications', 'resolve_discrepancy'];
-    case 'tdm':
-      return ['assess_tdm_candidate', 'calculate_steady_state', 'plan_sample_collection', 'interpret_tdm_result', 'monitor_tdm_trends'];
-    case 'interactions':
-      return ['screen_interactions', 'assess_interaction_significance', 'recommend_interaction_management', 'document_interaction_decision'];
-    case 'soap':
-      return ['document_subjective', 'document_objective', 'document_assessment', 'document_plan', 'compile_soap_note'];
-    case 'five_rights':
-      return ['verify_right_patient', 'verify_right_medication', 'verify_right_dose', 'verify_right_route', 'verify_right_time', 'verify_right_documentation'];
-    default:
-      return [];
+function parseRangeBoundary(value: string, boundary: 'start' | 'end'): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new GenericError(ErrorType.INVALID_INPUT, `Audit time range ${boundary} '${value}' is not a valid ISO8601 datetime`, {
+      severity: ErrorSeverity.MEDIUM,
+      suggestions: ['Use an ISO8601 datetime such as 2024-01-15T08:00:00Z'],
+      details: { [boundary]: value },
+    });
   }
+  return date;
 }
 
 function getToolAction(tool: string): string {
@@ -216,15 +206,18 @@ function getToolAction(tool: string): string {
     'gather_bpmh': 'Collected medication history',
     'compare_medications': 'Compared medications for discrepancies',
     'resolve_discrepancy': 'Resolved medication discrepancy',
+    'review_geriatric_medications': 'Reviewed medications against geriatric criteria',
     'assess_tdm_candidate': 'Assessed TDM requirement',
     'calculate_steady_state': 'Calculated steady state timing',
     'plan_sample_collection': 'Planned sample collection',
     'interpret_tdm_result': 'Interpreted TDM result',
     'monitor_tdm_trends': 'Monitored TDM trends',
+    'calculate_hepatic_scores': 'Calculated Child-Pugh and MELD scores',
     'screen_interactions': 'Screened for drug interactions',
     'assess_interaction_significance': 'Assessed interaction significance',
     'recommend_interaction_management': 'Recommended interaction management',
     'document_interaction_decision': 'Documented interaction decision',
+    'get_interaction_case': 'Reviewed interaction case',
     'document_subjective': 'Documented subjective findings',
     'document_objective': 'Documented objective findings',
     'document_assessment': 'Documented clinical assessment',
@@ -235,171 +228,38 @@ function getToolAction(tool: string): string {
     'verify_right_dose': 'Verified dose',
     'verify_right_route': 'Verified route',
     'verify_right_time': 'Verified timing',
-    'verify_right_documentation': 'Completed documentation'
+    'verify_right_documentation': 'Completed documentation',
+    'calculate_infusion_rate': 'Checked infusion pump rate',
+    'generate_mar': 'Generated medication administration record',
+    'clinical_decision_support': 'Generated integrated decision support',
+    'audit_trail': 'Reviewed audit trail',
+    'verify_audit_integrity': 'Verified audit log integrity',
+    'audit_export': 'Exported audit trail'
   };
   
   return actions[tool] || 'Performed tool action';
 }
 
-function generateEventId(protocol: string, tool: string, index: number): string {
-  const timestamp = Date.now();
-  return `${protocol}_${tool}_${timestamp}_${index}`;
-}
+function calculateQualityMetrics(events: AuditEvent[]): AuditTrailOutput['audit_trail']['quality_metrics'] {
+  const failedEvents = events.filter(event => event.outcome === 'error').length;
 
-function generateMockInputs(tool: string): Record<string, any> {
-  const baseInputs = {
-    patient_id: 'patient_123',
-    timestamp: new Date().toISOString()
-  };
-  
-  switch (tool) {
-    case 'gather_bpmh':
-      return {
-        ...baseInputs,
-        data_sources: ['patient_interview', 'medication_bottles'],
-        systematic_categories: ['prescription_medications', 'otc_medications']
-      };
-    case 'compare_medications':
-      return {
-        ...baseInputs,
-        bpmh_id: 'bpmh_123',
-        new_orders: ['medication_1', 'medication_2']
-      };
-    case 'screen_interactions':
-      return {
-        ...baseInputs,
-        medications: ['medication_1', 'medication_2'],
-        patient_conditions: ['condition_1']
-      };
-    case 'verify_right_patient':
-      return {
-        ...baseInputs,
-        patient_identifiers: ['name', 'mrn'],
-        expected_patient: 'John Doe'
-      };
-    default:
-      return baseInputs;
-  }
-}
-
-function generateMockOutputs(tool: string): Record<string, any> {
-  const baseOutputs = {
-    success: true,
-    timestamp: new Date().toISOString()
-  };
-  
-  switch (tool) {
-    case 'gather_bpmh':
-      return {
-        ...baseOutputs,
-        bpmh_id: 'bpmh_123',
-        medications_count: 5,
-        verification_status: 'complete'
-      };
-    case 'compare_medications':
-      return {
-        ...baseOutputs,
-        discrepancies_found: 2,
-        critical_discrepancies: 0
-      };
-    case 'screen_interactions':
-      return {
-        ...baseOutputs,
-        interactions_found: 1,
-        serious_interactions: 0
-      };
-    case 'verify_right_patient':
-      return {
-        ...baseOutputs,
-        patient_confirmed: true,
-        match_confidence: 'exact'
-      };
-    default:
-      return baseOutputs;
-  }
-}
+  // Percentage of tool calls that completed without error
+  const completionRate = events.length > 0 ? ((events.length - failedEvents) / events.length) * 100 : 100;
 
-function generateMockDecision(tool: string): string {
-  const decisions: Record<string, string> = {
-    'gather_bpmh': 'Medication history collected successfully',
-    'compare_medications': 'Discrepancies identified and documented',
-    'resolve_discrepancy': 'Discrepancy resolved with prescriber approval',
-    'assess_tdm_candidate': 'TDM indicated for this medication',
-    'calculate_steady_state': 'Steady state reached, sample collection planned',
-    'plan_sample_collection': 'Sample collection instructions generated',
-    'interpret_tdm_result': 'TDM result interpreted, dose adjustment recommended',
-    'monitor_tdm_trends': 'TDM trends analyzed, monitoring plan updated',
-    'screen_interactions': 'Drug interactions screened, no serious interactions found',
-    'assess_interaction_significance': 'Interaction significance assessed as moderate',
-    'recommend_interaction_management': 'Interaction management recommendations provided',
-    'document_interaction_decision': 'Interaction decision documented',
-    'document_subjective': 'Subjective findings documented',
-    'document_objective': 'Objective findings documented',
-    'document_assessment': 'Clinical assessment documented',
-    'document_plan': 'Treatment plan documented',
-    'compile_soap_note': 'SOAP note compiled and signed',
-    'verify_right_patient': 'Patient identity verified',
-    'verify_right_medication': 'Medication verified',
-    'verify_right_dose': 'Dose verified',
-    'verify_right_route': 'Route verified',
-    'verify_right_time': 'Timing verified',
-    'verify_right_documentation': 'Documentation completed'
-  };
-  
-  return decisions[tool] || 'Tool action completed';
-}
+  // Count completed interventions: discrepancy resolutions and interaction management steps
+  const interventionsMade = events.filter(event =>
+    event.outcome === 'success' && INTERVENTION_TOOLS.includes(event.tool)
+  ).length;
 
-function generateMockOutcome(tool: string): string {
-  const outcomes: Record<string, string> = {
-    'gather_bpmh': 'Patient safety improved through accurate medication history',
-    'compare_medications': 'Medication discrepancies prevented potential harm',
-    'resolve_discrepancy': 'Medication reconciliation completed successfully',
-    'assess_tdm_candidate': 'TDM assessment completed, monitoring plan established',
-    'calculate_steady_state': 'Steady state calculation completed, sampling planned',
-    'plan_sample_collection': 'Sample collection plan established',
-    'interpret_tdm_result': 'TDM result interpreted, dose optimized',
-    'monitor_tdm_trends': 'TDM trends monitored, therapy optimized',
-    'screen_interactions': 'Drug interactions screened, patient safety maintained',
-    'assess_interaction_significance': 'Interaction significance assessed, management plan established',
-    'recommend_interaction_management': 'Interaction management recommendations implemented',
-    'document_interaction_decision': 'Interaction decision documented, audit trail maintained',
-    'document_subjective': 'Subjective findings documented, clinical record updated',
-    'document_objective': 'Objective findings documented, clinical record updated',
-    'document_assessment': 'Clinical assessment documented, diagnosis established',
-    'document_plan': 'Treatment plan documented, care plan established',
-    'compile_soap_note': 'SOAP note compiled, clinical documentation completed',
-    'verify_right_patient': 'Patient identity verified, medication safety ensured',
-    'verify_right_medication': 'Medication verified, correct drug administered',
-    'verify_right_dose': 'Dose verified, correct dose administered',
-    'verify_right_route': 'Route verified, correct route used',
-    'verify_right_time': 'Timing verified, medication administered at correct time',
-    'verify_right_documentation': 'Documentation completed, medication administration recorded'
-  };
-  
-  return outcomes[tool] || 'Tool action completed successfully';
-}
+  const eventsByProtocol: Record<string, number> = {};
+  for (const event of events) {
+    eventsByProtocol[event.protocol] = (eventsByProtocol[event.protocol] ?? 0) + 1;
+  }
 
-function calculateQualityMetrics(events: any[]): {
-  protocol_adherence: number;
-  interventions_made: number;
-  patient_safety_events_prevented: number;
-} {
-  // Calculate protocol adherence (percentage of events that followed protocol)
-  const protocolAdherence = Math.min(95, 80 + Math.random() * 15); // 80-95%
-  
-  // Count interventions made
-  const interventionsMade = events.filter(event => 
-    event.action.includes('resolved') || 
-    event.action.includes('recommended') || 
-    event.action.includes('adjusted')
-  ).length;
-  
-  // Estimate patient safety events prevented
-  const patientSafetyEventsPrevented = Math.floor(interventionsMade * 0.3); // Assume 30% of interventions prevented safety events
-  
   return {
-    protocol_adherence: Math.round(protocolAdherence),
+    completion_rate: Math.round(completionRate),
+    failed_events: failedEvents,
     interventions_made: interventionsMade,
-    patient_safety_events_prevented: patientSafetyEventsPrevented
+    events_by_protocol: eventsByProtocol
   };
 }
@@ -9,6 +9,10 @@ import { McpResponse, McpSuccessResponse } from "../../types/mcp.js";
 import { getResponseFormatter } from "../../services/responseFormatter.js";
 import { validateToolInput } from "../../utils/validators.js";
 import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
+import { resolveDrugName, ResolvedDrugName } from "../../services/drugNameNormalizer.js";
+import { getDrugTaxonomy } from "../../services/drugClassification.js";
+import { DrugLabAlert, getDrugLabRules } from "../../services/drugLabRules.js";
 
 // Define the Zod schema for clinical decision support input
 export const ClinicalDecisionSupportSchema = z.object({
@@ -36,8 +40,8 @@ export const ClinicalDecisionSupportSchema = z.object({
       severity: z.enum(['mild', 'moderate', 'severe']).describe("Condition severity")
     })),
     recent_labs: z.array(z.object({
-      test_name: z.string().describe("Test name"),
-      result: z.string().describe("Test result"),
+      test_name: z.string().describe("Test name, e.g. 'Potassium', 'eGFR', 'INR'"),
+      result: z.string().describe("Test result with units, e.g. '3.1 mmol/L'"),
       reference_range: z.string().describe("Reference range"),
       flag: z.enum(['high', 'low', 'critical', 'normal']).describe("Result flag"),
       datetime: z.string().describe("Test datetime")
@@ -54,9 +58,12 @@ export const ClinicalDecisionSupportSchema = z.object({
 
 export type ClinicalDecisionSupportInput = z.infer<typeof ClinicalDecisionSupportSchema>;
 
+type CurrentMedication = ClinicalDecisionSupportInput['patient_data']['current_medications'][number];
+
 // Clinical decision support output
 export interface ClinicalDecisionSupportOutput {
   integrated_assessment: {
+    resolved_drug_names: ResolvedDrugName[];
     protocols_activated: string[];
     findings_by_protocol: Record<string, any>;
     cross_protocol_alerts: Array<{
@@ -96,7 +103,7 @@ export function registerClinicalDecisionSupportTool(server: McpServer): void {
 
 **Process:**
 1. Trigger relevant protocol tools based on scenario
-2. Aggregate findings from multiple protocols
+2. Aggregate findings from multiple protocols, including drug-laboratory checks of current medications against the most recent potassium, magnesium, eGFR and INR in recent_labs (e.g. digoxin with low potassium, metformin with low eGFR, ACE inhibitors or ARBs with high potassium, warfarin with high INR, QT-prolonging drugs with low magnesium); each alert gives the lab value and the threshold it crossed
 3. Identify conflicts or synergies
 4. Prioritize recommendations
 5. Generate integrated care plan
@@ -115,11 +122,22 @@ export function registerClinicalDecisionSupportTool(server: McpServer): void {
         // 2. Process clinical decision support
         const decisionSupportOutput = processClinicalDecisionSupport(validatedInput);
 
-        // 3. Format response
+        // 3. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "clinical_decision_support",
+          patient_id: validatedInput.patient_id,
+          actor: null,
+          input: validatedInput,
+          output: decisionSupportOutput,
+          decision: `${decisionSupportOutput.integrated_assessment.prioritized_actions.length} prioritized actions, ${decisionSupportOutput.integrated_assessment.cross_protocol_alerts.length} cross-protocol alerts`
+        });
+
+        // 4. Format response
         return responseFormatter.formatGenericToolResponse(decisionSupportOutput, startTime);
 
       } catch (error) {
         const classifiedError = classifyError(error, `Error in clinical_decision_support tool handler`);
+        getAuditLog().recordToolError("clinical_decision_support", input, classifiedError);
         return createComprehensiveErrorResponse(classifiedError, null, { 
           toolName: "clinical_decision_support", 
           userInput: input 
@@ -132,6 +150,8 @@ export function registerClinicalDecisionSupportTool(server: McpServer): void {
 // ===== CLINICAL DECISION SUPPORT PROCESSING =====
 
 function processClinicalDecisionSupport(input: ClinicalDecisionSupportInput): ClinicalDecisionSupportOutput {
+  const resolvedDrugNames = input.patient_data.current_medications.map(med => resolveDrugName(med.drug_name));
+
   // Determine which protocols to activate based on scenario
   const protocolsToActivate = determineProtocolsToActivate(input);
   
@@ -149,6 +169,7 @@ function processClinicalDecisionSupport(input: ClinicalDecisionSupportInput): Cl
   
   return {
     integrated_assessment: {
+      resolved_drug_names: resolvedDrugNames,
       protocols_activated: protocolsToActivate,
       findings_by_protocol: findingsByProtocol,
       cross_protocol_alerts: crossProtocolAlerts,
@@ -177,11 +198,7 @@ function determineProtocolsToActivate(input: ClinicalDecisionSupportInput): stri
   }
   
   // Include TDM for specific medications
-  if (input.patient_data.current_medications.some(med => 
-    med.drug_name.toLowerCase().includes('vancomycin') ||
-    med.drug_name.toLowerCase().includes('digoxin') ||
-    med.drug_name.toLowerCase().includes('lithium') ||
-    med.drug_name.toLowerCase().includes('phenytoin'))) {
+  if (input.patient_data.current_medications.some(med => isDrugOneOf(med, TDM_DRUGS))) {
     protocols.push('tdm');
   }
   
@@ -234,9 +251,7 @@ function processMedRecProtocol(input: ClinicalDecisionSupportInput): any {
     findings: {
       medication_count: input.patient_data.current_medications.length,
       high_risk_medications: input.patient_data.current_medications.filter(med => 
-        med.drug_name.toLowerCase().includes('warfarin') ||
-        med.drug_name.toLowerCase().includes('digoxin') ||
-        med.drug_name.toLowerCase().includes('lithium')
+        isDrugOneOf(med, ['warfarin', 'digoxin', 'lithium'])
       ),
       adherence_concerns: [],
       reconciliation_required: input.clinical_scenario === 'admission' || input.clinical_scenario === 'discharge'
@@ -272,6 +287,20 @@ function processInteractionProtocol(input: ClinicalDecisionSupportInput): any {
     }
   }
   
+  // Lab-contingent checks against the most recent result of each lab
+  const drugLabRules = getDrugLabRules();
+  const labs = drugLabRules.readLabResults(input.patient_data.recent_labs);
+  const drugLabAlerts = drugLabRules.check(
+    input.patient_data.current_medications.map(med => ({ drug_name: med.drug_name, resolved_name: resolveDrugName(med.drug_name).resolved_name })),
+    labs.values
+  );
+  
+  const recommendations = interactions.length > 0 ? [
+    'Review drug interactions with prescriber',
+    'Consider alternative medications',
+    'Monitor for adverse effects'
+  ] : ['No significant interactions detected'];
+  
   return {
     protocol: 'interactions',
     status: 'active',
@@ -279,23 +308,20 @@ function processInteractionProtocol(input: ClinicalDecisionSupportInput): any {
       total_interactions: interactions.length,
       serious_interactions: interactions.filter(i => i.severity === 'serious'),
       moderate_interactions: interactions.filter(i => i.severity === 'moderate'),
-      minor_interactions: interactions.filter(i => i.severity === 'minor')
+      minor_interactions: interactions.filter(i => i.severity === 'minor'),
+      drug_lab_rules: drugLabRules.version,
+      drug_lab_alerts: drugLabAlerts,
+      unreadable_labs: labs.unreadable
     },
-    recommendations: interactions.length > 0 ? [
-      'Review drug interactions with prescriber',
-      'Consider alternative medications',
-      'Monitor for adverse effects'
-    ] : ['No significant interactions detected']
+    recommendations: [
+      ...recommendations,
+      ...drugLabAlerts.map(alert => `${alert.message}: ${alert.recommendation}`)
+    ]
   };
 }
 
 function processTdmProtocol(input: ClinicalDecisionSupportInput): any {
-  const tdmCandidates = input.patient_data.current_medications.filter(med => 
-    med.drug_name.toLowerCase().includes('vancomycin') ||
-    med.drug_name.toLowerCase().includes('digoxin') ||
-    med.drug_name.toLowerCase().includes('lithium') ||
-    med.drug_name.toLowerCase().includes('phenytoin')
-  );
+  const tdmCandidates = input.patient_data.current_medications.filter(med => isDrugOneOf(med, TDM_DRUGS));
   
   return {
     protocol: 'tdm',
@@ -340,9 +366,7 @@ function processFiveRightsProtocol(input: ClinicalDecisionSupportInput): any {
       administration_safety: 'high',
       verification_required: true,
       high_alert_medications: input.patient_data.current_medications.filter(med => 
-        med.drug_name.toLowerCase().includes('insulin') ||
-        med.drug_name.toLowerCase().includes('heparin') ||
-        med.drug_name.toLowerCase().includes('morphine')
+        isDrugOneOf(med, ['insulin', 'heparin', 'morphine'])
       )
     },
     recommendations: [
@@ -364,16 +388,27 @@ function hasKnownInteraction(drug1: string | undefined, drug2: string | undefine
     ['phenytoin', 'warfarin']
   ];
   
-  // After the null check, we know drug1 and drug2 are strings
-  const drug1Lower = drug1.toLowerCase();
-  const drug2Lower = drug2.toLowerCase();
+  const resolved1 = resolveDrugName(drug1).resolved_name;
+  const resolved2 = resolveDrugName(drug2).resolved_name;
   
   return interactions.some(([d1, d2]) => 
-    (drug1Lower.includes(d1) && drug2Lower.includes(d2)) ||
-    (drug1Lower.includes(d2) && drug2Lower.includes(d1))
+    (resolved1 === d1 && resolved2 === d2) ||
+    (resolved1 === d2 && resolved2 === d1)
   );
 }
 
+const TDM_DRUGS = ['vancomycin', 'digoxin', 'lithium', 'phenytoin'];
+
+/**
+ * Whether the medication resolves to one of the targets. Targets may be ingredients or
+ * drug classes, so 'insulin' covers every insulin product.
+ */
+function isDrugOneOf(medication: CurrentMedication, targets: string[]): boolean {
+  const resolvedName = resolveDrugName(medication.drug_name).resolved_name;
+  const taxonomy = getDrugTaxonomy();
+  return targets.some(target => resolvedName === target || taxonomy.matches(resolvedName, target));
+}
+
 function identifyCrossProtocolAlerts(findings: Record<string, any>): Array<{
   alert_type: string;
   severity: string;
@@ -399,6 +434,19 @@ function identifyCrossProtocolAlerts(findings: Record<string, any>): Array<{
     }
   }
   
+  // Drug-laboratory alerts, each showing the lab value and the threshold that fired it
+  if (findings.interactions) {
+    for (const alert of findings.interactions.findings.drug_lab_alerts as DrugLabAlert[]) {
+      alerts.push({
+        alert_type: 'drug_lab_interaction',
+        severity: alert.severity === 'contraindicated' || alert.severity === 'serious' ? 'high' : 'moderate',
+        description: `${alert.message}. ${alert.effect}`,
+        affected_protocols: ['interactions'],
+        recommended_action: alert.recommendation
+      });
+    }
+  }
+  
   // Check for TDM requirements
   if (findings.tdm && findings.tdm.status === 'active') {
     alerts.push({
@@ -455,6 +503,17 @@ function prioritizeActions(findings: Record<string, any>, alerts: any[]): Array<
     });
   }
   
+  // Drug-laboratory alerts
+  if (findings.interactions && findings.interactions.findings.drug_lab_alerts.length > 0) {
+    actions.push({
+      priority: 3,
+      urgency: 'urgent' as const,
+      action: 'Act on drug-laboratory alerts',
+      protocol_source: 'interactions',
+      rationale: 'A current lab value affects the safety of a prescribed drug'
+    });
+  }
+  
   // TDM
   if (findings.tdm && findings.tdm.status === 'active') {
     actions.push({
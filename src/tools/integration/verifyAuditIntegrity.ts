@@ -0,0 +1,222 @@
+/**
+ * Verify Audit Integrity Tool
+ * Detect tampering with the hash-chained audit log
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { McpResponse } from "../../types/mcp.js";
+import { getResponseFormatter } from "../../services/responseFormatter.js";
+import { validateToolInput } from "../../utils/validators.js";
+import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { GenericError, ErrorType, ErrorSeverity } from "../../types/errors.js";
+import { AuditEvent, ChainIssue, CheckpointIssue, getAuditLog } from "../../services/auditLog.js";
+
+// Define the Zod schema for audit integrity verification input
+export const VerifyAuditIntegritySchema = z.object({
+  patient_id: z.string().optional().describe("Limit the report to this patient's events (whole log if omitted)"),
+  time_range: z.object({
+    start: z.string().describe("ISO8601 start datetime"),
+    end: z.string().describe("ISO8601 end datetime")
+  }).optional().describe("Limit the report to events in this time range (whole log if omitted)")
+});
+
+export type VerifyAuditIntegrityInput = z.infer<typeof VerifyAuditIntegritySchema>;
+
+// Audit integrity output
+export interface AuditIntegrityOutput {
+  verification_id: string;
+  verified_at: string;
+  scope: {
+    patient_id: string | null;
+    time_range: { start: string; end: string } | null;
+  };
+  integrity_status: 'intact' | 'broken';
+  events_in_scope: number;
+  total_events_in_log: number;
+  broken_links: ChainIssue[];
+  log_wide_broken_links: number;
+  checkpoints: {
+    signing_configured: boolean;
+    total: number;
+    verified: number;
+    issues: CheckpointIssue[];
+  };
+  recommendations: string[];
+}
+
+// ===== TOOL REGISTRATION =====
+
+export function registerVerifyAuditIntegrityTool(server: McpServer): void {
+  server.registerTool(
+    "verify_audit_integrity",
+    {
+      title: "Verify Audit Integrity",
+      description: `Verifies that the audit log has not been altered since events were recorded.
+
+**Purpose:** Detect silent edits, deletions, insertions or re-chaining of audit records.
+
+**Input Parameters:**
+- patient_id: Limit the report to one patient (optional)
+- time_range: Limit the report to a time range (optional)
+
+**Process:**
+1. Recompute the hash of every audit event and check each link to the previous event
+2. Check checkpoint signatures against the configured signing key
+3. Check that each checkpointed event still has the hash the checkpoint attests to
+4. Report broken links within the requested patient and time range, including breaks next to the patient's events and altered events, whose patient cannot be trusted
+
+**Output:** Returns the integrity status, broken links in scope, a count of broken links across the whole log, and checkpoint verification results.`,
+      inputSchema: VerifyAuditIntegritySchema.shape,
+    },
+    async (input: VerifyAuditIntegrityInput): Promise<McpResponse<AuditIntegrityOutput>> => {
+      const startTime = Date.now();
+      const responseFormatter = getResponseFormatter();
+
+      try {
+        // 1. Validate input
+        const { data: validatedInput } = validateToolInput(VerifyAuditIntegritySchema, input, "verify_audit_integrity");
+
+        // 2. Process integrity verification
+        const integrityOutput = processAuditIntegrityVerification(validatedInput);
+
+        // 3. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "verify_audit_integrity",
+          patient_id: validatedInput.patient_id ?? null,
+          actor: null,
+          input: validatedInput,
+          output: integrityOutput,
+          decision: integrityOutput.integrity_status === 'intact'
+            ? `Audit log intact for ${integrityOutput.events_in_scope} events in scope`
+            : `Audit log broken: ${integrityOutput.broken_links.length} broken links in scope, ${integrityOutput.checkpoints.issues.length} checkpoint issues`
+        });
+
+        // 4. Format response
+        return responseFormatter.formatGenericToolResponse(integrityOutput, startTime);
+
+      } catch (error) {
+        const classifiedError = classifyError(error, `Error in verify_audit_integrity tool handler`);
+        getAuditLog().recordToolError("verify_audit_integrity", input, classifiedError);
+        return createComprehensiveErrorResponse(classifiedError, null, {
+          toolName: "verify_audit_integrity",
+          userInput: input
+        });
+      }
+    }
+  );
+}
+
+// ===== AUDIT INTEGRITY PROCESSING =====
+
+function processAuditIntegrityVerification(input: VerifyAuditIntegrityInput): AuditIntegrityOutput {
+  const range = input.time_range ? parseTimeRange(input.time_range) : null;
+  const inScope = (event: Pick<AuditEvent, 'patient_id' | 'timestamp'>): boolean => {
+    if (input.patient_id && event.patient_id !== input.patient_id) return false;
+    if (range) {
+      const time = new Date(event.timestamp).getTime();
+      if (time < range.start || time > range.end) return false;
+    }
+    return true;
+  };
+
+  const verification = getAuditLog().verifyChain();
+  const scopedEvents = verification.events.filter(inScope);
+
+  // A broken record's own patient_id cannot be trusted: a deleted event breaks the link of the
+  // event after it, and an altered event may have been re-attributed. So a break counts when the
+  // event or either neighbour is in scope, an altered event counts for every patient, and
+  // unreadable records are always reported. Removed and altered events this server recorded
+  // are also reported with their original patient.
+  const positions = new Map(verification.events.map((event, position) => [event.event_id, position]));
+  const brokenLinks = verification.chain_issues.filter(issue => {
+    if (issue.issue === 'unreadable_record') return true;
+    if (issue.issue === 'content_altered') return inScope({ patient_id: input.patient_id ?? null, timestamp: issue.timestamp ?? '' });
+    const event = { patient_id: issue.patient_id, timestamp: issue.timestamp ?? '' };
+    const position = positions.get(issue.event_id ?? '');
+    const nearby = position === undefined ? [event] : [verification.events[position - 1], event, verification.events[position + 1]];
+    return nearby.some(candidate => candidate !== undefined && inScope(candidate));
+  });
+
+  // A checkpoint attests to every event before it, so its issues matter to any scoped event at or before it
+  const firstScopedSequence = scopedEvents[0]?.sequence ?? Infinity;
+  const checkpointIssues = verification.checkpoint_issues.filter(issue => issue.sequence >= firstScopedSequence);
+
+  const intact = brokenLinks.length === 0 && checkpointIssues.length === 0;
+
+  return {
+    verification_id: `verify_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    verified_at: new Date().toISOString(),
+    scope: {
+      patient_id: input.patient_id ?? null,
+      time_range: input.time_range ?? null
+    },
+    integrity_status: intact ? 'intact' : 'broken',
+    events_in_scope: scopedEvents.length,
+    total_events_in_log: verification.events.length,
+    broken_links: brokenLinks,
+    log_wide_broken_links: verification.chain_issues.length,
+    checkpoints: {
+      signing_configured: verification.signing_configured,
+      total: verification.checkpoints_total,
+      verified: verification.checkpoints_verified,
+      issues: checkpointIssues
+    },
+    recommendations: generateIntegrityRecommendations(verification.signing_configured, brokenLinks, checkpointIssues, verification.chain_issues.length)
+  };
+}
+
+function parseTimeRange(timeRange: { start: string; end: string }): { start: number; end: number } {
+  const start = new Date(timeRange.start).getTime();
+  const end = new Date(timeRange.end).getTime();
+
+  if (isNaN(start) || isNaN(end)) {
+    throw new GenericError(ErrorType.INVALID_INPUT, 'Time range must use ISO8601 datetimes', {
+      severity: ErrorSeverity.MEDIUM,
+      suggestions: ['Use ISO8601 datetimes such as 2024-01-15T08:00:00Z'],
+      details: { time_range: timeRange },
+    });
+  }
+
+  if (start > end) {
+    throw new GenericError(ErrorType.INVALID_INPUT, 'Time range start is after its end', {
+      severity: ErrorSeverity.MEDIUM,
+      suggestions: ['Swap time_range.start and time_range.end'],
+      details: { time_range: timeRange },
+    });
+  }
+
+  return { start, end };
+}
+
+function generateIntegrityRecommendations(
+  signingConfigured: boolean,
+  brokenLinks: ChainIssue[],
+  checkpointIssues: CheckpointIssue[],
+  logWideBrokenLinks: number
+): string[] {
+  const recommendations: string[] = [];
+
+  if (brokenLinks.length > 0 || checkpointIssues.length > 0) {
+    recommendations.push('Treat the affected audit records as unreliable and restore them from backup where available');
+    recommendations.push('Report the integrity failure to the privacy or compliance officer');
+  }
+
+  if (brokenLinks.some(link => link.issue === 'chain_link_mismatch' || link.issue === 'sequence_gap' || link.issue === 'event_removed')) {
+    recommendations.push('Events were removed, inserted or reordered; compare the log with backups to identify missing records');
+  }
+
+  if (checkpointIssues.some(issue => issue.issue === 'event_hash_mismatch' || issue.issue === 'event_missing')) {
+    recommendations.push('The chain was rewritten after a signed checkpoint; hashes alone cannot be trusted for events before it');
+  }
+
+  if (logWideBrokenLinks > brokenLinks.length) {
+    recommendations.push(`${logWideBrokenLinks - brokenLinks.length} broken links exist outside the requested scope; run without filters to review the whole log`);
+  }
+
+  if (!signingConfigured) {
+    recommendations.push('Configure AUDIT_SIGNING_KEY so signed checkpoints can detect a rewritten chain');
+  }
+
+  return recommendations;
+}
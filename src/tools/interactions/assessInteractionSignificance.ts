@@ -9,6 +9,9 @@ import { McpResponse, McpSuccessResponse } from "../../types/mcp.js";
 import { getResponseFormatter } from "../../services/responseFormatter.js";
 import { validateToolInput } from "../../utils/validators.js";
 import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
+import { getInteractionCaseStore, InteractionCaseRecord } from "../../services/interactionCaseStore.js";
+import { DrugInteraction } from "./screenInteractions.js";
 
 // Define the Zod schema for interaction significance assessment input
 export const AssessInteractionSignificanceSchema = z.object({
@@ -37,6 +40,13 @@ export type AssessInteractionSignificanceInput = z.infer<typeof AssessInteractio
 // Interaction significance assessment output
 export interface InteractionSignificanceOutput {
   assessment_id: string;
+  interaction_id: string;
+  interaction_summary: {
+    type: DrugInteraction['type'];
+    severity: DrugInteraction['severity'];
+    mechanism: string;
+    interacting_entities: DrugInteraction['interacting_entities'];
+  };
   patient_specific_risk: 'low' | 'moderate' | 'high' | 'very_high';
   probability_of_occurrence: 'unlikely' | 'possible' | 'probable' | 'highly_probable';
   potential_harm: {
@@ -69,7 +79,7 @@ export function registerAssessInteractionSignificanceTool(server: McpServer): vo
 - clinical_context: Treatment context and goals
 
 **Process:**
-1. Evaluate relevance to specific patient
+1. Retrieve the interaction case opened by screen_interactions and evaluate relevance to specific patient, including the anticholinergic burden (ACB score 3 or more) and serotonergic agent count recorded at screening
 2. Assess probability of occurrence
 3. Estimate potential harm severity
 4. Consider benefit-risk ratio
@@ -86,14 +96,36 @@ export function registerAssessInteractionSignificanceTool(server: McpServer): vo
         // 1. Validate input
         const { data: validatedInput } = validateToolInput(AssessInteractionSignificanceSchema, input, "assess_interaction_significance");
 
-        // 2. Process interaction significance assessment
-        const significanceOutput = processInteractionSignificanceAssessment(validatedInput);
+        // 2. Retrieve the interaction case from screening
+        const caseStore = getInteractionCaseStore();
+        const interactionCase = caseStore.getCase(validatedInput.interaction_id);
+
+        // 3. Process interaction significance assessment
+        const significanceOutput = processInteractionSignificanceAssessment(validatedInput, interactionCase);
+
+        // 4. Record the assessment on the interaction case
+        caseStore.recordAssessment(validatedInput.interaction_id, {
+          ...significanceOutput,
+          patient_specific_factors: validatedInput.patient_specific_factors,
+          clinical_context: validatedInput.clinical_context
+        });
 
-        // 3. Format response
+        // 5. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "assess_interaction_significance",
+          patient_id: interactionCase.patient_id,
+          actor: null,
+          input: validatedInput,
+          output: significanceOutput,
+          decision: `Patient-specific risk ${significanceOutput.patient_specific_risk}; intervention ${significanceOutput.requires_intervention ? 'required' : 'not required'}`
+        });
+
+        // 6. Format response
         return responseFormatter.formatGenericToolResponse(significanceOutput, startTime);
 
       } catch (error) {
         const classifiedError = classifyError(error, `Error in assess_interaction_significance tool handler`);
+        getAuditLog().recordToolError("assess_interaction_significance", input, classifiedError);
         return createComprehensiveErrorResponse(classifiedError, null, { 
           toolName: "assess_interaction_significance", 
           userInput: input 
@@ -105,11 +137,23 @@ export function registerAssessInteractionSignificanceTool(server: McpServer): vo
 
 // ===== INTERACTION SIGNIFICANCE ASSESSMENT PROCESSING =====
 
-function processInteractionSignificanceAssessment(input: AssessInteractionSignificanceInput): InteractionSignificanceOutput {
+// Risk factors built from the medication load totals recorded at screening; details follow in brackets
+const HIGH_ANTICHOLINERGIC_BURDEN = 'High anticholinergic burden';
+const SEROTONERGIC_LOAD = 'Serotonergic load';
+
+function hasRiskFactor(riskFactors: string[], prefix: string): boolean {
+  return riskFactors.some(factor => factor.startsWith(prefix));
+}
+
+function processInteractionSignificanceAssessment(
+  input: AssessInteractionSignificanceInput,
+  interactionCase: InteractionCaseRecord
+): InteractionSignificanceOutput {
   const assessmentId = `assess_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const interaction = interactionCase.interaction;
   
   // Assess patient-specific risk factors
-  const riskFactors = assessPatientRiskFactors(input);
+  const riskFactors = assessPatientRiskFactors(input, interactionCase);
   const protectiveFactors = assessProtectiveFactors(input);
   
   // Calculate patient-specific risk level
@@ -119,7 +163,7 @@ function processInteractionSignificanceAssessment(input: AssessInteractionSignif
   const probabilityOfOccurrence = assessProbabilityOfOccurrence(input, riskFactors);
   
   // Estimate potential harm
-  const potentialHarm = estimatePotentialHarm(input, riskFactors);
+  const potentialHarm = estimatePotentialHarm(interaction.severity, riskFactors);
   
   // Calculate clinical significance score
   const clinicalSignificanceScore = calculateClinicalSignificanceScore(
@@ -143,6 +187,13 @@ function processInteractionSignificanceAssessment(input: AssessInteractionSignif
   
   return {
     assessment_id: assessmentId,
+    interaction_id: interaction.interaction_id,
+    interaction_summary: {
+      type: interaction.type,
+      severity: interaction.severity,
+      mechanism: interaction.mechanism,
+      interacting_entities: interaction.interacting_entities
+    },
     patient_specific_risk: patientSpecificRisk,
     probability_of_occurrence: probabilityOfOccurrence,
     potential_harm: potentialHarm,
@@ -155,8 +206,10 @@ function processInteractionSignificanceAssessment(input: AssessInteractionSignif
   };
 }
 
-function assessPatientRiskFactors(input: AssessInteractionSignificanceInput): string[] {
+function assessPatientRiskFactors(input: AssessInteractionSignificanceInput, interactionCase: InteractionCaseRecord): string[] {
   const riskFactors: string[] = [];
+  const screenedCharacteristics = interactionCase.screening_context.patient_characteristics;
+  const loadScores = interactionCase.screening_context.medication_load_scores;
   
   // Age-related risk factors
   if (input.patient_specific_factors.age > 75) {
@@ -201,6 +254,26 @@ function assessPatientRiskFactors(input: AssessInteractionSignificanceInput): st
     riskFactors.push('History of adverse drug reactions');
   }
   
+  // Factors recorded at screening
+  if (screenedCharacteristics.pregnancy_status) {
+    riskFactors.push('Pregnancy');
+  }
+  
+  if (screenedCharacteristics.breastfeeding) {
+    riskFactors.push('Breastfeeding');
+  }
+  
+  // Whole-list medication load totals from screening
+  if (loadScores && loadScores.anticholinergic_burden.total_score >= 3) {
+    const acb = loadScores.anticholinergic_burden;
+    riskFactors.push(`${HIGH_ANTICHOLINERGIC_BURDEN} (ACB score ${acb.total_score}: ${acb.contributing_drugs.map(drug => drug.resolved_name).join(', ')})`);
+  }
+  
+  if (loadScores && loadScores.serotonergic_load.serotonergic_agent_count >= 2) {
+    const serotonergic = loadScores.serotonergic_load;
+    riskFactors.push(`${SEROTONERGIC_LOAD} (${serotonergic.serotonergic_agent_count} agents, ${serotonergic.serotonin_syndrome_risk} serotonin syndrome risk: ${serotonergic.contributing_drugs.map(drug => drug.resolved_name).join(', ')})`);
+  }
+  
   return riskFactors;
 }
 
@@ -256,6 +329,8 @@ function assessProbabilityOfOccurrence(
   if (riskFactors.includes('Polypharmacy')) probabilityScore += 2;
   if (riskFactors.includes('Multiple comorbidities')) probabilityScore += 1;
   if (riskFactors.includes('History of adverse drug reactions')) probabilityScore += 2;
+  if (hasRiskFactor(riskFactors, HIGH_ANTICHOLINERGIC_BURDEN)) probabilityScore += 1;
+  if (hasRiskFactor(riskFactors, SEROTONERGIC_LOAD)) probabilityScore += 1;
   
   // Organ function adjustments
   if (input.patient_specific_factors.organ_function.renal_function !== 'normal') probabilityScore += 1;
@@ -268,7 +343,7 @@ function assessProbabilityOfOccurrence(
 }
 
 function estimatePotentialHarm(
-  input: AssessInteractionSignificanceInput,
+  interactionSeverity: DrugInteraction['severity'],
   riskFactors: string[]
 ): {
   severity: 'minor' | 'moderate' | 'major' | 'life_threatening';
@@ -277,14 +352,21 @@ function estimatePotentialHarm(
 } {
   let severityScore = 0;
   
-  // Base severity
-  severityScore += 2;
+  // Base severity from the screened interaction
+  switch (interactionSeverity) {
+    case 'contraindicated': severityScore += 5; break;
+    case 'serious': severityScore += 4; break;
+    case 'moderate': severityScore += 2; break;
+    case 'minor': severityScore += 1; break;
+  }
   
   // Risk factor adjustments
   if (riskFactors.includes('Advanced age (>75 years)')) severityScore += 1;
   if (riskFactors.includes('Multiple comorbidities')) severityScore += 1;
   if (riskFactors.includes('Cardiovascular comorbidities')) severityScore += 2;
   if (riskFactors.includes('History of adverse drug reactions')) severityScore += 1;
+  if (hasRiskFactor(riskFactors, HIGH_ANTICHOLINERGIC_BURDEN)) severityScore += 1;
+  if (riskFactors.some(factor => factor.startsWith(SEROTONERGIC_LOAD) && factor.includes('high serotonin syndrome risk'))) severityScore += 2;
   
   let severity: 'minor' | 'moderate' | 'major' | 'life_threatening';
   let reversibility: 'reversible' | 'partially_reversible' | 'irreversible';
@@ -411,6 +493,15 @@ function generateMonitoringRecommendations(
     recommendations.push('Assess for cardiac adverse effects');
   }
   
+  if (hasRiskFactor(riskFactors, HIGH_ANTICHOLINERGIC_BURDEN)) {
+    recommendations.push('Assess cognition and screen for delirium');
+    recommendations.push('Monitor for constipation, urinary retention and falls');
+  }
+  
+  if (hasRiskFactor(riskFactors, SEROTONERGIC_LOAD)) {
+    recommendations.push('Monitor for serotonin syndrome (agitation, tremor, clonus, hyperthermia, diaphoresis)');
+  }
+  
   // Time-based recommendations
   if (potentialHarm.time_to_onset.includes('hours')) {
     recommendations.push('Immediate monitoring required');
@@ -9,6 +9,9 @@ import { McpResponse, McpSuccessResponse } from "../../types/mcp.js";
 import { getResponseFormatter } from "../../services/responseFormatter.js";
 import { validateToolInput } from "../../utils/validators.js";
 import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
+import { GenericError, ErrorType, ErrorSeverity } from "../../types/errors.js";
+import { getInteractionCaseStore, InteractionCaseRecord } from "../../services/interactionCaseStore.js";
 
 // Define the Zod schema for interaction decision documentation input
 export const DocumentInteractionDecisionSchema = z.object({
@@ -35,6 +38,15 @@ export type DocumentInteractionDecisionInput = z.infer<typeof DocumentInteractio
 // Interaction decision documentation output
 export interface InteractionDecisionOutput {
   documentation_id: string;
+  case_summary: {
+    interaction_id: string;
+    patient_id: string;
+    interacting_entities: string;
+    interaction_severity: string;
+    mechanism: string;
+    patient_specific_risk: string;
+    recommended_strategy: string;
+  };
   audit_trail: {
     decision_recorded: string;
     decision_by: string;
@@ -87,7 +99,7 @@ export function registerDocumentInteractionDecisionTool(server: McpServer): void
 - outcome_if_known: Outcome information if available
 
 **Process:**
-1. Record decision details with timestamp
+1. Retrieve the interaction case and record decision details with timestamp
 2. Create audit trail for decision tracking
 3. Assess quality metrics
 4. Determine follow-up requirements
@@ -104,14 +116,39 @@ export function registerDocumentInteractionDecisionTool(server: McpServer): void
         // 1. Validate input
         const { data: validatedInput } = validateToolInput(DocumentInteractionDecisionSchema, input, "document_interaction_decision");
 
-        // 2. Process interaction decision documentation
-        const documentationOutput = processInteractionDecisionDocumentation(validatedInput);
+        // 2. Retrieve the interaction case and check the assessment belongs to it
+        const caseStore = getInteractionCaseStore();
+        const interactionCase = caseStore.getCase(validatedInput.interaction_id);
+        verifyAssessmentBelongsToCase(validatedInput, interactionCase);
+
+        // 3. Process interaction decision documentation
+        const documentationOutput = processInteractionDecisionDocumentation(validatedInput, interactionCase);
+
+        // 4. Record the decision on the interaction case
+        caseStore.recordDecision(validatedInput.interaction_id, {
+          ...documentationOutput,
+          decision_maker: validatedInput.decision_maker,
+          decision_datetime: validatedInput.decision_datetime,
+          decision: validatedInput.decision,
+          outcome_if_known: validatedInput.outcome_if_known ?? null
+        });
+
+        // 5. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "document_interaction_decision",
+          patient_id: interactionCase.patient_id,
+          actor: validatedInput.decision_maker,
+          input: validatedInput,
+          output: documentationOutput,
+          decision: `Decision ${validatedInput.decision.action_taken} documented`
+        });
 
-        // 3. Format response
+        // 6. Format response
         return responseFormatter.formatGenericToolResponse(documentationOutput, startTime);
 
       } catch (error) {
         const classifiedError = classifyError(error, `Error in document_interaction_decision tool handler`);
+        getAuditLog().recordToolError("document_interaction_decision", input, classifiedError);
         return createComprehensiveErrorResponse(classifiedError, null, { 
           toolName: "document_interaction_decision", 
           userInput: input 
@@ -123,26 +160,57 @@ export function registerDocumentInteractionDecisionTool(server: McpServer): void
 
 // ===== INTERACTION DECISION DOCUMENTATION PROCESSING =====
 
-function processInteractionDecisionDocumentation(input: DocumentInteractionDecisionInput): InteractionDecisionOutput {
+function verifyAssessmentBelongsToCase(input: DocumentInteractionDecisionInput, interactionCase: InteractionCaseRecord): void {
+  const caseAssessmentId = interactionCase.assessment?.assessment_id;
+  if (caseAssessmentId !== input.assessment_id) {
+    throw new GenericError(
+      ErrorType.INVALID_INPUT,
+      `Assessment '${input.assessment_id}' does not belong to interaction '${input.interaction_id}'`,
+      {
+        severity: ErrorSeverity.MEDIUM,
+        suggestions: caseAssessmentId
+          ? [`Use assessment_id '${caseAssessmentId}' recorded for this interaction`]
+          : ['Run assess_interaction_significance for this interaction before documenting a decision'],
+        details: { interaction_id: input.interaction_id, assessment_id: input.assessment_id, case_assessment_id: caseAssessmentId ?? null }
+      }
+    );
+  }
+}
+
+function processInteractionDecisionDocumentation(
+  input: DocumentInteractionDecisionInput,
+  interactionCase: InteractionCaseRecord
+): InteractionDecisionOutput {
   const documentationId = `doc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const interaction = interactionCase.interaction;
+  const entities = interaction.interacting_entities;
   
   // Create audit trail
   const auditTrail = createAuditTrail(input);
   
   // Assess quality metrics
-  const qualityMetrics = assessQualityMetrics(input);
+  const qualityMetrics = assessQualityMetrics(input, interactionCase);
   
   // Determine follow-up requirements
   const followUpRequired = determineFollowUpRequirements(input);
   
   // Generate clinical notes
-  const clinicalNotes = generateClinicalNotes(input);
+  const clinicalNotes = generateClinicalNotes(input, interactionCase);
   
   // Assess regulatory compliance
   const regulatoryCompliance = assessRegulatoryCompliance(input);
   
   return {
     documentation_id: documentationId,
+    case_summary: {
+      interaction_id: interaction.interaction_id,
+      patient_id: interactionCase.patient_id,
+      interacting_entities: `${entities.entity_1.name} + ${entities.entity_2.name}`,
+      interaction_severity: interaction.severity,
+      mechanism: interaction.mechanism,
+      patient_specific_risk: interactionCase.assessment?.patient_specific_risk ?? 'unknown',
+      recommended_strategy: interactionCase.management?.recommendations[0]?.strategy ?? 'none_recorded'
+    },
     audit_trail: auditTrail,
     quality_metrics: qualityMetrics,
     follow_up_required: followUpRequired,
@@ -192,21 +260,23 @@ function createAuditTrail(input: DocumentInteractionDecisionInput): {
   return auditTrail;
 }
 
-function assessQualityMetrics(input: DocumentInteractionDecisionInput): {
+function assessQualityMetrics(input: DocumentInteractionDecisionInput, interactionCase: InteractionCaseRecord): {
   intervention_prevented_harm: boolean;
   appropriate_management: boolean;
   documentation_complete: boolean;
 } {
+  const contraindicated = interactionCase.interaction.severity === 'contraindicated';
+  
   // Assess if intervention prevented harm
   const interventionPreventedHarm = (
     input.decision.action_taken !== 'continue_as_is' &&
     input.outcome_if_known?.interaction_occurred === false
   );
   
-  // Assess if management was appropriate
+  // Assess if management was appropriate; a contraindicated combination must not be continued as is
   const appropriateManagement = (
     input.decision.action_taken !== 'continue_as_is' ||
-    (input.decision.monitoring_plan_implemented && input.decision.patient_informed)
+    (!contraindicated && input.decision.monitoring_plan_implemented && input.decision.patient_informed)
   );
   
   // Assess if documentation is complete
@@ -264,8 +334,16 @@ function determineFollowUpRequirements(input: DocumentInteractionDecisionInput):
   };
 }
 
-function generateClinicalNotes(input: DocumentInteractionDecisionInput): string[] {
+function generateClinicalNotes(input: DocumentInteractionDecisionInput, interactionCase: InteractionCaseRecord): string[] {
   const notes: string[] = [];
+  const interaction = interactionCase.interaction;
+  
+  // Interaction summary
+  notes.push(`Interaction: ${interaction.interacting_entities.entity_1.name} + ${interaction.interacting_entities.entity_2.name} (${interaction.severity}) - ${interaction.mechanism}`);
+  
+  if (interaction.severity === 'contraindicated' && input.decision.action_taken === 'continue_as_is') {
+    notes.push('WARNING: Contraindicated combination continued without modification');
+  }
   
   // Decision summary
   notes.push(`Drug interaction decision: ${input.decision.action_taken}`);
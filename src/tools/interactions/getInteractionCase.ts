@@ -0,0 +1,108 @@
+/**
+ * Get Interaction Case Tool
+ * Retrieves the full history of a drug interaction case
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { McpResponse } from "../../types/mcp.js";
+import { getResponseFormatter } from "../../services/responseFormatter.js";
+import { validateToolInput } from "../../utils/validators.js";
+import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
+import { getInteractionCaseStore, InteractionCaseRecord } from "../../services/interactionCaseStore.js";
+
+// Define the Zod schema for interaction case retrieval input
+export const GetInteractionCaseSchema = z.object({
+  interaction_id: z.string().min(1).describe("Interaction ID from screen_interactions tool")
+});
+
+export type GetInteractionCaseInput = z.infer<typeof GetInteractionCaseSchema>;
+
+// Interaction case output
+export interface InteractionCaseOutput {
+  interaction_case: InteractionCaseRecord;
+  pending_steps: string[];
+}
+
+// ===== TOOL REGISTRATION =====
+
+export function registerGetInteractionCaseTool(server: McpServer): void {
+  server.registerTool(
+    "get_interaction_case",
+    {
+      title: "Get Interaction Case",
+      description: `Retrieves the full history of a drug interaction case from screening through documented decision.
+
+**Purpose:** Review everything recorded about an interaction: the screened mechanism and severity, patient factors, significance assessment, management recommendations and the documented decision.
+
+**Input Parameters:**
+- interaction_id: ID from interaction screening
+
+**Process:**
+1. Retrieve the interaction case
+2. Identify protocol steps not yet completed
+
+**Output:** Returns the interaction case with its step-by-step history and pending steps.`,
+      inputSchema: GetInteractionCaseSchema.shape,
+    },
+    async (input: GetInteractionCaseInput): Promise<McpResponse<InteractionCaseOutput>> => {
+      const startTime = Date.now();
+      const responseFormatter = getResponseFormatter();
+
+      try {
+        // 1. Validate input
+        const { data: validatedInput } = validateToolInput(GetInteractionCaseSchema, input, "get_interaction_case");
+
+        // 2. Retrieve interaction case
+        const interactionCase = getInteractionCaseStore().getCase(validatedInput.interaction_id);
+
+        const caseOutput: InteractionCaseOutput = {
+          interaction_case: interactionCase,
+          pending_steps: identifyPendingSteps(interactionCase)
+        };
+
+        // 3. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "get_interaction_case",
+          patient_id: caseOutput.interaction_case.patient_id,
+          actor: null,
+          input: validatedInput,
+          output: caseOutput,
+          decision: `Interaction case retrieved with status ${caseOutput.interaction_case.status}`
+        });
+
+        // 4. Format response
+        return responseFormatter.formatGenericToolResponse(caseOutput, startTime);
+
+      } catch (error) {
+        const classifiedError = classifyError(error, `Error in get_interaction_case tool handler`);
+        getAuditLog().recordToolError("get_interaction_case", input, classifiedError);
+        return createComprehensiveErrorResponse(classifiedError, null, {
+          toolName: "get_interaction_case",
+          userInput: input
+        });
+      }
+    }
+  );
+}
+
+// ===== INTERACTION CASE PROCESSING =====
+
+function identifyPendingSteps(interactionCase: InteractionCaseRecord): string[] {
+  const pendingSteps: string[] = [];
+
+  if (!interactionCase.assessment) {
+    pendingSteps.push('assess_interaction_significance');
+  }
+
+  if (!interactionCase.management) {
+    pendingSteps.push('recommend_interaction_management');
+  }
+
+  if (!interactionCase.decision) {
+    pendingSteps.push('document_interaction_decision');
+  }
+
+  return pendingSteps;
+}
@@ -9,6 +9,8 @@ import { McpResponse, McpSuccessResponse } from "../../types/mcp.js";
 import { getResponseFormatter } from "../../services/responseFormatter.js";
 import { validateToolInput } from "../../utils/validators.js";
 import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
+import { getInteractionCaseStore, InteractionCaseRecord } from "../../services/interactionCaseStore.js";
 
 // Define the Zod schema for interaction management recommendation input
 export const RecommendInteractionManagementSchema = z.object({
@@ -30,6 +32,15 @@ export type RecommendInteractionManagementInput = z.infer<typeof RecommendIntera
 
 // Management recommendation output
 export interface InteractionManagementOutput {
+  case_context: {
+    interaction_id: string;
+    assessment_id: string;
+    interacting_entities: string;
+    interaction_severity: string;
+    mechanism: string;
+    patient_specific_risk: string;
+    urgency: string;
+  };
   recommendations: Array<{
     strategy: 'avoid_combination' | 'use_alternative' | 'adjust_doses' | 'separate_administration' | 'monitor_closely';
     priority: number; // 1 = highest priority
@@ -81,7 +92,7 @@ export function registerRecommendInteractionManagementTool(server: McpServer): v
 - clinical_constraints: Formulary, cost, and patient considerations
 
 **Process:**
-1. Evaluate management strategies based on interaction severity
+1. Retrieve the interaction case and evaluate management strategies based on the screened mechanism, severity and patient-specific risk
 2. Consider available alternatives and constraints
 3. Develop monitoring and patient education plans
 4. Provide evidence-based rationale
@@ -98,14 +109,35 @@ export function registerRecommendInteractionManagementTool(server: McpServer): v
         // 1. Validate input
         const { data: validatedInput } = validateToolInput(RecommendInteractionManagementSchema, input, "recommend_interaction_management");
 
-        // 2. Process interaction management recommendations
-        const managementOutput = processInteractionManagementRecommendations(validatedInput);
+        // 2. Retrieve the interaction case the assessment belongs to
+        const caseStore = getInteractionCaseStore();
+        const interactionCase = caseStore.getCaseByAssessment(validatedInput.assessment_id);
+
+        // 3. Process interaction management recommendations
+        const managementOutput = processInteractionManagementRecommendations(validatedInput, interactionCase);
+
+        // 4. Record the recommendations on the interaction case
+        caseStore.recordManagement(validatedInput.assessment_id, {
+          ...managementOutput,
+          clinical_constraints: validatedInput.clinical_constraints
+        });
+
+        // 5. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "recommend_interaction_management",
+          patient_id: interactionCase.patient_id,
+          actor: null,
+          input: validatedInput,
+          output: managementOutput,
+          decision: `Top strategy ${managementOutput.recommendations[0]?.strategy ?? 'none'}`
+        });
 
-        // 3. Format response
+        // 6. Format response
         return responseFormatter.formatGenericToolResponse(managementOutput, startTime);
 
       } catch (error) {
         const classifiedError = classifyError(error, `Error in recommend_interaction_management tool handler`);
+        getAuditLog().recordToolError("recommend_interaction_management", input, classifiedError);
         return createComprehensiveErrorResponse(classifiedError, null, { 
           toolName: "recommend_interaction_management", 
           userInput: input 
@@ -117,20 +149,36 @@ export function registerRecommendInteractionManagementTool(server: McpServer): v
 
 // ===== INTERACTION MANAGEMENT RECOMMENDATION PROCESSING =====
 
-function processInteractionManagementRecommendations(input: RecommendInteractionManagementInput): InteractionManagementOutput {
+function processInteractionManagementRecommendations(
+  input: RecommendInteractionManagementInput,
+  interactionCase: InteractionCaseRecord
+): InteractionManagementOutput {
+  const interaction = interactionCase.interaction;
+  const assessment = interactionCase.assessment;
+  const entities = interaction.interacting_entities;
+  
   // Generate management strategies based on assessment and constraints
-  const recommendations = generateManagementRecommendations(input);
+  const recommendations = generateManagementRecommendations(input, interactionCase);
   
   // Create rationale based on evidence
-  const rationale = generateManagementRationale(input);
+  const rationale = generateManagementRationale(input, interactionCase);
   
   // Identify evidence base
   const evidenceBase = identifyEvidenceBase(input);
   
   // Determine consultation requirements
-  const consultationRecommended = determineConsultationRequirements(input);
+  const consultationRecommended = determineConsultationRequirements(input, interactionCase);
   
   return {
+    case_context: {
+      interaction_id: interaction.interaction_id,
+      assessment_id: input.assessment_id,
+      interacting_entities: `${entities.entity_1.name} + ${entities.entity_2.name}`,
+      interaction_severity: interaction.severity,
+      mechanism: interaction.mechanism,
+      patient_specific_risk: assessment?.patient_specific_risk ?? 'unknown',
+      urgency: assessment?.urgency ?? 'routine'
+    },
     recommendations,
     rationale,
     evidence_base: evidenceBase,
@@ -138,7 +186,10 @@ function processInteractionManagementRecommendations(input: RecommendInteraction
   };
 }
 
-function generateManagementRecommendations(input: RecommendInteractionManagementInput): Array<{
+function generateManagementRecommendations(
+  input: RecommendInteractionManagementInput,
+  interactionCase: InteractionCaseRecord
+): Array<{
   strategy: 'avoid_combination' | 'use_alternative' | 'adjust_doses' | 'separate_administration' | 'monitor_closely';
   priority: number;
   specific_actions: Array<{
@@ -181,6 +232,44 @@ function generateManagementRecommendations(input: RecommendInteractionManagement
     };
   }> = [];
   
+  const interaction = interactionCase.interaction;
+  const drugNames = [interaction.interacting_entities.entity_1, interaction.interacting_entities.entity_2]
+    .filter(entity => entity.type === 'drug')
+    .map(entity => entity.name);
+  const primaryDrug = drugNames[0] ?? interaction.interacting_entities.entity_1.name;
+  const affectedMedications = drugNames.length > 1 ? drugNames.join(' and ') : primaryDrug;
+  const warningEffects = interaction.clinical_effects;
+  
+  // Strategy 0: Avoid Combination (for contraindicated interactions)
+  if (interaction.severity === 'contraindicated') {
+    recommendations.push({
+      strategy: 'avoid_combination',
+      priority: 1,
+      specific_actions: [
+        {
+          action_type: 'discontinue',
+          medication_affected: primaryDrug,
+          details: `Do not combine ${interaction.interacting_entities.entity_1.name} with ${interaction.interacting_entities.entity_2.name}: ${interaction.mechanism}`,
+          implementation_timeline: 'Immediate'
+        }
+      ],
+      monitoring_plan: {
+        parameters_to_monitor: ['Signs of interaction effects until discontinued', 'Therapeutic response to replacement therapy'],
+        monitoring_frequency: 'Daily until combination stopped',
+        monitoring_duration: 'Until drug washout complete',
+        warning_signs: warningEffects
+      },
+      patient_education: {
+        key_points: [
+          `${primaryDrug} must not be used together with ${interaction.interacting_entities.entity_2.name}`,
+          'Do not restart the stopped medication without consulting your provider'
+        ],
+        warning_symptoms: warningEffects,
+        when_to_contact_provider: ['If any warning symptoms develop', 'Before starting any new medication']
+      }
+    });
+  }
+  
   // Strategy 1: Use Alternative (if available and appropriate)
   if (input.available_alternatives.length > 0) {
     const bestAlternative = selectBestAlternative(input.available_alternatives, input.clinical_constraints);
@@ -191,8 +280,8 @@ function generateManagementRecommendations(input: RecommendInteractionManagement
       specific_actions: [
         {
           action_type: 'substitute',
-          medication_affected: 'Current medication',
-          details: `Substitute with ${bestAlternative.drug_name} to avoid interaction`,
+          medication_affected: primaryDrug,
+          details: `Substitute ${primaryDrug} with ${bestAlternative.drug_name} to avoid interaction`,
           implementation_timeline: 'Immediate (within 24 hours)'
         }
       ],
@@ -222,13 +311,13 @@ function generateManagementRecommendations(input: RecommendInteractionManagement
       specific_actions: [
         {
           action_type: 'adjust_dose',
-          medication_affected: 'Both medications',
+          medication_affected: affectedMedications,
           details: 'Reduce doses of both medications to minimize interaction risk',
           implementation_timeline: 'Within 48 hours'
         },
         {
           action_type: 'add_monitoring',
-          medication_affected: 'Both medications',
+          medication_affected: affectedMedications,
           details: 'Implement enhanced monitoring for interaction effects',
           implementation_timeline: 'Immediate'
         }
@@ -237,7 +326,7 @@ function generateManagementRecommendations(input: RecommendInteractionManagement
         parameters_to_monitor: ['Drug levels', 'Therapeutic response', 'Adverse effects', 'Organ function'],
         monitoring_frequency: 'Weekly for first month',
         monitoring_duration: 'Duration of therapy',
-        warning_signs: ['Loss of therapeutic effect', 'Signs of toxicity', 'Organ dysfunction']
+        warning_signs: [...warningEffects, 'Loss of therapeutic effect', 'Organ dysfunction']
       },
       patient_education: {
         key_points: [
@@ -258,7 +347,7 @@ function generateManagementRecommendations(input: RecommendInteractionManagement
     specific_actions: [
       {
         action_type: 'adjust_timing',
-        medication_affected: 'Both medications',
+        medication_affected: affectedMedications,
         details: 'Separate administration times to minimize interaction',
         implementation_timeline: 'Immediate'
       }
@@ -287,16 +376,16 @@ function generateManagementRecommendations(input: RecommendInteractionManagement
     specific_actions: [
       {
         action_type: 'add_monitoring',
-        medication_affected: 'Both medications',
+        medication_affected: affectedMedications,
         details: 'Implement enhanced monitoring for potential interaction effects',
         implementation_timeline: 'Immediate'
       }
     ],
     monitoring_plan: {
       parameters_to_monitor: ['Therapeutic response', 'Adverse effects', 'Patient symptoms'],
-      monitoring_frequency: 'Monthly',
+      monitoring_frequency: interactionCase.assessment?.urgency === 'immediate' ? 'Daily' : 'Monthly',
       monitoring_duration: 'Duration of therapy',
-      warning_signs: ['Loss of therapeutic effect', 'Adverse effects', 'Patient concerns']
+      warning_signs: [...warningEffects, 'Loss of therapeutic effect', 'Patient concerns']
     },
     patient_education: {
       key_points: [
@@ -309,7 +398,8 @@ function generateManagementRecommendations(input: RecommendInteractionManagement
     }
   });
   
-  return recommendations;
+  // Renumber priorities in order of preference
+  return recommendations.map((recommendation, index) => ({ ...recommendation, priority: index + 1 }));
 }
 
 function selectBestAlternative(
@@ -323,10 +413,17 @@ function selectBestAlternative(
   return { drug_name: 'No alternative available', same_class: false, interaction_profile: 'Unknown' };
 }
 
-function generateManagementRationale(input: RecommendInteractionManagementInput): string {
+function generateManagementRationale(input: RecommendInteractionManagementInput, interactionCase: InteractionCaseRecord): string {
   const rationale: string[] = [];
+  const interaction = interactionCase.interaction;
+  const entities = interaction.interacting_entities;
   
   rationale.push('Management recommendations are based on interaction severity, patient-specific factors, and available alternatives.');
+  rationale.push(`${entities.entity_1.name} + ${entities.entity_2.name} is a ${interaction.severity} interaction: ${interaction.mechanism}.`);
+  
+  if (interactionCase.assessment) {
+    rationale.push(`Patient-specific risk was assessed as ${interactionCase.assessment.patient_specific_risk} (significance score ${interactionCase.assessment.clinical_significance_score}/10).`);
+  }
   
   if (input.available_alternatives.length > 0) {
     rationale.push('Alternative medications are available and should be considered as first-line management.');
@@ -365,21 +462,26 @@ function identifyEvidenceBase(input: RecommendInteractionManagementInput): {
   };
 }
 
-function determineConsultationRequirements(input: RecommendInteractionManagementInput): {
+function determineConsultationRequirements(input: RecommendInteractionManagementInput, interactionCase: InteractionCaseRecord): {
   required: boolean;
   specialist_type: 'clinical_pharmacist' | 'physician_specialist';
   urgency: string;
 } {
+  const severity = interactionCase.interaction.severity;
+  const assessedUrgency = interactionCase.assessment?.urgency;
+  
   // Determine if specialist consultation is needed
   const requiresConsultation = (
     input.available_alternatives.length === 0 ||
     input.clinical_constraints.treatment_urgency === 'emergency' ||
-    input.clinical_constraints.formulary_restrictions.length > 0
+    input.clinical_constraints.formulary_restrictions.length > 0 ||
+    severity === 'contraindicated' ||
+    interactionCase.assessment?.patient_specific_risk === 'very_high'
   );
   
   return {
     required: requiresConsultation,
-    specialist_type: 'clinical_pharmacist',
-    urgency: input.clinical_constraints.treatment_urgency === 'emergency' ? 'immediate' : 'within_24h'
+    specialist_type: severity === 'contraindicated' && input.available_alternatives.length === 0 ? 'physician_specialist' : 'clinical_pharmacist',
+    urgency: input.clinical_constraints.treatment_urgency === 'emergency' || assessedUrgency === 'immediate' ? 'immediate' : 'within_24h'
   };
 }
@@ -9,12 +9,25 @@ import { McpResponse, McpSuccessResponse } from "../../types/mcp.js";
 import { getResponseFormatter } from "../../services/responseFormatter.js";
 import { validateToolInput } from "../../utils/validators.js";
 import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
+import { getInteractionCaseStore } from "../../services/interactionCaseStore.js";
+import { getInteractionKnowledgeBase, InteractionKnowledgeBase, InteractionRule, KnowledgeBaseVersion } from "../../services/interactionKnowledgeBase.js";
+import { DrugTaxonomy, getDrugTaxonomy } from "../../services/drugClassification.js";
+import { resolveDrugName, ResolvedDrugName } from "../../services/drugNameNormalizer.js";
+import { getPharmacokineticInteractionEngine, PharmacokineticInteractionEngine, PharmacokineticPrediction } from "../../services/pharmacokineticInteractions.js";
+import { getDrugAttributeTable } from "../../services/drugAttributes.js";
+import { assessQtRisk, QtRiskAssessment } from "../../services/qtRiskScoring.js";
+import { assessMedicationLoad, MedicationLoadScores } from "../../services/medicationLoadScoring.js";
+import { AllergyMatch, getAllergyRules, RecordedAllergy } from "../../services/allergyScreening.js";
+import { getPregnancyLactationDataset, PregnancyLactationReview, PregnancyLactationWarning } from "../../services/pregnancyLactation.js";
+import { getTherapeuticDuplicationGroups, TherapeuticDuplication } from "../../services/therapeuticDuplication.js";
+import { DrugLabAlert, getDrugLabRules, LabValue } from "../../services/drugLabRules.js";
 
 // Define the Zod schema for interaction screening input
 export const ScreenInteractionsSchema = z.object({
   patient_id: z.string().min(1).describe("Unique patient identifier"),
   medications: z.array(z.object({
-    drug_name: z.string().describe("Generic drug name"),
+    drug_name: z.string().describe("Drug name (generic, brand or salt form; resolved to the ingredient)"),
     dose: z.string().describe("Dose with units"),
     frequency: z.string().describe("Dosing frequency"),
     route: z.string().describe("Route of administration"),
@@ -27,21 +40,40 @@ export const ScreenInteractionsSchema = z.object({
   })).describe("Patient medical conditions"),
   patient_characteristics: z.object({
     age: z.number().describe("Patient age in years"),
+    sex: z.enum(['female', 'male']).optional().describe("Patient sex, used for QT risk scoring"),
     pregnancy_status: z.boolean().describe("Whether patient is pregnant"),
+    gestational_age_weeks: z.number().min(0).max(45).optional().describe("Completed weeks of gestation, used for trimester-specific pregnancy warnings"),
     breastfeeding: z.boolean().describe("Whether patient is breastfeeding"),
     renal_function: z.enum(['normal', 'impaired']).describe("Renal function status"),
     hepatic_function: z.enum(['normal', 'impaired']).describe("Hepatic function status")
   }),
   dietary_supplements: z.array(z.string()).describe("List of dietary supplements"),
-  known_allergies: z.array(z.string()).describe("List of known drug allergies")
+  known_allergies: z.array(z.union([
+    z.string().describe("Allergy as free text (drug, brand, class or group such as 'sulfa'); treated as a true allergy"),
+    z.object({
+      substance: z.string().describe("Drug, brand, class or group the patient reacted to"),
+      reaction_type: z.enum(['allergy', 'intolerance']).describe("True (immune-mediated) allergy, or an intolerance such as nausea"),
+      reaction: z.string().optional().describe("Reaction observed, e.g. 'hives', 'anaphylaxis', 'GI upset'")
+    })
+  ])).describe("Known drug allergies and intolerances"),
+  recent_labs: z.object({
+    potassium_meq_l: z.number().optional().describe("Serum potassium in mEq/L"),
+    magnesium_mg_dl: z.number().optional().describe("Serum magnesium in mg/dL"),
+    qtc_ms: z.number().optional().describe("Most recent corrected QT interval in ms"),
+    egfr_ml_min_1_73m2: z.number().optional().describe("eGFR in mL/min/1.73m²"),
+    inr: z.number().optional().describe("International normalized ratio")
+  }).optional().describe("Recent labs and ECG, used for QT risk scoring and drug-laboratory checks")
 });
 
 export type ScreenInteractionsInput = z.infer<typeof ScreenInteractionsSchema>;
 
+// Medication with its drug name resolved to a canonical ingredient
+type ScreenedMedication = ScreenInteractionsInput['medications'][number] & { resolved_name: string };
+
 // Interaction types
 export interface DrugInteraction {
   interaction_id: string;
-  type: 'drug_drug' | 'drug_condition' | 'drug_food' | 'contraindication';
+  type: 'drug_drug' | 'drug_condition' | 'drug_food' | 'contraindication' | 'cumulative_qt_risk' | 'anticholinergic_burden' | 'serotonergic_load' | 'therapeutic_duplication' | 'drug_lab';
   severity: 'contraindicated' | 'serious' | 'moderate' | 'minor';
   management_level: 'use_alternative' | 'monitor_closely' | 'adjust_dose' | 'no_action';
   interacting_entities: {
@@ -50,7 +82,7 @@ export interface DrugInteraction {
       name: string;
     };
     entity_2: {
-      type: 'drug' | 'condition' | 'food';
+      type: 'drug' | 'condition' | 'food' | 'lab';
       name: string;
     };
   };
@@ -59,13 +91,34 @@ export interface DrugInteraction {
   onset: 'rapid' | 'delayed' | 'variable';
   documentation_level: 'established' | 'probable' | 'suspected' | 'theoretical';
   evidence_quality: 'high' | 'moderate' | 'low';
+  references: string[];
+  knowledge_base_rule_id: string | null; // Knowledge base rule that produced the finding, if any
+  pharmacokinetic_prediction: PharmacokineticPrediction | null; // Set when inferred from CYP450/P-gp profiles
 }
 
 // Interaction screening output
 export interface InteractionScreeningOutput {
   screening_id: string;
   screening_datetime: string;
+  knowledge_base: KnowledgeBaseVersion;
+  pharmacokinetic_profiles: KnowledgeBaseVersion;
+  resolved_drug_names: ResolvedDrugName[];
   interactions_found: DrugInteraction[];
+  allergy_screening: {
+    rules: KnowledgeBaseVersion;
+    unrecognized_allergies: string[]; // Not a known drug, class or allergy group; check manually
+  };
+  pregnancy_lactation: PregnancyLactationReview;
+  drug_lab_rules: KnowledgeBaseVersion;
+  therapeutic_duplication: {
+    groups: KnowledgeBaseVersion;
+    intentional_combinations: Array<{
+      combination: string; // Allowed combination, e.g. scheduled long-acting opioid with PRN short-acting opioid; not reported as a duplication
+      drug_names: string[];
+    }>;
+  };
+  qt_risk_assessment: QtRiskAssessment;
+  medication_load_scores: MedicationLoadScores;
   summary: {
     total_interactions: number;
     contraindicated_count: number;
@@ -91,18 +144,26 @@ export function registerScreenInteractionsTool(server: McpServer): void {
 - patient_id: Unique patient identifier
 - medications: List of current medications
 - patient_conditions: Patient medical conditions
-- patient_characteristics: Demographics and organ function
+- patient_characteristics: Demographics, pregnancy (with gestational age in weeks, optional), breastfeeding and organ function
 - dietary_supplements: Supplements being taken
-- known_allergies: Known drug allergies
+- known_allergies: Known drug allergies and intolerances, as names or objects saying whether each is a true allergy or an intolerance
+- recent_labs: Potassium, magnesium, QTc, eGFR and INR (optional)
 
 **Process:**
 1. Screen for drug-drug interactions (DDI)
 2. Screen for drug-condition interactions
 3. Screen for drug-food interactions
-4. Check contraindications
-5. Assess clinical significance
+4. Check contraindications, including drug-allergy matches by ingredient or class and cross-sensitivity (e.g. penicillin to cephalosporins, sulfonamide antibiotics, NSAIDs) with documented cross-reactivity rates; intolerances are reported but are not treated as allergies
+5. Check each drug against the pregnancy and lactation dataset: trimester-specific pregnancy risk (from gestational age) and lactation risk with relative infant dose
+6. Score cumulative QT prolongation risk across all QT-prolonging drugs (Tisdale score) and recommend ECG monitoring
+7. Total the Anticholinergic Cognitive Burden (ACB) score and count serotonergic agents to rate serotonin syndrome risk, listing the contributing drugs
+8. Check for therapeutic duplication: the same ingredient listed twice, or two drugs from one class such as two PPIs, an ACE inhibitor with an ARB, or IV and PO opioids. Intentional combinations (e.g. a scheduled long-acting opioid with a PRN short-acting opioid, basal with prandial insulin) are listed under therapeutic_duplication instead of being flagged
+9. Check drug-laboratory rules against recent_labs: digoxin or QT-prolonging drugs with low potassium, QT-prolonging drugs with low magnesium, metformin with low eGFR, ACE inhibitors, ARBs or aldosterone antagonists with high potassium, and warfarin with high INR. Each finding gives the lab value and the threshold it crossed
+10. Assess clinical significance
 
-**Output:** Returns detailed interaction analysis with severity levels and management recommendations.`,
+Drug-drug, drug-condition and drug-food rules come from the versioned interaction knowledge base (knowledge/interactions); the version used is reported in every response. Drug pairs without a rule are also checked for CYP3A4, 2D6, 2C9, 2C19, 1A2 and P-gp interactions inferred from substrate, inhibitor and inducer profiles (knowledge/pharmacokinetics), with the predicted exposure change in the mechanism.
+
+**Output:** Returns detailed interaction analysis with severity levels, references and management recommendations. Each interaction_id opens an interaction case used by assess_interaction_significance (which also weighs the ACB total and serotonergic agent count as risk factors), recommend_interaction_management and document_interaction_decision.`,
       inputSchema: ScreenInteractionsSchema.shape,
     },
     async (input: ScreenInteractionsInput): Promise<McpResponse<InteractionScreeningOutput>> => {
@@ -116,11 +177,28 @@ export function registerScreenInteractionsTool(server: McpServer): void {
         // 2. Process interaction screening
         const screeningOutput = processInteractionScreening(validatedInput);
 
-        // 3. Format response
+        // 3. Open an interaction case for each finding so later steps can build on it
+        const caseStore = getInteractionCaseStore();
+        for (const interaction of screeningOutput.interactions_found) {
+          caseStore.openCase(screeningOutput.screening_id, validatedInput, interaction, screeningOutput.medication_load_scores);
+        }
+
+        // 4. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "screen_interactions",
+          patient_id: validatedInput.patient_id,
+          actor: null,
+          input: validatedInput,
+          output: screeningOutput,
+          decision: `${screeningOutput.summary.total_interactions} interactions found (${screeningOutput.summary.contraindicated_count} contraindicated, ${screeningOutput.summary.serious_count} serious)`
+        });
+
+        // 5. Format response
         return responseFormatter.formatGenericToolResponse(screeningOutput, startTime);
 
       } catch (error) {
         const classifiedError = classifyError(error, `Error in screen_interactions tool handler`);
+        getAuditLog().recordToolError("screen_interactions", input, classifiedError);
         return createComprehensiveErrorResponse(classifiedError, null, { 
           toolName: "screen_interactions", 
           userInput: input 
@@ -135,19 +213,73 @@ export function registerScreenInteractionsTool(server: McpServer): void {
 function processInteractionScreening(input: ScreenInteractionsInput): InteractionScreeningOutput {
   const screeningId = `int_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   const screeningDatetime = new Date().toISOString();
+  const knowledgeBase = getInteractionKnowledgeBase();
+  const taxonomy = getDrugTaxonomy();
+  const pharmacokinetics = getPharmacokineticInteractionEngine();
+  
+  // Resolve brand names, salt forms and misspellings before any rule is matched
+  const resolvedDrugNames = input.medications.map(med => resolveDrugName(med.drug_name));
+  const medications: ScreenedMedication[] = input.medications.map((med, index) => ({
+    ...med,
+    resolved_name: resolvedDrugNames[index]?.resolved_name ?? med.drug_name
+  }));
   
   // Screen for different types of interactions
-  const drugDrugInteractions = screenDrugDrugInteractions(input.medications);
-  const drugConditionInteractions = screenDrugConditionInteractions(input.medications, input.patient_conditions);
-  const drugFoodInteractions = screenDrugFoodInteractions(input.medications, input.dietary_supplements);
-  const contraindications = screenContraindications(input.medications, input.patient_conditions, input.patient_characteristics);
+  const drugDrugInteractions = screenDrugDrugInteractions(medications, knowledgeBase, taxonomy, pharmacokinetics);
+  const drugConditionInteractions = screenDrugConditionInteractions(medications, input.patient_conditions, knowledgeBase, taxonomy);
+  const drugFoodInteractions = screenDrugFoodInteractions(medications, input.dietary_supplements, knowledgeBase, taxonomy);
+  const contraindications = screenContraindications(medications, input.patient_conditions, input.patient_characteristics, taxonomy);
+  const allergyRules = getAllergyRules();
+  const allergyScreening = allergyRules.screen(input.known_allergies.map(toRecordedAllergy), medications);
+  const allergyInteractions = allergyScreening.matches.map(buildAllergyInteraction);
+  const pregnancyLactation = getPregnancyLactationDataset().review(medications, {
+    pregnant: input.patient_characteristics.pregnancy_status || hasPregnancyCondition(input.patient_conditions),
+    gestational_age_weeks: input.patient_characteristics.gestational_age_weeks,
+    breastfeeding: input.patient_characteristics.breastfeeding
+  });
+  const pregnancyLactationInteractions = pregnancyLactation.warnings.map(buildPregnancyLactationInteraction);
+  
+  // QT risk builds up across the whole list, so it is scored once rather than per pair
+  const qtRiskAssessment = assessQtRisk({
+    medications,
+    conditions: input.patient_conditions,
+    age: input.patient_characteristics.age,
+    sex: input.patient_characteristics.sex,
+    potassium_meq_l: input.recent_labs?.potassium_meq_l,
+    magnesium_mg_dl: input.recent_labs?.magnesium_mg_dl,
+    qtc_ms: input.recent_labs?.qtc_ms
+  }, getDrugAttributeTable(), taxonomy);
+  const qtRiskInteractions = screenCumulativeQtRisk(qtRiskAssessment);
+  
+  // Anticholinergic burden and serotonergic load are also whole-list totals
+  const medicationLoadScores = assessMedicationLoad(medications, getDrugAttributeTable());
+  const medicationLoadInteractions = screenMedicationLoad(medicationLoadScores);
+  
+  const duplicationGroups = getTherapeuticDuplicationGroups();
+  const duplicationReview = duplicationGroups.review(medications);
+  const duplicationInteractions = duplicationReview.duplications.map(buildDuplicationInteraction);
+  
+  const drugLabRules = getDrugLabRules();
+  const labValues: LabValue[] = [];
+  const labs = input.recent_labs;
+  if (labs?.potassium_meq_l !== undefined) labValues.push(drugLabRules.labValue('potassium', labs.potassium_meq_l));
+  if (labs?.magnesium_mg_dl !== undefined) labValues.push(drugLabRules.labValue('magnesium', labs.magnesium_mg_dl));
+  if (labs?.egfr_ml_min_1_73m2 !== undefined) labValues.push(drugLabRules.labValue('egfr', labs.egfr_ml_min_1_73m2));
+  if (labs?.inr !== undefined) labValues.push(drugLabRules.labValue('inr', labs.inr));
+  const drugLabInteractions = drugLabRules.check(medications, labValues).map(buildDrugLabInteraction);
   
   // Combine all interactions
   const allInteractions = [
     ...drugDrugInteractions,
     ...drugConditionInteractions,
     ...drugFoodInteractions,
-    ...contraindications
+    ...contraindications,
+    ...allergyInteractions,
+    ...pregnancyLactationInteractions,
+    ...qtRiskInteractions,
+    ...medicationLoadInteractions,
+    ...duplicationInteractions,
+    ...drugLabInteractions
   ];
   
   // Generate summary
@@ -156,45 +288,37 @@ function processInteractionScreening(input: ScreenInteractionsInput): Interactio
   return {
     screening_id: screeningId,
     screening_datetime: screeningDatetime,
+    knowledge_base: knowledgeBase.version,
+    pharmacokinetic_profiles: pharmacokinetics.version,
+    resolved_drug_names: resolvedDrugNames,
     interactions_found: allInteractions,
+    allergy_screening: {
+      rules: allergyRules.version,
+      unrecognized_allergies: allergyScreening.unrecognized_allergies
+    },
+    pregnancy_lactation: pregnancyLactation,
+    drug_lab_rules: drugLabRules.version,
+    therapeutic_duplication: {
+      groups: duplicationGroups.version,
+      intentional_combinations: duplicationReview.intentional_combinations.map(combination => ({
+        combination: combination.description,
+        drug_names: combination.medications.map(medication => medication.drug_name)
+      }))
+    },
+    qt_risk_assessment: qtRiskAssessment,
+    medication_load_scores: medicationLoadScores,
     summary
   };
 }
 
-function screenDrugDrugInteractions(medications: Array<{
-  drug_name: string;
-  dose: string;
-  frequency: string;
-  route: string;
-  start_date: string;
-}>): DrugInteraction[] {
+function screenDrugDrugInteractions(
+  medications: ScreenedMedication[],
+  knowledgeBase: InteractionKnowledgeBase,
+  taxonomy: DrugTaxonomy,
+  pharmacokinetics: PharmacokineticInteractionEngine
+): DrugInteraction[] {
   const interactions: DrugInteraction[] = [];
   
-  // Known drug-drug interactions database (simplified)
-  const knownInteractions = [
-    {
-      drug1: 'warfarin',
-      drug2: 'aspirin',
-      severity: 'serious' as const,
-      mechanism: 'Increased bleeding risk due to dual antiplatelet/anticoagulant effects',
-      effects: ['Increased bleeding risk', 'Bruising', 'Gastrointestinal bleeding']
-    },
-    {
-      drug1: 'digoxin',
-      drug2: 'furosemide',
-      severity: 'moderate' as const,
-      mechanism: 'Furosemide-induced hypokalemia increases digoxin toxicity risk',
-      effects: ['Digoxin toxicity', 'Arrhythmias', 'Nausea and vomiting']
-    },
-    {
-      drug1: 'phenytoin',
-      drug2: 'warfarin',
-      severity: 'moderate' as const,
-      mechanism: 'Phenytoin induces warfarin metabolism, decreasing anticoagulant effect',
-      effects: ['Decreased warfarin effectiveness', 'Increased thrombosis risk']
-    }
-  ];
-  
   // Check for interactions between medications
   for (let i = 0; i < medications.length; i++) {
     for (let j = i + 1; j < medications.length; j++) {
@@ -203,30 +327,30 @@ function screenDrugDrugInteractions(medications: Array<{
       
       if (!med1Data || !med2Data) continue;
       
-      const med1 = med1Data.drug_name.toLowerCase();
-      const med2 = med2Data.drug_name.toLowerCase();
+      const med1 = med1Data.resolved_name;
+      const med2 = med2Data.resolved_name;
       
-      const interaction = knownInteractions.find(int => 
-        (int.drug1 === med1 && int.drug2 === med2) ||
-        (int.drug1 === med2 && int.drug2 === med1)
+      // Rules may name ingredients or classes, so resolve both drugs through the taxonomy
+      const rule = knowledgeBase.drug_drug.find(entry => 
+        (taxonomy.matches(med1, entry.drug_1) && taxonomy.matches(med2, entry.drug_2)) ||
+        (taxonomy.matches(med2, entry.drug_1) && taxonomy.matches(med1, entry.drug_2))
       );
       
-      if (interaction) {
-        interactions.push({
-          interaction_id: `ddi_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
-          type: 'drug_drug',
-          severity: interaction.severity,
-          management_level: interaction.severity === 'serious' ? 'monitor_closely' : 'adjust_dose',
-          interacting_entities: {
-            entity_1: { type: 'drug', name: med1Data.drug_name },
-            entity_2: { type: 'drug', name: med2Data.drug_name }
-          },
-          mechanism: interaction.mechanism,
-          clinical_effects: interaction.effects,
-          onset: 'variable',
-          documentation_level: 'established',
-          evidence_quality: 'high'
-        });
+      if (rule) {
+        interactions.push(buildInteraction('ddi', 'drug_drug', rule,
+          { type: 'drug', name: med1Data.drug_name },
+          { type: 'drug', name: med2Data.drug_name }
+        ));
+        continue;
+      }
+      
+      // No curated rule: infer from enzyme and transporter profiles, in each direction
+      const directions: Array<[ScreenedMedication, ScreenedMedication]> = [[med1Data, med2Data], [med2Data, med1Data]];
+      for (const [affected, interacting] of directions) {
+        const prediction = pharmacokinetics.predict(affected.resolved_name, interacting.resolved_name);
+        if (prediction) {
+          interactions.push(buildPharmacokineticInteraction(prediction, affected, interacting));
+        }
       }
     }
   }
@@ -234,56 +358,77 @@ function screenDrugDrugInteractions(medications: Array<{
   return interactions;
 }
 
+function buildPharmacokineticInteraction(
+  prediction: PharmacokineticPrediction,
+  affected: ScreenedMedication,
+  interacting: ScreenedMedication
+): DrugInteraction {
+  // Severity follows the predicted fold change in exposure, one step higher for narrow therapeutic index drugs
+  const levels: DrugInteraction['severity'][] = ['minor', 'moderate', 'serious'];
+  const baseLevel = prediction.fold_change >= 5 ? 2 : prediction.fold_change >= 2 ? 1 : 0;
+  const severity = levels[Math.min(baseLevel + (prediction.narrow_therapeutic_index ? 1 : 0), 2)] ?? 'minor';
+  
+  const managementLevel: DrugInteraction['management_level'] =
+    prediction.fold_change >= 5 ? 'use_alternative' :
+    prediction.narrow_therapeutic_index ? 'monitor_closely' :
+    prediction.fold_change >= 2 ? 'adjust_dose' : 'no_action';
+  
+  const drug = affected.drug_name;
+  const increased = prediction.exposure_change === 'increase';
+  const clinicalEffects = prediction.measured_moiety === 'active_metabolite'
+    ? [`${increased ? 'Increased' : 'Reduced'} formation of the active metabolite of ${drug}`,
+       increased ? `Greater risk of ${drug} toxicity` : `Possible loss of ${drug} efficacy`]
+    : [increased
+        ? `Increased ${drug} concentrations (predicted ${prediction.fold_change.toFixed(1)}-fold AUC)`
+        : `Reduced ${drug} concentrations (predicted ${Math.round((1 - prediction.predicted_exposure_ratio) * 100)}% lower AUC)`,
+       increased ? `Greater risk of dose-related ${drug} adverse effects` : `Possible loss of ${drug} efficacy`];
+  
+  // Inhibition acts within days; induction takes one to two weeks to develop or wear off
+  const effects = new Set(prediction.pathway_effects.map(effect => effect.effect));
+  const onset = effects.size > 1 ? 'variable' : effects.has('induction') ? 'delayed' : 'rapid';
+  
+  return {
+    interaction_id: `pki_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+    type: 'drug_drug',
+    severity,
+    management_level: managementLevel,
+    interacting_entities: {
+      entity_1: { type: 'drug', name: affected.drug_name },
+      entity_2: { type: 'drug', name: interacting.drug_name }
+    },
+    mechanism: prediction.summary,
+    clinical_effects: clinicalEffects,
+    onset,
+    documentation_level: 'theoretical',
+    evidence_quality: 'moderate',
+    references: prediction.references,
+    knowledge_base_rule_id: null,
+    pharmacokinetic_prediction: prediction
+  };
+}
+
 function screenDrugConditionInteractions(
-  medications: Array<{ drug_name: string; dose: string; frequency: string; route: string; start_date: string; }>,
-  conditions: Array<{ condition: string; status: string; severity: string; }>
+  medications: ScreenedMedication[],
+  conditions: Array<{ condition: string; status: string; severity: string; }>,
+  knowledgeBase: InteractionKnowledgeBase,
+  taxonomy: DrugTaxonomy
 ): DrugInteraction[] {
   const interactions: DrugInteraction[] = [];
   
-  // Known drug-condition interactions (simplified)
-  const knownConditionInteractions = [
-    {
-      drug: 'metformin',
-      condition: 'renal_failure',
-      severity: 'contraindicated' as const,
-      mechanism: 'Metformin contraindicated in severe renal impairment due to lactic acidosis risk',
-      effects: ['Lactic acidosis', 'Renal failure progression']
-    },
-    {
-      drug: 'ace_inhibitor',
-      condition: 'pregnancy',
-      severity: 'contraindicated' as const,
-      mechanism: 'ACE inhibitors contraindicated in pregnancy due to fetal toxicity',
-      effects: ['Fetal malformations', 'Neonatal renal failure']
-    }
-  ];
-  
   // Check each medication against patient conditions
   for (const medication of medications) {
     for (const condition of conditions) {
-      const drugName = medication.drug_name.toLowerCase();
       const conditionName = condition.condition.toLowerCase();
       
-      const interaction = knownConditionInteractions.find(int => 
-        int.drug === drugName && conditionName.includes(int.condition)
+      const rule = knowledgeBase.drug_condition.find(entry => 
+        taxonomy.matches(medication.resolved_name, entry.drug) && entry.condition_terms.some(term => conditionName.includes(term.toLowerCase()))
       );
       
-      if (interaction) {
-        interactions.push({
-          interaction_id: `dci_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
-          type: 'drug_condition',
-          severity: interaction.severity,
-          management_level: interaction.severity === 'contraindicated' ? 'use_alternative' : 'monitor_closely',
-          interacting_entities: {
-            entity_1: { type: 'drug', name: medication.drug_name },
-            entity_2: { type: 'condition', name: condition.condition }
-          },
-          mechanism: interaction.mechanism,
-          clinical_effects: interaction.effects,
-          onset: 'delayed',
-          documentation_level: 'established',
-          evidence_quality: 'high'
-        });
+      if (rule) {
+        interactions.push(buildInteraction('dci', 'drug_condition', rule,
+          { type: 'drug', name: medication.drug_name },
+          { type: 'condition', name: condition.condition }
+        ));
       }
     }
   }
@@ -291,56 +436,36 @@ function screenDrugConditionInteractions(
   return interactions;
 }
 
+/**
+ * A pregnancy recorded as a current condition counts even when pregnancy_status was not set,
+ * so the pregnancy dataset rather than a separate condition rule warns about it.
+ */
+function hasPregnancyCondition(conditions: Array<{ condition: string; status: string; }>): boolean {
+  return conditions.some(condition => condition.status !== 'history' && /pregnan/i.test(condition.condition));
+}
+
 function screenDrugFoodInteractions(
-  medications: Array<{ drug_name: string; dose: string; frequency: string; route: string; start_date: string; }>,
-  supplements: string[]
+  medications: ScreenedMedication[],
+  supplements: string[],
+  knowledgeBase: InteractionKnowledgeBase,
+  taxonomy: DrugTaxonomy
 ): DrugInteraction[] {
   const interactions: DrugInteraction[] = [];
   
-  // Known drug-food interactions (simplified)
-  const knownFoodInteractions = [
-    {
-      drug: 'warfarin',
-      food: 'vitamin_k',
-      severity: 'moderate' as const,
-      mechanism: 'Vitamin K antagonizes warfarin effect',
-      effects: ['Decreased anticoagulant effect', 'Increased thrombosis risk']
-    },
-    {
-      drug: 'grapefruit',
-      food: 'statins',
-      severity: 'moderate' as const,
-      mechanism: 'Grapefruit inhibits CYP3A4, increasing statin levels',
-      effects: ['Increased statin levels', 'Muscle toxicity risk']
-    }
-  ];
-  
   // Check for food interactions
   for (const medication of medications) {
     for (const supplement of supplements) {
-      const drugName = medication.drug_name.toLowerCase();
       const supplementName = supplement.toLowerCase();
       
-      const interaction = knownFoodInteractions.find(int => 
-        int.drug === drugName && supplementName.includes(int.food)
+      const rule = knowledgeBase.drug_food.find(entry => 
+        taxonomy.matches(medication.resolved_name, entry.drug) && entry.food_terms.some(term => supplementName.includes(term.toLowerCase()))
       );
       
-      if (interaction) {
-        interactions.push({
-          interaction_id: `dfi_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
-          type: 'drug_food',
-          severity: interaction.severity,
-          management_level: 'adjust_dose',
-          interacting_entities: {
-            entity_1: { type: 'drug', name: medication.drug_name },
-            entity_2: { type: 'food', name: supplement }
-          },
-          mechanism: interaction.mechanism,
-          clinical_effects: interaction.effects,
-          onset: 'delayed',
-          documentation_level: 'established',
-          evidence_quality: 'high'
-        });
+      if (rule) {
+        interactions.push(buildInteraction('dfi', 'drug_food', rule,
+          { type: 'drug', name: medication.drug_name },
+          { type: 'food', name: supplement }
+        ));
       }
     }
   }
@@ -348,40 +473,48 @@ function screenDrugFoodInteractions(
   return interactions;
 }
 
+function buildInteraction(
+  idPrefix: string,
+  type: DrugInteraction['type'],
+  rule: InteractionRule,
+  entity1: DrugInteraction['interacting_entities']['entity_1'],
+  entity2: DrugInteraction['interacting_entities']['entity_2']
+): DrugInteraction {
+  return {
+    interaction_id: `${idPrefix}_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+    type,
+    severity: rule.severity,
+    management_level: rule.management_level,
+    interacting_entities: {
+      entity_1: entity1,
+      entity_2: entity2
+    },
+    mechanism: rule.mechanism,
+    clinical_effects: rule.clinical_effects,
+    onset: rule.onset,
+    documentation_level: rule.documentation_level,
+    evidence_quality: rule.evidence_quality,
+    references: rule.references,
+    knowledge_base_rule_id: rule.id,
+    pharmacokinetic_prediction: null
+  };
+}
+
 function screenContraindications(
-  medications: Array<{ drug_name: string; dose: string; frequency: string; route: string; start_date: string; }>,
+  medications: ScreenedMedication[],
   conditions: Array<{ condition: string; status: string; severity: string; }>,
-  characteristics: { age: number; pregnancy_status: boolean; breastfeeding: boolean; renal_function: string; hepatic_function: string; }
+  characteristics: { age: number; pregnancy_status: boolean; breastfeeding: boolean; renal_function: string; hepatic_function: string; },
+  taxonomy: DrugTaxonomy
 ): DrugInteraction[] {
   const interactions: DrugInteraction[] = [];
   
   // Check for contraindications based on patient characteristics
   for (const medication of medications) {
-    const drugName = medication.drug_name.toLowerCase();
-    
-    // Pregnancy contraindications
-    if (characteristics.pregnancy_status && 
-        (drugName.includes('warfarin') || drugName.includes('ace') || drugName.includes('statins'))) {
-      interactions.push({
-        interaction_id: `contra_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
-        type: 'contraindication',
-        severity: 'contraindicated',
-        management_level: 'use_alternative',
-        interacting_entities: {
-          entity_1: { type: 'drug', name: medication.drug_name },
-          entity_2: { type: 'condition', name: 'Pregnancy' }
-        },
-        mechanism: 'Drug contraindicated in pregnancy due to fetal toxicity risk',
-        clinical_effects: ['Fetal malformations', 'Pregnancy complications'],
-        onset: 'delayed',
-        documentation_level: 'established',
-        evidence_quality: 'high'
-      });
-    }
+    const inAnyClass = (targets: string[]) => targets.some(target => taxonomy.matches(medication.resolved_name, target));
     
     // Renal function contraindications
     if (characteristics.renal_function === 'impaired' && 
-        (drugName.includes('metformin') || drugName.includes('nsaid'))) {
+        inAnyClass(['biguanide', 'nsaid'])) {
       interactions.push({
         interaction_id: `contra_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
         type: 'contraindication',
@@ -395,7 +528,10 @@ function screenContraindications(
         clinical_effects: ['Renal toxicity', 'Drug accumulation'],
         onset: 'delayed',
         documentation_level: 'established',
-        evidence_quality: 'high'
+        evidence_quality: 'high',
+        references: [],
+        knowledge_base_rule_id: null,
+        pharmacokinetic_prediction: null
       });
     }
   }
@@ -403,6 +539,245 @@ function screenContraindications(
   return interactions;
 }
 
+function toRecordedAllergy(allergy: ScreenInteractionsInput['known_allergies'][number]): RecordedAllergy {
+  if (typeof allergy === 'string') {
+    return { substance: allergy, reaction_type: 'unspecified', reaction: null };
+  }
+  return { substance: allergy.substance, reaction_type: allergy.reaction_type, reaction: allergy.reaction ?? null };
+}
+
+function buildAllergyInteraction(match: AllergyMatch): DrugInteraction {
+  const { allergy, cross_sensitivity: rule } = match;
+  const recorded = `${allergy.substance}${allergy.reaction ? ` (${allergy.reaction})` : ''}`;
+  const isIntolerance = allergy.reaction_type === 'intolerance';
+  const base = {
+    interaction_id: `alg_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+    type: 'contraindication' as const,
+    interacting_entities: {
+      entity_1: { type: 'drug' as const, name: match.drug_name },
+      entity_2: { type: 'condition' as const, name: `${isIntolerance ? 'Intolerance' : 'Allergy'}: ${recorded}` }
+    },
+    onset: 'rapid' as const,
+    knowledge_base_rule_id: rule?.id ?? null,
+    pharmacokinetic_prediction: null
+  };
+  const unspecifiedNote = allergy.reaction_type === 'unspecified'
+    ? ' Reaction type not recorded; treated as a true allergy until clarified.'
+    : '';
+  
+  if (isIntolerance) {
+    return {
+      ...base,
+      severity: 'moderate',
+      management_level: 'monitor_closely',
+      mechanism: `Documented intolerance to ${recorded}, which ${describeAllergyMatch(match)}. An intolerance is a non-immune adverse effect, not an allergy: the drug is not contraindicated, but the same effect may recur. Consider dose adjustment or supportive measures, or an alternative if the effect was poorly tolerated.`,
+      clinical_effects: [allergy.reaction ?? 'Recurrence of the previous adverse effect'],
+      documentation_level: 'established',
+      evidence_quality: 'moderate',
+      references: []
+    };
+  }
+  
+  if (rule) {
+    return {
+      ...base,
+      severity: rule.severity,
+      management_level: rule.management_level,
+      mechanism: `Cross-sensitivity: documented allergy to ${recorded}; ${match.resolved_name} ${describeAllergyMatch(match)}. Documented cross-reactivity: ${rule.cross_reactivity}. ${rule.recommendation}.${unspecifiedNote}`,
+      clinical_effects: ['Hypersensitivity reaction', 'Anaphylaxis (IgE-mediated reactions)', 'Rash'],
+      documentation_level: 'probable',
+      evidence_quality: 'moderate',
+      references: rule.references
+    };
+  }
+  
+  return {
+    ...base,
+    severity: 'contraindicated',
+    management_level: 'use_alternative',
+    mechanism: `Documented allergy to ${recorded}, which ${describeAllergyMatch(match)}. Do not administer; choose an agent from an unrelated class.${unspecifiedNote}`,
+    clinical_effects: ['Hypersensitivity reaction', 'Anaphylaxis', 'Severe cutaneous reaction'],
+    documentation_level: 'established',
+    evidence_quality: 'high',
+    references: []
+  };
+}
+
+function describeAllergyMatch(match: AllergyMatch): string {
+  switch (match.match_type) {
+    case 'ingredient': return `is the same ingredient as ${match.drug_name} (${match.resolved_name})`;
+    case 'class': return `includes ${match.drug_name} (${match.resolved_name}, member of ${match.allergy_resolved_as})`;
+    case 'cross_sensitivity': return `is in a cross-reactive group (${match.cross_reactive_group})`;
+  }
+}
+
+function buildPregnancyLactationInteraction(warning: PregnancyLactationWarning): DrugInteraction {
+  const isPregnancy = warning.context === 'pregnancy';
+  const condition = isPregnancy
+    ? `Pregnancy${warning.trimester ? ` (${warning.trimester} trimester)` : ''}`
+    : 'Breastfeeding';
+  const severity: Record<PregnancyLactationWarning['risk'], DrugInteraction['severity']> = {
+    contraindicated: 'contraindicated',
+    avoid: 'serious',
+    caution: 'moderate'
+  };
+  
+  return {
+    interaction_id: `${isPregnancy ? 'preg' : 'lact'}_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+    type: 'contraindication',
+    severity: severity[warning.risk],
+    management_level: warning.risk === 'caution' ? 'monitor_closely' : 'use_alternative',
+    interacting_entities: {
+      entity_1: { type: 'drug', name: warning.drug_name },
+      entity_2: { type: 'condition', name: condition }
+    },
+    mechanism: `${warning.resolved_name}: ${warning.risk} in ${condition.toLowerCase()}. ${warning.summary}`,
+    clinical_effects: isPregnancy
+      ? ['Fetal or neonatal harm', 'Pregnancy complications']
+      : ['Infant exposure through breast milk', ...(warning.infant_exposure?.infant_monitoring ? [warning.infant_exposure.infant_monitoring] : [])],
+    onset: 'delayed',
+    documentation_level: 'established',
+    evidence_quality: 'moderate',
+    references: warning.references,
+    knowledge_base_rule_id: null,
+    pharmacokinetic_prediction: null
+  };
+}
+
+function screenCumulativeQtRisk(assessment: QtRiskAssessment): DrugInteraction[] {
+  const drugs = assessment.qt_prolonging_drugs;
+  
+  // A single QT-prolonging drug in a low-risk patient is not reported
+  if (drugs.length === 0 || (drugs.length === 1 && assessment.risk_category === 'low')) {
+    return [];
+  }
+  
+  const presentFactors = assessment.score_components
+    .filter(component => component.present && !component.factor.includes('QT-prolonging drug'))
+    .map(component => component.factor);
+  const riskFactors = [...presentFactors, ...assessment.additional_risk_factors];
+  const severity = assessment.risk_category === 'high' ? 'serious' : assessment.risk_category === 'moderate' ? 'moderate' : 'minor';
+  const drugList = drugs.map(drug => `${drug.resolved_name}: ${drug.qt_risk} risk`).join(', ');
+  const ecgPlan = `${assessment.ecg_monitoring.baseline_ecg_required ? 'Baseline 12-lead ECG. ' : ''}${assessment.ecg_monitoring.follow_up}`;
+  
+  return [{
+    interaction_id: `qtr_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+    type: 'cumulative_qt_risk',
+    severity,
+    management_level: assessment.risk_category === 'high' ? 'use_alternative' : 'monitor_closely',
+    interacting_entities: {
+      entity_1: { type: 'drug', name: drugs.map(drug => drug.drug_name).join(', ') },
+      entity_2: { type: 'condition', name: `Cumulative QT prolongation risk (${assessment.score_name} ${assessment.total_score}, ${assessment.risk_category})` }
+    },
+    mechanism: `Additive QT prolongation from ${drugs.length} QT-prolonging drug(s) (${drugList})` +
+      `. ${riskFactors.length > 0 ? `Risk factors: ${riskFactors.join(', ')}. ` : ''}Recommended ECG monitoring: ${ecgPlan}`,
+    clinical_effects: ['QTc prolongation', 'Torsades de pointes', 'Sudden cardiac death'],
+    onset: 'variable',
+    documentation_level: 'established',
+    evidence_quality: 'high',
+    references: assessment.sources,
+    knowledge_base_rule_id: null,
+    pharmacokinetic_prediction: null
+  }];
+}
+
+function screenMedicationLoad(scores: MedicationLoadScores): DrugInteraction[] {
+  const interactions: DrugInteraction[] = [];
+  const anticholinergic = scores.anticholinergic_burden;
+  const serotonergic = scores.serotonergic_load;
+  
+  // Reported once the ACB total is clinically relevant (3 or more)
+  if (anticholinergic.burden_level === 'clinically_relevant' || anticholinergic.burden_level === 'high') {
+    const drugList = anticholinergic.contributing_drugs.map(drug => `${drug.resolved_name}: ${drug.acb_score}`).join(', ');
+    interactions.push({
+      interaction_id: `acb_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+      type: 'anticholinergic_burden',
+      severity: anticholinergic.burden_level === 'high' ? 'serious' : 'moderate',
+      management_level: anticholinergic.burden_level === 'high' ? 'use_alternative' : 'monitor_closely',
+      interacting_entities: {
+        entity_1: { type: 'drug', name: anticholinergic.contributing_drugs.map(drug => drug.drug_name).join(', ') },
+        entity_2: { type: 'condition', name: `Anticholinergic burden (ACB score ${anticholinergic.total_score})` }
+      },
+      mechanism: `Additive anticholinergic effects from ${anticholinergic.contributing_drugs.length} drug(s) (${drugList}). ${anticholinergic.recommendations.join('. ')}`,
+      clinical_effects: ['Cognitive impairment', 'Delirium', 'Falls', 'Constipation', 'Urinary retention'],
+      onset: 'variable',
+      documentation_level: 'established',
+      evidence_quality: 'moderate',
+      references: scores.sources,
+      knowledge_base_rule_id: null,
+      pharmacokinetic_prediction: null
+    });
+  }
+  
+  // Reported once two or more serotonergic agents are combined
+  if (serotonergic.serotonin_syndrome_risk === 'moderate' || serotonergic.serotonin_syndrome_risk === 'high') {
+    const drugList = serotonergic.contributing_drugs.map(drug => `${drug.resolved_name}: ${drug.mechanism === 'mao_inhibitor' ? 'MAO inhibitor' : drug.mechanism.replace(/_/g, ' ')}`).join(', ');
+    const maoCombination = serotonergic.includes_mao_inhibitor;
+    interactions.push({
+      interaction_id: `ser_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+      type: 'serotonergic_load',
+      severity: maoCombination ? 'contraindicated' : serotonergic.serotonin_syndrome_risk === 'high' ? 'serious' : 'moderate',
+      management_level: maoCombination ? 'use_alternative' : 'monitor_closely',
+      interacting_entities: {
+        entity_1: { type: 'drug', name: serotonergic.contributing_drugs.map(drug => drug.drug_name).join(', ') },
+        entity_2: { type: 'condition', name: `Serotonin syndrome risk (${serotonergic.serotonergic_agent_count} serotonergic agents, ${serotonergic.serotonin_syndrome_risk})` }
+      },
+      mechanism: `Additive serotonergic activity from ${serotonergic.serotonergic_agent_count} serotonergic agents (${drugList}). ${serotonergic.recommendations.join('. ')}`,
+      clinical_effects: ['Serotonin syndrome', 'Agitation', 'Clonus and hyperreflexia', 'Hyperthermia'],
+      onset: 'rapid',
+      documentation_level: maoCombination ? 'established' : 'probable',
+      evidence_quality: 'moderate',
+      references: scores.sources,
+      knowledge_base_rule_id: null,
+      pharmacokinetic_prediction: null
+    });
+  }
+  
+  return interactions;
+}
+
+function buildDuplicationInteraction(duplication: TherapeuticDuplication<ScreenedMedication>): DrugInteraction {
+  return {
+    interaction_id: `dup_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+    type: 'therapeutic_duplication',
+    severity: duplication.severity,
+    management_level: duplication.management_level,
+    interacting_entities: {
+      entity_1: { type: 'drug', name: duplication.medications.map(medication => medication.drug_name).join(', ') },
+      entity_2: { type: 'condition', name: `Therapeutic duplication (${duplication.duplication_type === 'same_ingredient' ? 'same ingredient' : 'same class'}: ${duplication.group_name})` }
+    },
+    mechanism: `${duplication.description}. ${duplication.recommendation}`,
+    clinical_effects: duplication.clinical_effects,
+    onset: 'variable',
+    documentation_level: 'established',
+    evidence_quality: 'moderate',
+    references: duplication.references,
+    knowledge_base_rule_id: duplication.group_id,
+    pharmacokinetic_prediction: null
+  };
+}
+
+function buildDrugLabInteraction(alert: DrugLabAlert): DrugInteraction {
+  return {
+    interaction_id: `lab_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+    type: 'drug_lab',
+    severity: alert.severity,
+    management_level: alert.management_level,
+    interacting_entities: {
+      entity_1: { type: 'drug', name: alert.medications.map(medication => medication.drug_name).join(', ') },
+      entity_2: { type: 'lab', name: `${alert.lab_name} ${alert.qualifier ?? ''}${alert.value}${alert.unit ? ` ${alert.unit}` : ''} (${alert.comparison} ${alert.threshold})` }
+    },
+    mechanism: `${alert.message}. ${alert.effect}. ${alert.recommendation}`,
+    clinical_effects: [alert.effect],
+    onset: 'rapid',
+    documentation_level: 'established',
+    evidence_quality: 'high',
+    references: alert.references,
+    knowledge_base_rule_id: alert.rule_id,
+    pharmacokinetic_prediction: null
+  };
+}
+
 function generateInteractionSummary(interactions: DrugInteraction[]): {
   total_interactions: number;
   contraindicated_count: number;
@@ -9,6 +9,13 @@ import { McpResponse, McpSuccessResponse } from "../../types/mcp.js";
 import { getResponseFormatter } from "../../services/responseFormatter.js";
 import { validateToolInput } from "../../utils/validators.js";
 import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
+import { getBpmhStore } from "../../services/bpmhStore.js";
+import { BpmhOutput } from "./gatherBpmh.js";
+import { resolveDrugName, ResolvedDrugName } from "../../services/drugNameNormalizer.js";
+import { DuplicationSeverity, getTherapeuticDuplicationGroups } from "../../services/therapeuticDuplication.js";
+import { KnowledgeBaseVersion } from "../../services/knowledgeFiles.js";
+import { compareQuantities, parseQuantity } from "../../utils/quantities.js";
 
 // Define the Zod schema for medication comparison input
 export const CompareMedicationsSchema = z.object({
@@ -27,12 +34,21 @@ export const CompareMedicationsSchema = z.object({
 
 export type CompareMedicationsInput = z.infer<typeof CompareMedicationsSchema>;
 
+type NewOrder = CompareMedicationsInput['new_orders'][number];
+
+// Home medication flattened from the BPMH category lists
+type BpmhMedication = BpmhOutput['medications_list'][number]['medications'][number] & {
+  category: string;
+};
+
 // Discrepancy types
 export interface Discrepancy {
-  type: 'omission' | 'duplication' | 'dose_change' | 'new_medication';
+  discrepancy_id: string;
+  type: 'omission' | 'possible_substitution' | 'duplication' | 'dose_change' | 'frequency_change' | 'route_change' | 'new_medication';
   severity: 'critical' | 'major' | 'minor';
-  bpmh_medication?: any;
-  new_order_medication?: any;
+  bpmh_medication?: BpmhMedication;
+  new_order_medication?: NewOrder;
+  duplicate_orders?: NewOrder[]; // Every order involved in a duplication
   clinical_significance: string;
   requires_action: boolean;
   suggested_action: string;
@@ -41,11 +57,21 @@ export interface Discrepancy {
 // Comparison output
 export interface ComparisonOutput {
   comparison_id: string;
+  bpmh_id: string;
+  patient_id: string;
+  comparison_type: 'proactive' | 'retroactive';
+  resolved_drug_names: ResolvedDrugName[]; // Home medications followed by new orders
   discrepancies: Discrepancy[];
   matched_medications: Array<{
-    bpmh_medication: any;
-    new_order_medication: any;
-    match_confidence: 'high' | 'medium' | 'low';
+    bpmh_medication: BpmhMedication;
+    new_order_medication: NewOrder;
+    resolved_name: string;
+    match_confidence: 'high' | 'medium'; // Medium when a name is not in the drug dictionary and the two match as written
+  }>;
+  duplication_groups: KnowledgeBaseVersion;
+  intentional_duplications: Array<{
+    combination: string; // Allowed combination from the duplication groups, e.g. scheduled long-acting opioid with PRN short-acting opioid
+    orders: NewOrder[];
   }>;
   summary: {
     total_discrepancies: number;
@@ -57,6 +83,13 @@ export interface ComparisonOutput {
   };
 }
 
+// Discrepancy severity for each therapeutic duplication severity
+const DUPLICATION_SEVERITY: Record<DuplicationSeverity, Discrepancy['severity']> = {
+  serious: 'critical',
+  moderate: 'major',
+  minor: 'minor'
+};
+
 // ===== TOOL REGISTRATION =====
 
 export function registerCompareMedicationsTool(server: McpServer): void {
@@ -74,13 +107,17 @@ export function registerCompareMedicationsTool(server: McpServer): void {
 - comparison_type: Whether this is proactive (before admission) or retroactive (after admission)
 
 **Process:**
-1. Match medications by generic name and indication
-2. Identify discrepancies in four categories:
+1. Retrieve the stored BPMH for bpmh_id
+2. Match medications by resolved ingredient (generic, brand or salt form)
+3. Identify discrepancies in these categories:
    - Omissions (in BPMH but not in new orders)
-   - Duplications (same drug class prescribed twice)
-   - Dose/frequency changes
+   - Possible substitutions (a home medication and an order that share only a first word, such as insulin glargine and insulin lispro)
+   - Duplications (same ingredient ordered twice, or therapeutic duplication within a class such as two PPIs, an ACE inhibitor with an ARB, or IV and PO opioids)
+   - Dose, frequency and route changes
    - New medications (in orders but not in BPMH)
 
+Intentional combinations, such as a scheduled long-acting opioid with a PRN short-acting opioid or basal with prandial insulin, are not flagged; they are listed under intentional_duplications.
+
 **Output:** Returns detailed discrepancy analysis with severity levels and suggested actions.`,
       inputSchema: CompareMedicationsSchema.shape,
     },
@@ -95,11 +132,22 @@ export function registerCompareMedicationsTool(server: McpServer): void {
         // 2. Process comparison
         const comparisonOutput = processMedicationComparison(validatedInput);
 
-        // 3. Format response
+        // 3. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "compare_medications",
+          patient_id: comparisonOutput.patient_id,
+          actor: null,
+          input: validatedInput,
+          output: comparisonOutput,
+          decision: `${comparisonOutput.summary.total_discrepancies} discrepancies identified against BPMH ${comparisonOutput.bpmh_id}`
+        });
+
+        // 4. Format response
         return responseFormatter.formatGenericToolResponse(comparisonOutput, startTime);
 
       } catch (error) {
         const classifiedError = classifyError(error, `Error in compare_medications tool handler`);
+        getAuditLog().recordToolError("compare_medications", input, classifiedError);
         return createComprehensiveErrorResponse(classifiedError, null, { 
           toolName: "compare_medications", 
           userInput: input 
@@ -113,52 +161,102 @@ export function registerCompareMedicationsTool(server: McpServer): void {
 
 function processMedicationComparison(input: CompareMedicationsInput): ComparisonOutput {
   const comparisonId = `comp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  
-  // This is a simplified implementation - in practice, you would:
-  // 1. Retrieve BPMH data using bpmh_id
-  // 2. Perform sophisticated matching algorithms
-  // 3. Identify discrepancies using clinical logic
-  
+  const bpmh = getBpmhStore().getBpmh(input.bpmh_id);
+  const homeMedications = flattenBpmhMedications(bpmh);
+
   const discrepancies: Discrepancy[] = [];
-  const matchedMedications: Array<{
-    bpmh_medication: any;
-    new_order_medication: any;
-    match_confidence: 'high' | 'medium' | 'low';
-  }> = [];
-
-  // Simulate discrepancy detection
-  // In practice, this would involve complex matching logic
-  for (const order of input.new_orders) {
-    // Check for potential duplications
-    const duplicateOrders = input.new_orders.filter(o => 
-      o.drug_name.toLowerCase() === order.drug_name.toLowerCase() && 
-      o !== order
-    );
-    
-    if (duplicateOrders.length > 0) {
+  const matchedMedications: ComparisonOutput['matched_medications'] = [];
+  const matchedOrders = new Set<NewOrder>();
+
+  // Match each home medication against the new orders by ingredient
+  const unmatchedHomeMeds: BpmhMedication[] = [];
+  for (const homeMed of homeMedications) {
+    const match = findMatchingOrder(homeMed, input.new_orders);
+    if (!match) {
+      unmatchedHomeMeds.push(homeMed);
+      continue;
+    }
+
+    matchedOrders.add(match.order);
+    matchedMedications.push({
+      bpmh_medication: homeMed,
+      new_order_medication: match.order,
+      resolved_name: resolveDrugName(homeMed.drug_name).resolved_name,
+      match_confidence: match.confidence
+    });
+    discrepancies.push(...compareRegimens(homeMed, match.order));
+  }
+
+  // A home medication with no matching order is omitted, unless an otherwise unmatched order
+  // shares its first word, which may be a substitution (insulin glargine ordered as insulin lispro)
+  for (const homeMed of unmatchedHomeMeds) {
+    const substitute = findPossibleSubstitute(homeMed, input.new_orders.filter(order => !matchedOrders.has(order)));
+    if (substitute) {
+      matchedOrders.add(substitute);
       discrepancies.push({
-        type: 'duplication',
+        discrepancy_id: createDiscrepancyId(),
+        type: 'possible_substitution',
         severity: 'major',
-        new_order_medication: order,
-        clinical_significance: 'Risk of overdose or drug interactions',
+        bpmh_medication: homeMed,
+        new_order_medication: substitute,
+        clinical_significance: `${homeMed.drug_name} is on the home medication list and ${substitute.drug_name} is ordered instead; they are different drugs`,
         requires_action: true,
-        suggested_action: 'Review for duplicate orders and consolidate if appropriate'
+        suggested_action: 'Confirm whether the substitution is intended; if not, order the home medication and discontinue the other order'
       });
-    }
-
-    // Check for dose changes (simplified)
-    if (order.dose.includes('mg') && parseFloat(order.dose) > 1000) {
+    } else {
+      const isPrescription = homeMed.category === 'Prescription Medications';
       discrepancies.push({
-        type: 'dose_change',
-        severity: 'critical',
-        new_order_medication: order,
-        clinical_significance: 'High dose medication requires careful monitoring',
+        discrepancy_id: createDiscrepancyId(),
+        type: 'omission',
+        severity: isPrescription ? 'major' : 'minor',
+        bpmh_medication: homeMed,
+        clinical_significance: `${homeMed.drug_name} is on the home medication list but has no corresponding order`,
         requires_action: true,
-        suggested_action: 'Verify dose calculation and patient weight'
+        suggested_action: 'Confirm whether omission is intentional; if not, order the home medication or document the reason for holding it'
       });
     }
   }
 
+  // Orders with no home medication counterpart
+  for (const order of input.new_orders) {
+    if (matchedOrders.has(order)) continue;
+
+    discrepancies.push({
+      discrepancy_id: createDiscrepancyId(),
+      type: 'new_medication',
+      severity: 'minor',
+      new_order_medication: order,
+      clinical_significance: `${order.drug_name} is newly ordered and was not on the home medication list`,
+      requires_action: false,
+      suggested_action: 'Confirm the indication for the new medication is documented'
+    });
+  }
+
+  // Duplicate orders for one ingredient (including brand and generic) or for one therapeutic class
+  const duplicationGroups = getTherapeuticDuplicationGroups();
+  const duplicationReview = duplicationGroups.review(input.new_orders.map(order => ({
+    drug_name: order.drug_name,
+    resolved_name: resolveDrugName(order.drug_name).resolved_name,
+    frequency: order.frequency,
+    route: order.route,
+    order
+  })));
+  for (const duplication of duplicationReview.duplications) {
+    const orders = duplication.medications.map(medication => medication.order);
+    const lastOrder = orders[orders.length - 1];
+    if (!lastOrder) continue;
+    discrepancies.push({
+      discrepancy_id: createDiscrepancyId(),
+      type: 'duplication',
+      severity: DUPLICATION_SEVERITY[duplication.severity],
+      new_order_medication: lastOrder,
+      duplicate_orders: orders,
+      clinical_significance: `${duplication.description}. Clinical effects: ${duplication.clinical_effects.join(', ')}`,
+      requires_action: true,
+      suggested_action: duplication.recommendation
+    });
+  }
+
   // Calculate summary
   const summary = {
     total_discrepancies: discrepancies.length,
@@ -166,13 +264,164 @@ function processMedicationComparison(input: CompareMedicationsInput): Comparison
     major_count: discrepancies.filter(d => d.severity === 'major').length,
     minor_count: discrepancies.filter(d => d.severity === 'minor').length,
     resolved_count: 0, // Would be updated when discrepancies are resolved
-    pending_count: discrepancies.length
+    pending_count: discrepancies.filter(d => d.requires_action).length
   };
 
   return {
     comparison_id: comparisonId,
+    bpmh_id: bpmh.bpmh_id,
+    patient_id: bpmh.patient_id,
+    comparison_type: input.comparison_type,
+    resolved_drug_names: [...homeMedications, ...input.new_orders].map(med => resolveDrugName(med.drug_name)),
     discrepancies,
     matched_medications: matchedMedications,
+    duplication_groups: duplicationGroups.version,
+    intentional_duplications: duplicationReview.intentional_combinations.map(combination => ({
+      combination: combination.description,
+      orders: combination.medications.map(medication => medication.order)
+    })),
     summary
   };
 }
+
+function flattenBpmhMedications(bpmh: BpmhOutput): BpmhMedication[] {
+  return bpmh.medications_list.flatMap(category =>
+    category.medications.map(med => ({ ...med, category: category.category }))
+  );
+}
+
+/**
+ * The order for the same ingredient, whether ordered by generic, brand or salt form. Names missing
+ * from the drug dictionary match only when written the same way.
+ */
+function findMatchingOrder(
+  homeMed: BpmhMedication,
+  orders: NewOrder[]
+): { order: NewOrder; confidence: 'high' | 'medium' } | null {
+  const homeResolved = resolveDrugName(homeMed.drug_name);
+  for (const order of orders) {
+    const orderResolved = resolveDrugName(order.drug_name);
+    if (orderResolved.resolved_name !== homeResolved.resolved_name) continue;
+    const recognised = homeResolved.match_type !== 'unresolved' && orderResolved.match_type !== 'unresolved';
+    return { order, confidence: recognised ? 'high' : 'medium' };
+  }
+  return null;
+}
+
+function findPossibleSubstitute(homeMed: BpmhMedication, orders: NewOrder[]): NewOrder | null {
+  const homeFirstWord = normalizeDrugName(homeMed.drug_name).split(' ')[0];
+  return orders.find(order => normalizeDrugName(order.drug_name).split(' ')[0] === homeFirstWord) ?? null;
+}
+
+function compareRegimens(homeMed: BpmhMedication, order: NewOrder): Discrepancy[] {
+  const discrepancies: Discrepancy[] = [];
+
+  const doseChange = compareDoses(homeMed.dose, order.dose);
+  if (doseChange) {
+    discrepancies.push({
+      discrepancy_id: createDiscrepancyId(),
+      type: 'dose_change',
+      severity: 'major',
+      bpmh_medication: homeMed,
+      new_order_medication: order,
+      clinical_significance: doseChange.significance,
+      requires_action: true,
+      suggested_action: doseChange.suggested_action
+    });
+  }
+
+  if (normalizeFrequency(homeMed.frequency) !== normalizeFrequency(order.frequency)) {
+    discrepancies.push({
+      discrepancy_id: createDiscrepancyId(),
+      type: 'frequency_change',
+      severity: 'major',
+      bpmh_medication: homeMed,
+      new_order_medication: order,
+      clinical_significance: `Frequency changed from ${homeMed.frequency} (home) to ${order.frequency} (ordered)`,
+      requires_action: true,
+      suggested_action: 'Confirm the frequency change is intentional and document the reason'
+    });
+  }
+
+  if (normalizeRoute(homeMed.route) !== normalizeRoute(order.route)) {
+    discrepancies.push({
+      discrepancy_id: createDiscrepancyId(),
+      type: 'route_change',
+      severity: 'major',
+      bpmh_medication: homeMed,
+      new_order_medication: order,
+      clinical_significance: `Route changed from ${homeMed.route} (home) to ${order.route} (ordered)`,
+      requires_action: true,
+      suggested_action: 'Confirm the route change is intentional and that the dose is appropriate for the new route'
+    });
+  }
+
+  return discrepancies;
+}
+
+function createDiscrepancyId(): string {
+  return `disc_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+}
+
+function normalizeDrugName(drugName: string): string {
+  return drugName.toLowerCase().replace(/\(.*?\)/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The dose change between a home medication and an order, or null when the doses are the same.
+ * Doses in different units of the same dimension (0.5 g and 500 mg) are the same dose; doses in
+ * units that cannot be compared (mg and mL) are reported as such.
+ */
+function compareDoses(homeDose: string, orderedDose: string): { significance: string; suggested_action: string } | null {
+  const home = parseQuantity(homeDose);
+  const ordered = parseQuantity(orderedDose);
+  const changed = `Dose changed from ${homeDose} (home) to ${orderedDose} (ordered)`;
+
+  if (!home || !ordered) {
+    return normalizeDose(homeDose) === normalizeDose(orderedDose) ? null : {
+      significance: changed,
+      suggested_action: 'Confirm the dose change is intentional and document the reason'
+    };
+  }
+
+  const comparison = compareQuantities(home, ordered);
+  if (comparison.status === 'equal') return null;
+  if (comparison.status === 'incompatible') {
+    return {
+      significance: `Dose units differ between ${homeDose} (home) and ${orderedDose} (ordered): ${comparison.message}`,
+      suggested_action: 'Confirm the ordered dose is equivalent to the home dose and document the conversion'
+    };
+  }
+  return {
+    significance: `${changed}: ${comparison.message}`,
+    suggested_action: 'Confirm the dose change is intentional and document the reason'
+  };
+}
+
+function normalizeDose(dose: string): string {
+  return dose.toLowerCase().replace(/\s+/g, '');
+}
+
+function normalizeFrequency(frequency: string): string {
+  const aliases: Record<string, string> = {
+    'once daily': 'daily', 'qd': 'daily', 'od': 'daily', 'every day': 'daily',
+    'twice daily': 'bid', 'two times daily': 'bid', 'q12h': 'bid',
+    'three times daily': 'tid', 'q8h': 'tid',
+    'four times daily': 'qid', 'q6h': 'qid',
+    'at bedtime': 'qhs', 'hs': 'qhs',
+    'as needed': 'prn'
+  };
+  const normalized = frequency.toLowerCase().replace(/\./g, '').replace(/\s+/g, ' ').trim();
+  return aliases[normalized] ?? normalized;
+}
+
+function normalizeRoute(route: string): string {
+  const aliases: Record<string, string> = {
+    'oral': 'po', 'by mouth': 'po', 'per os': 'po',
+    'intravenous': 'iv', 'intramuscular': 'im',
+    'subcutaneous': 'sc', 'subcut': 'sc', 'sq': 'sc',
+    'sublingual': 'sl', 'per rectum': 'pr', 'rectal': 'pr'
+  };
+  const normalized = route.toLowerCase().replace(/\./g, '').trim();
+  return aliases[normalized] ?? normalized;
+}
@@ -9,6 +9,8 @@ import { McpResponse, McpSuccessResponse } from "../../types/mcp.js";
 import { getResponseFormatter } from "../../services/responseFormatter.js";
 import { validateToolInput } from "../../utils/validators.js";
 import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
+import { getBpmhStore } from "../../services/bpmhStore.js";
 
 // Define the Zod schema for BPMH gathering input
 export const GatherBpmhSchema = z.object({
@@ -160,7 +162,7 @@ export function registerGatherBpmhTool(server: McpServer): void {
 3. Document actual patient behavior vs prescribed regimen
 4. Capture medications taken differently than prescribed
 
-**Output:** Returns structured BPMH with verification status and next steps.`,
+**Output:** Returns structured BPMH with verification status and next steps. The BPMH is stored under its bpmh_id for use by compare_medications.`,
       inputSchema: GatherBpmhSchema.shape,
     },
     async (input: GatherBpmhInput): Promise<McpResponse<BpmhOutput>> => {
@@ -174,11 +176,25 @@ export function registerGatherBpmhTool(server: McpServer): void {
         // 2. Process BPMH data
         const bpmhOutput = processBpmhData(validatedInput);
 
-        // 3. Format response
+        // 3. Store BPMH so compare_medications can retrieve it by bpmh_id
+        getBpmhStore().saveBpmh(bpmhOutput);
+
+        // 4. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "gather_bpmh",
+          patient_id: validatedInput.patient_id,
+          actor: validatedInput.data_sources.patient_interview.interviewer_id ?? null,
+          input: validatedInput,
+          output: bpmhOutput,
+          decision: `BPMH ${bpmhOutput.bpmh_id} recorded with verification status ${bpmhOutput.verification_status}`
+        });
+
+        // 5. Format response
         return responseFormatter.formatGenericToolResponse(bpmhOutput, startTime);
 
       } catch (error) {
         const classifiedError = classifyError(error, `Error in gather_bpmh tool handler`);
+        getAuditLog().recordToolError("gather_bpmh", input, classifiedError);
         return createComprehensiveErrorResponse(classifiedError, null, { 
           toolName: "gather_bpmh", 
           userInput: input 
@@ -9,9 +9,11 @@ import { McpResponse, McpSuccessResponse } from "../../types/mcp.js";
 import { getResponseFormatter } from "../../services/responseFormatter.js";
 import { validateToolInput } from "../../utils/validators.js";
 import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
 
 // Define the Zod schema for discrepancy resolution input
 export const ResolveDiscrepancySchema = z.object({
+  patient_id: z.string().optional().describe("Patient identifier, recorded in the audit trail"),
   comparison_id: z.string().min(1).describe("Comparison ID from compare_medications tool"),
   discrepancy_id: z.string().min(1).describe("Specific discrepancy ID to resolve"),
   resolution_action: z.enum([
@@ -70,6 +72,7 @@ export function registerResolveDiscrepancyTool(server: McpServer): void {
 **Purpose:** Resolve medication discrepancies with proper documentation and clinical reasoning.
 
 **Input Parameters:**
+- patient_id: Patient identifier for the audit trail (optional)
 - comparison_id: ID from medication comparison
 - discrepancy_id: Specific discrepancy to resolve
 - resolution_action: Type of action taken (intentional change, prescriber error, etc.)
@@ -100,11 +103,22 @@ export function registerResolveDiscrepancyTool(server: McpServer): void {
         // 2. Process resolution
         const resolutionOutput = processDiscrepancyResolution(validatedInput);
 
-        // 3. Format response
+        // 3. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "resolve_discrepancy",
+          patient_id: validatedInput.patient_id ?? null,
+          actor: validatedInput.resolved_by,
+          input: validatedInput,
+          output: resolutionOutput,
+          decision: `Discrepancy ${validatedInput.discrepancy_id} ${validatedInput.resolution_action}; status ${resolutionOutput.status}`
+        });
+
+        // 4. Format response
         return responseFormatter.formatGenericToolResponse(resolutionOutput, startTime);
 
       } catch (error) {
         const classifiedError = classifyError(error, `Error in resolve_discrepancy tool handler`);
+        getAuditLog().recordToolError("resolve_discrepancy", input, classifiedError);
         return createComprehensiveErrorResponse(classifiedError, null, { 
           toolName: "resolve_discrepancy", 
           userInput: input 
@@ -0,0 +1,158 @@
+/**
+ * Review Geriatric Medications Tool
+ * Checks an older adult's medication list against the Beers Criteria and STOPP/START
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { McpResponse, McpSuccessResponse } from "../../types/mcp.js";
+import { getResponseFormatter } from "../../services/responseFormatter.js";
+import { validateToolInput } from "../../utils/validators.js";
+import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
+import { resolveDrugName, ResolvedDrugName } from "../../services/drugNameNormalizer.js";
+import { CriteriaSet, GeriatricReview, getGeriatricCriteria } from "../../services/geriatricCriteria.js";
+
+// Define the Zod schema for geriatric medication review input
+export const ReviewGeriatricMedicationsSchema = z.object({
+  patient_id: z.string().min(1).describe("Unique patient identifier"),
+  age: z.number().min(0).max(130).describe("Patient age in years; the criteria apply from age 65"),
+  medications: z.array(z.object({
+    drug_name: z.string().min(1).describe("Drug name (generic, brand or salt form; resolved to the ingredient)"),
+    dose: z.string().optional().describe("Dose with units"),
+    frequency: z.string().optional().describe("Dosing frequency"),
+    indication: z.string().optional().describe("Indication for medication")
+  })).min(1).describe("Current medication list"),
+  conditions: z.array(z.object({
+    condition: z.string().min(1).describe("ICD-10 code or description, including history such as falls or fractures"),
+    status: z.enum(['active', 'controlled', 'history']).describe("Condition status")
+  })).optional().describe("Patient medical conditions, used for drug-disease criteria and omitted therapies"),
+  renal_function: z.object({
+    creatinine_clearance_ml_min: z.number().positive().describe("Creatinine clearance (Cockcroft-Gault) in mL/min")
+  }).optional().describe("Renal function, used for the renal dosing criteria"),
+  criteria: z.array(z.enum(['beers', 'stopp', 'start'])).min(1).optional().describe("Criteria to apply; defaults to Beers, STOPP and START")
+});
+
+export type ReviewGeriatricMedicationsInput = z.infer<typeof ReviewGeriatricMedicationsSchema>;
+
+// Geriatric medication review output
+export interface GeriatricMedicationReviewOutput extends GeriatricReview {
+  review_id: string;
+  patient_id: string;
+  resolved_drug_names: ResolvedDrugName[];
+  summary: {
+    total_findings: number;
+    potentially_inappropriate_count: number;
+    drug_disease_count: number;
+    omitted_therapy_count: number;
+    findings_by_criteria: Record<CriteriaSet, number>;
+    medications_flagged: string[];
+  };
+}
+
+const ALL_CRITERIA: CriteriaSet[] = ['beers', 'stopp', 'start'];
+
+// ===== TOOL REGISTRATION =====
+
+export function registerReviewGeriatricMedicationsTool(server: McpServer): void {
+  server.registerTool(
+    "review_geriatric_medications",
+    {
+      title: "Review Geriatric Medications",
+      description: `Checks an older adult's medication list against the AGS Beers Criteria and STOPP/START.
+
+**Purpose:** Identify potentially inappropriate prescribing and omitted therapies in patients aged 65 and over.
+
+**Input Parameters:**
+- patient_id: Patient identifier
+- age: Patient age in years
+- medications: Current medication list
+- conditions: Diagnoses, including history such as falls, fractures or peptic ulcer (optional)
+- renal_function: Creatinine clearance for the renal dosing criteria (optional)
+- criteria: Criteria to apply (optional; all by default)
+
+**Process:**
+1. Resolve drug names to ingredients
+2. Check each drug against the Beers Criteria and STOPP potentially inappropriate medications
+3. Check drug-disease and drug-drug criteria against the patient's conditions and medication combinations
+4. Check renal dosing criteria against creatinine clearance
+5. Check START criteria for indicated therapies that are not prescribed
+
+**Output:** Returns potentially inappropriate medications, drug-disease issues and omitted therapies, each with its rule reference, recommendation and rationale.`,
+      inputSchema: ReviewGeriatricMedicationsSchema.shape,
+    },
+    async (input: ReviewGeriatricMedicationsInput): Promise<McpResponse<GeriatricMedicationReviewOutput>> => {
+      const startTime = Date.now();
+      const responseFormatter = getResponseFormatter();
+
+      try {
+        // 1. Validate input
+        const { data: validatedInput } = validateToolInput(ReviewGeriatricMedicationsSchema, input, "review_geriatric_medications");
+
+        // 2. Process geriatric review
+        const reviewOutput = processGeriatricReview(validatedInput);
+
+        // 3. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "review_geriatric_medications",
+          patient_id: validatedInput.patient_id,
+          actor: null,
+          input: validatedInput,
+          output: reviewOutput,
+          decision: `${reviewOutput.summary.total_findings} findings: ${reviewOutput.summary.potentially_inappropriate_count} potentially inappropriate, ${reviewOutput.summary.drug_disease_count} drug-disease, ${reviewOutput.summary.omitted_therapy_count} omitted therapies`
+        });
+
+        // 4. Format response
+        return responseFormatter.formatGenericToolResponse(reviewOutput, startTime);
+
+      } catch (error) {
+        const classifiedError = classifyError(error, `Error in review_geriatric_medications tool handler`);
+        getAuditLog().recordToolError("review_geriatric_medications", input, classifiedError);
+        return createComprehensiveErrorResponse(classifiedError, null, {
+          toolName: "review_geriatric_medications",
+          userInput: input
+        });
+      }
+    }
+  );
+}
+
+// ===== GERIATRIC REVIEW PROCESSING =====
+
+function processGeriatricReview(input: ReviewGeriatricMedicationsInput): GeriatricMedicationReviewOutput {
+  const reviewId = `ger_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+  const resolvedDrugNames = input.medications.map(med => resolveDrugName(med.drug_name));
+
+  const review = getGeriatricCriteria().review({
+    age: input.age,
+    medications: input.medications.map((med, index) => ({
+      drug_name: med.drug_name,
+      resolved_name: resolvedDrugNames[index]?.resolved_name ?? med.drug_name
+    })),
+    conditions: input.conditions ?? [],
+    creatinine_clearance_ml_min: input.renal_function?.creatinine_clearance_ml_min,
+    criteria: input.criteria ?? ALL_CRITERIA
+  });
+
+  const findings = [...review.potentially_inappropriate_medications, ...review.drug_disease_issues, ...review.omitted_therapies];
+  const findingsByCriteria = { beers: 0, stopp: 0, start: 0 };
+  for (const finding of findings) findingsByCriteria[finding.criteria]++;
+
+  const flagged = [...review.potentially_inappropriate_medications, ...review.drug_disease_issues]
+    .flatMap(finding => finding.medications.map(med => med.drug_name));
+
+  return {
+    review_id: reviewId,
+    patient_id: input.patient_id,
+    resolved_drug_names: resolvedDrugNames,
+    ...review,
+    summary: {
+      total_findings: findings.length,
+      potentially_inappropriate_count: review.potentially_inappropriate_medications.length,
+      drug_disease_count: review.drug_disease_issues.length,
+      omitted_therapy_count: review.omitted_therapies.length,
+      findings_by_criteria: findingsByCriteria,
+      medications_flagged: [...new Set(flagged)]
+    }
+  };
+}
@@ -9,6 +9,9 @@ import { McpResponse, McpSuccessResponse } from "../../types/mcp.js";
 import { getResponseFormatter } from "../../services/responseFormatter.js";
 import { validateToolInput } from "../../utils/validators.js";
 import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
+import { GenericError, ErrorType, ErrorSeverity } from "../../types/errors.js";
+import { getSoapSectionStore, SoapSectionRecord, SoapSectionType } from "../../services/soapSectionStore.js";
 
 // Define the Zod schema for SOAP note compilation input
 export const CompileSoapNoteSchema = z.object({
@@ -47,6 +50,12 @@ export interface SoapNoteOutput {
       assessment: string;
       plan: string;
     };
+    structured_sections: {
+      subjective: Record<string, unknown>;
+      objective: Record<string, unknown>;
+      assessment: Record<string, unknown>;
+      plan: Record<string, unknown>;
+    };
     full_text: string;
     quality_checks: {
       all_sections_complete: boolean;
@@ -82,11 +91,12 @@ export function registerCompileSoapNoteTool(server: McpServer): void {
 - note_metadata: Encounter type, note type, time spent, complexity
 
 **Process:**
-1. Compile all SOAP sections into complete note
-2. Perform quality checks for completeness
-3. Generate coding suggestions (ICD-10, CPT)
-4. Create audit trail
-5. Enable addendum capability
+1. Retrieve stored SOAP sections and verify they belong to the same encounter and patient
+2. Compile all SOAP sections into complete note
+3. Perform quality checks for completeness
+4. Generate coding suggestions (ICD-10, CPT)
+5. Create audit trail
+6. Enable addendum capability
 
 **Output:** Returns complete SOAP note with quality assessment and coding recommendations.`,
       inputSchema: CompileSoapNoteSchema.shape,
@@ -102,11 +112,22 @@ export function registerCompileSoapNoteTool(server: McpServer): void {
         // 2. Process SOAP note compilation
         const soapNoteOutput = processSoapNoteCompilation(validatedInput);
 
-        // 3. Format response
+        // 3. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "compile_soap_note",
+          patient_id: soapNoteOutput.complete_note.patient_id,
+          actor: validatedInput.provider_info.provider_id,
+          input: validatedInput,
+          output: soapNoteOutput,
+          decision: `SOAP note ${soapNoteOutput.complete_note.note_id} compiled${validatedInput.provider_info.signature ? ' and signed' : ''}`
+        });
+
+        // 4. Format response
         return responseFormatter.formatGenericToolResponse(soapNoteOutput, startTime);
 
       } catch (error) {
         const classifiedError = classifyError(error, `Error in compile_soap_note tool handler`);
+        getAuditLog().recordToolError("compile_soap_note", input, classifiedError);
         return createComprehensiveErrorResponse(classifiedError, null, { 
           toolName: "compile_soap_note", 
           userInput: input 
@@ -122,8 +143,12 @@ function processSoapNoteCompilation(input: CompileSoapNoteInput): SoapNoteOutput
   const noteId = `soap_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   const noteCompletionDatetime = new Date().toISOString();
   
-  // Compile sections (in practice, would retrieve from database using section IDs)
-  const sections = compileSections(input);
+  // Retrieve stored sections and check they describe the same encounter
+  const storedSections = retrieveSections(input);
+  const patientId = validateSectionConsistency(input, storedSections);
+  
+  // Compile sections
+  const sections = compileSections(storedSections);
   
   // Generate full text
   const fullText = generateFullText(sections, input);
@@ -138,10 +163,16 @@ function processSoapNoteCompilation(input: CompileSoapNoteInput): SoapNoteOutput
     complete_note: {
       note_id: noteId,
       encounter_id: input.encounter_id,
-      patient_id: 'patient_id_placeholder', // Would be retrieved from encounter
-      encounter_datetime: new Date().toISOString(),
+      patient_id: patientId,
+      encounter_datetime: storedSections.subjective.encounter_datetime ?? storedSections.subjective.documented_at,
       note_completion_datetime: noteCompletionDatetime,
       sections,
+      structured_sections: {
+        subjective: storedSections.subjective.structured_data,
+        objective: storedSections.objective.structured_data,
+        assessment: storedSections.assessment.structured_data,
+        plan: storedSections.plan.structured_data
+      },
       full_text: fullText,
       quality_checks: {
         all_sections_complete: qualityChecks.allSectionsComplete,
@@ -153,19 +184,81 @@ function processSoapNoteCompilation(input: CompileSoapNoteInput): SoapNoteOutput
   };
 }
 
-function compileSections(input: CompileSoapNoteInput): {
+type StoredSoapSections = Record<SoapSectionType, SoapSectionRecord>;
+
+function retrieveSections(input: CompileSoapNoteInput): StoredSoapSections {
+  const store = getSoapSectionStore();
+  return {
+    subjective: store.getSection(input.subjective_section_id, 'subjective'),
+    objective: store.getSection(input.objective_section_id, 'objective'),
+    assessment: store.getSection(input.assessment_section_id, 'assessment'),
+    plan: store.getSection(input.plan_section_id, 'plan')
+  };
+}
+
+/**
+ * Checks that all sections belong to the requested encounter and a single patient,
+ * and that the assessment and plan were documented from the sections being compiled.
+ * @returns The patient_id shared by the sections.
+ */
+function validateSectionConsistency(input: CompileSoapNoteInput, sections: StoredSoapSections): string {
+  const allSections = Object.values(sections);
+  const problems: string[] = [];
+
+  for (const section of allSections) {
+    if (section.encounter_id !== input.encounter_id) {
+      problems.push(`${section.section_type} section ${section.section_id} belongs to encounter ${section.encounter_id}`);
+    }
+  }
+
+  const patientIds = [...new Set(allSections.map(section => section.patient_id).filter((id): id is string => id !== null))];
+  if (patientIds.length > 1) {
+    problems.push(`Sections belong to different patients: ${patientIds.join(', ')}`);
+  }
+
+  const assessmentSources = sections.assessment.linked_section_ids;
+  if (!assessmentSources.includes(sections.subjective.section_id) || !assessmentSources.includes(sections.objective.section_id)) {
+    problems.push(`Assessment section ${sections.assessment.section_id} was documented from different subjective/objective sections`);
+  }
+
+  if (!sections.plan.linked_section_ids.includes(sections.assessment.section_id)) {
+    problems.push(`Plan section ${sections.plan.section_id} was documented from a different assessment section`);
+  }
+
+  if (problems.length > 0) {
+    throw new GenericError(ErrorType.INVALID_INPUT, `SOAP sections do not form a single encounter note: ${problems.join('; ')}`, {
+      severity: ErrorSeverity.HIGH,
+      suggestions: [
+        'Pass section IDs documented for the same encounter_id',
+        'Re-document the mismatched section for this encounter'
+      ],
+      details: { encounter_id: input.encounter_id, problems }
+    });
+  }
+
+  const patientId = patientIds[0];
+  if (!patientId) {
+    throw new GenericError(ErrorType.MISSING_REQUIRED_FIELD, `No patient_id recorded for encounter ${input.encounter_id}`, {
+      severity: ErrorSeverity.HIGH,
+      suggestions: ['Document the subjective section with patient_id for this encounter'],
+      details: { encounter_id: input.encounter_id }
+    });
+  }
+
+  return patientId;
+}
+
+function compileSections(sections: StoredSoapSections): {
   subjective: string;
   objective: string;
   assessment: string;
   plan: string;
 } {
-  // In practice, would retrieve actual section content from database
-  // For now, return placeholder content
   return {
-    subjective: `[Subjective content from section ${input.subjective_section_id}]`,
-    objective: `[Objective content from section ${input.objective_section_id}]`,
-    assessment: `[Assessment content from section ${input.assessment_section_id}]`,
-    plan: `[Plan content from section ${input.plan_section_id}]`
+    subjective: sections.subjective.narrative,
+    objective: sections.objective.narrative,
+    assessment: sections.assessment.narrative,
+    plan: sections.plan.narrative
   };
 }
 
@@ -9,6 +9,8 @@ import { McpResponse, McpSuccessResponse } from "../../types/mcp.js";
 import { getResponseFormatter } from "../../services/responseFormatter.js";
 import { validateToolInput } from "../../utils/validators.js";
 import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
+import { getSoapSectionStore } from "../../services/soapSectionStore.js";
 
 // Define the Zod schema for assessment documentation input
 export const DocumentAssessmentSchema = z.object({
@@ -88,7 +90,7 @@ export function registerDocumentAssessmentTool(server: McpServer): void {
 5. Rank problems by severity
 6. State clinical stability
 
-**Output:** Returns formatted assessment section with risk stratification and prognosis.`,
+**Output:** Returns formatted assessment section with risk stratification and prognosis. The section is stored under its section_id for use by compile_soap_note.`,
       inputSchema: DocumentAssessmentSchema.shape,
     },
     async (input: DocumentAssessmentInput): Promise<McpResponse<AssessmentDocumentationOutput>> => {
@@ -102,11 +104,35 @@ export function registerDocumentAssessmentTool(server: McpServer): void {
         // 2. Process assessment documentation
         const assessmentOutput = processAssessmentDocumentation(validatedInput);
 
-        // 3. Format response
+        // 3. Store section for compile_soap_note
+        const section = assessmentOutput.assessment_section;
+        const storedSection = getSoapSectionStore().saveSection({
+          section_id: section.section_id,
+          section_type: 'assessment',
+          encounter_id: validatedInput.encounter_id,
+          patient_id: null,
+          encounter_datetime: null,
+          narrative: section.narrative,
+          structured_data: { ...section },
+          linked_section_ids: [validatedInput.subjective_section_id, validatedInput.objective_section_id]
+        });
+
+        // 4. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "document_assessment",
+          patient_id: storedSection.patient_id,
+          actor: null,
+          input: validatedInput,
+          output: assessmentOutput,
+          decision: `Assessment section ${section.section_id} documented with overall risk ${section.risk_stratification.overall_risk}`
+        });
+
+        // 5. Format response
         return responseFormatter.formatGenericToolResponse(assessmentOutput, startTime);
 
       } catch (error) {
         const classifiedError = classifyError(error, `Error in document_assessment tool handler`);
+        getAuditLog().recordToolError("document_assessment", input, classifiedError);
         return createComprehensiveErrorResponse(classifiedError, null, { 
           toolName: "document_assessment", 
           userInput: input 
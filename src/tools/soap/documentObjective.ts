@@ -9,6 +9,8 @@ import { McpResponse, McpSuccessResponse } from "../../types/mcp.js";
 import { getResponseFormatter } from "../../services/responseFormatter.js";
 import { validateToolInput } from "../../utils/validators.js";
 import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
+import { getSoapSectionStore } from "../../services/soapSectionStore.js";
 
 // Define the Zod schema for objective documentation input
 export const DocumentObjectiveSchema = z.object({
@@ -123,7 +125,7 @@ export function registerDocumentObjectiveTool(server: McpServer): void {
 4. Identify abnormal findings and critical values
 5. Note trends from previous visits
 
-**Output:** Returns formatted objective section with abnormal findings and clinical significance.`,
+**Output:** Returns formatted objective section with abnormal findings and clinical significance. The section is stored under its section_id for use by compile_soap_note.`,
       inputSchema: DocumentObjectiveSchema.shape,
     },
     async (input: DocumentObjectiveInput): Promise<McpResponse<ObjectiveDocumentationOutput>> => {
@@ -137,11 +139,35 @@ export function registerDocumentObjectiveTool(server: McpServer): void {
         // 2. Process objective documentation
         const objectiveOutput = processObjectiveDocumentation(validatedInput);
 
-        // 3. Format response
+        // 3. Store section for compile_soap_note
+        const section = objectiveOutput.objective_section;
+        const storedSection = getSoapSectionStore().saveSection({
+          section_id: section.section_id,
+          section_type: 'objective',
+          encounter_id: validatedInput.encounter_id,
+          patient_id: null,
+          encounter_datetime: null,
+          narrative: section.narrative,
+          structured_data: { ...section },
+          linked_section_ids: []
+        });
+
+        // 4. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "document_objective",
+          patient_id: storedSection.patient_id,
+          actor: null,
+          input: validatedInput,
+          output: objectiveOutput,
+          decision: `Objective section ${section.section_id} documented with ${section.critical_values.length} critical values`
+        });
+
+        // 5. Format response
         return responseFormatter.formatGenericToolResponse(objectiveOutput, startTime);
 
       } catch (error) {
         const classifiedError = classifyError(error, `Error in document_objective tool handler`);
+        getAuditLog().recordToolError("document_objective", input, classifiedError);
         return createComprehensiveErrorResponse(classifiedError, null, { 
           toolName: "document_objective", 
           userInput: input 
@@ -9,6 +9,12 @@ import { McpResponse, McpSuccessResponse } from "../../types/mcp.js";
 import { getResponseFormatter } from "../../services/responseFormatter.js";
 import { validateToolInput } from "../../utils/validators.js";
 import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
+import { getSoapSectionStore } from "../../services/soapSectionStore.js";
+import { resolveDrugName } from "../../services/drugNameNormalizer.js";
+import { getPregnancyLactationDataset, PregnancyLactationWarning } from "../../services/pregnancyLactation.js";
+import { getRenalDosingTables, RenalDoseRecommendation } from "../../services/renalDosing.js";
+import { ParsedSig, parseSig } from "../../utils/sig.js";
 
 // Define the Zod schema for plan documentation input
 export const DocumentPlanSchema = z.object({
@@ -19,7 +25,7 @@ export const DocumentPlanSchema = z.object({
       action: z.enum(['continue', 'start', 'modify', 'discontinue']).describe("Action for medication"),
       drug_name: z.string().describe("Drug name"),
       dose: z.string().describe("Dose with units"),
-      frequency: z.string().describe("Dosing frequency"),
+      frequency: z.string().describe("Dosing frequency, e.g. 'BID', 'q8h', 'q6h PRN pain max 4/day' or 'daily at 0800 with food'"),
       route: z.string().describe("Route of administration"),
       duration: z.string().describe("Duration of therapy"),
       indication: z.string().describe("Clinical indication"),
@@ -60,7 +66,17 @@ export const DocumentPlanSchema = z.object({
       timeframe: z.string().describe("Follow-up timeframe"),
       specific_issues: z.array(z.string()).describe("Specific issues to address")
     }).describe("Follow-up plan")
-  })
+  }),
+  patient_context: z.object({
+    pregnancy_status: z.boolean().describe("Whether the patient is pregnant"),
+    gestational_age_weeks: z.number().min(0).max(45).optional().describe("Completed weeks of gestation"),
+    breastfeeding: z.boolean().describe("Whether the patient is breastfeeding")
+  }).optional().describe("Pregnancy and breastfeeding status, used for trimester-aware medication warnings"),
+  renal_function: z.object({
+    creatinine_clearance_ml_min: z.number().min(0).optional().describe("Creatinine clearance (Cockcroft-Gault) in mL/min"),
+    egfr_ml_min_1_73m2: z.number().min(0).optional().describe("eGFR in mL/min/1.73m²"),
+    dialysis: z.enum(['none', 'hemodialysis', 'peritoneal_dialysis', 'crrt']).optional().describe("Dialysis modality, if any")
+  }).optional().describe("Current renal function, used for drug-specific renal dosing of planned medications")
 });
 
 export type DocumentPlanInput = z.infer<typeof DocumentPlanSchema>;
@@ -86,7 +102,8 @@ export interface PlanDocumentationOutput {
     prescriptions_to_write: Array<{
       drug_name: string;
       dose: string;
-      frequency: string;
+      frequency: string; // Readable sig parsed from the frequency as written
+      parsed_frequency: ParsedSig;
       route: string;
       duration: string;
       indication: string;
@@ -102,6 +119,8 @@ export interface PlanDocumentationOutput {
       provider: string;
       purpose: string;
     }>;
+    pregnancy_lactation_warnings: PregnancyLactationWarning[];
+    renal_dosing: RenalDoseRecommendation[]; // Planned medications whose renal dosing table calls for a change
   };
 }
 
@@ -124,6 +143,8 @@ export function registerDocumentPlanTool(server: McpServer): void {
 - monitoring_plan: Parameters to monitor and frequency
 - patient_education: Education provided and understanding
 - disposition: Patient disposition and follow-up
+- patient_context: Pregnancy status, gestational age and breastfeeding (optional)
+- renal_function: Creatinine clearance, eGFR or dialysis modality (optional)
 
 **Process:**
 1. Create medication plan with dosing and monitoring
@@ -131,8 +152,11 @@ export function registerDocumentPlanTool(server: McpServer): void {
 3. Establish monitoring parameters
 4. Provide patient education
 5. Determine disposition and follow-up
+6. For pregnant or breastfeeding patients: flag planned medications that are unsafe in the current trimester or during breastfeeding
+7. When renal function is given: give the renally adjusted dose and interval of planned medications from their renal dosing tables
+8. Parse each medication's frequency into a schedule and write it as a readable sig
 
-**Output:** Returns formatted plan section with actionable orders and instructions.`,
+**Output:** Returns formatted plan section with actionable orders and instructions. The section is stored under its section_id for use by compile_soap_note.`,
       inputSchema: DocumentPlanSchema.shape,
     },
     async (input: DocumentPlanInput): Promise<McpResponse<PlanDocumentationOutput>> => {
@@ -146,11 +170,35 @@ export function registerDocumentPlanTool(server: McpServer): void {
         // 2. Process plan documentation
         const planOutput = processPlanDocumentation(validatedInput);
 
-        // 3. Format response
+        // 3. Store section for compile_soap_note
+        const section = planOutput.plan_section;
+        const storedSection = getSoapSectionStore().saveSection({
+          section_id: section.section_id,
+          section_type: 'plan',
+          encounter_id: validatedInput.encounter_id,
+          patient_id: null,
+          encounter_datetime: null,
+          narrative: section.narrative,
+          structured_data: { ...section },
+          linked_section_ids: [validatedInput.assessment_section_id]
+        });
+
+        // 4. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "document_plan",
+          patient_id: storedSection.patient_id,
+          actor: null,
+          input: validatedInput,
+          output: planOutput,
+          decision: `Plan section ${section.section_id} documented with ${section.orders_to_place.length} orders`
+        });
+
+        // 5. Format response
         return responseFormatter.formatGenericToolResponse(planOutput, startTime);
 
       } catch (error) {
         const classifiedError = classifyError(error, `Error in document_plan tool handler`);
+        getAuditLog().recordToolError("document_plan", input, classifiedError);
         return createComprehensiveErrorResponse(classifiedError, null, { 
           toolName: "document_plan", 
           userInput: input 
@@ -165,8 +213,14 @@ export function registerDocumentPlanTool(server: McpServer): void {
 function processPlanDocumentation(input: DocumentPlanInput): PlanDocumentationOutput {
   const sectionId = `plan_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   
+  // Check planned medications against pregnancy and lactation data
+  const pregnancyLactationWarnings = reviewPregnancyLactation(input);
+  
+  // Check planned medications against renal dosing tables
+  const renalDosing = reviewRenalDosing(input);
+  
   // Generate narrative
-  const narrative = generatePlanNarrative(input);
+  const narrative = generatePlanNarrative(input, pregnancyLactationWarnings, renalDosing);
   
   // Create structured plan
   const structuredPlan = createStructuredPlan(input);
@@ -195,12 +249,53 @@ function processPlanDocumentation(input: DocumentPlanInput): PlanDocumentationOu
       prescriptions_to_write: prescriptionsToWrite,
       referrals_to_generate: referralsToGenerate,
       patient_instructions: patientInstructions,
-      follow_up_schedule: followUpSchedule
+      follow_up_schedule: followUpSchedule,
+      pregnancy_lactation_warnings: pregnancyLactationWarnings,
+      renal_dosing: renalDosing
     }
   };
 }
 
-function generatePlanNarrative(input: DocumentPlanInput): string {
+function reviewPregnancyLactation(input: DocumentPlanInput): PregnancyLactationWarning[] {
+  if (!input.patient_context) {
+    return [];
+  }
+  
+  // Discontinued medications no longer expose the patient
+  const medications = input.treatment_plan.medications
+    .filter(med => med.action !== 'discontinue')
+    .map(med => ({ drug_name: med.drug_name, resolved_name: resolveDrugName(med.drug_name).resolved_name }));
+  
+  return getPregnancyLactationDataset().review(medications, {
+    pregnant: input.patient_context.pregnancy_status,
+    gestational_age_weeks: input.patient_context.gestational_age_weeks,
+    breastfeeding: input.patient_context.breastfeeding
+  }).warnings;
+}
+
+function reviewRenalDosing(input: DocumentPlanInput): RenalDoseRecommendation[] {
+  const renalFunction = input.renal_function;
+  if (!renalFunction) {
+    return [];
+  }
+  
+  const tables = getRenalDosingTables();
+  return input.treatment_plan.medications
+    .filter(med => med.action !== 'discontinue')
+    .flatMap(med => {
+      const recommendation = tables.recommend(
+        { drug_name: med.drug_name, resolved_name: resolveDrugName(med.drug_name).resolved_name },
+        renalFunction
+      );
+      return recommendation && recommendation.action !== 'no_change' ? [recommendation] : [];
+    });
+}
+
+function generatePlanNarrative(
+  input: DocumentPlanInput,
+  pregnancyLactationWarnings: PregnancyLactationWarning[],
+  renalDosing: RenalDoseRecommendation[]
+): string {
   const narrative: string[] = [];
   
   // Treatment Plan
@@ -214,7 +309,7 @@ function generatePlanNarrative(input: DocumentPlanInput): string {
                     med.action === 'start' ? 'Start' :
                     med.action === 'modify' ? 'Modify' : 'Discontinue';
       
-      narrative.push(`- ${action} ${med.drug_name} ${med.dose} ${med.frequency} ${med.route} for ${med.duration} (${med.indication})`);
+      narrative.push(`- ${action} ${med.drug_name} ${med.dose} ${parseSig(med.frequency).sig} ${med.route} for ${med.duration} (${med.indication})`);
       
       if (med.monitoring_required.length > 0) {
         narrative.push(`  Monitor: ${med.monitoring_required.join(', ')}`);
@@ -222,6 +317,25 @@ function generatePlanNarrative(input: DocumentPlanInput): string {
     }
   }
   
+  // Pregnancy and lactation warnings
+  if (pregnancyLactationWarnings.length > 0) {
+    narrative.push('Pregnancy/lactation warnings:');
+    for (const warning of pregnancyLactationWarnings) {
+      const context = warning.context === 'pregnancy'
+        ? `pregnancy${warning.trimester ? `, ${warning.trimester} trimester` : ''}`
+        : 'breastfeeding';
+      narrative.push(`- ${warning.drug_name}: ${warning.risk} in ${context}. ${warning.summary}`);
+    }
+  }
+  
+  // Renal dosing
+  if (renalDosing.length > 0) {
+    narrative.push('Renal dosing:');
+    for (const recommendation of renalDosing) {
+      narrative.push(`- ${recommendation.message}`);
+    }
+  }
+  
   // Procedures
   if (input.treatment_plan.procedures.length > 0) {
     narrative.push('Procedures:');
@@ -340,7 +454,7 @@ function generateOrdersToPlace(input: DocumentPlanInput): Array<{
         type: 'medication',
         description: `${med.action} ${med.drug_name}`,
         urgency: 'routine',
-        details: `${med.dose} ${med.frequency} ${med.route} for ${med.duration}`
+        details: `${med.dose} ${parseSig(med.frequency).sig} ${med.route} for ${med.duration}`
       });
     }
   }
@@ -392,6 +506,7 @@ function generatePrescriptions(input: DocumentPlanInput): Array<{
   drug_name: string;
   dose: string;
   frequency: string;
+  parsed_frequency: ParsedSig;
   route: string;
   duration: string;
   indication: string;
@@ -400,6 +515,7 @@ function generatePrescriptions(input: DocumentPlanInput): Array<{
     drug_name: string;
     dose: string;
     frequency: string;
+    parsed_frequency: ParsedSig;
     route: string;
     duration: string;
     indication: string;
@@ -407,10 +523,12 @@ function generatePrescriptions(input: DocumentPlanInput): Array<{
   
   for (const med of input.treatment_plan.medications) {
     if (med.action === 'start' || med.action === 'modify') {
+      const parsedFrequency = parseSig(med.frequency);
       prescriptions.push({
         drug_name: med.drug_name,
         dose: med.dose,
-        frequency: med.frequency,
+        frequency: parsedFrequency.sig,
+        parsed_frequency: parsedFrequency,
         route: med.route,
         duration: med.duration,
         indication: med.indication
@@ -451,7 +569,7 @@ function generatePatientInstructions(input: DocumentPlanInput): string {
   if (newMedications.length > 0) {
     instructions.push('Medication Instructions:');
     for (const med of newMedications) {
-      instructions.push(`- Take ${med.drug_name} ${med.dose} ${med.frequency} ${med.route} for ${med.duration}`);
+      instructions.push(`- Take ${med.drug_name} ${med.dose} ${parseSig(med.frequency).sig} ${med.route} for ${med.duration}`);
       instructions.push(`  Reason: ${med.indication}`);
     }
   }
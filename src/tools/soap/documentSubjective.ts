@@ -9,6 +9,8 @@ import { McpResponse, McpSuccessResponse } from "../../types/mcp.js";
 import { getResponseFormatter } from "../../services/responseFormatter.js";
 import { validateToolInput } from "../../utils/validators.js";
 import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
+import { getSoapSectionStore } from "../../services/soapSectionStore.js";
 
 // Define the Zod schema for subjective documentation input
 export const DocumentSubjectiveSchema = z.object({
@@ -101,7 +103,7 @@ export function registerDocumentSubjectiveTool(server: McpServer): void {
 4. Document medication adherence
 5. Note functional impact
 
-**Output:** Returns formatted subjective section with completeness assessment.`,
+**Output:** Returns formatted subjective section with completeness assessment. The section is stored under its section_id for use by compile_soap_note.`,
       inputSchema: DocumentSubjectiveSchema.shape,
     },
     async (input: DocumentSubjectiveInput): Promise<McpResponse<SubjectiveDocumentationOutput>> => {
@@ -115,11 +117,35 @@ export function registerDocumentSubjectiveTool(server: McpServer): void {
         // 2. Process subjective documentation
         const subjectiveOutput = processSubjectiveDocumentation(validatedInput);
 
-        // 3. Format response
+        // 3. Store section for compile_soap_note
+        const section = subjectiveOutput.subjective_section;
+        const storedSection = getSoapSectionStore().saveSection({
+          section_id: section.section_id,
+          section_type: 'subjective',
+          encounter_id: validatedInput.encounter_id,
+          patient_id: validatedInput.patient_id,
+          encounter_datetime: validatedInput.encounter_datetime,
+          narrative: section.narrative,
+          structured_data: { ...section },
+          linked_section_ids: []
+        });
+
+        // 4. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "document_subjective",
+          patient_id: storedSection.patient_id,
+          actor: null,
+          input: validatedInput,
+          output: subjectiveOutput,
+          decision: `Subjective section ${section.section_id} documented`
+        });
+
+        // 5. Format response
         return responseFormatter.formatGenericToolResponse(subjectiveOutput, startTime);
 
       } catch (error) {
         const classifiedError = classifyError(error, `Error in document_subjective tool handler`);
+        getAuditLog().recordToolError("document_subjective", input, classifiedError);
         return createComprehensiveErrorResponse(classifiedError, null, { 
           toolName: "document_subjective", 
           userInput: input 
@@ -9,6 +9,10 @@ import { McpResponse, McpSuccessResponse } from "../../types/mcp.js";
 import { getResponseFormatter } from "../../services/responseFormatter.js";
 import { validateToolInput } from "../../utils/validators.js";
 import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
+import { resolveDrugName, ResolvedDrugName } from "../../services/drugNameNormalizer.js";
+import { getHepaticDosingTables, HepaticDoseRecommendation } from "../../services/hepaticDosing.js";
+import { ChildPughClass, HepaticAssessment, LiverFunctionSchema, assessHepaticFunction, childPughClassFor } from "../../services/hepaticFunction.js";
 
 // Define the Zod schema for TDM candidate assessment input
 export const AssessTdmCandidateSchema = z.object({
@@ -33,8 +37,12 @@ export const AssessTdmCandidateSchema = z.object({
       hepatic_function: z.object({
         ast: z.number().optional().describe("AST level"),
         alt: z.number().optional().describe("ALT level"),
-        bilirubin: z.number().optional().describe("Total bilirubin"),
-        child_pugh_score: z.enum(['A', 'B', 'C']).optional().describe("Child-Pugh score")
+        bilirubin: z.number().optional().describe("Total bilirubin in mg/dL"),
+        albumin_g_dl: LiverFunctionSchema.shape.albumin_g_dl,
+        inr: LiverFunctionSchema.shape.inr,
+        ascites: LiverFunctionSchema.shape.ascites,
+        encephalopathy: LiverFunctionSchema.shape.encephalopathy,
+        child_pugh_score: z.enum(['A', 'B', 'C']).optional().describe("Child-Pugh class; calculated from bilirubin, albumin, INR, ascites and encephalopathy when all are given")
       })
     }),
     pregnancy_status: z.boolean().describe("Whether patient is pregnant"),
@@ -46,6 +54,7 @@ export type AssessTdmCandidateInput = z.infer<typeof AssessTdmCandidateSchema>;
 
 // TDM assessment output
 export interface TdmAssessmentOutput {
+  resolved_drug_name: ResolvedDrugName;
   tdm_indicated: boolean;
   indication_reasons: string[];
   drug_characteristics: {
@@ -59,6 +68,8 @@ export interface TdmAssessmentOutput {
   sample_type: 'trough' | 'peak' | 'random' | 'both';
   clinical_considerations: string[];
   risk_factors: string[];
+  hepatic_assessment: HepaticAssessment; // Child-Pugh and MELD scores from the liver function tests given
+  hepatic_dosing: HepaticDoseRecommendation | null; // From the drug's hepatic dosing table for the Child-Pugh class
 }
 
 // ===== TOOL REGISTRATION =====
@@ -75,7 +86,7 @@ export function registerAssessTdmCandidateTool(server: McpServer): void {
 **Input Parameters:**
 - patient_id: Unique patient identifier
 - medication: Current medication details
-- patient_factors: Patient demographics and organ function
+- patient_factors: Patient demographics and organ function, including liver function tests for the Child-Pugh and MELD scores
 
 **Assessment Criteria:**
 1. Narrow therapeutic index?
@@ -84,7 +95,7 @@ export function registerAssessTdmCandidateTool(server: McpServer): void {
 4. Known to cause therapeutic/adverse effects?
 5. Serious consequences from toxicity/subtherapeutic levels?
 
-**Output:** Returns TDM recommendation with monitoring parameters and clinical considerations.`,
+**Output:** Returns TDM recommendation with monitoring parameters and clinical considerations, the Child-Pugh and MELD scores, and the drug's hepatic dose adjustment for the Child-Pugh class.`,
       inputSchema: AssessTdmCandidateSchema.shape,
     },
     async (input: AssessTdmCandidateInput): Promise<McpResponse<TdmAssessmentOutput>> => {
@@ -98,11 +109,24 @@ export function registerAssessTdmCandidateTool(server: McpServer): void {
         // 2. Process TDM assessment
         const tdmOutput = processTdmAssessment(validatedInput);
 
-        // 3. Format response
+        // 3. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "assess_tdm_candidate",
+          patient_id: validatedInput.patient_id,
+          actor: null,
+          input: validatedInput,
+          output: tdmOutput,
+          decision: tdmOutput.tdm_indicated
+            ? `TDM indicated for ${validatedInput.medication.drug_name}`
+            : `TDM not indicated for ${validatedInput.medication.drug_name}`
+        });
+
+        // 4. Format response
         return responseFormatter.formatGenericToolResponse(tdmOutput, startTime);
 
       } catch (error) {
         const classifiedError = classifyError(error, `Error in assess_tdm_candidate tool handler`);
+        getAuditLog().recordToolError("assess_tdm_candidate", input, classifiedError);
         return createComprehensiveErrorResponse(classifiedError, null, { 
           toolName: "assess_tdm_candidate", 
           userInput: input 
@@ -115,7 +139,14 @@ export function registerAssessTdmCandidateTool(server: McpServer): void {
 // ===== TDM ASSESSMENT PROCESSING =====
 
 function processTdmAssessment(input: AssessTdmCandidateInput): TdmAssessmentOutput {
-  const drugName = input.medication.drug_name.toLowerCase();
+  const resolvedDrugName = resolveDrugName(input.medication.drug_name);
+  const drugName = resolvedDrugName.resolved_name;
+  const hepaticAssessment = assessHepaticImpairment(input);
+  const childPughClass = childPughClassFor(input.patient_factors.organ_function.hepatic_function.child_pugh_score, hepaticAssessment);
+  const hepaticDosing = childPughClass
+    ? getHepaticDosingTables().recommend({ drug_name: input.medication.drug_name, resolved_name: drugName }, childPughClass)
+    : null;
+  const hepaticConsiderations = hepaticDosing && hepaticDosing.action !== 'no_change' ? [`Hepatic dosing: ${hepaticDosing.message}`] : [];
   
   // TDM-indicated medications database (simplified)
   const tdmMedications = {
@@ -161,6 +192,7 @@ function processTdmAssessment(input: AssessTdmCandidateInput): TdmAssessmentOutp
   
   if (!drugInfo) {
     return {
+      resolved_drug_name: resolvedDrugName,
       tdm_indicated: false,
       indication_reasons: ['Medication not typically requiring TDM'],
       drug_characteristics: {
@@ -172,13 +204,15 @@ function processTdmAssessment(input: AssessTdmCandidateInput): TdmAssessmentOutp
       recommended_monitoring_frequency: 'Not applicable',
       initial_sample_timing: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
       sample_type: 'random',
-      clinical_considerations: ['Consider alternative monitoring methods'],
-      risk_factors: []
+      clinical_considerations: ['Consider alternative monitoring methods', ...hepaticConsiderations],
+      risk_factors: [],
+      hepatic_assessment: hepaticAssessment,
+      hepatic_dosing: hepaticDosing
     };
   }
 
   // Assess patient-specific risk factors
-  const riskFactors = assessRiskFactors(input, drugInfo.risk_factors);
+  const riskFactors = assessRiskFactors(input, drugInfo.risk_factors, childPughClass);
   
   // Determine TDM indication
   const tdmIndicated = drugInfo !== undefined;
@@ -196,6 +230,7 @@ function processTdmAssessment(input: AssessTdmCandidateInput): TdmAssessmentOutp
   const initialSampleTiming = new Date(startDate.getTime() + steadyStateHours * 60 * 60 * 1000).toISOString();
 
   return {
+    resolved_drug_name: resolvedDrugName,
     tdm_indicated: tdmIndicated,
     indication_reasons: indicationReasons,
     drug_characteristics: {
@@ -210,13 +245,31 @@ function processTdmAssessment(input: AssessTdmCandidateInput): TdmAssessmentOutp
     clinical_considerations: [
       'Monitor for signs of toxicity',
       'Consider drug interactions',
-      'Adjust dosing based on organ function'
+      'Adjust dosing based on organ function',
+      ...hepaticConsiderations
     ],
-    risk_factors: riskFactors
+    risk_factors: riskFactors,
+    hepatic_assessment: hepaticAssessment,
+    hepatic_dosing: hepaticDosing
   };
 }
 
-function assessRiskFactors(input: AssessTdmCandidateInput, drugRiskFactors: string[]): string[] {
+/**
+ * Child-Pugh and MELD scores from the hepatic function tests, with serum creatinine from the renal function for MELD.
+ */
+function assessHepaticImpairment(input: AssessTdmCandidateInput): HepaticAssessment {
+  const { hepatic_function: hepatic, renal_function: renal } = input.patient_factors.organ_function;
+  return assessHepaticFunction({
+    bilirubin_mg_dl: hepatic.bilirubin,
+    albumin_g_dl: hepatic.albumin_g_dl,
+    inr: hepatic.inr,
+    ascites: hepatic.ascites,
+    encephalopathy: hepatic.encephalopathy,
+    creatinine_mg_dl: renal.creatinine
+  });
+}
+
+function assessRiskFactors(input: AssessTdmCandidateInput, drugRiskFactors: string[], childPughClass: ChildPughClass | null): string[] {
   const patientRiskFactors: string[] = [];
   
   // Check renal function
@@ -226,8 +279,7 @@ function assessRiskFactors(input: AssessTdmCandidateInput, drugRiskFactors: stri
   }
   
   // Check hepatic function
-  if (input.patient_factors.organ_function.hepatic_function.child_pugh_score && 
-      input.patient_factors.organ_function.hepatic_function.child_pugh_score !== 'A') {
+  if (childPughClass && childPughClass !== 'A') {
     patientRiskFactors.push('hepatic impairment');
   }
   
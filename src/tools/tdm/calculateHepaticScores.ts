@@ -0,0 +1,125 @@
+/**
+ * Calculate Hepatic Scores Tool
+ * Calculates the Child-Pugh and MELD scores and looks up hepatic dose adjustments by Child-Pugh class
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { McpResponse } from "../../types/mcp.js";
+import { getResponseFormatter } from "../../services/responseFormatter.js";
+import { validateToolInput } from "../../utils/validators.js";
+import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
+import { resolveDrugName } from "../../services/drugNameNormalizer.js";
+import { getHepaticDosingTables, HepaticDoseRecommendation } from "../../services/hepaticDosing.js";
+import { HepaticAssessment, LiverFunctionSchema, assessHepaticFunction } from "../../services/hepaticFunction.js";
+
+// Define the Zod schema for hepatic score input
+export const CalculateHepaticScoresSchema = z.object({
+  patient_id: z.string().min(1).describe("Unique patient identifier"),
+  ...LiverFunctionSchema.shape,
+  medications: z.array(
+    z.string().min(1).describe("Drug name (generic, brand or salt form; resolved to the ingredient)")
+  ).optional().describe("Medications to look up in the hepatic dosing tables for the calculated Child-Pugh class")
+});
+
+export type CalculateHepaticScoresInput = z.infer<typeof CalculateHepaticScoresSchema>;
+
+// Hepatic score output
+export interface HepaticScoresOutput extends HepaticAssessment {
+  patient_id: string;
+  hepatic_dosing: HepaticDoseRecommendation[]; // Medications with a table, when the Child-Pugh class could be calculated
+  medications_without_tables: string[];
+}
+
+// ===== TOOL REGISTRATION =====
+
+export function registerCalculateHepaticScoresTool(server: McpServer): void {
+  server.registerTool(
+    "calculate_hepatic_scores",
+    {
+      title: "Calculate Hepatic Scores",
+      description: `Calculates the Child-Pugh and MELD scores and the hepatic dose adjustments for the Child-Pugh class.
+
+**Purpose:** Grade the severity of liver disease and find drug-specific hepatic dosing.
+
+**Input Parameters:**
+- patient_id: Unique patient identifier
+- bilirubin_mg_dl, albumin_g_dl, inr, ascites, encephalopathy: Child-Pugh components
+- creatinine_mg_dl, sodium_mmol_l, dialysis_twice_in_past_week: Additional MELD and MELD-Na inputs
+- medications: Medications to look up in the hepatic dosing tables (optional)
+
+**Process:**
+1. Score bilirubin, albumin, INR, ascites and encephalopathy for the Child-Pugh class
+2. Calculate MELD (UNOS 2016) and MELD-Na when sodium is given
+3. Look up each medication's hepatic dose adjustment for the Child-Pugh class
+
+**Output:** Returns the Child-Pugh score, class and points, MELD and MELD-Na with the values used, the inputs each score is missing, and each medication's hepatic dosing with its references.`,
+      inputSchema: CalculateHepaticScoresSchema.shape,
+    },
+    async (input: CalculateHepaticScoresInput): Promise<McpResponse<HepaticScoresOutput>> => {
+      const startTime = Date.now();
+      const responseFormatter = getResponseFormatter();
+
+      try {
+        // 1. Validate input
+        const { data: validatedInput } = validateToolInput(CalculateHepaticScoresSchema, input, "calculate_hepatic_scores");
+
+        // 2. Calculate scores and hepatic dosing
+        const scoresOutput = processHepaticScores(validatedInput);
+
+        // 3. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "calculate_hepatic_scores",
+          patient_id: validatedInput.patient_id,
+          actor: null,
+          input: validatedInput,
+          output: scoresOutput,
+          decision: [
+            scoresOutput.child_pugh ? `Child-Pugh ${scoresOutput.child_pugh.score} (class ${scoresOutput.child_pugh.class})` : 'Child-Pugh not calculated',
+            scoresOutput.meld ? `MELD ${scoresOutput.meld.meld}` : 'MELD not calculated'
+          ].join(', ')
+        });
+
+        // 4. Format response
+        return responseFormatter.formatGenericToolResponse(scoresOutput, startTime);
+
+      } catch (error) {
+        const classifiedError = classifyError(error, `Error in calculate_hepatic_scores tool handler`);
+        getAuditLog().recordToolError("calculate_hepatic_scores", input, classifiedError);
+        return createComprehensiveErrorResponse(classifiedError, null, {
+          toolName: "calculate_hepatic_scores",
+          userInput: input
+        });
+      }
+    }
+  );
+}
+
+// ===== HEPATIC SCORE PROCESSING =====
+
+function processHepaticScores(input: CalculateHepaticScoresInput): HepaticScoresOutput {
+  const { patient_id: patientId, medications = [], ...liverFunction } = input;
+  const assessment = assessHepaticFunction(liverFunction);
+  const hepaticDosing: HepaticDoseRecommendation[] = [];
+  const medicationsWithoutTables: string[] = [];
+
+  for (const drugName of medications) {
+    const resolvedName = resolveDrugName(drugName).resolved_name;
+    if (!getHepaticDosingTables().hasTable(resolvedName)) {
+      medicationsWithoutTables.push(drugName);
+      continue;
+    }
+    const recommendation = assessment.child_pugh
+      ? getHepaticDosingTables().recommend({ drug_name: drugName, resolved_name: resolvedName }, assessment.child_pugh.class)
+      : null;
+    if (recommendation) hepaticDosing.push(recommendation);
+  }
+
+  return {
+    patient_id: patientId,
+    ...assessment,
+    hepatic_dosing: hepaticDosing,
+    medications_without_tables: medicationsWithoutTables
+  };
+}
@@ -9,19 +9,26 @@ import { McpResponse, McpSuccessResponse } from "../../types/mcp.js";
 import { getResponseFormatter } from "../../services/responseFormatter.js";
 import { validateToolInput } from "../../utils/validators.js";
 import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
+import { resolveDrugName, ResolvedDrugName } from "../../services/drugNameNormalizer.js";
+import { getPharmacokineticInteractionEngine, PharmacokineticPrediction } from "../../services/pharmacokineticInteractions.js";
+import { getRenalDosingTables } from "../../services/renalDosing.js";
 
 // Define the Zod schema for steady state calculation input
 export const CalculateSteadyStateSchema = z.object({
+  patient_id: z.string().optional().describe("Patient identifier, recorded in the audit trail"),
   drug_name: z.string().describe("Name of the medication"),
   drug_half_life: z.number().describe("Drug half-life in hours"),
   dosing_start_datetime: z.string().describe("ISO8601 datetime when dosing started"),
   loading_dose_given: z.boolean().describe("Whether a loading dose was given"),
   patient_factors: z.object({
     renal_impairment: z.enum(['none', 'mild', 'moderate', 'severe', 'esrd']).describe("Level of renal impairment"),
+    creatinine_clearance_ml_min: z.number().min(0).optional().describe("Creatinine clearance in mL/min; when omitted, a typical value for the level of renal impairment is used"),
     hepatic_impairment: z.enum(['none', 'mild', 'moderate', 'severe']).describe("Level of hepatic impairment"),
     age_years: z.number().describe("Patient age in years"),
-    concurrent_enzyme_inducers: z.array(z.string()).describe("Concurrent enzyme-inducing medications"),
-    concurrent_enzyme_inhibitors: z.array(z.string()).describe("Concurrent enzyme-inhibiting medications")
+    concurrent_enzyme_inducers: z.array(z.string()).optional().describe("Concurrent enzyme-inducing medications, in addition to those found in concurrent_medications"),
+    concurrent_enzyme_inhibitors: z.array(z.string()).optional().describe("Concurrent enzyme-inhibiting medications, in addition to those found in concurrent_medications"),
+    concurrent_medications: z.array(z.string()).optional().describe("Other current medications; CYP450 and P-gp inducers and inhibitors of this drug are identified from them")
   })
 });
 
@@ -29,6 +36,12 @@ export type CalculateSteadyStateInput = z.infer<typeof CalculateSteadyStateSchem
 
 // Steady state calculation output
 export interface SteadyStateOutput {
+  resolved_drug_name: ResolvedDrugName;
+  enzyme_modulators: {
+    inducers: string[]; // Listed in the input or derived from concurrent medications
+    inhibitors: string[];
+    predicted_interactions: PharmacokineticPrediction[]; // Derived from concurrent medications
+  };
   steady_state_datetime: string;
   earliest_sample_datetime: string;
   confidence_level: 'high' | 'medium' | 'low';
@@ -54,17 +67,18 @@ export function registerCalculateSteadyStateTool(server: McpServer): void {
 **Purpose:** Determine optimal timing for TDM sample collection based on pharmacokinetics.
 
 **Input Parameters:**
+- patient_id: Patient identifier for the audit trail (optional)
 - drug_name: Name of the medication
 - drug_half_life: Half-life in hours
 - dosing_start_datetime: When dosing started
 - loading_dose_given: Whether loading dose was administered
-- patient_factors: Patient-specific factors affecting metabolism
+- patient_factors: Patient-specific factors affecting metabolism, including concurrent medications
 
 **Process:**
 1. Calculate 4-5 half-lives from start
 2. Adjust for loading dose (may reach earlier)
-3. Adjust for organ impairment (may take longer)
-4. Consider drug-drug interactions affecting metabolism
+3. Adjust for organ impairment (may take longer), scaling half-life by the drug's fraction excreted unchanged when it has a renal dosing table
+4. Consider drug-drug interactions affecting metabolism, identifying CYP450 and P-gp inducers and inhibitors among concurrent medications
 
 **Output:** Returns steady state timing with confidence level and adjustment factors.`,
       inputSchema: CalculateSteadyStateSchema.shape,
@@ -80,11 +94,22 @@ export function registerCalculateSteadyStateTool(server: McpServer): void {
         // 2. Process steady state calculation
         const steadyStateOutput = processSteadyStateCalculation(validatedInput);
 
-        // 3. Format response
+        // 3. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "calculate_steady_state",
+          patient_id: validatedInput.patient_id ?? null,
+          actor: null,
+          input: validatedInput,
+          output: steadyStateOutput,
+          decision: `Steady state for ${validatedInput.drug_name} expected at ${steadyStateOutput.steady_state_datetime}`
+        });
+
+        // 4. Format response
         return responseFormatter.formatGenericToolResponse(steadyStateOutput, startTime);
 
       } catch (error) {
         const classifiedError = classifyError(error, `Error in calculate_steady_state tool handler`);
+        getAuditLog().recordToolError("calculate_steady_state", input, classifiedError);
         return createComprehensiveErrorResponse(classifiedError, null, { 
           toolName: "calculate_steady_state", 
           userInput: input 
@@ -98,6 +123,8 @@ export function registerCalculateSteadyStateTool(server: McpServer): void {
 
 function processSteadyStateCalculation(input: CalculateSteadyStateInput): SteadyStateOutput {
   const startDate = new Date(input.dosing_start_datetime);
+  const resolvedDrugName = resolveDrugName(input.drug_name);
+  const modulators = identifyEnzymeModulators(input, resolvedDrugName);
   
   // Base calculation: 4-5 half-lives for steady state
   const baseHalfLives = 4.5; // Use 4.5 as a conservative estimate
@@ -121,14 +148,14 @@ function processSteadyStateCalculation(input: CalculateSteadyStateInput): Steady
   }
   
   // Renal impairment adjustment
-  if (input.patient_factors.renal_impairment !== 'none') {
-    const renalMultiplier = getRenalImpairmentMultiplier(input.patient_factors.renal_impairment);
-    adjustedHours = adjustedHours * renalMultiplier;
+  const renalAdjustment = getRenalAdjustment(input, resolvedDrugName.resolved_name);
+  if (renalAdjustment) {
+    adjustedHours = adjustedHours * renalAdjustment.multiplier;
     confidenceLevel = 'medium';
     adjustmentFactors.push({
-      factor: `Renal impairment (${input.patient_factors.renal_impairment})`,
-      impact: renalMultiplier > 1 ? 'increases' : 'decreases',
-      description: `Renal impairment affects drug elimination, ${renalMultiplier > 1 ? 'increasing' : 'decreasing'} time to steady state`
+      factor: `Renal impairment (${input.patient_factors.renal_impairment}, CrCl ${renalAdjustment.creatinine_clearance} mL/min)`,
+      impact: 'increases',
+      description: renalAdjustment.description
     });
   }
   
@@ -145,19 +172,19 @@ function processSteadyStateCalculation(input: CalculateSteadyStateInput): Steady
   }
   
   // Drug interaction adjustments
-  if (input.patient_factors.concurrent_enzyme_inducers.length > 0) {
+  if (modulators.inducers.length > 0) {
     adjustedHours = adjustedHours * 0.8; // Enzyme inducers decrease time to steady state
     adjustmentFactors.push({
-      factor: 'Concurrent enzyme inducers',
+      factor: `Concurrent enzyme inducers (${modulators.inducers.join(', ')})`,
       impact: 'decreases',
       description: 'Enzyme inducers increase drug metabolism, reducing time to steady state'
     });
   }
   
-  if (input.patient_factors.concurrent_enzyme_inhibitors.length > 0) {
+  if (modulators.inhibitors.length > 0) {
     adjustedHours = adjustedHours * 1.2; // Enzyme inhibitors increase time to steady state
     adjustmentFactors.push({
-      factor: 'Concurrent enzyme inhibitors',
+      factor: `Concurrent enzyme inhibitors (${modulators.inhibitors.join(', ')})`,
       impact: 'increases',
       description: 'Enzyme inhibitors decrease drug metabolism, increasing time to steady state'
     });
@@ -181,9 +208,11 @@ function processSteadyStateCalculation(input: CalculateSteadyStateInput): Steady
   const recommendEarlyMonitoring = shouldRecommendEarlyMonitoring(input, adjustedHours);
   
   // Generate special considerations
-  const specialConsiderations = generateSpecialConsiderations(input, adjustedHours);
+  const specialConsiderations = generateSpecialConsiderations(input, adjustedHours, modulators);
   
   return {
+    resolved_drug_name: resolvedDrugName,
+    enzyme_modulators: modulators,
     steady_state_datetime: steadyStateDatetime,
     earliest_sample_datetime: earliestSampleDatetime,
     confidence_level: confidenceLevel,
@@ -195,6 +224,26 @@ function processSteadyStateCalculation(input: CalculateSteadyStateInput): Steady
   };
 }
 
+/**
+ * Combines the inducers and inhibitors listed in the input with those found among concurrent
+ * medications by the CYP450/P-gp profiles. Names listed twice are reported once.
+ */
+function identifyEnzymeModulators(input: CalculateSteadyStateInput, resolvedDrugName: ResolvedDrugName): SteadyStateOutput['enzyme_modulators'] {
+  const concurrentMedications = (input.patient_factors.concurrent_medications ?? []).map(name => resolveDrugName(name).resolved_name);
+  const derived = getPharmacokineticInteractionEngine().findModulators(resolvedDrugName.resolved_name, concurrentMedications);
+  
+  const merge = (listed: string[], found: string[]) => {
+    const listedIngredients = new Set(listed.map(name => resolveDrugName(name).resolved_name));
+    return [...listed, ...found.filter(name => !listedIngredients.has(name))];
+  };
+  
+  return {
+    inducers: merge(input.patient_factors.concurrent_enzyme_inducers ?? [], derived.inducers),
+    inhibitors: merge(input.patient_factors.concurrent_enzyme_inhibitors ?? [], derived.inhibitors),
+    predicted_interactions: derived.predictions
+  };
+}
+
 function calculateAdjustmentFactors(input: CalculateSteadyStateInput): Array<{
   factor: string;
   impact: 'increases' | 'decreases' | 'no_effect';
@@ -216,14 +265,62 @@ function calculateAdjustmentFactors(input: CalculateSteadyStateInput): Array<{
   return factors;
 }
 
-function getRenalImpairmentMultiplier(impairment: string): number {
-  switch (impairment) {
-    case 'mild': return 1.1;
-    case 'moderate': return 1.3;
-    case 'severe': return 1.6;
-    case 'esrd': return 2.0;
-    default: return 1.0;
+// Typical creatinine clearance (mL/min) for each level of renal impairment, used when none is given
+const TYPICAL_CREATININE_CLEARANCE: Record<CalculateSteadyStateInput['patient_factors']['renal_impairment'], number | null> = {
+  none: null,
+  mild: 75,
+  moderate: 45,
+  severe: 22,
+  esrd: 10
+};
+
+/**
+ * Half-life multiplier for the patient's renal function. Drugs in the renal dosing tables are
+ * scaled by their fraction excreted unchanged; other drugs use a generic multiplier for the level
+ * of impairment. Null when renal function does not lengthen the half-life.
+ */
+function getRenalAdjustment(input: CalculateSteadyStateInput, resolvedName: string): {
+  multiplier: number;
+  creatinine_clearance: number;
+  description: string;
+} | null {
+  const creatinineClearance = input.patient_factors.creatinine_clearance_ml_min ??
+    TYPICAL_CREATININE_CLEARANCE[input.patient_factors.renal_impairment];
+  if (creatinineClearance === null) {
+    return null;
   }
+  
+  const tables = getRenalDosingTables();
+  const drugMultiplier = tables.halfLifeMultiplier(resolvedName, creatinineClearance);
+  if (drugMultiplier !== null) {
+    const multiplier = Math.round(drugMultiplier * 100) / 100;
+    if (multiplier === 1) {
+      return null;
+    }
+    return {
+      multiplier,
+      creatinine_clearance: creatinineClearance,
+      description: `Half-life lengthened ${multiplier}-fold from the fraction of ${resolvedName} excreted unchanged (${tables.version.name} ${tables.version.version})`
+    };
+  }
+  
+  const multiplier = getRenalImpairmentMultiplier(creatinineClearance);
+  if (multiplier === 1) {
+    return null;
+  }
+  return {
+    multiplier,
+    creatinine_clearance: creatinineClearance,
+    description: `No renal dosing table for ${resolvedName}; generic ${multiplier}-fold increase for this creatinine clearance`
+  };
+}
+
+function getRenalImpairmentMultiplier(creatinineClearance: number): number {
+  if (creatinineClearance < 15) return 2.0;
+  if (creatinineClearance < 30) return 1.6;
+  if (creatinineClearance < 60) return 1.3;
+  if (creatinineClearance < 90) return 1.1;
+  return 1.0;
 }
 
 function getHepaticImpairmentMultiplier(impairment: string): number {
@@ -245,7 +342,11 @@ function shouldRecommendEarlyMonitoring(input: CalculateSteadyStateInput, adjust
   );
 }
 
-function generateSpecialConsiderations(input: CalculateSteadyStateInput, adjustedHours: number): string[] {
+function generateSpecialConsiderations(
+  input: CalculateSteadyStateInput,
+  adjustedHours: number,
+  modulators: SteadyStateOutput['enzyme_modulators']
+): string[] {
   const considerations: string[] = [];
   
   if (input.patient_factors.renal_impairment !== 'none') {
@@ -256,14 +357,18 @@ function generateSpecialConsiderations(input: CalculateSteadyStateInput, adjuste
     considerations.push('Monitor hepatic function during therapy');
   }
   
-  if (input.patient_factors.concurrent_enzyme_inducers.length > 0) {
+  if (modulators.inducers.length > 0) {
     considerations.push('Monitor for decreased drug levels due to enzyme induction');
   }
   
-  if (input.patient_factors.concurrent_enzyme_inhibitors.length > 0) {
+  if (modulators.inhibitors.length > 0) {
     considerations.push('Monitor for increased drug levels due to enzyme inhibition');
   }
   
+  for (const prediction of modulators.predicted_interactions) {
+    considerations.push(prediction.summary);
+  }
+  
   if (adjustedHours > 48) {
     considerations.push('Consider loading dose if not already given');
   }
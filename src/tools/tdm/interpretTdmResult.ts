@@ -9,6 +9,12 @@ import { McpResponse, McpSuccessResponse } from "../../types/mcp.js";
 import { getResponseFormatter } from "../../services/responseFormatter.js";
 import { validateToolInput } from "../../utils/validators.js";
 import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
+import { resolveDrugName, ResolvedDrugName } from "../../services/drugNameNormalizer.js";
+import { getRenalDosingTables, RenalDoseRecommendation } from "../../services/renalDosing.js";
+import { getHepaticDosingTables, HepaticDoseRecommendation } from "../../services/hepaticDosing.js";
+import { HepaticAssessment, LiverFunctionSchema, assessHepaticFunction, childPughClassFor } from "../../services/hepaticFunction.js";
+import { formatQuantity, parseQuantity, scaleQuantity } from "../../utils/quantities.js";
 
 // Define the Zod schema for TDM result interpretation input
 export const InterpretTdmResultSchema = z.object({
@@ -34,13 +40,23 @@ export const InterpretTdmResultSchema = z.object({
     therapeutic_effect: z.enum(['none', 'partial', 'adequate', 'excessive']).describe("Observed therapeutic effect"),
     adverse_effects: z.array(z.string()).describe("List of adverse effects observed"),
     signs_of_toxicity: z.array(z.string()).describe("Signs of toxicity if any")
-  })
+  }),
+  renal_function: z.object({
+    creatinine_clearance_ml_min: z.number().min(0).optional().describe("Creatinine clearance (Cockcroft-Gault) in mL/min"),
+    egfr_ml_min_1_73m2: z.number().min(0).optional().describe("eGFR in mL/min/1.73m²"),
+    dialysis: z.enum(['none', 'hemodialysis', 'peritoneal_dialysis', 'crrt']).optional().describe("Dialysis modality, if any")
+  }).optional().describe("Current renal function, used for drug-specific renal dosing"),
+  hepatic_function: z.object({
+    child_pugh_class: z.enum(['A', 'B', 'C']).optional().describe("Child-Pugh class, if known"),
+    ...LiverFunctionSchema.shape
+  }).optional().describe("Current liver function; the Child-Pugh class is calculated from the liver function tests when complete and used for drug-specific hepatic dosing")
 });
 
 export type InterpretTdmResultInput = z.infer<typeof InterpretTdmResultSchema>;
 
 // TDM interpretation output
 export interface TdmInterpretationOutput {
+  resolved_drug_name: ResolvedDrugName;
   interpretation: {
     level_status: 'subtherapeutic' | 'therapeutic' | 'supratherapeutic' | 'toxic';
     clinical_significance: string;
@@ -53,6 +69,8 @@ export interface TdmInterpretationOutput {
     new_frequency?: string;
     rationale: string;
     expected_new_level?: number;
+    renal_dosing?: RenalDoseRecommendation; // From the drug's renal dosing table, when renal function is given
+    hepatic_dosing?: HepaticDoseRecommendation; // From the drug's hepatic dosing table, when the Child-Pugh class is known
   };
   follow_up_plan: {
     repeat_tdm: boolean;
@@ -61,6 +79,7 @@ export interface TdmInterpretationOutput {
     laboratory_monitoring: string[];
   };
   alerts: string[];
+  hepatic_assessment?: HepaticAssessment; // Child-Pugh and MELD scores, when liver function is given
 }
 
 // ===== TOOL REGISTRATION =====
@@ -85,12 +104,14 @@ export function registerInterpretTdmResultTool(server: McpServer): void {
 - current_dosing_regimen: Current dosing details
 - therapeutic_range: Therapeutic range for the drug
 - clinical_response: Observed clinical effects
+- renal_function: Creatinine clearance, eGFR or dialysis modality (optional)
+- hepatic_function: Child-Pugh class or liver function tests (optional)
 
 **Process:**
 1. Validate sample timing accuracy
 2. Compare result to therapeutic range
 3. Assess clinical correlation
-4. Calculate dose adjustment if needed
+4. Calculate dose adjustment if needed, with the interval from the drug's renal dosing table for the current renal function and its hepatic dosing table for the Child-Pugh class
 5. Consider pharmacokinetic parameters
 
 **Output:** Returns interpretation with dose recommendations and follow-up plan.`,
@@ -107,11 +128,22 @@ export function registerInterpretTdmResultTool(server: McpServer): void {
         // 2. Process TDM interpretation
         const interpretationOutput = processTdmInterpretation(validatedInput);
 
-        // 3. Format response
+        // 3. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "interpret_tdm_result",
+          patient_id: validatedInput.patient_id,
+          actor: null,
+          input: validatedInput,
+          output: interpretationOutput,
+          decision: `Level ${interpretationOutput.interpretation.level_status}; dose action ${interpretationOutput.dose_recommendation.action}`
+        });
+
+        // 4. Format response
         return responseFormatter.formatGenericToolResponse(interpretationOutput, startTime);
 
       } catch (error) {
         const classifiedError = classifyError(error, `Error in interpret_tdm_result tool handler`);
+        getAuditLog().recordToolError("interpret_tdm_result", input, classifiedError);
         return createComprehensiveErrorResponse(classifiedError, null, { 
           toolName: "interpret_tdm_result", 
           userInput: input 
@@ -124,6 +156,8 @@ export function registerInterpretTdmResultTool(server: McpServer): void {
 // ===== TDM INTERPRETATION PROCESSING =====
 
 function processTdmInterpretation(input: InterpretTdmResultInput): TdmInterpretationOutput {
+  const resolvedDrugName = resolveDrugName(input.drug_name);
+
   // Assess timing appropriateness
   const timingAssessment = assessSampleTiming(input);
   
@@ -133,16 +167,32 @@ function processTdmInterpretation(input: InterpretTdmResultInput): TdmInterpreta
   // Generate clinical significance
   const clinicalSignificance = generateClinicalSignificance(levelStatus, input.clinical_response);
   
+  // Look up renal dosing for the current renal function
+  const renalDosing = input.renal_function
+    ? getRenalDosingTables().recommend({ drug_name: input.drug_name, resolved_name: resolvedDrugName.resolved_name }, input.renal_function)
+    : null;
+  
+  // Look up hepatic dosing for the Child-Pugh class, calculated from liver function tests when complete
+  const hepaticAssessment = input.hepatic_function ? assessHepaticFunction(input.hepatic_function) : null;
+  const childPughClass = childPughClassFor(input.hepatic_function?.child_pugh_class, hepaticAssessment);
+  const hepaticDosing = childPughClass
+    ? getHepaticDosingTables().recommend({ drug_name: input.drug_name, resolved_name: resolvedDrugName.resolved_name }, childPughClass)
+    : null;
+  
   // Calculate dose recommendation
-  const doseRecommendation = calculateDoseRecommendation(input, levelStatus);
+  const doseRecommendation = applyHepaticDosing(
+    applyRenalDosing(calculateDoseRecommendation(input, levelStatus), renalDosing),
+    hepaticDosing
+  );
   
   // Create follow-up plan
-  const followUpPlan = createFollowUpPlan(input, levelStatus);
+  const followUpPlan = createFollowUpPlan(resolvedDrugName.resolved_name, levelStatus);
   
   // Generate alerts
-  const alerts = generateAlerts(input, levelStatus);
+  const alerts = generateAlerts(input, levelStatus, renalDosing, hepaticDosing);
   
   return {
+    resolved_drug_name: resolvedDrugName,
     interpretation: {
       level_status: levelStatus,
       clinical_significance: clinicalSignificance,
@@ -151,7 +201,8 @@ function processTdmInterpretation(input: InterpretTdmResultInput): TdmInterpreta
     },
     dose_recommendation: doseRecommendation,
     follow_up_plan: followUpPlan,
-    alerts: alerts
+    alerts: alerts,
+    ...(hepaticAssessment && { hepatic_assessment: hepaticAssessment })
   };
 }
 
@@ -251,16 +302,14 @@ function calculateDoseRecommendation(
   rationale: string;
   expected_new_level?: number;
 } {
-  const currentDose = parseFloat(input.current_dosing_regimen.dose);
-  
   switch (levelStatus) {
     case 'subtherapeutic':
       if (input.clinical_response.therapeutic_effect === 'none' || input.clinical_response.therapeutic_effect === 'partial') {
-        const newDose = Math.round(currentDose * 1.25 * 100) / 100; // 25% increase
+        const newDose = scaleCurrentDose(input, 1.25); // 25% increase
         return {
           action: 'increase',
-          new_dose: `${newDose} mg`,
-          rationale: 'Subtherapeutic level with inadequate response - increase dose by 25%',
+          ...(newDose && { new_dose: newDose }),
+          rationale: `Subtherapeutic level with inadequate response - increase dose by 25%${newDose ? '' : unrecognisedDoseNote(input)}`,
           expected_new_level: input.measured_concentration * 1.25
         };
       } else {
@@ -278,11 +327,11 @@ function calculateDoseRecommendation(
       
     case 'supratherapeutic':
       if (input.clinical_response.adverse_effects.length > 0) {
-        const newDose = Math.round(currentDose * 0.8 * 100) / 100; // 20% decrease
+        const newDose = scaleCurrentDose(input, 0.8); // 20% decrease
         return {
           action: 'decrease',
-          new_dose: `${newDose} mg`,
-          rationale: 'Supratherapeutic level with adverse effects - decrease dose by 20%',
+          ...(newDose && { new_dose: newDose }),
+          rationale: `Supratherapeutic level with adverse effects - decrease dose by 20%${newDose ? '' : unrecognisedDoseNote(input)}`,
           expected_new_level: input.measured_concentration * 0.8
         };
       } else {
@@ -299,11 +348,11 @@ function calculateDoseRecommendation(
           rationale: 'Toxic level with signs of toxicity - discontinue medication immediately'
         };
       } else {
-        const newDose = Math.round(currentDose * 0.5 * 100) / 100; // 50% decrease
+        const newDose = scaleCurrentDose(input, 0.5); // 50% decrease
         return {
           action: 'decrease',
-          new_dose: `${newDose} mg`,
-          rationale: 'Toxic level - decrease dose by 50% and monitor closely',
+          ...(newDose && { new_dose: newDose }),
+          rationale: `Toxic level - decrease dose by 50% and monitor closely${newDose ? '' : unrecognisedDoseNote(input)}`,
           expected_new_level: input.measured_concentration * 0.5
         };
       }
@@ -316,8 +365,92 @@ function calculateDoseRecommendation(
   }
 }
 
+/**
+ * The current dose scaled by a factor and rounded to two decimals, in the current dose's units,
+ * or null when the dose has no recognised units.
+ */
+function scaleCurrentDose(input: InterpretTdmResultInput, factor: number): string | null {
+  const currentDose = parseQuantity(input.current_dosing_regimen.dose);
+  if (!currentDose) {
+    return null;
+  }
+  
+  const scaled = scaleQuantity(currentDose, factor);
+  return formatQuantity({
+    ...scaled,
+    value: Math.round(scaled.value * 100) / 100,
+    max: scaled.max === null ? null : Math.round(scaled.max * 100) / 100
+  });
+}
+
+function unrecognisedDoseNote(input: InterpretTdmResultInput): string {
+  return `; the current dose '${input.current_dosing_regimen.dose}' has no recognised units, so calculate the new dose from it directly`;
+}
+
+/**
+ * Adds the renal dosing recommendation to a level-based dose recommendation. A renally adjusted
+ * interval replaces the frequency unless the drug is being discontinued.
+ */
+function applyRenalDosing(
+  recommendation: TdmInterpretationOutput['dose_recommendation'],
+  renalDosing: RenalDoseRecommendation | null
+): TdmInterpretationOutput['dose_recommendation'] {
+  if (!renalDosing || renalDosing.action === 'no_change') {
+    return renalDosing ? { ...recommendation, renal_dosing: renalDosing } : recommendation;
+  }
+  
+  if (renalDosing.action === 'adjust' && renalDosing.interval && recommendation.action !== 'discontinue') {
+    return {
+      ...recommendation,
+      new_frequency: renalDosing.interval,
+      rationale: `${recommendation.rationale}. Renal dosing for ${renalDosing.band}: ${renalDosing.dose} ${renalDosing.interval}`,
+      renal_dosing: renalDosing
+    };
+  }
+  
+  const renalNote = renalDosing.action === 'avoid'
+    ? `Renal dosing tables advise avoiding ${renalDosing.drug_name} at ${renalDosing.band}`
+    : `No renal dosing recommendation for ${renalDosing.band}`;
+  return {
+    ...recommendation,
+    rationale: `${recommendation.rationale}. ${renalNote}`,
+    renal_dosing: renalDosing
+  };
+}
+
+/**
+ * Adds the hepatic dosing recommendation to a dose recommendation. A hepatically adjusted interval
+ * sets the frequency unless renal dosing has already set one or the drug is being discontinued.
+ */
+function applyHepaticDosing(
+  recommendation: TdmInterpretationOutput['dose_recommendation'],
+  hepaticDosing: HepaticDoseRecommendation | null
+): TdmInterpretationOutput['dose_recommendation'] {
+  if (!hepaticDosing || hepaticDosing.action === 'no_change') {
+    return hepaticDosing ? { ...recommendation, hepatic_dosing: hepaticDosing } : recommendation;
+  }
+  
+  if (hepaticDosing.action === 'adjust' && hepaticDosing.interval && recommendation.action !== 'discontinue') {
+    return {
+      ...recommendation,
+      new_frequency: recommendation.new_frequency ?? hepaticDosing.interval,
+      rationale: `${recommendation.rationale}. Hepatic dosing for Child-Pugh class ${hepaticDosing.child_pugh_class}: ${hepaticDosing.dose} ${hepaticDosing.interval}`,
+      hepatic_dosing: hepaticDosing
+    };
+  }
+  
+  const hepaticNote = hepaticDosing.action === 'avoid'
+    ? `Hepatic dosing tables advise avoiding ${hepaticDosing.drug_name} in Child-Pugh class ${hepaticDosing.child_pugh_class}`
+    : `Use ${hepaticDosing.drug_name} with caution in Child-Pugh class ${hepaticDosing.child_pugh_class}`;
+  return {
+    ...recommendation,
+    rationale: `${recommendation.rationale}. ${hepaticNote}`,
+    hepatic_dosing: hepaticDosing
+  };
+}
+
 function createFollowUpPlan(
-  input: InterpretTdmResultInput, 
+  resolvedName: string, 
   levelStatus: string
 ): {
   repeat_tdm: boolean;
@@ -336,14 +469,14 @@ function createFollowUpPlan(
   }
   
   // Clinical monitoring based on drug and level status
-  if (input.drug_name.toLowerCase().includes('vancomycin')) {
+  if (resolvedName === 'vancomycin') {
     clinicalMonitoring.push('Monitor for signs of nephrotoxicity');
     clinicalMonitoring.push('Monitor for signs of ototoxicity');
     laboratoryMonitoring.push('Serum creatinine daily');
     laboratoryMonitoring.push('BUN daily');
   }
   
-  if (input.drug_name.toLowerCase().includes('digoxin')) {
+  if (resolvedName === 'digoxin') {
     clinicalMonitoring.push('Monitor heart rate and rhythm');
     clinicalMonitoring.push('Monitor for signs of digoxin toxicity');
     laboratoryMonitoring.push('Serum potassium');
@@ -365,7 +498,12 @@ function createFollowUpPlan(
   };
 }
 
-function generateAlerts(input: InterpretTdmResultInput, levelStatus: string): string[] {
+function generateAlerts(
+  input: InterpretTdmResultInput,
+  levelStatus: string,
+  renalDosing: RenalDoseRecommendation | null,
+  hepaticDosing: HepaticDoseRecommendation | null
+): string[] {
   const alerts: string[] = [];
   
   if (levelStatus === 'toxic') {
@@ -381,5 +519,17 @@ function generateAlerts(input: InterpretTdmResultInput, levelStatus: string): st
     alerts.push('Subtherapeutic level with no therapeutic effect - consider dose increase');
   }
   
+  if (renalDosing?.action === 'avoid') {
+    alerts.push(`Renal dosing advises avoiding this drug: ${renalDosing.message}`);
+  } else if (renalDosing?.action === 'adjust' || renalDosing?.action === 'no_recommendation') {
+    alerts.push(`Renal dosing: ${renalDosing.message}`);
+  }
+  
+  if (hepaticDosing?.action === 'avoid') {
+    alerts.push(`Hepatic dosing advises avoiding this drug: ${hepaticDosing.message}`);
+  } else if (hepaticDosing?.action === 'adjust' || hepaticDosing?.action === 'use_with_caution') {
+    alerts.push(`Hepatic dosing: ${hepaticDosing.message}`);
+  }
+  
   return alerts;
 }
@@ -9,6 +9,9 @@ import { McpResponse, McpSuccessResponse } from "../../types/mcp.js";
 import { getResponseFormatter } from "../../services/responseFormatter.js";
 import { validateToolInput } from "../../utils/validators.js";
 import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
+import { resolveDrugName, ResolvedDrugName } from "../../services/drugNameNormalizer.js";
+import { Quantity, convertQuantity, describeUnitMismatch, parseQuantity } from "../../utils/quantities.js";
 
 // Define the Zod schema for TDM trends monitoring input
 export const MonitorTdmTrendsSchema = z.object({
@@ -27,6 +30,7 @@ export type MonitorTdmTrendsInput = z.infer<typeof MonitorTdmTrendsSchema>;
 
 // TDM trends output
 export interface TdmTrendsOutput {
+  resolved_drug_name: ResolvedDrugName;
   trend_analysis: {
     direction: 'increasing' | 'decreasing' | 'stable' | 'erratic';
     variability: 'low' | 'moderate' | 'high';
@@ -95,11 +99,22 @@ export function registerMonitorTdmTrendsTool(server: McpServer): void {
           minimum_results: validatedInput.minimum_results || 2
         });
 
-        // 3. Format response
+        // 3. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "monitor_tdm_trends",
+          patient_id: validatedInput.patient_id,
+          actor: null,
+          input: validatedInput,
+          output: trendsOutput,
+          decision: `Levels ${trendsOutput.trend_analysis.direction} with ${trendsOutput.trend_analysis.variability} variability`
+        });
+
+        // 4. Format response
         return responseFormatter.formatGenericToolResponse(trendsOutput, startTime);
 
       } catch (error) {
         const classifiedError = classifyError(error, `Error in monitor_tdm_trends tool handler`);
+        getAuditLog().recordToolError("monitor_tdm_trends", input, classifiedError);
         return createComprehensiveErrorResponse(classifiedError, null, { 
           toolName: "monitor_tdm_trends", 
           userInput: input 
@@ -112,6 +127,8 @@ export function registerMonitorTdmTrendsTool(server: McpServer): void {
 // ===== TDM TRENDS ANALYSIS PROCESSING =====
 
 function processTdmTrendsAnalysis(input: MonitorTdmTrendsInput): TdmTrendsOutput {
+  const resolvedDrugName = resolveDrugName(input.drug_name);
+
   // Sort results by datetime
   const sortedResults = input.tdm_results.sort((a, b) => 
     new Date(a.datetime).getTime() - new Date(b.datetime).getTime()
@@ -127,9 +144,10 @@ function processTdmTrendsAnalysis(input: MonitorTdmTrendsInput): TdmTrendsOutput
   const recommendations = generateTrendRecommendations(trendAnalysis, doseResponseAnalysis, input.drug_name);
   
   // Create trend chart data
-  const trendChartData = createTrendChartData(sortedResults, input.drug_name);
+  const trendChartData = createTrendChartData(sortedResults, resolvedDrugName.resolved_name);
   
   return {
+    resolved_drug_name: resolvedDrugName,
     trend_analysis: trendAnalysis,
     dose_response_relationship: doseResponseAnalysis,
     recommendations: recommendations,
@@ -226,13 +244,20 @@ function analyzeDoseResponseRelationship(results: Array<{
 } {
   const factorsAffecting: string[] = [];
   
-  // Analyze dose-concentration relationship
-  const doseConcentrationPairs = results.map(r => {
-    const doseParts = r.dose_at_time.split(' ');
-    return {
-      dose: parseFloat(doseParts[0] || '0') || 0,
-      concentration: r.concentration
-    };
+  // Analyze dose-concentration relationship, with every dose in the units of the first recognised dose
+  const doses = results.map(r => parseQuantity(r.dose_at_time));
+  const referenceDose = doses.find((dose): dose is Quantity => dose !== null) ?? null;
+  const doseConcentrationPairs: Array<{ dose: number; concentration: number }> = [];
+  results.forEach((r, index) => {
+    const dose = doses[index] ?? null;
+    const converted = dose && referenceDose ? convertQuantity(dose, referenceDose.unit) : null;
+    if (converted) {
+      doseConcentrationPairs.push({ dose: converted.value, concentration: r.concentration });
+    } else if (dose && referenceDose) {
+      factorsAffecting.push(`Dose at ${r.datetime} left out of the dose-response analysis: ${describeUnitMismatch(referenceDose, dose)}`);
+    } else {
+      factorsAffecting.push(`Dose at ${r.datetime} left out of the dose-response analysis: '${r.dose_at_time}' has no recognised units`);
+    }
   });
   
   // Simple linear regression analysis
@@ -351,7 +376,7 @@ function createTrendChartData(
     dose_at_time: string;
     clinical_response: string;
   }>,
-  drugName: string
+  resolvedName: string
 ): Array<{
   datetime: string;
   concentration: number;
@@ -369,7 +394,7 @@ function createTrendChartData(
     'lithium': { lower: 0.6, upper: 1.2 }
   };
   
-  const therapeuticRange = therapeuticRanges[drugName.toLowerCase()] || { lower: 0, upper: 100 };
+  const therapeuticRange = therapeuticRanges[resolvedName] || { lower: 0, upper: 100 };
   
   return results.map(r => ({
     datetime: r.datetime,
@@ -9,6 +9,9 @@ import { McpResponse, McpSuccessResponse } from "../../types/mcp.js";
 import { getResponseFormatter } from "../../services/responseFormatter.js";
 import { validateToolInput } from "../../utils/validators.js";
 import { classifyError, createComprehensiveErrorResponse } from "../../utils/errorHandler.js";
+import { getAuditLog } from "../../services/auditLog.js";
+import { resolveDrugName, ResolvedDrugName } from "../../services/drugNameNormalizer.js";
+import { ParsedSig, parseSig } from "../../utils/sig.js";
 
 // Define the Zod schema for sample collection planning input
 export const PlanSampleCollectionSchema = z.object({
@@ -16,7 +19,7 @@ export const PlanSampleCollectionSchema = z.object({
   drug_name: z.string().describe("Name of the medication"),
   dosing_regimen: z.object({
     dose: z.string().describe("Dose with units"),
-    frequency: z.string().describe("Dosing frequency"),
+    frequency: z.string().describe("Dosing frequency, e.g. 'q12h', 'BID' or 'q8h'; checked against the dose times"),
     route: z.enum(['oral', 'iv_bolus', 'iv_infusion']).describe("Route of administration"),
     infusion_duration: z.number().optional().describe("Infusion duration in minutes (if applicable)"),
     last_dose_datetime: z.string().describe("ISO8601 datetime of last dose"),
@@ -31,6 +34,8 @@ export type PlanSampleCollectionInput = z.infer<typeof PlanSampleCollectionSchem
 // Sample collection plan output
 export interface SampleCollectionOutput {
   collection_plan_id: string;
+  resolved_drug_name: ResolvedDrugName;
+  dosing_frequency: ParsedSig; // The dosing frequency as parsed, with a readable sig
   sample_collection_windows: Array<{
     sample_type: 'trough' | 'peak';
     earliest_time: string;
@@ -53,6 +58,10 @@ export interface SampleCollectionOutput {
   };
 }
 
+// Difference between the dose times and the frequency's interval tolerated before it is flagged
+const DOSE_GAP_TOLERANCE_HOURS = 0.5;
+const DOSE_GAP_TOLERANCE_FRACTION = 0.1;
+
 // ===== TOOL REGISTRATION =====
 
 export function registerPlanSampleCollectionTool(server: McpServer): void {
@@ -77,8 +86,9 @@ export function registerPlanSampleCollectionTool(server: McpServer): void {
 3. For peak IV bolus: ≥1 hour post-dose (avoid distribution phase)
 4. For peak IV infusion: 30 min after infusion completion
 5. Ensure steady state reached (or document reason for early sampling)
+6. Check the last and next dose times against the dosing frequency
 
-**Output:** Returns detailed collection plan with timing windows and specimen requirements.`,
+**Output:** Returns detailed collection plan with timing windows, specimen requirements and the parsed dosing frequency.`,
       inputSchema: PlanSampleCollectionSchema.shape,
     },
     async (input: PlanSampleCollectionInput): Promise<McpResponse<SampleCollectionOutput>> => {
@@ -92,11 +102,22 @@ export function registerPlanSampleCollectionTool(server: McpServer): void {
         // 2. Process sample collection planning
         const collectionOutput = processSampleCollectionPlanning(validatedInput);
 
-        // 3. Format response
+        // 3. Record audit event
+        getAuditLog().recordToolEvent({
+          tool: "plan_sample_collection",
+          patient_id: validatedInput.patient_id,
+          actor: null,
+          input: validatedInput,
+          output: collectionOutput,
+          decision: `Sample collection plan ${collectionOutput.collection_plan_id} created`
+        });
+
+        // 4. Format response
         return responseFormatter.formatGenericToolResponse(collectionOutput, startTime);
 
       } catch (error) {
         const classifiedError = classifyError(error, `Error in plan_sample_collection tool handler`);
+        getAuditLog().recordToolError("plan_sample_collection", input, classifiedError);
         return createComprehensiveErrorResponse(classifiedError, null, { 
           toolName: "plan_sample_collection", 
           userInput: input 
@@ -115,10 +136,12 @@ function processSampleCollectionPlanning(input: PlanSampleCollectionInput): Samp
   const collectionWindows = calculateCollectionWindows(input);
   
   // Determine specimen requirements based on drug
-  const specimenRequirements = determineSpecimenRequirements(input.drug_name);
+  const resolvedDrugName = resolveDrugName(input.drug_name);
+  const specimenRequirements = determineSpecimenRequirements(resolvedDrugName.resolved_name);
   
   // Generate critical timing notes
-  const criticalTimingNotes = generateCriticalTimingNotes(input);
+  const dosingFrequency = parseSig(input.dosing_regimen.frequency);
+  const criticalTimingNotes = generateCriticalTimingNotes(input, dosingFrequency);
   
   // Determine documentation requirements
   const documentationRequired = {
@@ -130,6 +153,8 @@ function processSampleCollectionPlanning(input: PlanSampleCollectionInput): Samp
   
   return {
     collection_plan_id: collectionPlanId,
+    resolved_drug_name: resolvedDrugName,
+    dosing_frequency: dosingFrequency,
     sample_collection_windows: collectionWindows,
     specimen_requirements: specimenRequirements,
     critical_timing_notes: criticalTimingNotes,
@@ -218,23 +243,21 @@ function calculateCollectionWindows(input: PlanSampleCollectionInput): Array<{
   return windows;
 }
 
-function determineSpecimenRequirements(drugName: string): {
+function determineSpecimenRequirements(resolvedName: string): {
   type: 'serum' | 'plasma' | 'whole_blood';
   volume_ml: number;
   collection_tube: string;
   special_handling: string[];
 } {
-  const drugLower = drugName.toLowerCase();
-  
   // Drug-specific specimen requirements
-  if (drugLower.includes('vancomycin') || drugLower.includes('gentamicin') || drugLower.includes('tobramycin')) {
+  if (['vancomycin', 'gentamicin', 'tobramycin'].includes(resolvedName)) {
     return {
       type: 'serum',
       volume_ml: 2,
       collection_tube: 'Red top (serum separator tube)',
       special_handling: ['Centrifuge within 2 hours', 'Store at 2-8°C if not processed immediately']
     };
-  } else if (drugLower.includes('digoxin') || drugLower.includes('phenytoin') || drugLower.includes('lithium')) {
+  } else if (['digoxin', 'phenytoin', 'lithium'].includes(resolvedName)) {
     return {
       type: 'serum',
       volume_ml: 3,
@@ -252,7 +275,7 @@ function determineSpecimenRequirements(drugName: string): {
   }
 }
 
-function generateCriticalTimingNotes(input: PlanSampleCollectionInput): string[] {
+function generateCriticalTimingNotes(input: PlanSampleCollectionInput, dosingFrequency: ParsedSig): string[] {
   const notes: string[] = [];
   
   // Check if steady state has been reached
@@ -264,6 +287,9 @@ function generateCriticalTimingNotes(input: PlanSampleCollectionInput): string[]
     notes.push('Consider delaying sample collection until steady state is achieved');
   }
   
+  // Dosing frequency notes
+  notes.push(...checkDosingFrequency(input, dosingFrequency));
+  
   // Route-specific notes
   if (input.dosing_regimen.route === 'iv_infusion') {
     notes.push('Ensure infusion is completely finished before drawing peak sample');
@@ -282,3 +308,35 @@ function generateCriticalTimingNotes(input: PlanSampleCollectionInput): string[]
   
   return notes;
 }
+
+/**
+ * Notes on the dosing frequency: PRN and continuous dosing have no regular peak and trough, and
+ * the interval between the last and next dose should match the frequency for the trough to be timed.
+ */
+function checkDosingFrequency(input: PlanSampleCollectionInput, dosingFrequency: ParsedSig): string[] {
+  if (!dosingFrequency.recognised) {
+    return [`NOTE: Dosing frequency '${dosingFrequency.text}' not recognised; sample times are based on the dose times given`];
+  }
+  if (dosingFrequency.pattern === 'continuous') {
+    return ['NOTE: Continuous infusion - there is no peak or trough; draw a random level at steady state'];
+  }
+  if (dosingFrequency.prn) {
+    return ['WARNING: PRN dosing - peak and trough levels assume regular doses; document every dose given before the sample'];
+  }
+  
+  const minimumHours = dosingFrequency.interval_hours;
+  if (minimumHours === null) {
+    return [];
+  }
+  const maximumHours = dosingFrequency.interval_hours_max ?? minimumHours;
+  const lastDoseTime = new Date(input.dosing_regimen.last_dose_datetime);
+  const nextDoseTime = new Date(input.dosing_regimen.next_dose_datetime);
+  const doseGapHours = Math.round((nextDoseTime.getTime() - lastDoseTime.getTime()) / (60 * 60 * 1000) * 10) / 10;
+  const tolerance = Math.max(DOSE_GAP_TOLERANCE_HOURS, minimumHours * DOSE_GAP_TOLERANCE_FRACTION);
+  
+  if (doseGapHours < minimumHours - tolerance || doseGapHours > maximumHours + tolerance) {
+    const expected = maximumHours === minimumHours ? `${minimumHours}` : `${minimumHours}-${maximumHours}`;
+    return [`WARNING: Next dose is ${doseGapHours} hours after the last dose but ${dosingFrequency.sig} gives ${expected} hours; check the dose times before timing the trough`];
+  }
+  return [];
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { compareQuantities, formatQuantity, parseQuantity } from './quantities.js';
+
+describe('parseQuantity', () => {
+  it('reads a value and unit from free text', () => {
+    const quantity = parseQuantity('500 mg PO every 8 hours');
+    expect(quantity?.value).toBe(500);
+    expect(quantity?.max).toBeNull();
+    expect(quantity?.unit.symbol).toBe('mg');
+  });
+
+  it('reads thousands separators and leading decimals', () => {
+    expect(parseQuantity('1,000 mg')?.value).toBe(1000);
+    expect(parseQuantity('.5 mg')?.value).toBe(0.5);
+  });
+
+  it('reads ranges', () => {
+    const quantity = parseQuantity('1-2 tablets');
+    expect(quantity?.value).toBe(1);
+    expect(quantity?.max).toBe(2);
+    expect(quantity && formatQuantity(quantity)).toBe('1-2 tablets');
+    expect(parseQuantity('2 to 4 mg')?.max).toBe(4);
+  });
+
+  it('reads concentrations and per-weight rates', () => {
+    expect(parseQuantity('250 mg/5 mL')?.unit.symbol).toBe('mg/5 mL');
+    expect(parseQuantity('2.5 mcg/kg/min')?.unit.symbol).toBe('mcg/kg/min');
+    expect(parseQuantity('0.9%')?.unit.symbol).toBe('%');
+  });
+
+  it('reads a slash fraction of a dose form', () => {
+    const half = parseQuantity('1/2 tab');
+    expect(half?.value).toBe(0.5);
+    expect(half?.unit.symbol).toBe('tablet');
+    expect(parseQuantity('1 1/2 tablets')?.value).toBe(1.5);
+    expect(parseQuantity('1/2-1 tab')).toMatchObject({ value: 0.5, max: 1 });
+  });
+
+  it('reads vulgar fractions', () => {
+    expect(parseQuantity('½ tab')?.value).toBe(0.5);
+    expect(parseQuantity('1½ tablets')?.value).toBe(1.5);
+    expect(parseQuantity('¼ mL')?.value).toBe(0.25);
+  });
+
+  it('rejects a slash fraction before a unit other than a dose form', () => {
+    expect(parseQuantity('5/325 mg')).toBeNull();
+    expect(parseQuantity('1/2 mg/kg')).toBeNull();
+  });
+
+  it('rejects a fraction with a zero denominator', () => {
+    expect(parseQuantity('1/0 tab')).toBeNull();
+  });
+
+  it('skips numbers that are not followed by a unit', () => {
+    expect(parseQuantity('BP 120/80, give 5 mg')?.value).toBe(5);
+    expect(parseQuantity('q8h')).toBeNull();
+    expect(parseQuantity('as directed')).toBeNull();
+  });
+});
+
+describe('compareQuantities', () => {
+  const parse = (text: string) => {
+    const quantity = parseQuantity(text);
+    if (!quantity) throw new Error(`Could not parse ${text}`);
+    return quantity;
+  };
+
+  it('treats equal amounts in different units as equal', () => {
+    expect(compareQuantities(parse('500 mg'), parse('0.5 g')).status).toBe('equal');
+  });
+
+  it('reports a value inside a range as within_range', () => {
+    expect(compareQuantities(parse('1-2 tablets'), parse('2 tablets')).status).toBe('within_range');
+  });
+
+  it('reports the difference from the first quantity', () => {
+    const comparison = compareQuantities(parse('10 mg'), parse('15 mg'));
+    expect(comparison.status).toBe('different');
+    expect(comparison.difference_percent).toBe(50);
+  });
+
+  it('measures a value outside a range from the nearer bound', () => {
+    const above = compareQuantities(parse('15-60 mL/h'), parse('300 mL/h'));
+    expect(above.difference_percent).toBe(400);
+    expect(above.message).toBe('300 mL/h is 400% more than the maximum of 15-60 mL/h');
+    const below = compareQuantities(parse('15-60 mL/h'), parse('12 mL/h'));
+    expect(below.difference_percent).toBe(-20);
+    expect(below.message).toBe('12 mL/h is 20% less than the minimum of 15-60 mL/h');
+  });
+
+  it('reports a range inside another as within_range', () => {
+    expect(compareQuantities(parse('1-4 mg'), parse('2-3 mg')).status).toBe('within_range');
+  });
+
+  it('does not divide by a zero reference', () => {
+    const comparison = compareQuantities(parse('0 mL/h'), parse('5 mL/h'));
+    expect(comparison.status).toBe('different');
+    expect(comparison.difference_percent).toBeNull();
+    expect(comparison.message).toBe('5 mL/h differs from 0 mL/h');
+  });
+
+  it('catches a half tablet confirmed as two', () => {
+    const comparison = compareQuantities(parse('1/2 tab'), parse('2 tablets'));
+    expect(comparison.status).toBe('different');
+    expect(comparison.difference_percent).toBe(300);
+  });
+
+  it('reports units that measure different things as incompatible', () => {
+    const comparison = compareQuantities(parse('500 mg'), parse('10 mL'));
+    expect(comparison.status).toBe('incompatible');
+    expect(comparison.message).toContain('the concentration is needed');
+  });
+});
@@ -0,0 +1,466 @@
+/**
+ * Dose quantity utilities
+ * Parses doses such as "500 mg", "0.5 g", "1-2 tablets", "1/2 tab", "2.5 mcg/kg/min", "40 mEq" or
+ * "250 mg/5 mL" into a value and unit, checks that two quantities measure the same thing, and
+ * converts between units of the same dimension.
+ */
+
+// ===== QUANTITY TYPES =====
+
+export type Dimension =
+  | 'mass'
+  | 'volume'
+  | 'substance'
+  | 'equivalents'
+  | 'activity'
+  | 'dose_form'
+  | 'time'
+  | 'body_weight'
+  | 'body_surface_area';
+
+export interface UnitTerm {
+  symbol: string; // Canonical symbol, e.g. "mcg" or "5 mL"
+  dimension: Dimension;
+  factor: number; // Size in the dimension's base unit: g, L, mol, Eq, unit, one dose form, min, kg or m²
+}
+
+export interface QuantityUnit {
+  symbol: string; // e.g. "mcg/kg/min"
+  numerator: UnitTerm;
+  denominators: UnitTerm[]; // Per volume (concentration), per body weight or BSA, per time (rate)
+}
+
+export interface Quantity {
+  value: number;
+  max: number | null; // Upper end of a range such as "1-2 tablets"
+  unit: QuantityUnit;
+}
+
+export interface ConversionContext {
+  molar_mass_g_mol?: number; // Converts mass to and from mmol
+  valence?: number; // Converts mEq to and from mmol
+}
+
+export interface QuantityComparison {
+  status: 'equal' | 'within_range' | 'different' | 'incompatible';
+  difference_percent: number | null; // Second quantity relative to the first, or its nearest bound; null when incompatible or the first is zero
+  message: string;
+}
+
+// ===== UNIT TABLES =====
+
+interface UnitDefinition extends UnitTerm {
+  aliases: string[];
+}
+
+const MASS_UNITS: UnitDefinition[] = [
+  { symbol: 'kg', dimension: 'mass', factor: 1000, aliases: ['kg', 'kilogram', 'kilograms'] },
+  { symbol: 'g', dimension: 'mass', factor: 1, aliases: ['g', 'gm', 'gram', 'grams'] },
+  { symbol: 'mg', dimension: 'mass', factor: 1e-3, aliases: ['mg', 'milligram', 'milligrams'] },
+  { symbol: 'mcg', dimension: 'mass', factor: 1e-6, aliases: ['mcg', 'µg', 'μg', 'ug', 'microgram', 'micrograms'] },
+  { symbol: 'ng', dimension: 'mass', factor: 1e-9, aliases: ['ng', 'nanogram', 'nanograms'] },
+  { symbol: 'lb', dimension: 'mass', factor: 453.59237, aliases: ['lb', 'lbs', 'pound', 'pounds'] },
+];
+
+const VOLUME_UNITS: UnitDefinition[] = [
+  { symbol: 'L', dimension: 'volume', factor: 1, aliases: ['l', 'liter', 'liters', 'litre', 'litres'] },
+  { symbol: 'dL', dimension: 'volume', factor: 0.1, aliases: ['dl', 'deciliter', 'decilitre'] },
+  { symbol: 'mL', dimension: 'volume', factor: 1e-3, aliases: ['ml', 'cc', 'milliliter', 'milliliters', 'millilitre', 'millilitres'] },
+];
+
+const NUMERATOR_UNITS: UnitDefinition[] = [
+  ...MASS_UNITS,
+  ...VOLUME_UNITS,
+  { symbol: 'mol', dimension: 'substance', factor: 1, aliases: ['mol', 'mole', 'moles'] },
+  { symbol: 'mmol', dimension: 'substance', factor: 1e-3, aliases: ['mmol', 'millimole', 'millimoles'] },
+  { symbol: 'micromol', dimension: 'substance', factor: 1e-6, aliases: ['µmol', 'μmol', 'umol', 'micromol', 'micromole', 'micromoles'] },
+  { symbol: 'Eq', dimension: 'equivalents', factor: 1, aliases: ['eq', 'equivalent', 'equivalents'] },
+  { symbol: 'mEq', dimension: 'equivalents', factor: 1e-3, aliases: ['meq', 'milliequivalent', 'milliequivalents'] },
+  { symbol: 'million units', dimension: 'activity', factor: 1e6, aliases: ['million units', 'million unit', 'million iu'] },
+  { symbol: 'units', dimension: 'activity', factor: 1, aliases: ['units', 'unit', 'u', 'iu', 'international units', 'international unit'] },
+  { symbol: 'tablet', dimension: 'dose_form', factor: 1, aliases: ['tablet', 'tablets', 'tab', 'tabs'] },
+  { symbol: 'capsule', dimension: 'dose_form', factor: 1, aliases: ['capsule', 'capsules', 'cap', 'caps'] },
+  { symbol: 'vial', dimension: 'dose_form', factor: 1, aliases: ['vial', 'vials'] },
+  { symbol: 'ampule', dimension: 'dose_form', factor: 1, aliases: ['ampule', 'ampules', 'ampoule', 'ampoules', 'amp', 'amps'] },
+  { symbol: 'puff', dimension: 'dose_form', factor: 1, aliases: ['puff', 'puffs', 'inhalation', 'inhalations'] },
+  { symbol: 'drop', dimension: 'dose_form', factor: 1, aliases: ['drop', 'drops', 'gtt', 'gtts'] },
+  { symbol: 'patch', dimension: 'dose_form', factor: 1, aliases: ['patch', 'patches'] },
+  { symbol: 'suppository', dimension: 'dose_form', factor: 1, aliases: ['suppository', 'suppositories', 'supp'] },
+  { symbol: 'spray', dimension: 'dose_form', factor: 1, aliases: ['spray', 'sprays'] },
+  { symbol: 'sachet', dimension: 'dose_form', factor: 1, aliases: ['sachet', 'sachets'] },
+];
+
+const TIME_UNITS: UnitDefinition[] = [
+  { symbol: 'min', dimension: 'time', factor: 1, aliases: ['min', 'mins', 'minute', 'minutes'] },
+  { symbol: 'h', dimension: 'time', factor: 60, aliases: ['h', 'hr', 'hrs', 'hour', 'hours'] },
+  { symbol: 'day', dimension: 'time', factor: 1440, aliases: ['day', 'days', 'd'] },
+];
+
+const BODY_SURFACE_AREA_UNIT: UnitDefinition = { symbol: 'm²', dimension: 'body_surface_area', factor: 1, aliases: ['m²', 'm2', 'm^2'] };
+
+const DENOMINATOR_UNITS: UnitDefinition[] = [
+  ...VOLUME_UNITS,
+  { symbol: 'kg', dimension: 'body_weight', factor: 1, aliases: ['kg'] },
+  { symbol: 'lb', dimension: 'body_weight', factor: 0.45359237, aliases: ['lb', 'lbs'] },
+  BODY_SURFACE_AREA_UNIT,
+  ...TIME_UNITS,
+];
+
+// A standalone unit may also be a duration or a BSA; in free text "q8h" is a frequency, not a dose
+const STANDALONE_UNITS: UnitDefinition[] = [...NUMERATOR_UNITS, ...TIME_UNITS, BODY_SURFACE_AREA_UNIT];
+
+// Percent strength (w/v) is grams per 100 mL
+const PERCENT_UNIT: QuantityUnit = {
+  symbol: '%',
+  numerator: { symbol: 'g', dimension: 'mass', factor: 1 },
+  denominators: [{ symbol: '100 mL', dimension: 'volume', factor: 0.1 }],
+};
+
+const DIMENSION_LABELS: Record<Dimension, string> = {
+  mass: 'a mass',
+  volume: 'a volume',
+  substance: 'an amount of substance',
+  equivalents: 'milliequivalents',
+  activity: 'units of activity',
+  dose_form: 'a count of dose forms',
+  time: 'time',
+  body_weight: 'body weight',
+  body_surface_area: 'body surface area',
+};
+
+// What is needed to convert between two dimensions that cannot be converted directly
+const MISMATCH_HINTS: Array<{ dimensions: [Dimension, Dimension]; hint: string }> = [
+  { dimensions: ['mass', 'volume'], hint: 'the concentration' },
+  { dimensions: ['substance', 'volume'], hint: 'the concentration' },
+  { dimensions: ['equivalents', 'volume'], hint: 'the concentration' },
+  { dimensions: ['activity', 'volume'], hint: 'the concentration' },
+  { dimensions: ['mass', 'substance'], hint: 'the molar mass' },
+  { dimensions: ['equivalents', 'substance'], hint: 'the valence' },
+  { dimensions: ['mass', 'equivalents'], hint: 'the molar mass and valence' },
+  { dimensions: ['mass', 'dose_form'], hint: 'the strength of each dose form' },
+];
+
+// What is needed to compare a quantity per something with one that is not
+const DENOMINATOR_HINTS: Record<Dimension, string> = {
+  mass: 'the mass',
+  volume: 'the volume',
+  substance: 'the amount of substance',
+  equivalents: 'the milliequivalents',
+  activity: 'the units of activity',
+  dose_form: 'the number of dose forms',
+  time: 'the duration',
+  body_weight: "the patient's weight",
+  body_surface_area: "the patient's body surface area",
+};
+
+const DEFAULT_TOLERANCE_PERCENT = 0.1;
+
+const NUMBER = String.raw`(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?|\.\d+`;
+const VULGAR_FRACTIONS: Record<string, number> = { '½': 1 / 2, '⅓': 1 / 3, '⅔': 2 / 3, '¼': 1 / 4, '¾': 3 / 4, '⅛': 1 / 8 };
+// "1/2", "1 1/2", "½" or "1½"; tried before NUMBER so the 2 of "1/2 tab" is not read on its own
+const FRACTION = String.raw`(?:\d+\s+)?\d+\s*\/\s*\d+|\d*\s*[${Object.keys(VULGAR_FRACTIONS).join('')}]`;
+const AMOUNT = `${FRACTION}|${NUMBER}`;
+const UNIT_BOUNDARY = /^(?:$|[\s\/,;:.()])/;
+
+// ===== PARSING =====
+
+/**
+ * The first dose quantity in a text such as "500 mg PO every 8 hours", or null when there is none.
+ * A fraction written with a slash is read only as a count of dose forms ("1/2 tab"); before any
+ * other unit it is null, since "5/325 mg" is a combination strength rather than 5/325 of a mg.
+ */
+export function parseQuantity(text: string): Quantity | null {
+  const pattern = new RegExp(`(${AMOUNT})(?:\\s*(?:-|–|to)\\s*(${AMOUNT}))?\\s*`, 'gi');
+  for (const match of text.matchAll(pattern)) {
+    const unit = readUnit(text.slice((match.index ?? 0) + match[0].length));
+    if (unit && match[1]) {
+      const slashFraction = match[0].includes('/');
+      if (slashFraction && (unit.unit.numerator.dimension !== 'dose_form' || unit.unit.denominators.length > 0)) return null;
+      const value = parseNumber(match[1]);
+      const max = match[2] ? parseNumber(match[2]) : null;
+      if (!Number.isFinite(value) || (max !== null && !Number.isFinite(max))) return null;
+      return { value, max: max !== null && max > value ? max : null, unit: unit.unit };
+    }
+  }
+  return null;
+}
+
+/**
+ * A unit such as "mg", "mcg/kg/min", "mg/5 mL", "h" or "m²", or null when the text is not a recognised unit.
+ */
+export function parseUnit(text: string): QuantityUnit | null {
+  const trimmed = text.trim();
+  const unit = readUnit(trimmed, STANDALONE_UNITS);
+  return unit && unit.length === trimmed.length ? unit.unit : null;
+}
+
+/**
+ * A quantity from a separate amount and unit, or null when the unit is not recognised.
+ */
+export function quantityOf(value: number, unitText: string): Quantity | null {
+  const unit = parseUnit(unitText);
+  return unit ? { value, max: null, unit } : null;
+}
+
+function readUnit(text: string, numeratorUnits: UnitDefinition[] = NUMERATOR_UNITS): { unit: QuantityUnit; length: number } | null {
+  if (text.startsWith('%') && UNIT_BOUNDARY.test(text.slice(1))) {
+    return { unit: PERCENT_UNIT, length: 1 };
+  }
+
+  const numerator = matchTerm(text, numeratorUnits);
+  if (!numerator) return null;
+
+  const denominators: UnitTerm[] = [];
+  let position = numerator.length;
+  for (;;) {
+    const separator = /^\s*(?:\/|per\s+)\s*/i.exec(text.slice(position));
+    if (!separator) break;
+    let cursor = position + separator[0].length;
+    const count = /^(\d+(?:\.\d+)?)\s*/.exec(text.slice(cursor));
+    cursor += count ? count[0].length : 0;
+    const denominator = matchTerm(text.slice(cursor), DENOMINATOR_UNITS);
+    if (!denominator) break;
+
+    const multiplier = count?.[1] ? parseFloat(count[1]) : 1;
+    denominators.push(multiplier === 1 ? denominator.term : {
+      symbol: `${multiplier} ${denominator.term.symbol}`,
+      dimension: denominator.term.dimension,
+      factor: denominator.term.factor * multiplier,
+    });
+    position = cursor + denominator.length;
+  }
+
+  return { unit: makeUnit(numerator.term, denominators), length: position };
+}
+
+function matchTerm(text: string, units: UnitDefinition[]): { term: UnitTerm; length: number } | null {
+  const lower = text.toLowerCase();
+  let best: { term: UnitTerm; length: number } | null = null;
+  for (const { aliases, ...term } of units) {
+    for (const alias of aliases) {
+      if (lower.startsWith(alias) && UNIT_BOUNDARY.test(text.slice(alias.length)) && alias.length > (best?.length ?? 0)) {
+        best = { term, length: alias.length };
+      }
+    }
+  }
+  return best;
+}
+
+function makeUnit(numerator: UnitTerm, denominators: UnitTerm[]): QuantityUnit {
+  return {
+    symbol: [numerator.symbol, ...denominators.map(denominator => denominator.symbol)].join('/'),
+    numerator,
+    denominators,
+  };
+}
+
+// A whole number with a fraction ("1 1/2", "1½") is their sum; a zero denominator gives Infinity
+function parseNumber(text: string): number {
+  const slash = /^(?:(\d+)\s+)?(\d+)\s*\/\s*(\d+)$/.exec(text);
+  if (slash) {
+    const [, whole = '0', numerator = '', denominator = ''] = slash;
+    return Number(whole) + Number(numerator) / Number(denominator);
+  }
+  const vulgar = /^(\d*)\s*(\D)$/.exec(text);
+  const fraction = vulgar?.[2] === undefined ? undefined : VULGAR_FRACTIONS[vulgar[2]];
+  if (vulgar && fraction !== undefined) return Number(vulgar[1]) + fraction;
+  return parseFloat(text.replace(/,/g, ''));
+}
+
+// ===== CONVERSION =====
+
+/**
+ * Whether two units measure the same thing, e.g. mg and g, or mg/kg/h and mcg/kg/min.
+ */
+export function sameDimension(a: QuantityUnit, b: QuantityUnit): boolean {
+  return dimensionKey(a) === dimensionKey(b);
+}
+
+/**
+ * Converts a quantity to another unit, or returns null when the dimensions differ and the
+ * context does not bridge them (molar mass for mass and mmol, valence for mmol and mEq).
+ */
+export function convertQuantity(quantity: Quantity, target: QuantityUnit, context: ConversionContext = {}): Quantity | null {
+  const scale = conversionFactor(quantity.unit, target, context);
+  if (scale === null) return null;
+  return {
+    value: round(quantity.value * scale),
+    max: quantity.max === null ? null : round(quantity.max * scale),
+    unit: target,
+  };
+}
+
+/**
+ * Multiplies a quantity per something by an amount of it, e.g. 5 mg/kg by 70 kg gives 350 mg,
+ * 10 mg/mL by 2.5 mL gives 25 mg, and 100 mL/h by 30 min gives 50 mL. Null when the quantity
+ * has no denominator of the amount's dimension.
+ */
+export function cancelDenominator(quantity: Quantity, amount: Quantity): Quantity | null {
+  if (amount.unit.denominators.length > 0) return null;
+  // A weight such as "70 kg" parses as a mass; per kg it is body weight
+  const amountTerm = amount.unit.numerator.dimension === 'mass'
+    ? { dimension: 'body_weight' as const, factor: amount.unit.numerator.factor / 1000 }
+    : amount.unit.numerator;
+  const index = quantity.unit.denominators.findIndex(denominator =>
+    denominator.dimension === amount.unit.numerator.dimension || denominator.dimension === amountTerm.dimension);
+  const denominator = quantity.unit.denominators[index];
+  if (!denominator) return null;
+
+  const amountFactor = denominator.dimension === amountTerm.dimension ? amountTerm.factor : amount.unit.numerator.factor;
+  const scale = amount.value * amountFactor / denominator.factor;
+  return {
+    value: round(quantity.value * scale),
+    max: quantity.max === null ? null : round(quantity.max * scale),
+    unit: makeUnit(quantity.unit.numerator, quantity.unit.denominators.filter((_, position) => position !== index)),
+  };
+}
+
+/**
+ * A quantity multiplied by a factor, keeping its unit.
+ */
+export function scaleQuantity(quantity: Quantity, factor: number): Quantity {
+  return {
+    value: round(quantity.value * factor),
+    max: quantity.max === null ? null : round(quantity.max * factor),
+    unit: quantity.unit,
+  };
+}
+
+function conversionFactor(from: QuantityUnit, to: QuantityUnit, context: ConversionContext): number | null {
+  if (denominatorKey(from) !== denominatorKey(to)) return null;
+
+  const numerator = numeratorFactor(from.numerator, to.numerator, context);
+  if (numerator === null) return null;
+  const fromDenominator = from.denominators.reduce((product, denominator) => product * denominator.factor, 1);
+  const toDenominator = to.denominators.reduce((product, denominator) => product * denominator.factor, 1);
+  return numerator * toDenominator / fromDenominator;
+}
+
+function numeratorFactor(from: UnitTerm, to: UnitTerm, context: ConversionContext): number | null {
+  if (termKey(from) === termKey(to)) return from.factor / to.factor;
+
+  // Bridge mass, mmol and mEq through moles
+  const toMoles = molesPerBaseUnit(from.dimension, context);
+  const fromMoles = molesPerBaseUnit(to.dimension, context);
+  if (toMoles === null || fromMoles === null) return null;
+  return from.factor * toMoles / fromMoles / to.factor;
+}
+
+function molesPerBaseUnit(dimension: Dimension, context: ConversionContext): number | null {
+  if (dimension === 'substance') return 1;
+  if (dimension === 'mass' && context.molar_mass_g_mol) return 1 / context.molar_mass_g_mol;
+  if (dimension === 'equivalents' && context.valence) return 1 / context.valence;
+  return null;
+}
+
+function termKey(term: UnitTerm): string {
+  // Dose forms only count as the same thing when they are the same form
+  return term.dimension === 'dose_form' ? `dose_form:${term.symbol}` : term.dimension;
+}
+
+function denominatorKey(unit: QuantityUnit): string {
+  return unit.denominators.map(termKey).sort().join('/');
+}
+
+function dimensionKey(unit: QuantityUnit): string {
+  return [termKey(unit.numerator), denominatorKey(unit)].join('|');
+}
+
+function round(value: number): number {
+  return Number(value.toPrecision(12));
+}
+
+// ===== COMPARISON AND FORMATTING =====
+
+/**
+ * Compares a second quantity with a first, e.g. a prepared dose with the ordered dose. A single
+ * value inside a range is within_range, and one outside it differs by its distance from the nearer
+ * bound; quantities whose units measure different things are incompatible, with a message naming
+ * the units and what would be needed to compare them.
+ */
+export function compareQuantities(
+  first: Quantity,
+  second: Quantity,
+  context: ConversionContext = {},
+  tolerancePercent: number = DEFAULT_TOLERANCE_PERCENT
+): QuantityComparison {
+  const converted = convertQuantity(second, first.unit, context);
+  if (!converted) {
+    return { status: 'incompatible', difference_percent: null, message: describeUnitMismatch(first, second) };
+  }
+
+  const restated = converted.unit.symbol === second.unit.symbol ? '' : ` (${formatQuantity(converted)})`;
+  const close = (a: number, b: number) => Math.abs(a - b) <= Math.abs(b) * tolerancePercent / 100;
+  const highEnd = (quantity: Quantity) => quantity.max ?? quantity.value;
+
+  if (close(converted.value, first.value) && close(highEnd(converted), highEnd(first))) {
+    return { status: 'equal', difference_percent: 0, message: `${formatQuantity(second)}${restated} equals ${formatQuantity(first)}` };
+  }
+  if (first.max !== null && converted.value >= first.value * (1 - tolerancePercent / 100) &&
+      highEnd(converted) <= first.max * (1 + tolerancePercent / 100)) {
+    return { status: 'within_range', difference_percent: 0, message: `${formatQuantity(second)}${restated} is within ${formatQuantity(first)}` };
+  }
+
+  const aboveRange = first.max !== null && highEnd(converted) > first.max;
+  const measured = aboveRange ? highEnd(converted) : converted.value;
+  const reference = aboveRange ? highEnd(first) : first.value;
+  if (reference === 0) {
+    return { status: 'different', difference_percent: null, message: `${formatQuantity(second)}${restated} differs from ${formatQuantity(first)}` };
+  }
+
+  const differencePercent = Math.round((measured - reference) / reference * 1000) / 10;
+  const direction = differencePercent > 0 ? 'more' : 'less';
+  const bound = first.max === null ? '' : aboveRange ? 'the maximum of ' : 'the minimum of ';
+  return {
+    status: 'different',
+    difference_percent: differencePercent,
+    message: `${formatQuantity(second)}${restated} is ${Math.abs(differencePercent)}% ${direction} than ${bound}${formatQuantity(first)}`
+  };
+}
+
+/**
+ * Explains why two quantities cannot be compared, e.g. "500 mg is a mass but 10 mL is a volume;
+ * the concentration is needed to compare them".
+ */
+export function describeUnitMismatch(first: Quantity, second: Quantity): string {
+  const what = `${formatQuantity(first)} is ${describeDimension(first.unit)} but ${formatQuantity(second)} is ${describeDimension(second.unit)}`;
+
+  if (denominatorKey(first.unit) !== denominatorKey(second.unit)) {
+    const missing = [...new Set([...first.unit.denominators, ...second.unit.denominators]
+      .filter(term => first.unit.denominators.some(other => other.dimension === term.dimension) !==
+                      second.unit.denominators.some(other => other.dimension === term.dimension))
+      .map(term => DENOMINATOR_HINTS[term.dimension]))];
+    return missing.length > 0
+      ? `${what}; ${missing.join(' and ')} ${missing.length > 1 ? 'are' : 'is'} needed to compare them`
+      : `${what}; they cannot be compared`;
+  }
+
+  const hint = MISMATCH_HINTS.find(({ dimensions }) =>
+    dimensions.includes(first.unit.numerator.dimension) && dimensions.includes(second.unit.numerator.dimension) &&
+    first.unit.numerator.dimension !== second.unit.numerator.dimension)?.hint;
+  return hint ? `${what}; ${hint} is needed to compare them` : `${what}; they cannot be compared`;
+}
+
+/**
+ * What a unit measures, e.g. "a mass per body weight per time (mcg/kg/min)".
+ */
+export function describeDimension(unit: QuantityUnit): string {
+  const numerator = unit.numerator.dimension === 'dose_form' ? `a count of ${plural(unit.numerator.symbol)}` : DIMENSION_LABELS[unit.numerator.dimension];
+  const per = unit.denominators.map(denominator => ` per ${DIMENSION_LABELS[denominator.dimension].replace(/^an? /, '')}`).join('');
+  return `${numerator}${per} (${unit.symbol})`;
+}
+
+/**
+ * A quantity as text, e.g. "500 mg", "1-2 tablets" or "0.9%".
+ */
+export function formatQuantity(quantity: Quantity): string {
+  const value = quantity.max === null ? `${quantity.value}` : `${quantity.value}-${quantity.max}`;
+  if (quantity.unit.symbol === '%') return `${value}%`;
+  const countable = quantity.unit.numerator.dimension === 'dose_form' && quantity.unit.denominators.length === 0;
+  return `${value} ${countable && (quantity.max !== null || quantity.value !== 1) ? plural(quantity.unit.symbol) : quantity.unit.symbol}`;
+}
+
+function plural(doseForm: string): string {
+  if (doseForm.endsWith('y')) return `${doseForm.slice(0, -1)}ies`;
+  return doseForm.endsWith('ch') ? `${doseForm}es` : `${doseForm}s`;
+}
@@ -0,0 +1,383 @@
+/**
+ * Sig and frequency utilities
+ * Parses dosing frequencies such as "BID", "q8h", "q6h PRN pain max 4/day", "daily at 0800 with
+ * food" or "Mon/Wed/Fri" into a structured schedule, and formats a schedule back into a readable sig.
+ */
+
+// ===== SIG TYPES =====
+
+export type DayOfWeek = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export type TimeAnchor = 'morning' | 'noon' | 'evening' | 'bedtime';
+
+export type MealTiming = 'before' | 'with' | 'after';
+
+export interface ParsedSig {
+  text: string; // As written
+  sig: string; // Readable sig formatted from the parsed schedule; the text as written when not recognised
+  recognised: boolean; // False when neither a frequency nor PRN use was found
+  pattern: 'interval' | 'times_daily' | 'days_of_week' | 'once' | 'continuous' | null;
+  interval_hours: number | null; // Shortest time between doses: 8 for q8h, 12 for BID, 48 for Mon/Wed/Fri
+  interval_hours_max: number | null; // Upper end of a range such as q4-6h
+  doses_per_day: number | null; // On a dosing day; null for intervals longer than a day
+  days_of_week: DayOfWeek[]; // Empty for every day
+  times: string[]; // Clock times as HH:MM
+  anchors: TimeAnchor[]; // Named times such as "at bedtime", set to clock times by the facility
+  meal_timing: MealTiming | null;
+  prn: boolean;
+  prn_reason: string | null;
+  max_doses_per_day: number | null;
+  unparsed_text: string | null; // Words that were not understood
+}
+
+// ===== SIG VOCABULARY =====
+
+const DAYS: Array<{ day: DayOfWeek; name: string; aliases: string[] }> = [
+  { day: 'mon', name: 'Monday', aliases: ['mon', 'monday', 'mondays'] },
+  { day: 'tue', name: 'Tuesday', aliases: ['tue', 'tues', 'tuesday', 'tuesdays'] },
+  { day: 'wed', name: 'Wednesday', aliases: ['wed', 'weds', 'wednesday', 'wednesdays'] },
+  { day: 'thu', name: 'Thursday', aliases: ['thu', 'thur', 'thurs', 'thursday', 'thursdays'] },
+  { day: 'fri', name: 'Friday', aliases: ['fri', 'friday', 'fridays'] },
+  { day: 'sat', name: 'Saturday', aliases: ['sat', 'saturday', 'saturdays'] },
+  { day: 'sun', name: 'Sunday', aliases: ['sun', 'sunday', 'sundays'] },
+];
+
+const ANCHORS: Array<{ anchor: TimeAnchor; phrase: string; pattern: RegExp; daily: RegExp }> = [
+  { anchor: 'morning', phrase: 'in the morning', pattern: /\b(?:in the morning|mornings?|mane)\b/, daily: /\b(?:qam|every morning)\b/ },
+  { anchor: 'noon', phrase: 'at noon', pattern: /\b(?:at noon|noon|midday|lunchtime)\b/, daily: /\bevery noon\b/ },
+  { anchor: 'evening', phrase: 'in the evening', pattern: /\b(?:in the evening|evenings?)\b/, daily: /\b(?:qpm|every evening)\b/ },
+  { anchor: 'bedtime', phrase: 'at bedtime', pattern: /\b(?:at bedtime|bedtime|at night|hs|nocte)\b/, daily: /\b(?:qhs|nightly|every night)\b/ },
+];
+
+// Clock times for named times when the facility has not set its own
+export const DEFAULT_ANCHOR_TIMES: Record<TimeAnchor, string> = {
+  morning: '08:00',
+  noon: '12:00',
+  evening: '18:00',
+  bedtime: '22:00',
+};
+
+const MEAL_TIMINGS: Array<{ timing: MealTiming; phrase: string; pattern: RegExp }> = [
+  { timing: 'before', phrase: 'before meals', pattern: /\b(?:\d+\s*(?:min|mins|minutes)\s+)?(?:before (?:meals?|food|breakfast|lunch|dinner|supper|eating)|on an empty stomach|empty stomach|ac)\b/ },
+  { timing: 'with', phrase: 'with food', pattern: /\bwith (?:food|meals?|a meal|breakfast|lunch|dinner|supper|milk)\b/ },
+  { timing: 'after', phrase: 'after meals', pattern: /\b(?:after (?:meals?|food|breakfast|lunch|dinner|supper|eating)|pc)\b/ },
+];
+
+const NUMBER_WORDS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5, six: 6 };
+const TIMES_DAILY_NAMES: Record<number, string> = { 1: 'once daily', 2: 'twice daily', 3: 'three times daily', 4: 'four times daily' };
+const COUNT = String.raw`(\d+|one|two|three|four|five|six)`;
+const PER_DAY = String.raw`(?:daily|a day|per day|\/\s*day|each day|in 24\s*(?:h|hrs?|hours))`;
+
+// A 24-hour time as 08:00 or 0800; never a number followed by a dose unit, such as "1000 mg"
+const TIME_24 = String.raw`(?:(?:[01]?\d|2[0-3]):[0-5]\d|(?:[01]\d|2[0-3])[0-5]\d)\b(?!\s*(?:mg|g|gm|grams?|mcg|ug|µg|micrograms?|milligrams?|units?|iu|ml|l|meq|mmol|tabs?|tablets?|caps?|capsules?|puffs?|drops?|sprays?)\b)`;
+const TIME_SEPARATOR = String.raw`\s*(?:,|and|&|\/)\s*`;
+
+const HOURS_PER_DAY = 24;
+const HOURS_PER_WEEK = 168;
+
+// Share of the even spacing enforced between doses of a times-daily frequency that lists no times,
+// since standard administration times (TID at 08:00, 14:00 and 22:00) are not evenly spaced
+const EVEN_SPACING_MINIMUM_FRACTION = 0.5;
+
+// Words that carry no schedule, left over once everything else has been read
+const FILLER_WORDS = new Set(['and', 'at', 'on', 'the', 'then', 'of', 'for', 'in', 'a', 'take', 'give', 'dose', 'doses', 'po', 'orally', 'by', 'mouth']);
+
+// ===== PARSING =====
+
+/**
+ * A structured schedule from a sig or frequency as written. A sig without a recognisable
+ * frequency or PRN use is returned with recognised false and its text kept as the sig.
+ */
+export function parseSig(text: string): ParsedSig {
+  // Abbreviations may be dotted ("q.i.d.", "p.r.n."); decimal points are kept
+  let rest = ` ${text.toLowerCase().replace(/(?<!\d)\.|\.(?!\d)/g, '')} `;
+  const take = (pattern: RegExp): RegExpExecArray | null => {
+    const match = pattern.exec(rest);
+    if (match) rest = `${rest.slice(0, match.index)} , ${rest.slice(match.index + match[0].length)}`;
+    return match;
+  };
+  const takeAll = (pattern: RegExp): RegExpExecArray[] => {
+    const matches: RegExpExecArray[] = [];
+    for (let match = take(pattern); match; match = take(pattern)) matches.push(match);
+    return matches;
+  };
+
+  const sig: ParsedSig = {
+    text,
+    sig: text,
+    recognised: false,
+    pattern: null,
+    interval_hours: null,
+    interval_hours_max: null,
+    doses_per_day: null,
+    days_of_week: [],
+    times: [],
+    anchors: [],
+    meal_timing: null,
+    prn: false,
+    prn_reason: null,
+    max_doses_per_day: null,
+    unparsed_text: null,
+  };
+
+  // Maximum daily count first, so its number is not read as a frequency or a time
+  const max = take(new RegExp(String.raw`\b(?:max(?:imum)?(?: of)?|not to exceed|not more than|no more than|up to)\s*${COUNT}\s*(?:doses?|times|tabs?|tablets?|caps?|capsules?|puffs?)?\s*(?:\/|per|in|a|each)?\s*(?:day|24\s*(?:h|hrs?|hours))\b`));
+  if (max?.[1]) sig.max_doses_per_day = readCount(max[1]);
+
+  for (const { timing, pattern } of MEAL_TIMINGS) {
+    if (take(pattern)) {
+      sig.meal_timing = timing;
+      break;
+    }
+  }
+
+  readFrequency(sig, take);
+
+  for (const { anchor, pattern, daily } of ANCHORS) {
+    const everyDay = take(daily);
+    if (everyDay || take(pattern)) sig.anchors.push(anchor);
+    if (everyDay && sig.pattern === null) sig.pattern = 'times_daily';
+  }
+
+  for (const match of takeAll(/\b(1[0-2]|0?[1-9])(?::([0-5]\d))?\s*(am|pm)\b/)) {
+    const hour = Number(match[1]) % 12 + (match[3] === 'pm' ? 12 : 0);
+    sig.times.push(clockTime(hour, Number(match[2] ?? 0)));
+  }
+  // 24-hour times as 08:00 anywhere, but 0800 only after "at" or "@" or in a list of times,
+  // so a bare number such as a 1500 mg dose is not read as 15:00
+  const timeList = new RegExp(String.raw`(\bat\s+|@\s*)?\b(${TIME_24}(?:${TIME_SEPARATOR}${TIME_24})*)`, 'g');
+  rest = rest.replace(timeList, (whole, introduced: string | undefined, list: string) => {
+    const times = list.split(new RegExp(TIME_SEPARATOR));
+    if (!introduced && times.length === 1 && !list.includes(':')) return whole;
+    for (const time of times) {
+      const match = /^(\d{1,2}):(\d{2})$|^(\d{2})(\d{2})$/.exec(time);
+      if (match) sig.times.push(clockTime(Number(match[1] ?? match[3]), Number(match[2] ?? match[4])));
+    }
+    return ' , ';
+  });
+  sig.times = [...new Set(sig.times)].sort();
+
+  for (const { day, aliases } of DAYS) {
+    if (take(new RegExp(String.raw`\b(?:${aliases.join('|')})\b`))) sig.days_of_week.push(day);
+  }
+
+  const prn = take(/\b(?:prn|as needed|as required|when required|if needed)\b(?:\s+for\b)?/);
+  if (prn) {
+    sig.prn = true;
+    const reason = /^([^,;()]*)/.exec(rest.slice(prn.index + 3))?.[1]?.trim();
+    if (reason) {
+      sig.prn_reason = reason;
+      rest = `${rest.slice(0, prn.index + 3)}${rest.slice(prn.index + 3).replace(reason, ' ')}`;
+    }
+  }
+
+  completeSchedule(sig);
+  const leftover = rest.split(/[\s,;:()\/-]+/).filter(word => word && !FILLER_WORDS.has(word));
+  sig.unparsed_text = leftover.length > 0 ? leftover.join(' ') : null;
+  sig.recognised = sig.pattern !== null || sig.prn;
+  sig.sig = sig.recognised ? formatSig(sig) : text;
+  return sig;
+}
+
+function readFrequency(sig: ParsedSig, take: (pattern: RegExp) => RegExpExecArray | null): void {
+  const hours = String.raw`(?:h|hr|hrs|hour|hours)`;
+  const setIntervalHours = (minimum: number, maximum: number | null = null) => {
+    sig.pattern = 'interval';
+    sig.interval_hours = minimum;
+    sig.interval_hours_max = maximum;
+  };
+
+  if (take(/\bcontinuous(?:ly)?(?: infusion)?\b/)) {
+    sig.pattern = 'continuous';
+    return;
+  }
+
+  const range = take(new RegExp(String.raw`\b(?:q|every)\s*(\d+(?:\.\d+)?)\s*(?:-|to)\s*(\d+(?:\.\d+)?)\s*${hours}\b`));
+  const interval = range ? null : take(new RegExp(String.raw`\b(?:q|every)\s*(\d+(?:\.\d+)?)\s*${hours}\b`));
+  const days = range || interval ? null : take(/\b(?:q|every)\s*(\d+)\s*(?:d|days?)\b/);
+  const weeks = range || interval || days ? null : take(/\b(?:q|every)\s*(\d+)\s*(?:wk|wks|weeks?)\b/);
+  if (range?.[1] && range[2]) return setIntervalHours(Number(range[1]), Number(range[2]));
+  if (interval?.[1]) return setIntervalHours(Number(interval[1]));
+  if (days?.[1]) return setIntervalHours(Number(days[1]) * HOURS_PER_DAY);
+  if (weeks?.[1]) return setIntervalHours(Number(weeks[1]) * HOURS_PER_WEEK);
+  if (take(/\b(?:qod|every other day|alternate days|on alternate days)\b/)) return setIntervalHours(2 * HOURS_PER_DAY);
+  if (take(/\b(?:once weekly|once a week|weekly|every week|qwk|qweek)\b/)) return setIntervalHours(HOURS_PER_WEEK);
+
+  const named = take(/\b(bid|tid|qid|twice (?:daily|a day|per day))\b/);
+  const counted = named ? null : take(new RegExp(String.raw`\b${COUNT}\s*(?:x|times)\s*${PER_DAY}`));
+  const timesDaily = named?.[1] ? ({ bid: 2, tid: 3, qid: 4 } as Record<string, number>)[named[1]] ?? 2
+    : counted?.[1] ? readCount(counted[1])
+    : take(/\b(?:once daily|once a day|once per day|daily|qd|qday|od|every day|each day)\b/) ? 1
+    : null;
+  if (timesDaily !== null) {
+    sig.pattern = 'times_daily';
+    sig.doses_per_day = timesDaily;
+    return;
+  }
+
+  if (take(/\b(?:stat|once only|one time only|single dose|one dose|once)\b/)) {
+    sig.pattern = 'once';
+  }
+}
+
+/**
+ * Fills in what the written sig implies: the number of doses and the interval from the listed
+ * times or named times, and a days-of-week schedule from the listed days.
+ */
+function completeSchedule(sig: ParsedSig): void {
+  const listedTimes = [...sig.times, ...sig.anchors.map(anchor => DEFAULT_ANCHOR_TIMES[anchor])];
+
+  if (sig.pattern === null && listedTimes.length > 0) {
+    sig.pattern = 'times_daily';
+  }
+  if (sig.days_of_week.length > 0 && (sig.pattern === null || sig.pattern === 'times_daily' ||
+      (sig.pattern === 'interval' && sig.interval_hours === HOURS_PER_WEEK))) {
+    sig.pattern = 'days_of_week';
+  }
+
+  if (sig.pattern === 'times_daily' || sig.pattern === 'days_of_week') {
+    sig.doses_per_day ??= Math.max(listedTimes.length, 1);
+    const sameDayGap = smallestGap(listedTimes.map(minutesOfDay), 24 * 60);
+    const daysGap = sig.days_of_week.length > 0
+      ? (smallestGap(sig.days_of_week.map(day => DAYS.findIndex(entry => entry.day === day)), 7) ?? 7) * HOURS_PER_DAY
+      : HOURS_PER_DAY;
+    sig.interval_hours = sig.doses_per_day > 1
+      ? sameDayGap !== null && listedTimes.length === sig.doses_per_day ? sameDayGap / 60 : round2(HOURS_PER_DAY / sig.doses_per_day)
+      : daysGap;
+  } else if (sig.pattern === 'interval' && sig.interval_hours !== null && sig.interval_hours <= HOURS_PER_DAY) {
+    sig.doses_per_day = round2(HOURS_PER_DAY / sig.interval_hours);
+  } else if (sig.pattern === 'once') {
+    sig.doses_per_day = 1;
+  }
+}
+
+function readCount(text: string): number {
+  return NUMBER_WORDS[text] ?? Number(text);
+}
+
+// ===== FORMATTING =====
+
+/**
+ * A readable sig for a schedule, e.g. "every 6 hours as needed for pain, max 4 doses per day".
+ * The result parses back to the same schedule.
+ */
+export function formatSig(sig: ParsedSig): string {
+  const parts: string[] = [];
+  const frequency = formatFrequency(sig);
+  if (frequency) parts.push(frequency);
+
+  if (sig.days_of_week.length > 0) {
+    parts.push(`on ${joinWords(DAYS.filter(({ day }) => sig.days_of_week.includes(day)).map(({ name }) => name))}`);
+  }
+  if (sig.times.length > 0) parts.push(`at ${joinWords(sig.times)}`);
+  if (sig.anchors.length > 0) {
+    parts.push(joinWords(ANCHORS.filter(({ anchor }) => sig.anchors.includes(anchor)).map(({ phrase }) => phrase)));
+  }
+  if (sig.meal_timing) {
+    parts.push(MEAL_TIMINGS.find(({ timing }) => timing === sig.meal_timing)?.phrase ?? '');
+  }
+  if (sig.prn) parts.push(sig.prn_reason ? `as needed for ${sig.prn_reason}` : 'as needed');
+
+  const text = parts.join(' ');
+  return sig.max_doses_per_day !== null ? `${text}, max ${sig.max_doses_per_day} doses per day` : text;
+}
+
+function formatFrequency(sig: ParsedSig): string | null {
+  switch (sig.pattern) {
+    case 'continuous':
+      return 'continuously';
+    case 'once':
+      return 'once';
+    case 'days_of_week':
+      if (sig.doses_per_day !== null && sig.doses_per_day > 1) return timesDaily(sig.doses_per_day);
+      return sig.days_of_week.length === 1 ? 'once weekly' : null;
+    case 'times_daily':
+      return timesDaily(sig.doses_per_day ?? 1);
+    case 'interval': {
+      const hours = sig.interval_hours ?? 0;
+      if (sig.interval_hours_max !== null) return `every ${hours}-${sig.interval_hours_max} hours`;
+      if (hours === HOURS_PER_DAY) return 'once daily';
+      if (hours === 2 * HOURS_PER_DAY) return 'every other day';
+      if (hours === HOURS_PER_WEEK) return 'once weekly';
+      if (hours > HOURS_PER_DAY && hours % HOURS_PER_WEEK === 0) return `every ${hours / HOURS_PER_WEEK} weeks`;
+      if (hours > HOURS_PER_DAY && hours % HOURS_PER_DAY === 0) return `every ${hours / HOURS_PER_DAY} days`;
+      return hours === 1 ? 'every hour' : `every ${hours} hours`;
+    }
+    default:
+      return null;
+  }
+}
+
+function timesDaily(count: number): string {
+  return TIMES_DAILY_NAMES[count] ?? `${count} times daily`;
+}
+
+function joinWords(words: string[]): string {
+  return words.length > 1 ? `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}` : words.join('');
+}
+
+// ===== SCHEDULE HELPERS =====
+
+/**
+ * The shortest time allowed between doses in hours, from the interval or else from a maximum
+ * daily count spread over the day; null when the sig gives neither. A times-daily frequency that
+ * lists no times allows half its even spacing, e.g. 4 h for TID.
+ */
+export function minimumIntervalHours(sig: ParsedSig): number | null {
+  if (sig.interval_hours !== null) {
+    return isEvenlySpaced(sig) ? round2(sig.interval_hours * EVEN_SPACING_MINIMUM_FRACTION) : sig.interval_hours;
+  }
+  return sig.max_doses_per_day !== null ? round2(HOURS_PER_DAY / sig.max_doses_per_day) : null;
+}
+
+/**
+ * Whether the interval is 24 h divided by the doses per day rather than taken from listed times,
+ * as for "TID" or "BID on Mon/Thu".
+ */
+export function isEvenlySpaced(sig: ParsedSig): boolean {
+  return (sig.pattern === 'times_daily' || sig.pattern === 'days_of_week') &&
+    sig.times.length === 0 && sig.anchors.length === 0 &&
+    sig.doses_per_day !== null && sig.doses_per_day > 1;
+}
+
+/**
+ * The day of the week of an ISO8601 datetime, on the calendar date as written (in its own offset).
+ */
+export function dayOfWeekOf(isoDatetime: string): DayOfWeek | null {
+  const date = /^(\d{4})-(\d{2})-(\d{2})/.exec(isoDatetime);
+  if (!date) return null;
+  const weekday = new Date(Date.UTC(Number(date[1]), Number(date[2]) - 1, Number(date[3]))).getUTCDay();
+  return DAYS[(weekday + 6) % 7]?.day ?? null;
+}
+
+/**
+ * Days from one day of the week to the next of the listed days, from 1 to 7; null when none are listed.
+ */
+export function daysUntilNext(from: DayOfWeek, days: DayOfWeek[]): number | null {
+  const start = DAYS.findIndex(({ day }) => day === from);
+  for (let offset = 1; offset <= 7; offset++) {
+    const day = DAYS[(start + offset) % 7]?.day;
+    if (day && days.includes(day)) return offset;
+  }
+  return null;
+}
+
+function clockTime(hour: number, minute: number): string {
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+function minutesOfDay(time: string): number {
+  const [hour = 0, minute = 0] = time.split(':').map(Number);
+  return hour * 60 + minute;
+}
+
+// Smallest gap between points on a cycle, e.g. minutes in a day or days in a week
+function smallestGap(points: number[], cycle: number): number | null {
+  const sorted = [...new Set(points)].sort((a, b) => a - b);
+  if (sorted.length < 2) return sorted.length === 1 ? cycle : null;
+  return Math.min(...sorted.map((point, index) => ((sorted[index + 1] ?? (sorted[0] ?? 0) + cycle) - point)));
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}